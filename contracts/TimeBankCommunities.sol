@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { TimeBankStorage } from "./TimeBankStorage.sol";
+
+/// @notice Lists the communities of one deployment, each running its own TimeBankFHE with its own
+/// admins, members, batches, service types, records and balances.
+/// @dev Hours only move between two communities once the admins of both have opened transfers to the other.
+contract TimeBankCommunities {
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+
+    struct Community {
+        string name;
+        address bank;
+        address registeredBy;
+        uint64 deployBlock; // where indexers start reading the bank's events
+    }
+    uint256 public communityCount;
+    mapping(uint256 => Community) public communities;
+    mapping(address => uint256) public communityOfBank;
+    mapping(uint256 => mapping(uint256 => bool)) public isTransferPartner;
+
+    event CommunityRegistered(uint256 indexed communityId, address indexed bank, string name, address indexed registeredBy);
+    event TransferPartnerSet(uint256 indexed communityId, uint256 indexed partnerId, bool open, address indexed sender);
+
+    error InvalidCommunity();
+    error NotCommunityAdmin();
+    error AlreadyRegistered();
+    error EmptyName();
+
+    /// @notice The bank's owner lists it here, after pointing the bank at this registry.
+    function registerCommunity(address bank, string calldata name, uint64 deployBlock) external returns (uint256 communityId) {
+        if (bytes(name).length == 0) revert EmptyName();
+        if (communityOfBank[bank] != 0) revert AlreadyRegistered();
+        if (TimeBankStorage(bank).owner() != msg.sender) revert NotCommunityAdmin();
+        if (TimeBankStorage(bank).communityRegistry() != address(this)) revert InvalidCommunity();
+
+        communityId = ++communityCount;
+        communities[communityId] = Community({ name: name, bank: bank, registeredBy: msg.sender, deployBlock: deployBlock });
+        communityOfBank[bank] = communityId;
+        emit CommunityRegistered(communityId, bank, name, msg.sender);
+    }
+
+    /// @notice An admin of `communityId` opens or closes transfers between it and `partnerId`.
+    /// @dev Registration cannot tell a TimeBankFHE from a look-alike, so only open transfers to banks you trust.
+    function setTransferPartner(uint256 communityId, uint256 partnerId, bool open) external {
+        address bank = communities[communityId].bank;
+        if (bank == address(0) || communities[partnerId].bank == address(0) || communityId == partnerId) revert InvalidCommunity();
+        if (!TimeBankStorage(bank).hasRole(ADMIN_ROLE, msg.sender)) revert NotCommunityAdmin();
+
+        isTransferPartner[communityId][partnerId] = open;
+        emit TransferPartnerSet(communityId, partnerId, open, msg.sender);
+    }
+
+    /// @notice Whether members of `fromBank` may send hours to members of `toBank`.
+    function canTransfer(address fromBank, address toBank) external view returns (bool) {
+        uint256 fromId = communityOfBank[fromBank];
+        uint256 toId = communityOfBank[toBank];
+        return fromId != 0 && toId != 0 && isTransferPartner[fromId][toId] && isTransferPartner[toId][fromId];
+    }
+}
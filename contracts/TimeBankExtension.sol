@@ -0,0 +1,301 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { TimeBankStorage } from "./TimeBankStorage.sol";
+import { TimeBankCommunities } from "./TimeBankCommunities.sol";
+
+/// @notice Disputes, ratings, pledges and community transfers for TimeBankFHE, split out to keep it under the contract size limit.
+/// @dev Only ever runs through delegatecall from TimeBankFHE, against its storage.
+contract TimeBankExtension is TimeBankStorage {
+    address private immutable self = address(this);
+
+    error DirectCallNotAllowed();
+
+    modifier onlyDelegated() {
+        if (address(this) == self) revert DirectCallNotAllowed();
+        _;
+    }
+
+    /// @notice Either party contests the hours of an accepted exchange; one dispute per exchange.
+    function openDispute(uint256 exchangeId, string calldata reason) external onlyDelegated whenNotPaused {
+        Exchange storage exchange = exchanges[exchangeId];
+        if (exchange.status != ExchangeStatus.Accepted) revert InvalidExchangeState();
+        if (msg.sender != exchange.provider && msg.sender != exchange.receiver) revert NotExchangeParty();
+        if (disputes[exchangeId].status != DisputeStatus.None) revert InvalidDisputeState();
+
+        disputes[exchangeId] = Dispute({
+            status: DisputeStatus.Open,
+            openedBy: msg.sender,
+            coordinator: address(0),
+            resolution: DisputeResolution.None
+        });
+        emit DisputeOpened(exchangeId, msg.sender, reason);
+    }
+
+    /// @notice Coordinators claim a dispute for themselves; admins may assign any coordinator.
+    function assignDispute(uint256 exchangeId, address coordinator) external onlyDelegated whenNotPaused onlyRoleOrAdmin(COORDINATOR_ROLE) {
+        Dispute storage dispute = _openDispute(exchangeId);
+        if (coordinator != msg.sender && !hasRole(ADMIN_ROLE, msg.sender)) revert MissingRole(ADMIN_ROLE, msg.sender);
+        if (!hasRole(COORDINATOR_ROLE, coordinator) && !hasRole(ADMIN_ROLE, coordinator)) revert MissingRole(COORDINATOR_ROLE, coordinator);
+        Exchange storage exchange = exchanges[exchangeId];
+        if (coordinator == exchange.provider || coordinator == exchange.receiver) revert ConflictOfInterest();
+
+        dispute.coordinator = coordinator;
+        emit DisputeAssigned(exchangeId, coordinator, msg.sender);
+    }
+
+    /// @notice Notes are public; keep anything private off-chain and reference it here.
+    function addDisputeEvidence(uint256 exchangeId, string calldata note) external onlyDelegated whenNotPaused {
+        Dispute storage dispute = _openDispute(exchangeId);
+        Exchange storage exchange = exchanges[exchangeId];
+        if (msg.sender != exchange.provider && msg.sender != exchange.receiver && msg.sender != dispute.coordinator) {
+            revert NotDisputeParticipant();
+        }
+        emit DisputeEvidenceAdded(exchangeId, msg.sender, note);
+    }
+
+    function upholdDispute(uint256 exchangeId) external onlyDelegated whenNotPaused {
+        _checkDisputeCoordinator(exchangeId);
+        _resolveDispute(exchangeId, DisputeResolution.Upheld, exchangeTransferred[exchangeId], MAX_BASIS_POINTS);
+    }
+
+    /// @notice The provider keeps `encryptedHours` (at most what was transferred); the rest goes back.
+    function adjustDispute(uint256 exchangeId, externalEuint32 encryptedHours, bytes calldata inputProof) external onlyDelegated whenNotPaused {
+        _checkDisputeCoordinator(exchangeId);
+        _resolveDispute(exchangeId, DisputeResolution.Adjusted, FHE.fromExternal(encryptedHours, inputProof), 0);
+    }
+
+    /// @notice The provider keeps `providerShareBasisPoints` of the transferred hours.
+    function splitDispute(uint256 exchangeId, uint16 providerShareBasisPoints) external onlyDelegated whenNotPaused {
+        _checkDisputeCoordinator(exchangeId);
+        if (providerShareBasisPoints > MAX_BASIS_POINTS) revert InvalidShare();
+        euint64 share = FHE.div(FHE.mul(FHE.asEuint64(exchangeTransferred[exchangeId]), uint64(providerShareBasisPoints)), uint64(MAX_BASIS_POINTS));
+        _resolveDispute(exchangeId, DisputeResolution.Split, FHE.asEuint32(share), providerShareBasisPoints);
+    }
+
+    function voidDispute(uint256 exchangeId) external onlyDelegated whenNotPaused {
+        _checkDisputeCoordinator(exchangeId);
+        _resolveDispute(exchangeId, DisputeResolution.Voided, FHE.asEuint32(0), 0);
+    }
+
+    /// @notice Receiver rates the provider of the exchange behind `recordId`; out-of-range ratings are clamped to 1-5.
+    function rateRecord(uint256 recordId, externalEuint32 encryptedRating, bytes calldata inputProof) external onlyDelegated whenNotPaused {
+        uint256 exchangeId = exchangeOfRecord[recordId];
+        if (exchangeId == 0) revert NotRateable();
+        Exchange storage exchange = exchanges[exchangeId];
+        if (msg.sender != exchange.receiver) revert NotExchangeParty();
+        if (isRecordRated[recordId]) revert AlreadyRated();
+
+        euint32 rating = FHE.fromExternal(encryptedRating, inputProof);
+        rating = FHE.min(FHE.max(rating, MIN_RATING), MAX_RATING);
+
+        isRecordRated[recordId] = true;
+        ratingSums[exchange.provider] = FHE.allowThis(FHE.add(ratingSums[exchange.provider], rating));
+        ratingCount[exchange.provider]++;
+        emit RatingSubmitted(recordId, exchange.provider, msg.sender);
+    }
+
+    /// @notice Provider asks for their rating sum to be publicly decrypted.
+    function requestRatingReveal() external onlyDelegated whenNotPaused checkCooldown(msg.sender, lastDecryptionRequestTime) {
+        uint32 count = ratingCount[msg.sender];
+        if (count < revealedRatingCount[msg.sender] + MIN_RATINGS_FOR_REVEAL) revert NotEnoughRatings();
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(ratingSums[msg.sender]);
+        uint256 requestId = FHE.requestDecryption(cts, this.ratingRevealCallback.selector);
+
+        ratingRevealContexts[requestId] = RatingRevealContext({ provider: msg.sender, ratingCount: count, processed: false });
+        emit RatingRevealRequested(requestId, msg.sender, count);
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+    }
+
+    function ratingRevealCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public onlyDelegated {
+        RatingRevealContext storage context = ratingRevealContexts[requestId];
+        if (context.provider == address(0)) revert InvalidDecryption();
+        if (context.processed) revert ReplayError();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        if (cleartexts.length != 32) revert InvalidDecryption();
+        uint32 ratingSum = abi.decode(cleartexts, (uint32));
+
+        context.processed = true;
+        // A slower, older request must not replace a newer reveal
+        if (context.ratingCount > revealedRatingCount[context.provider]) {
+            revealedRatingSum[context.provider] = ratingSum;
+            revealedRatingCount[context.provider] = context.ratingCount;
+        }
+        emit RatingRevealed(requestId, context.provider, ratingSum, context.ratingCount);
+    }
+
+    /// @notice Receiver books `provider` for `scheduledFor` and locks the hours until then; locks nothing
+    /// when the balance and credit line cannot cover them. Either side may decrypt the locked amount to check.
+    function pledgeHours(
+        address provider,
+        externalEuint32 encryptedAmount,
+        bytes calldata inputProof,
+        string calldata serviceType,
+        uint64 scheduledFor,
+        uint64 expiresAt
+    ) external onlyDelegated onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) returns (uint256 pledgeId) {
+        if (provider == address(0) || provider == msg.sender) revert InvalidProvider();
+        if (scheduledFor <= block.timestamp || expiresAt <= scheduledFor) revert InvalidSchedule();
+
+        _settleBalance(msg.sender, true);
+        euint32 lockedHours = _debit(msg.sender, FHE.fromExternal(encryptedAmount, inputProof));
+        FHE.allow(lockedHours, provider);
+
+        pledgeId = ++pledgeCount;
+        pledges[pledgeId] = Pledge({
+            receiver: msg.sender,
+            provider: provider,
+            lockedHours: lockedHours,
+            serviceType: serviceType,
+            scheduledFor: scheduledFor,
+            expiresAt: expiresAt,
+            status: PledgeStatus.Locked
+        });
+        emit PledgeCreated(pledgeId, msg.sender, provider, serviceType, scheduledFor, expiresAt, lockedHours);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    /// @notice Receiver confirms the service took place, paying the locked hours to the provider.
+    function confirmPledge(uint256 pledgeId) external onlyDelegated whenNotPaused {
+        Pledge storage pledge = _lockedPledge(pledgeId);
+        if (msg.sender != pledge.receiver) revert NotPledgeParty();
+        if (isBatchClosed[currentBatchId]) revert BatchClosedError();
+
+        _settleBalance(pledge.provider, true);
+        _credit(pledge.provider, pledge.lockedHours);
+        // Counted like an accepted exchange, in the batch open when the hours are released
+        batchDeposits[currentBatchId] = FHE.allowThis(FHE.add(batchDeposits[currentBatchId], pledge.lockedHours));
+        batchWithdrawals[currentBatchId] = FHE.allowThis(FHE.add(batchWithdrawals[currentBatchId], pledge.lockedHours));
+        _addServiceHours(pledge.serviceType, pledge.lockedHours);
+
+        pledge.status = PledgeStatus.Released;
+        recordCount++;
+        emit PledgeReleased(pledgeId, pledge.provider, pledge.receiver, currentBatchId, recordCount);
+    }
+
+    /// @notice Returns the locked hours to the receiver. The provider may always decline, the receiver
+    /// may cancel until the scheduled time, and past the expiry anyone may trigger the refund.
+    function cancelPledge(uint256 pledgeId) external onlyDelegated whenNotPaused {
+        Pledge storage pledge = _lockedPledge(pledgeId);
+        bool allowed = msg.sender == pledge.provider ||
+            (msg.sender == pledge.receiver && block.timestamp < pledge.scheduledFor) ||
+            block.timestamp > pledge.expiresAt;
+        if (!allowed) revert NotPledgeParty();
+
+        _settleBalance(pledge.receiver, false);
+        _credit(pledge.receiver, pledge.lockedHours);
+
+        pledge.status = PledgeStatus.Refunded;
+        emit PledgeRefunded(pledgeId, pledge.receiver, msg.sender);
+    }
+
+    /// @notice Joins the community registry, or leaves it with the zero address, which stops transfers both ways.
+    function setCommunityRegistry(address registry) external onlyDelegated onlyRole(ADMIN_ROLE) {
+        communityRegistry = registry;
+        emit CommunityRegistrySet(registry);
+    }
+
+    /// @notice Sends earned hours to `recipient`, a member of the community running `toBank`. Moves nothing
+    /// when the balance cannot cover them; the credit line only spends within this community.
+    function transferToCommunity(
+        address toBank,
+        address recipient,
+        externalEuint32 encryptedAmount,
+        bytes calldata inputProof,
+        string calldata serviceType
+    ) external onlyDelegated onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) {
+        if (toBank == address(this) || !_canTransfer(address(this), toBank)) revert TransferNotAllowed();
+        if (isBatchClosed[currentBatchId]) revert BatchClosedError();
+
+        _settleBalance(msg.sender, true);
+        euint32 requested = FHE.fromExternal(encryptedAmount, inputProof);
+        euint32 balance = balances[msg.sender];
+        ebool covered = FHE.le(requested, balance);
+        euint32 moved = FHE.select(covered, requested, FHE.asEuint32(0));
+        FHE.allowThis(moved);
+        FHE.allow(moved, msg.sender);
+        _setBalance(msg.sender, FHE.sub(balance, moved));
+        ebool declined = FHE.not(covered);
+        insufficientCredit[msg.sender] = FHE.allowThis(declined);
+        FHE.allow(declined, msg.sender);
+        batchWithdrawals[currentBatchId] = FHE.allowThis(FHE.add(batchWithdrawals[currentBatchId], moved));
+
+        recordCount++;
+        emit CommunityTransferSent(msg.sender, toBank, recipient, currentBatchId, recordCount, moved, serviceType);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+
+        // The other bank exposes the extension's functions under the same selectors
+        FHE.allowTransient(moved, toBank);
+        TimeBankExtension(toBank).receiveCommunityTransfer(msg.sender, recipient, moved, serviceType);
+    }
+
+    /// @notice Called by a partner community's bank to credit hours one of its members sent here.
+    function receiveCommunityTransfer(address sender, address recipient, euint32 amount, string calldata serviceType) external onlyDelegated whenNotPaused {
+        if (!_canTransfer(msg.sender, address(this))) revert TransferNotAllowed();
+        if (!hasRole(MEMBER_ROLE, recipient)) revert MissingRole(MEMBER_ROLE, recipient);
+        if (isBatchClosed[currentBatchId]) revert BatchClosedError();
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, recipient);
+        _settleBalance(recipient, true);
+        _credit(recipient, amount);
+        batchDeposits[currentBatchId] = FHE.allowThis(FHE.add(batchDeposits[currentBatchId], amount));
+        _addServiceHours(serviceType, amount);
+
+        recordCount++;
+        emit CommunityTransferReceived(msg.sender, sender, recipient, currentBatchId, recordCount, amount, serviceType);
+    }
+
+    // Both banks must be listed in this bank's registry and have opened transfers to each other
+    function _canTransfer(address fromBank, address toBank) internal view returns (bool) {
+        return communityRegistry != address(0) && TimeBankCommunities(communityRegistry).canTransfer(fromBank, toBank);
+    }
+
+    function _lockedPledge(uint256 pledgeId) internal view returns (Pledge storage pledge) {
+        pledge = pledges[pledgeId];
+        if (pledge.status != PledgeStatus.Locked) revert InvalidPledgeState();
+    }
+
+    function _openDispute(uint256 exchangeId) internal view returns (Dispute storage dispute) {
+        dispute = disputes[exchangeId];
+        if (dispute.status != DisputeStatus.Open) revert InvalidDisputeState();
+    }
+
+    function _checkDisputeCoordinator(uint256 exchangeId) internal view {
+        if (msg.sender != _openDispute(exchangeId).coordinator) revert NotAssignedCoordinator();
+    }
+
+    // Moves the hours the provider does not keep back to the receiver in one step. A provider who
+    // has since spent them refunds only what their balance covers, so no balance goes negative.
+    // Batch totals keep the original exchange; the refund is visible only to the two parties.
+    function _resolveDispute(uint256 exchangeId, DisputeResolution resolution, euint32 providerKeeps, uint16 shareBasisPoints) internal {
+        Dispute storage dispute = disputes[exchangeId];
+        Exchange storage exchange = exchanges[exchangeId];
+
+        _settleBalance(exchange.provider, false);
+        _settleBalance(exchange.receiver, false);
+
+        euint32 transferred = exchangeTransferred[exchangeId];
+        euint32 refund = FHE.sub(transferred, FHE.min(providerKeeps, transferred));
+        euint32 providerBalance = balances[exchange.provider];
+        refund = FHE.min(refund, providerBalance);
+        FHE.allowThis(refund);
+        FHE.allow(refund, exchange.provider);
+        FHE.allow(refund, exchange.receiver);
+
+        _setBalance(exchange.provider, FHE.sub(providerBalance, refund));
+        _credit(exchange.receiver, refund);
+        euint32 kept = FHE.sub(transferred, refund);
+        exchangeTransferred[exchangeId] = FHE.allowThis(kept);
+        FHE.allow(kept, exchange.provider);
+        FHE.allow(kept, exchange.receiver);
+
+        dispute.status = DisputeStatus.Resolved;
+        dispute.resolution = resolution;
+        emit DisputeResolved(exchangeId, msg.sender, resolution, shareBasisPoints, refund);
+    }
+}
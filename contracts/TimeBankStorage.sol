@@ -0,0 +1,428 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice State, events and checks shared by TimeBankFHE and the extension it delegates to.
+/// @dev Both run against TimeBankFHE's storage, so state is only ever declared here and only appended to.
+abstract contract TimeBankStorage {
+    using FHE for euint32;
+    using FHE for ebool;
+
+    address public owner;
+    // Proposed by the owner; becomes owner only once it calls acceptOwnership
+    address public pendingOwner;
+
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    // Decides membership applications and verifies accepted exchanges
+    bytes32 public constant COORDINATOR_ROLE = keccak256("COORDINATOR_ROLE");
+    // Requests public decryption of batch aggregates
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    // Deposits, withdraws, trades and posts listings (formerly "provider")
+    bytes32 public constant MEMBER_ROLE = keccak256("MEMBER_ROLE");
+    // The owner implicitly holds ADMIN_ROLE and is the only one who grants or revokes it
+    mapping(bytes32 => mapping(address => bool)) internal roleMembers;
+
+    bool public paused;
+    uint256 public cooldownSeconds;
+    mapping(address => uint256) public lastSubmissionTime;
+    mapping(address => uint256) public lastDecryptionRequestTime;
+
+    uint256 public currentBatchId;
+    mapping(uint256 => bool) public isBatchClosed;
+
+    uint256 public recordCount;
+    mapping(address => euint32) internal balances;
+
+    // How unused credits lose value; applied lazily whenever a balance is settled
+    enum CreditPolicy { None, FixedExpiry, Decay }
+    CreditPolicy public creditPolicy;
+    uint32 public expiryDays; // FixedExpiry: a balance untouched this long expires
+    uint16 public decayBasisPoints; // Decay: share of the balance lost each period
+    uint32 public decayPeriodDays;
+    // Policies never reach back before the moment they were set
+    uint256 public creditPolicyUpdatedAt;
+    mapping(address => uint256) public balanceSettledAt;
+    struct CreditPolicyTerms {
+        CreditPolicy policy;
+        uint32 expiryDays;
+        uint16 decayBasisPoints;
+        uint32 decayPeriodDays;
+        uint256 startedAt;
+    }
+    // The policy the current one replaced. Time a balance spent under it still settles by its terms,
+    // so changing the policy neither forgives nor back-dates expiry and decay.
+    CreditPolicyTerms internal previousCreditPolicy;
+    uint16 public constant MAX_BASIS_POINTS = 10000;
+    uint64 internal constant DECAY_SCALE = 1e6;
+    mapping(uint256 => euint32) internal batchDeposits;
+    mapping(uint256 => euint32) internal batchWithdrawals;
+
+    // Service types beyond this many per batch are pooled under OTHER_SERVICE_TYPE
+    uint256 public constant MAX_BATCH_SERVICE_TYPES = 8;
+    string public constant OTHER_SERVICE_TYPE = "Other";
+    mapping(uint256 => string[]) internal batchServiceTypes;
+    mapping(uint256 => mapping(bytes32 => euint32)) internal batchServiceHours;
+
+    enum ExchangeStatus { None, Proposed, Accepted, Rejected, Cancelled }
+
+    struct Exchange {
+        address provider;
+        address receiver;
+        euint32 encryptedHours;
+        string serviceType;
+        ExchangeStatus status;
+    }
+    uint256 public exchangeCount;
+    mapping(uint256 => Exchange) public exchanges;
+    mapping(uint256 => address) public exchangeVerifier;
+    // Hours that actually moved on acceptance, less anything a dispute refunded
+    mapping(uint256 => euint32) internal exchangeTransferred;
+
+    enum DisputeStatus { None, Open, Resolved }
+    // Upheld: nothing moves; Adjusted: the provider keeps a coordinator-set amount;
+    // Split: the provider keeps a share; Voided: everything goes back to the receiver
+    enum DisputeResolution { None, Upheld, Adjusted, Split, Voided }
+
+    struct Dispute {
+        DisputeStatus status;
+        address openedBy;
+        address coordinator; // assigned arbiter, never a party to the exchange
+        DisputeResolution resolution;
+    }
+    mapping(uint256 => Dispute) public disputes;
+
+    enum ListingKind { Offer, Request }
+    enum ListingStatus { None, Open, Matched, Completed, Closed }
+
+    struct Listing {
+        address author;
+        ListingKind kind;
+        string serviceType;
+        string description;
+        string location;
+        uint64 availableFrom;
+        uint64 availableUntil; // 0 when open-ended
+        ListingStatus status;
+        uint256 exchangeId; // exchange created by the current match
+    }
+    uint256 public listingCount;
+    mapping(uint256 => Listing) public listings;
+    mapping(uint256 => uint256) public listingOfExchange;
+
+    enum ApplicationStatus { None, Pending, Approved, Rejected }
+
+    struct Application {
+        string displayName;
+        string skills;
+        ApplicationStatus status;
+        string rejectionReason;
+    }
+    mapping(address => Application) public applications;
+
+    struct DecryptionContext {
+        uint256 batchId;
+        bytes32 stateHash;
+        bool processed;
+    }
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    // Receivers rate the provider once per accepted exchange, identified by the record it created.
+    // Only the count is public; the sum stays encrypted until the provider reveals it.
+    uint32 public constant MIN_RATING = 1;
+    uint32 public constant MAX_RATING = 5;
+    // A reveal needs this many ratings since the previous one, so no single rating can be isolated
+    uint32 public constant MIN_RATINGS_FOR_REVEAL = 5;
+    mapping(uint256 => uint256) public exchangeOfRecord;
+    mapping(uint256 => bool) public isRecordRated;
+    mapping(address => euint32) internal ratingSums;
+    mapping(address => uint32) public ratingCount;
+    mapping(address => uint32) public revealedRatingSum;
+    mapping(address => uint32) public revealedRatingCount;
+
+    struct RatingRevealContext {
+        address provider;
+        uint32 ratingCount; // ratings included in the requested sum
+        bool processed;
+    }
+    mapping(uint256 => RatingRevealContext) public ratingRevealContexts;
+
+    // A receiver books a service ahead by locking hours in escrow. They leave the receiver's balance
+    // at once, go to the provider when the receiver confirms, and come back on cancellation or timeout.
+    enum PledgeStatus { None, Locked, Released, Refunded }
+
+    struct Pledge {
+        address receiver;
+        address provider;
+        euint32 lockedHours; // zero when the receiver's balance could not cover the pledge
+        string serviceType;
+        uint64 scheduledFor;
+        uint64 expiresAt; // after this anyone may return the hours to the receiver
+        PledgeStatus status;
+    }
+    uint256 public pledgeCount;
+    mapping(uint256 => Pledge) public pledges;
+
+    // Mutual credit: members may spend past a zero balance up to their credit limit, in hour units.
+    // What they owe is tracked separately so balances stay unsigned; incoming hours repay it first.
+    uint32 public defaultCreditLimit;
+    mapping(address => uint32) internal creditLimits;
+    mapping(address => bool) public hasCustomCreditLimit;
+    mapping(address => euint32) internal overdrafts;
+    // Whether the account's last spend was declined, decryptable by the account only
+    mapping(address => ebool) internal insufficientCredit;
+
+    // Registry of the other communities' banks in this deployment. Each community runs its own bank;
+    // members may send earned hours to another community only where both have opened transfers.
+    address public communityRegistry;
+
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferCancelled(address indexed owner, address indexed pendingOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event MembershipRequested(address indexed applicant, string displayName, string skills);
+    event MembershipApproved(address indexed applicant, address indexed approver);
+    event MembershipRejected(address indexed applicant, address indexed approver, string reason);
+    event Paused(address account);
+    event Unpaused(address account);
+    event CooldownSecondsSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
+    event CreditPolicySet(CreditPolicy policy, uint32 expiryDays, uint16 decayBasisPoints, uint32 decayPeriodDays);
+    event CreditsExpired(address indexed account, uint256 lastActivity);
+    event CreditsDecayed(address indexed account, uint256 periods);
+    event BatchOpened(uint256 indexed batchId);
+    event BatchClosed(uint256 indexed batchId);
+    event TimeDeposited(address indexed depositor, uint256 indexed batchId, uint256 indexed recordId, euint32 encryptedHours, string serviceType);
+    event TimeWithdrawn(address indexed withdrawer, uint256 indexed batchId, uint256 indexed recordId, euint32 encryptedHours, string serviceType);
+    event ExchangeProposed(uint256 indexed exchangeId, address indexed provider, address indexed receiver, euint32 encryptedHours, string serviceType);
+    event ExchangeAccepted(uint256 indexed exchangeId, address indexed provider, address indexed receiver, uint256 batchId, uint256 recordId, euint32 transferredHours);
+    event ExchangeRejected(uint256 indexed exchangeId, address indexed provider, address indexed receiver);
+    event ExchangeCancelled(uint256 indexed exchangeId, address indexed provider, address indexed receiver);
+    event ExchangeVerified(uint256 indexed exchangeId, address indexed coordinator);
+    event RatingSubmitted(uint256 indexed recordId, address indexed provider, address indexed receiver);
+    event RatingRevealRequested(uint256 indexed requestId, address indexed provider, uint32 ratingCount);
+    event RatingRevealed(uint256 indexed requestId, address indexed provider, uint32 ratingSum, uint32 ratingCount);
+    event DisputeOpened(uint256 indexed exchangeId, address indexed openedBy, string reason);
+    event DisputeAssigned(uint256 indexed exchangeId, address indexed coordinator, address indexed assignedBy);
+    event DisputeEvidenceAdded(uint256 indexed exchangeId, address indexed author, string note);
+    event DisputeResolved(uint256 indexed exchangeId, address indexed coordinator, DisputeResolution resolution, uint16 providerShareBasisPoints, euint32 refundedHours);
+    event PledgeCreated(uint256 indexed pledgeId, address indexed receiver, address indexed provider, string serviceType, uint64 scheduledFor, uint64 expiresAt, euint32 lockedHours);
+    event PledgeReleased(uint256 indexed pledgeId, address indexed provider, address indexed receiver, uint256 batchId, uint256 recordId);
+    event PledgeRefunded(uint256 indexed pledgeId, address indexed receiver, address indexed refundedBy);
+    event DefaultCreditLimitSet(uint32 limit);
+    event CreditLimitSet(address indexed account, uint32 limit);
+    event CreditLimitCleared(address indexed account);
+    event CommunityRegistrySet(address indexed registry);
+    event CommunityTransferSent(address indexed sender, address indexed toBank, address indexed recipient, uint256 batchId, uint256 recordId, euint32 encryptedHours, string serviceType);
+    event CommunityTransferReceived(address indexed fromBank, address indexed sender, address indexed recipient, uint256 batchId, uint256 recordId, euint32 encryptedHours, string serviceType);
+    event ListingPosted(uint256 indexed listingId, address indexed author, ListingKind kind, string serviceType, string description, string location, uint64 availableFrom, uint64 availableUntil);
+    event ListingMatched(uint256 indexed listingId, uint256 indexed exchangeId, address indexed provider, address receiver);
+    event ListingReopened(uint256 indexed listingId, uint256 indexed exchangeId);
+    event ListingCompleted(uint256 indexed listingId, uint256 indexed exchangeId);
+    event ListingClosed(uint256 indexed listingId);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, address indexed requester);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint32 totalDeposited, uint32 totalWithdrawn);
+    event ServiceTotalsDecrypted(uint256 indexed requestId, uint256 indexed batchId, string[] serviceTypes, uint32[] totals);
+
+    error NotOwner();
+    error NotPendingOwner();
+    error InvalidOwner();
+    error MissingRole(bytes32 role, address account);
+    error PausedError();
+    error CooldownActive();
+    error BatchClosedError();
+    error ReplayError();
+    error StateMismatchError();
+    error InvalidDecryption();
+    error InvalidReceiver();
+    error NotExchangeParty();
+    error InvalidExchangeState();
+    error NotListingAuthor();
+    error InvalidListingState();
+    error InvalidAvailability();
+    error ListingExpired();
+    error AlreadyProvider();
+    error InvalidApplicationState();
+    error EmptyDisplayName();
+    error ConflictOfInterest();
+    error InvalidCreditPolicy();
+    error NotRateable();
+    error InvalidDisputeState();
+    error NotDisputeParticipant();
+    error NotAssignedCoordinator();
+    error InvalidShare();
+    error AlreadyRated();
+    error NotEnoughRatings();
+    error InvalidProvider();
+    error InvalidSchedule();
+    error InvalidPledgeState();
+    error NotPledgeParty();
+    error TransferNotAllowed();
+
+    // Modifier bodies live in internal functions so they are not inlined into every caller,
+    // which keeps the contract under the deployable code size limit
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    // Staff roles whose permissions every admin also has
+    modifier onlyRoleOrAdmin(bytes32 role) {
+        _checkRoleOrAdmin(role);
+        _;
+    }
+
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    modifier checkCooldown(address account, mapping(address => uint256) storage lastTimeMap) {
+        _checkCooldown(account, lastTimeMap);
+        _;
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roleMembers[role][account] || (role == ADMIN_ROLE && account == owner);
+    }
+
+    function _checkOwner() internal view {
+        if (msg.sender != owner) revert NotOwner();
+    }
+
+    function _checkRole(bytes32 role) internal view {
+        if (!hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+    }
+
+    function _checkRoleOrAdmin(bytes32 role) internal view {
+        if (!hasRole(role, msg.sender) && !hasRole(ADMIN_ROLE, msg.sender)) revert MissingRole(role, msg.sender);
+    }
+
+    function _requireNotPaused() internal view {
+        if (paused) revert PausedError();
+    }
+
+    function _checkCooldown(address account, mapping(address => uint256) storage lastTimeMap) internal view {
+        if (block.timestamp < lastTimeMap[account] + cooldownSeconds) {
+            revert CooldownActive();
+        }
+    }
+
+    function creditLimitOf(address account) public view returns (uint32) {
+        return hasCustomCreditLimit[account] ? creditLimits[account] : defaultCreditLimit;
+    }
+
+    function _setBalance(address account, euint32 newBalance) internal {
+        balances[account] = newBalance;
+        FHE.allowThis(newBalance);
+        FHE.allow(newBalance, account);
+    }
+
+    // Takes `requested` from the balance and then the credit line, or nothing when both together
+    // cannot cover it. Whether it was covered is kept for the account to decrypt.
+    function _debit(address account, euint32 requested) internal returns (euint32 debited) {
+        euint32 balance = balances[account];
+        euint32 overdraft = overdrafts[account];
+        euint32 limit = FHE.asEuint32(creditLimitOf(account));
+        // A limit lowered below what is already owed leaves no credit rather than underflowing
+        euint32 available = FHE.select(FHE.le(overdraft, limit), FHE.sub(limit, overdraft), FHE.asEuint32(0));
+
+        ebool covered = FHE.le(requested, FHE.add(balance, available));
+        debited = FHE.select(covered, requested, FHE.asEuint32(0));
+        FHE.allowThis(debited);
+        FHE.allow(debited, account);
+
+        euint32 fromBalance = FHE.min(debited, balance);
+        _setBalance(account, FHE.sub(balance, fromBalance));
+        _setOverdraft(account, FHE.add(overdraft, FHE.sub(debited, fromBalance)));
+        ebool declined = FHE.not(covered);
+        insufficientCredit[account] = FHE.allowThis(declined);
+        FHE.allow(declined, account);
+    }
+
+    // Incoming hours repay any overdraft before they add to the balance
+    function _credit(address account, euint32 amount) internal {
+        euint32 overdraft = overdrafts[account];
+        euint32 repaid = FHE.min(amount, overdraft);
+        _setOverdraft(account, FHE.sub(overdraft, repaid));
+        _setBalance(account, FHE.add(balances[account], FHE.sub(amount, repaid)));
+    }
+
+    function _setOverdraft(address account, euint32 newOverdraft) internal {
+        overdrafts[account] = newOverdraft;
+        FHE.allowThis(newOverdraft);
+        FHE.allow(newOverdraft, account);
+    }
+
+    // Brings a balance up to date with the credit policy before it is read or changed.
+    // Only the account's own deposits, withdrawals and exchanges (`activity`) restart the expiry clock.
+    // Expired and decayed hours simply leave circulation; they do not count as withdrawals.
+    function _settleBalance(address account, bool activity) internal {
+        uint256 since = balanceSettledAt[account];
+        if (since == 0 || !FHE.isInitialized(balances[account])) {
+            balanceSettledAt[account] = block.timestamp;
+            return;
+        }
+
+        // Time before the current policy was set settles under the one it replaced, from no earlier than
+        // that one's own start; a decay period cut short by the switch does not count
+        if (since < creditPolicyUpdatedAt) {
+            CreditPolicyTerms memory previous = previousCreditPolicy;
+            _applyCreditPolicy(account, previous, since < previous.startedAt ? previous.startedAt : since, creditPolicyUpdatedAt);
+            since = creditPolicyUpdatedAt;
+        }
+
+        CreditPolicyTerms memory current = CreditPolicyTerms(creditPolicy, expiryDays, decayBasisPoints, decayPeriodDays, creditPolicyUpdatedAt);
+        uint256 settledUntil = _applyCreditPolicy(account, current, since, block.timestamp);
+        balanceSettledAt[account] = activity && creditPolicy == CreditPolicy.FixedExpiry ? block.timestamp : settledUntil;
+    }
+
+    // Applies `terms` to the time between `since` and `until`; returns where the account's clock now stands
+    function _applyCreditPolicy(address account, CreditPolicyTerms memory terms, uint256 since, uint256 until) internal returns (uint256) {
+        if (terms.policy == CreditPolicy.None || since >= until) return until;
+
+        if (terms.policy == CreditPolicy.FixedExpiry) {
+            if (until < since + uint256(terms.expiryDays) * 1 days) return since;
+            _setBalance(account, FHE.asEuint32(0));
+            emit CreditsExpired(account, since);
+            return until;
+        }
+
+        uint256 period = uint256(terms.decayPeriodDays) * 1 days;
+        uint256 periods = (until - since) / period;
+        if (periods > 0) {
+            // Compounded in cleartext, then applied once; 64 bits keep the product from overflowing
+            uint64 factor = DECAY_SCALE;
+            for (uint256 i = 0; i < periods && factor > 0; i++) {
+                factor = (factor * (MAX_BASIS_POINTS - terms.decayBasisPoints)) / MAX_BASIS_POINTS;
+            }
+            euint64 decayed = FHE.div(FHE.mul(FHE.asEuint64(balances[account]), factor), DECAY_SCALE);
+            _setBalance(account, FHE.asEuint32(decayed));
+            emit CreditsDecayed(account, periods);
+        }
+        // Partial periods keep counting towards the next one
+        return since + periods * period;
+    }
+
+    // Credited hours per service type add up to the batch's deposit total
+    function _addServiceHours(string memory serviceType, euint32 encryptedHours) internal {
+        string[] storage serviceTypes = batchServiceTypes[currentBatchId];
+        bytes32 key = keccak256(bytes(serviceType));
+        euint32 current = batchServiceHours[currentBatchId][key];
+
+        if (!FHE.isInitialized(current)) {
+            if (serviceTypes.length >= MAX_BATCH_SERVICE_TYPES - 1) {
+                key = keccak256(bytes(OTHER_SERVICE_TYPE));
+                current = batchServiceHours[currentBatchId][key];
+                serviceType = OTHER_SERVICE_TYPE;
+            }
+            if (!FHE.isInitialized(current)) serviceTypes.push(serviceType);
+        }
+        batchServiceHours[currentBatchId][key] = FHE.allowThis(FHE.add(current, encryptedHours));
+    }
+}
@@ -1,185 +1,421 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { TimeBankStorage } from "./TimeBankStorage.sol";
+import { TimeBankExtension } from "./TimeBankExtension.sol";
 
-contract TimeBankFHE is SepoliaConfig {
+contract TimeBankFHE is SepoliaConfig, TimeBankStorage {
     using FHE for euint32;
     using FHE for ebool;
 
-    address public owner;
-    mapping(address => bool) public isProvider;
-    bool public paused;
-    uint256 public cooldownSeconds;
-    mapping(address => uint256) public lastSubmissionTime;
-    mapping(address => uint256) public lastDecryptionRequestTime;
-
-    uint256 public currentBatchId;
-    mapping(uint256 => bool) public isBatchClosed;
-
-    struct DecryptionContext {
-        uint256 batchId;
-        bytes32 stateHash;
-        bool processed;
-    }
-    mapping(uint256 => DecryptionContext) public decryptionContexts;
-
-    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
-    event Paused(address account);
-    event Unpaused(address account);
-    event CooldownSecondsSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
-    event BatchOpened(uint256 indexed batchId);
-    event BatchClosed(uint256 indexed batchId);
-    event TimeDeposited(address indexed depositor, uint256 indexed batchId, euint32 encryptedHours);
-    event TimeWithdrawn(address indexed withdrawer, uint256 indexed batchId, euint32 encryptedHours);
-    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint32 totalDeposited, uint32 totalWithdrawn);
-
-    error NotOwner();
-    error NotProvider();
-    error PausedError();
-    error CooldownActive();
-    error BatchClosedError();
-    error ReplayError();
-    error StateMismatchError();
-    error InvalidDecryption();
-
-    modifier onlyOwner() {
-        if (msg.sender != owner) revert NotOwner();
-        _;
-    }
-
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
-        _;
-    }
-
-    modifier whenNotPaused() {
-        if (paused) revert PausedError();
-        _;
-    }
-
-    modifier checkCooldown(address account, mapping(address => uint256) storage lastTimeMap) {
-        if (block.timestamp < lastTimeMap[account] + cooldownSeconds) {
-            revert CooldownActive();
-        }
-        _;
-    }
+    // Runs the functions that do not fit in this contract, against this contract's storage
+    address public immutable extension;
 
     constructor() {
+        extension = address(new TimeBankExtension());
         owner = msg.sender;
-        isProvider[owner] = true;
-        emit ProviderAdded(owner);
+        _grantRole(MEMBER_ROLE, owner);
         currentBatchId = 1;
         emit BatchOpened(currentBatchId);
         cooldownSeconds = 60;
     }
 
+    /// @notice Starts a transfer to `newOwner`, replacing any pending one; nothing changes until they accept.
     function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0) || newOwner == owner) revert InvalidOwner();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
         address previousOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(previousOwner, newOwner);
+        owner = pendingOwner;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(previousOwner, owner);
     }
 
-    function addProvider(address provider) external onlyOwner {
-        if (!isProvider[provider]) {
-            isProvider[provider] = true;
-            emit ProviderAdded(provider);
-        }
+    function cancelOwnershipTransfer() external onlyOwner {
+        if (pendingOwner == address(0)) revert NotPendingOwner();
+        emit OwnershipTransferCancelled(owner, pendingOwner);
+        pendingOwner = address(0);
     }
 
-    function removeProvider(address provider) external onlyOwner {
-        if (isProvider[provider]) {
-            isProvider[provider] = false;
-            emit ProviderRemoved(provider);
+    /// @notice Runs several calls on this contract as the same sender, all or nothing,
+    /// so a multisig can bundle admin changes into a single signed transaction.
+    function multicall(bytes[] calldata data) external returns (bytes[] memory results) {
+        results = new bytes[](data.length);
+        for (uint256 i = 0; i < data.length; i++) {
+            (bool success, bytes memory result) = address(this).delegatecall(data[i]);
+            if (!success) {
+                // Bubble up the inner revert so custom errors survive
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            results[i] = result;
         }
     }
 
-    function pause() external onlyOwner whenNotPaused {
+    function isProvider(address account) public view returns (bool) {
+        return hasRole(MEMBER_ROLE, account);
+    }
+
+    function grantRole(bytes32 role, address account) external {
+        _checkRoleAdmin(role);
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) external {
+        _checkRoleAdmin(role);
+        _revokeRole(role, account);
+    }
+
+    function renounceRole(bytes32 role) external {
+        _revokeRole(role, msg.sender);
+    }
+
+    function addProvider(address provider) external onlyRole(ADMIN_ROLE) {
+        _grantRole(MEMBER_ROLE, provider);
+    }
+
+    function removeProvider(address provider) external onlyRole(ADMIN_ROLE) {
+        _revokeRole(MEMBER_ROLE, provider);
+    }
+
+    /// @notice Asks to become a provider; a rejected applicant may apply again.
+    function applyForMembership(string calldata displayName, string calldata skills) external whenNotPaused {
+        if (isProvider(msg.sender)) revert AlreadyProvider();
+        if (applications[msg.sender].status == ApplicationStatus.Pending) revert InvalidApplicationState();
+        if (bytes(displayName).length == 0) revert EmptyDisplayName();
+
+        applications[msg.sender] = Application({
+            displayName: displayName,
+            skills: skills,
+            status: ApplicationStatus.Pending,
+            rejectionReason: ""
+        });
+        emit MembershipRequested(msg.sender, displayName, skills);
+    }
+
+    function approveApplication(address applicant) external onlyRoleOrAdmin(COORDINATOR_ROLE) {
+        Application storage application = _pendingApplication(applicant);
+        application.status = ApplicationStatus.Approved;
+        emit MembershipApproved(applicant, msg.sender);
+        _grantRole(MEMBER_ROLE, applicant);
+    }
+
+    function rejectApplication(address applicant, string calldata reason) external onlyRoleOrAdmin(COORDINATOR_ROLE) {
+        Application storage application = _pendingApplication(applicant);
+        application.status = ApplicationStatus.Rejected;
+        application.rejectionReason = reason;
+        emit MembershipRejected(applicant, msg.sender, reason);
+    }
+
+    function pause() external onlyRole(ADMIN_ROLE) whenNotPaused {
         paused = true;
         emit Paused(msg.sender);
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(ADMIN_ROLE) {
         paused = false;
         emit Unpaused(msg.sender);
     }
 
-    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyOwner {
+    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyRole(ADMIN_ROLE) {
         uint256 oldCooldownSeconds = cooldownSeconds;
         cooldownSeconds = newCooldownSeconds;
         emit CooldownSecondsSet(oldCooldownSeconds, newCooldownSeconds);
     }
 
-    function openNewBatch() external onlyOwner {
+    /// @notice Sets how credits lose value; parameters not used by `policy` must be zero.
+    function setCreditPolicy(CreditPolicy policy, uint32 newExpiryDays, uint16 newDecayBasisPoints, uint32 newDecayPeriodDays) external onlyRole(ADMIN_ROLE) {
+        bool validExpiry = policy == CreditPolicy.FixedExpiry ? newExpiryDays > 0 : newExpiryDays == 0;
+        bool validDecay = policy == CreditPolicy.Decay
+            ? newDecayBasisPoints > 0 && newDecayBasisPoints <= MAX_BASIS_POINTS && newDecayPeriodDays > 0
+            : newDecayBasisPoints == 0 && newDecayPeriodDays == 0;
+        if (!validExpiry || !validDecay) revert InvalidCreditPolicy();
+        // Re-submitting the same terms must not restart anyone's clock
+        if (policy == creditPolicy && newExpiryDays == expiryDays && newDecayBasisPoints == decayBasisPoints && newDecayPeriodDays == decayPeriodDays) return;
+
+        previousCreditPolicy = CreditPolicyTerms(creditPolicy, expiryDays, decayBasisPoints, decayPeriodDays, creditPolicyUpdatedAt);
+        creditPolicy = policy;
+        expiryDays = newExpiryDays;
+        decayBasisPoints = newDecayBasisPoints;
+        decayPeriodDays = newDecayPeriodDays;
+        creditPolicyUpdatedAt = block.timestamp;
+        emit CreditPolicySet(policy, newExpiryDays, newDecayBasisPoints, newDecayPeriodDays);
+    }
+
+    /// @notice Sets the credit limit, in hour units, for members without one of their own.
+    function setDefaultCreditLimit(uint32 limit) external onlyRole(ADMIN_ROLE) {
+        defaultCreditLimit = limit;
+        emit DefaultCreditLimitSet(limit);
+    }
+
+    /// @notice Gives `account` its own credit limit, in hour units, instead of the default.
+    function setCreditLimit(address account, uint32 limit) external onlyRole(ADMIN_ROLE) {
+        creditLimits[account] = limit;
+        hasCustomCreditLimit[account] = true;
+        emit CreditLimitSet(account, limit);
+    }
+
+    function clearCreditLimit(address account) external onlyRole(ADMIN_ROLE) {
+        delete creditLimits[account];
+        delete hasCustomCreditLimit[account];
+        emit CreditLimitCleared(account);
+    }
+
+    /// @notice Applies any expiry or decay due on `account`'s balance; anyone may trigger it.
+    function settleBalance(address account) external whenNotPaused {
+        _settleBalance(account, false);
+    }
+
+    function openNewBatch() external onlyRole(ADMIN_ROLE) {
         currentBatchId++;
         emit BatchOpened(currentBatchId);
     }
 
-    function closeCurrentBatch() external onlyOwner {
+    function closeCurrentBatch() external onlyRole(ADMIN_ROLE) {
         isBatchClosed[currentBatchId] = true;
         emit BatchClosed(currentBatchId);
     }
 
-    function depositTime(uint32 hours) external onlyProvider whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) {
-        if (isBatchClosed[currentBatchId]) revert BatchClosedError();
+    /// @notice Deprecated: the amount is public in calldata. Use the encrypted-input overload.
+    function depositTime(uint32 hoursAmount, string calldata serviceType) external onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) {
+        _depositTime(FHE.asEuint32(hoursAmount), serviceType);
+    }
 
-        euint32 encryptedHours = FHE.asEuint32(hours);
-        _initIfNeeded(encryptedHours);
+    function depositTime(externalEuint32 encryptedAmount, bytes calldata inputProof, string calldata serviceType) external onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) {
+        _depositTime(FHE.fromExternal(encryptedAmount, inputProof), serviceType);
+    }
 
-        emit TimeDeposited(msg.sender, currentBatchId, encryptedHours);
-        lastSubmissionTime[msg.sender] = block.timestamp;
+    /// @notice Deprecated: the amount is public in calldata. Use the encrypted-input overload.
+    function withdrawTime(uint32 hoursAmount, string calldata serviceType) external onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) {
+        _withdrawTime(FHE.asEuint32(hoursAmount), serviceType);
+    }
+
+    function withdrawTime(externalEuint32 encryptedAmount, bytes calldata inputProof, string calldata serviceType) external onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) {
+        _withdrawTime(FHE.fromExternal(encryptedAmount, inputProof), serviceType);
     }
 
-    function withdrawTime(uint32 hours) external onlyProvider whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) {
+    /// @notice Provider records that they gave `receiver` encrypted hours of `serviceType`; nothing moves until the receiver accepts.
+    function proposeExchange(address receiver, externalEuint32 encryptedAmount, bytes calldata inputProof, string calldata serviceType) external onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) returns (uint256 exchangeId) {
+        exchangeId = _proposeExchange(receiver, FHE.fromExternal(encryptedAmount, inputProof), serviceType);
+    }
+
+    /// @notice Receiver co-signs the exchange, moving the hours from their balance to the provider's.
+    function acceptExchange(uint256 exchangeId) external onlyRole(MEMBER_ROLE) whenNotPaused {
+        Exchange storage exchange = exchanges[exchangeId];
+        if (exchange.status != ExchangeStatus.Proposed) revert InvalidExchangeState();
+        if (msg.sender != exchange.receiver) revert NotExchangeParty();
         if (isBatchClosed[currentBatchId]) revert BatchClosedError();
 
-        euint32 encryptedHours = FHE.asEuint32(hours);
-        _initIfNeeded(encryptedHours);
+        _settleBalance(exchange.receiver, true);
+        _settleBalance(exchange.provider, true);
+
+        // Move nothing when the receiver's balance and credit line cannot cover the hours
+        euint32 transferredHours = _debit(exchange.receiver, exchange.encryptedHours);
+        FHE.allow(transferredHours, exchange.provider);
+        exchangeTransferred[exchangeId] = transferredHours;
+        _credit(exchange.provider, transferredHours);
+        // The provider's credit and the receiver's debit both count towards the batch totals
+        batchDeposits[currentBatchId] = FHE.allowThis(FHE.add(batchDeposits[currentBatchId], transferredHours));
+        batchWithdrawals[currentBatchId] = FHE.allowThis(FHE.add(batchWithdrawals[currentBatchId], transferredHours));
+        _addServiceHours(exchange.serviceType, transferredHours);
+
+        exchange.status = ExchangeStatus.Accepted;
+        recordCount++;
+        exchangeOfRecord[recordCount] = exchangeId;
+        emit ExchangeAccepted(exchangeId, exchange.provider, exchange.receiver, currentBatchId, recordCount, transferredHours);
+        _settleListing(exchangeId, true);
+    }
 
-        emit TimeWithdrawn(msg.sender, currentBatchId, encryptedHours);
-        lastSubmissionTime[msg.sender] = block.timestamp;
+    function rejectExchange(uint256 exchangeId) external whenNotPaused {
+        Exchange storage exchange = exchanges[exchangeId];
+        if (exchange.status != ExchangeStatus.Proposed) revert InvalidExchangeState();
+        if (msg.sender != exchange.receiver) revert NotExchangeParty();
+
+        exchange.status = ExchangeStatus.Rejected;
+        emit ExchangeRejected(exchangeId, exchange.provider, exchange.receiver);
+        _settleListing(exchangeId, false);
     }
 
-    function requestBatchSummary(uint256 batchId) external onlyProvider whenNotPaused checkCooldown(msg.sender, lastDecryptionRequestTime) {
-        if (!isBatchClosed[batchId]) revert("Batch not closed");
+    function cancelExchange(uint256 exchangeId) external whenNotPaused {
+        Exchange storage exchange = exchanges[exchangeId];
+        if (exchange.status != ExchangeStatus.Proposed) revert InvalidExchangeState();
+        if (msg.sender != exchange.provider) revert NotExchangeParty();
 
-        euint32 totalDeposits;
-        euint32 totalWithdrawals;
-        bool initialized = false;
+        exchange.status = ExchangeStatus.Cancelled;
+        emit ExchangeCancelled(exchangeId, exchange.provider, exchange.receiver);
+        _settleListing(exchangeId, false);
+    }
 
-        // Placeholder for actual aggregation logic
-        // In a real scenario, iterate over deposits/withdrawals for the batch
-        // and use FHE.add to sum them up.
-        // For this example, we'll assume 0 for uninitialized values.
-        if (FHE.isInitialized(totalDeposits)) {
-            initialized = true;
-        } else {
-            totalDeposits = FHE.asEuint32(0);
-        }
-        if (FHE.isInitialized(totalWithdrawals)) {
-            initialized = true;
-        } else {
-            totalWithdrawals = FHE.asEuint32(0);
-        }
-        
-        if (!initialized) {
-            // If no operations were performed, ensure at least one FHE op for context
-            totalDeposits = FHE.add(totalDeposits, FHE.asEuint32(0));
-        }
+    /// @notice A coordinator who took no part in the exchange confirms it happened.
+    function verifyExchange(uint256 exchangeId) external onlyRoleOrAdmin(COORDINATOR_ROLE) {
+        Exchange storage exchange = exchanges[exchangeId];
+        if (exchange.status != ExchangeStatus.Accepted || exchangeVerifier[exchangeId] != address(0)) revert InvalidExchangeState();
+        if (disputes[exchangeId].status == DisputeStatus.Open) revert InvalidDisputeState();
+        if (msg.sender == exchange.provider || msg.sender == exchange.receiver) revert ConflictOfInterest();
+
+        exchangeVerifier[exchangeId] = msg.sender;
+        emit ExchangeVerified(exchangeId, msg.sender);
+    }
+
+    // Disputes, ratings, pledges and community transfers are implemented in TimeBankExtension; see its doc comments.
+
+    function openDispute(uint256, string calldata) external {
+        _delegateToExtension();
+    }
+
+    function assignDispute(uint256, address) external {
+        _delegateToExtension();
+    }
 
+    function addDisputeEvidence(uint256, string calldata) external {
+        _delegateToExtension();
+    }
+
+    function upholdDispute(uint256) external {
+        _delegateToExtension();
+    }
+
+    function adjustDispute(uint256, externalEuint32, bytes calldata) external {
+        _delegateToExtension();
+    }
+
+    function splitDispute(uint256, uint16) external {
+        _delegateToExtension();
+    }
+
+    function voidDispute(uint256) external {
+        _delegateToExtension();
+    }
+
+    function rateRecord(uint256, externalEuint32, bytes calldata) external {
+        _delegateToExtension();
+    }
+
+    function requestRatingReveal() external {
+        _delegateToExtension();
+    }
+
+    function ratingRevealCallback(uint256, bytes calldata, bytes calldata) external {
+        _delegateToExtension();
+    }
 
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(totalDeposits);
-        cts[1] = FHE.toBytes32(totalWithdrawals);
+    function pledgeHours(address, externalEuint32, bytes calldata, string calldata, uint64, uint64) external returns (uint256) {
+        _delegateToExtension();
+    }
+
+    function confirmPledge(uint256) external {
+        _delegateToExtension();
+    }
+
+    function cancelPledge(uint256) external {
+        _delegateToExtension();
+    }
 
+    function setCommunityRegistry(address) external {
+        _delegateToExtension();
+    }
+
+    function transferToCommunity(address, address, externalEuint32, bytes calldata, string calldata) external {
+        _delegateToExtension();
+    }
+
+    function receiveCommunityTransfer(address, address, euint32, string calldata) external {
+        _delegateToExtension();
+    }
+
+    function postListing(
+        ListingKind kind,
+        string calldata serviceType,
+        string calldata description,
+        string calldata location,
+        uint64 availableFrom,
+        uint64 availableUntil
+    ) external whenNotPaused returns (uint256 listingId) {
+        if (availableUntil != 0 && (availableUntil <= availableFrom || availableUntil <= block.timestamp)) revert InvalidAvailability();
+
+        listingId = ++listingCount;
+        listings[listingId] = Listing({
+            author: msg.sender,
+            kind: kind,
+            serviceType: serviceType,
+            description: description,
+            location: location,
+            availableFrom: availableFrom,
+            availableUntil: availableUntil,
+            status: ListingStatus.Open,
+            exchangeId: 0
+        });
+        emit ListingPosted(listingId, msg.sender, kind, serviceType, description, location, availableFrom, availableUntil);
+    }
+
+    /// @notice Offer author picks the member they served; the match becomes an exchange proposal for that member.
+    function matchOffer(uint256 listingId, address receiver, externalEuint32 encryptedAmount, bytes calldata inputProof) external onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) returns (uint256 exchangeId) {
+        Listing storage listing = _openListing(listingId, ListingKind.Offer);
+        if (msg.sender != listing.author) revert NotListingAuthor();
+
+        exchangeId = _proposeExchange(receiver, FHE.fromExternal(encryptedAmount, inputProof), listing.serviceType);
+        _matchListing(listingId, exchangeId, receiver);
+    }
+
+    /// @notice A provider answers a request; the author confirms by accepting the resulting exchange.
+    function matchRequest(uint256 listingId, externalEuint32 encryptedAmount, bytes calldata inputProof) external onlyRole(MEMBER_ROLE) whenNotPaused checkCooldown(msg.sender, lastSubmissionTime) returns (uint256 exchangeId) {
+        Listing storage listing = _openListing(listingId, ListingKind.Request);
+
+        exchangeId = _proposeExchange(listing.author, FHE.fromExternal(encryptedAmount, inputProof), listing.serviceType);
+        _matchListing(listingId, exchangeId, listing.author);
+    }
+
+    function closeListing(uint256 listingId) external {
+        Listing storage listing = listings[listingId];
+        if (msg.sender != listing.author) revert NotListingAuthor();
+        if (listing.status != ListingStatus.Open) revert InvalidListingState();
+
+        listing.status = ListingStatus.Closed;
+        emit ListingClosed(listingId);
+    }
+
+    function getBalance(address account) external view returns (euint32) {
+        return balances[account];
+    }
+
+    /// @notice Hours `account` owes against its credit line.
+    function getOverdraft(address account) external view returns (euint32) {
+        return overdrafts[account];
+    }
+
+    /// @notice Whether the account's last withdrawal, exchange or pledge was declined for lack of credit.
+    function getInsufficientCredit(address account) external view returns (ebool) {
+        return insufficientCredit[account];
+    }
+
+    /// @notice Service types with credited hours in `batchId`, in the order their totals are decrypted.
+    function getBatchServiceTypes(uint256 batchId) external view returns (string[] memory) {
+        return batchServiceTypes[batchId];
+    }
+
+    function requestBatchSummary(uint256 batchId) external onlyRoleOrAdmin(AUDITOR_ROLE) whenNotPaused checkCooldown(msg.sender, lastDecryptionRequestTime) {
+        if (!isBatchClosed[batchId]) revert("Batch not closed");
+
+        // Empty totals are stored as encrypted zeros so the callback reads back the same handles
+        if (!FHE.isInitialized(batchDeposits[batchId])) {
+            batchDeposits[batchId] = FHE.allowThis(FHE.asEuint32(0));
+        }
+        if (!FHE.isInitialized(batchWithdrawals[batchId])) {
+            batchWithdrawals[batchId] = FHE.allowThis(FHE.asEuint32(0));
+        }
+        bytes32[] memory cts = _batchCiphertexts(batchId);
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
-        emit DecryptionRequested(requestId, batchId);
+        emit DecryptionRequested(requestId, batchId, msg.sender);
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
     }
 
@@ -189,17 +425,7 @@ contract TimeBankFHE is SepoliaConfig {
         uint256 batchId = decryptionContexts[requestId].batchId;
 
         // Rebuild ciphertexts in the exact same order as in requestBatchSummary
-        euint32 totalDeposits; // Placeholder, would be fetched from storage
-        euint32 totalWithdrawals; // Placeholder, would be fetched from storage
-        bool initialized = false;
-        if (FHE.isInitialized(totalDeposits)) initialized = true;
-        if (FHE.isInitialized(totalWithdrawals)) initialized = true;
-        if (!initialized) totalDeposits = FHE.add(totalDeposits, FHE.asEuint32(0)); // Ensure context if all were default
-
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(totalDeposits);
-        cts[1] = FHE.toBytes32(totalWithdrawals);
-
+        bytes32[] memory cts = _batchCiphertexts(batchId);
         bytes32 currentHash = _hashCiphertexts(cts);
         if (currentHash != decryptionContexts[requestId].stateHash) {
             revert StateMismatchError();
@@ -207,16 +433,159 @@ contract TimeBankFHE is SepoliaConfig {
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        if (cleartexts.length != 8) revert InvalidDecryption(); // Expecting 2 uint32s
+        // One abi-encoded uint32 per ciphertext: both totals, then each service type
+        if (cleartexts.length != cts.length * 32) revert InvalidDecryption();
 
-        uint32 totalDepositedCleartext = uint32(bytes4(cleartexts[:4]));
-        uint32 totalWithdrawnCleartext = uint32(bytes4(cleartexts[4:8]));
+        (uint32 totalDepositedCleartext, uint32 totalWithdrawnCleartext) = abi.decode(cleartexts, (uint32, uint32));
+        uint32[] memory serviceTotals = new uint32[](cts.length - 2);
+        for (uint256 i = 0; i < serviceTotals.length; i++) {
+            serviceTotals[i] = uint32(uint256(_wordAt(cleartexts, i + 2)));
+        }
 
         decryptionContexts[requestId].processed = true;
         emit DecryptionCompleted(requestId, batchId, totalDepositedCleartext, totalWithdrawnCleartext);
+        emit ServiceTotalsDecrypted(requestId, batchId, batchServiceTypes[batchId], serviceTotals);
+    }
+
+    // Forwards the current call unchanged and returns or reverts with whatever the extension did
+    function _delegateToExtension() internal {
+        address target = extension;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let ok := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            if iszero(ok) {
+                revert(0, returndatasize())
+            }
+            return(0, returndatasize())
+        }
+    }
+
+    // Only the owner manages admins; admins manage every other role
+    function _checkRoleAdmin(bytes32 role) internal view {
+        if (role == ADMIN_ROLE) {
+            if (msg.sender != owner) revert NotOwner();
+        } else if (!hasRole(ADMIN_ROLE, msg.sender)) {
+            revert MissingRole(ADMIN_ROLE, msg.sender);
+        }
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (!roleMembers[role][account]) {
+            roleMembers[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (roleMembers[role][account]) {
+            roleMembers[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    function _pendingApplication(address applicant) internal view returns (Application storage application) {
+        application = applications[applicant];
+        if (application.status != ApplicationStatus.Pending) revert InvalidApplicationState();
+    }
+
+    function _proposeExchange(address receiver, euint32 encryptedHours, string memory serviceType) internal returns (uint256 exchangeId) {
+        if (receiver == address(0) || receiver == msg.sender) revert InvalidReceiver();
+
+        FHE.allowThis(encryptedHours);
+        FHE.allow(encryptedHours, msg.sender);
+        FHE.allow(encryptedHours, receiver);
+
+        exchangeId = ++exchangeCount;
+        exchanges[exchangeId] = Exchange({
+            provider: msg.sender,
+            receiver: receiver,
+            encryptedHours: encryptedHours,
+            serviceType: serviceType,
+            status: ExchangeStatus.Proposed
+        });
+        emit ExchangeProposed(exchangeId, msg.sender, receiver, encryptedHours, serviceType);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    function _openListing(uint256 listingId, ListingKind kind) internal view returns (Listing storage listing) {
+        listing = listings[listingId];
+        if (listing.status != ListingStatus.Open || listing.kind != kind) revert InvalidListingState();
+        if (listing.availableUntil != 0 && block.timestamp > listing.availableUntil) revert ListingExpired();
+    }
+
+    function _matchListing(uint256 listingId, uint256 exchangeId, address receiver) internal {
+        listings[listingId].status = ListingStatus.Matched;
+        listings[listingId].exchangeId = exchangeId;
+        listingOfExchange[exchangeId] = listingId;
+        emit ListingMatched(listingId, exchangeId, msg.sender, receiver);
+    }
+
+    // An accepted exchange completes its listing; a rejected or cancelled one puts it back on the board
+    function _settleListing(uint256 exchangeId, bool accepted) internal {
+        uint256 listingId = listingOfExchange[exchangeId];
+        if (listingId == 0) return;
+
+        Listing storage listing = listings[listingId];
+        if (accepted) {
+            listing.status = ListingStatus.Completed;
+            emit ListingCompleted(listingId, exchangeId);
+        } else {
+            listing.status = ListingStatus.Open;
+            listing.exchangeId = 0;
+            emit ListingReopened(listingId, exchangeId);
+        }
+    }
+
+    function _depositTime(euint32 encryptedHours, string calldata serviceType) internal {
+        if (isBatchClosed[currentBatchId]) revert BatchClosedError();
+
+        _initIfNeeded(encryptedHours);
+        FHE.allowThis(encryptedHours);
+        FHE.allow(encryptedHours, msg.sender);
+
+        _settleBalance(msg.sender, true);
+        _credit(msg.sender, encryptedHours);
+        batchDeposits[currentBatchId] = FHE.allowThis(FHE.add(batchDeposits[currentBatchId], encryptedHours));
+        _addServiceHours(serviceType, encryptedHours);
+
+        recordCount++;
+        emit TimeDeposited(msg.sender, currentBatchId, recordCount, encryptedHours, serviceType);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    function _withdrawTime(euint32 requestedHours, string calldata serviceType) internal {
+        if (isBatchClosed[currentBatchId]) revert BatchClosedError();
+
+        _initIfNeeded(requestedHours);
+        _settleBalance(msg.sender, true);
+
+        // Withdraw nothing when the balance and credit line cannot cover the request
+        euint32 encryptedHours = _debit(msg.sender, requestedHours);
+        batchWithdrawals[currentBatchId] = FHE.allowThis(FHE.add(batchWithdrawals[currentBatchId], encryptedHours));
+
+        recordCount++;
+        emit TimeWithdrawn(msg.sender, currentBatchId, recordCount, encryptedHours, serviceType);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    function _batchCiphertexts(uint256 batchId) internal view returns (bytes32[] memory cts) {
+        string[] storage serviceTypes = batchServiceTypes[batchId];
+        cts = new bytes32[](2 + serviceTypes.length);
+        cts[0] = FHE.toBytes32(batchDeposits[batchId]);
+        cts[1] = FHE.toBytes32(batchWithdrawals[batchId]);
+        for (uint256 i = 0; i < serviceTypes.length; i++) {
+            cts[i + 2] = FHE.toBytes32(batchServiceHours[batchId][keccak256(bytes(serviceTypes[i]))]);
+        }
+    }
+
+    function _wordAt(bytes memory data, uint256 index) internal pure returns (bytes32 word) {
+        assembly {
+            word := mload(add(data, mul(add(index, 1), 32)))
+        }
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
@@ -227,7 +596,7 @@ contract TimeBankFHE is SepoliaConfig {
         v.add(FHE.asEuint32(0));
     }
 
-    function _requireInitialized(euint32 v) internal view {
+    function _requireInitialized(euint32 v) internal pure {
         if (!FHE.isInitialized(v)) revert("FHE value not initialized");
     }
 }
\ No newline at end of file
@@ -2,8 +2,8 @@
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import { artifacts, ethers as hardhatEthers, network } from "hardhat";
+import { Wallet } from "ethers";
 
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
@@ -325,21 +325,29 @@ async function main() {
     privateKey = await ask("Enter the deployer private key (testnet only): ");
   }
 
-  const DEFAULT_RPC = "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3";
-  const rpc = DEFAULT_RPC;
+  // The RPC comes from the --network entry in hardhat.config.ts
+  const wallet = new Wallet(privateKey, hardhatEthers.provider);
 
-  const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
-
-  console.log("Deployer account:", wallet.address);
+  console.log(`Deployer account on ${network.name}:`, wallet.address);
 
   try {
-    const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-    const factory = await UniversalAdapterFactory.deploy();
-    await factory.waitForDeployment();
-
-    const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalAdapter contract deployed at:", deployedAddress);
+    const TimeBankFHEFactory = await hardhatEthers.getContractFactory("TimeBankFHE", wallet);
+    const timeBank = await TimeBankFHEFactory.deploy();
+    await timeBank.waitForDeployment();
+
+    const deployedAddress = await timeBank.getAddress();
+    const deployReceipt = await timeBank.deploymentTransaction()?.wait();
+    console.log("TimeBankFHE contract deployed at:", deployedAddress);
+
+    // The first bank is listed as the deployment's first community; later ones register themselves
+    const CommunitiesFactory = await hardhatEthers.getContractFactory("TimeBankCommunities", wallet);
+    const communities = await CommunitiesFactory.deploy();
+    await communities.waitForDeployment();
+    const communitiesAddress = await communities.getAddress();
+    await (await timeBank.setCommunityRegistry(communitiesAddress)).wait();
+    const communityName = process.env.COMMUNITY_NAME || "Main Community";
+    await (await communities.registerCommunity(deployedAddress, communityName, deployReceipt?.blockNumber ?? 0)).wait();
+    console.log(`TimeBankCommunities deployed at ${communitiesAddress}; registered "${communityName}"`);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -358,36 +366,47 @@ async function main() {
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
-      const config = {
-        network: rpc,
-        contractAddress: deployedAddress,
-        deployer: wallet.address,
+      // Deployments on other networks are kept; only this network's entry is replaced
+      const configPath = path.join(frontendConfigDir, "config.json");
+      const config = fs.existsSync(configPath)
+        ? JSON.parse(fs.readFileSync(configPath, "utf-8"))
+        : { defaultNetwork: network.name, deployments: {} };
+      config.deployments = {
+        ...config.deployments,
+        [network.name]: {
+          contractAddress: deployedAddress,
+          deployer: wallet.address,
+          deployBlock: deployReceipt?.blockNumber ?? 0,
+          communitiesAddress,
+        },
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
-      console.log("Wrote frontend config: frontend/web/src/config.json");
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n");
+      console.log(`Wrote ${network.name} deployment to frontend/web/src/config.json`);
 
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalAdapter.sol",
-          "UniversalAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-          e
-        );
+      // Only the ABIs are shared; the bytecode differs per network, since the FHEVM contract addresses are compiled in
+      for (const contractName of ["TimeBankFHE", "TimeBankCommunities"]) {
+        try {
+          const { sourceName, abi } = await artifacts.readArtifact(contractName);
+          const targetAbiPath = path.join(frontendConfigDir, "abi");
+          if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+          fs.writeFileSync(
+            path.join(targetAbiPath, `${contractName}.json`),
+            JSON.stringify({ contractName, sourceName, abi }, null, 2) + "\n"
+          );
+          console.log(`Copied ABI to frontend/web/src/abi/${contractName}.json`);
+        } catch (e) {
+          console.warn(`Failed to copy the ${contractName} ABI to frontend/web/src/abi`, e);
+        }
       }
+
+      // The frontend deploys new community banks from the bytecode compiled for this network
+      const bytecodeDir = path.join(frontendConfigDir, "abi", "bytecode");
+      if (!fs.existsSync(bytecodeDir)) fs.mkdirSync(bytecodeDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(bytecodeDir, `${network.name}.json`),
+        JSON.stringify({ contractName: "TimeBankFHE", network: network.name, bytecode: TimeBankFHEFactory.bytecode }, null, 2) + "\n"
+      );
+      console.log(`Wrote the ${network.name} bank bytecode to frontend/web/src/abi/bytecode/${network.name}.json`);
     }
   } catch (error) {
     console.error("Deployment failed:", error);
@@ -1,71 +1,129 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getActiveBank } from "./communities";
+import { describeTxError, getActiveNetwork, getContractReadOnly, getContractWithSigner, getSigner } from "./contract";
+import { clearDecryptSessions, configureRelayerForNetwork, decryptHours, encryptHours, isEncryptedHandle } from "./fhe";
+import { AdminEventInfo, ApplicationInfo, BatchInfo, DecryptionRequestInfo, ExchangeInfo, getRecordIndexer, IndexSnapshot, ListingInfo, PledgeInfo, ReputationInfo, TimeRecord } from "./indexer";
+import { getNetworkByChainId, getReadProvider, resolveNetwork } from "./network";
+import { addLocalAction, buildHistory, loadLocalActions, markRevertedLocalActions, mergeActions, pruneLocalActions, UserAction } from "./history";
+import MyBalance from "./components/MyBalance";
+import PendingExchanges from "./components/PendingExchanges";
+import Marketplace from "./components/Marketplace";
+import NetworkBanner from "./components/NetworkBanner";
+import ActionHistory from "./components/ActionHistory";
+import ActivityCharts from "./components/ActivityCharts";
+import CommunityStats from "./components/CommunityStats";
+import AdminConsole from "./components/AdminConsole";
+import MembershipApplication from "./components/MembershipApplication";
+import CoordinatorPanel from "./components/CoordinatorPanel";
+import DisputeSection from "./components/DisputeSection";
+import PledgeList from "./components/PledgeList";
+import CommunitySwitcher from "./components/CommunitySwitcher";
+import CommunityTransfer from "./components/CommunityTransfer";
+import ReputationPanel from "./components/ReputationPanel";
+import { canActAs, roleAssignments, rolesOf } from "./roles";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface TimeRecord {
-  id: number;
-  serviceType: string;
-  hours: string; // FHE encrypted string
-  timestamp: number;
-  provider: string;
-  receiver?: string;
-  status: 'deposited' | 'withdrawn' | 'pending';
-}
-
-interface UserAction {
-  type: 'deposit' | 'withdraw' | 'decrypt';
-  timestamp: number;
-  details: string;
-}
-
-// FHE encryption/decryption functions
-const FHEEncryptNumber = (value: number): string => `FHE-${btoa(value.toString())}`;
-const FHEDecryptNumber = (encryptedData: string): number => encryptedData.startsWith('FHE-') ? parseFloat(atob(encryptedData.substring(4))) : parseFloat(encryptedData);
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-
-const COLORS = ['#8BAAAD', '#6B8E4E', '#D4A59A', '#F3DDB3'];
+import { useAccount } from 'wagmi';
+import { Link, Route, Routes } from 'react-router-dom';
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, chainId, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
   const [timeRecords, setTimeRecords] = useState<TimeRecord[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showDepositModal, setShowDepositModal] = useState(false);
+  const [showExchangeModal, setShowExchangeModal] = useState(false);
   const [depositing, setDepositing] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
   const [newRecordData, setNewRecordData] = useState({ serviceType: "", hours: "" });
+  const [proposing, setProposing] = useState(false);
+  const [newExchangeData, setNewExchangeData] = useState({ receiver: "", serviceType: "", hours: "" });
+  const [exchanges, setExchanges] = useState<ExchangeInfo[]>([]);
+  const [listings, setListings] = useState<ListingInfo[]>([]);
+  const [pledges, setPledges] = useState<PledgeInfo[]>([]);
+  const [batches, setBatches] = useState<BatchInfo[]>([]);
+  const [decryptionRequests, setDecryptionRequests] = useState<DecryptionRequestInfo[]>([]);
+  const [adminEvents, setAdminEvents] = useState<AdminEventInfo[]>([]);
+  const [owner, setOwner] = useState<string | null>(null);
+  const [pendingOwner, setPendingOwner] = useState<string | null>(null);
+  const [applications, setApplications] = useState<ApplicationInfo[]>([]);
+  const [reputations, setReputations] = useState<Record<string, ReputationInfo>>({});
   const [selectedRecord, setSelectedRecord] = useState<TimeRecord | null>(null);
   const [decryptedHours, setDecryptedHours] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState("");
-  const [contractAddress, setContractAddress] = useState("");
-  const [chainId, setChainId] = useState(0);
-  const [startTimestamp, setStartTimestamp] = useState(0);
-  const [durationDays, setDurationDays] = useState(30);
-  const [userActions, setUserActions] = useState<UserAction[]>([]);
+  const [snapshot, setSnapshot] = useState<IndexSnapshot | null>(null);
+  const [localActions, setLocalActions] = useState<UserAction[]>([]);
   const [activeTab, setActiveTab] = useState('records');
+  const [balanceVersion, setBalanceVersion] = useState(0);
   
-  // Initialize signature parameters
   useEffect(() => {
     loadData().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
+  }, []);
+
+  // The relayer is chain specific, so follow the wallet's network (or the default one)
+  useEffect(() => {
+    configureRelayerForNetwork(resolveNetwork(chainId));
+  }, [chainId]);
+
+  // Decryption signatures belong to the account that produced them
+  useEffect(() => {
+    clearDecryptSessions();
+  }, [address]);
+
+  // Actions the index cannot show yet are kept per chain and account
+  useEffect(() => {
+    setLocalActions(address && chainId ? loadLocalActions(chainId, address) : []);
+  }, [address, chainId]);
+
+  const chainActions = useMemo(
+    () => (snapshot && address ? buildHistory(snapshot, address) : []),
+    [snapshot, address]
+  );
+
+  // A reverted transaction never reaches the index, so only its receipt tells that it failed
+  const checkLocalActionReceipts = async () => {
+    const network = chainId ? getNetworkByChainId(chainId) : undefined;
+    if (!address || !chainId || !network) return;
+    try {
+      setLocalActions(await markRevertedLocalActions(chainId, address, await getReadProvider(network)));
+    } catch (e) {
+      console.warn("Failed to check local action receipts:", e);
+    }
+  };
+
+  // Forget local pending actions once their transactions have been indexed
+  useEffect(() => {
+    if (!address || !chainId || !snapshot || snapshot.chainId !== chainId) return;
+    const indexed = new Set(chainActions.map((action) => action.txHash).filter((hash): hash is string => !!hash));
+    setLocalActions(pruneLocalActions(chainId, address, indexed));
+    checkLocalActionReceipts();
+  }, [chainActions]);
+
+  const roles = useMemo(() => rolesOf(address, roleAssignments(adminEvents), owner), [address, adminEvents, owner]);
+  const isMember = roles.has('MEMBER');
+  // The proposed owner needs the console to accept the transfer
+  const isPendingOwner = !!address && !!pendingOwner && address.toLowerCase() === pendingOwner.toLowerCase();
+
+  const userActions = useMemo(() => mergeActions(chainActions, localActions), [chainActions, localActions]);
+
+  const recordLocalAction = (action: Omit<UserAction, "id" | "source" | "timestamp">) => {
+    if (!address || !chainId) return;
+    setLocalActions(addLocalAction(chainId, address, { ...action, timestamp: Math.floor(Date.now() / 1000) }));
+  };
+
+  // The contract address depends on the wallet's chain, so resolve it again after a switch
+  useEffect(() => {
+    const ethereum = window.ethereum;
+    if (!ethereum) return;
+    const onChainChanged = () => {
+      setSelectedRecord(null);
+      loadData();
     };
-    initSignatureParams();
+    ethereum.on('chainChanged', onChainChanged);
+    return () => ethereum.removeListener('chainChanged', onChainChanged);
   }, []);
 
   // Load data from contract
@@ -73,25 +131,39 @@ const App: React.FC = () => {
     setIsRefreshing(true);
     try {
       const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        setTransactionStatus({ visible: true, status: "success", message: "Contract is available!" });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      if (!contract) {
+        setTimeRecords([]);
+        setExchanges([]);
+        setListings([]);
+        setPledges([]);
+        setBatches([]);
+        setDecryptionRequests([]);
+        setAdminEvents([]);
+        setApplications([]);
+        setReputations({});
+        setOwner(null);
+        setPendingOwner(null);
+        setSnapshot(null);
+        return;
       }
       
-      // Load time records
-      const recordsBytes = await contract.getData("timeRecords");
-      let recordsList: TimeRecord[] = [];
-      if (recordsBytes.length > 0) {
-        try {
-          const recordsStr = ethers.toUtf8String(recordsBytes);
-          if (recordsStr.trim() !== '') recordsList = JSON.parse(recordsStr);
-        } catch (e) {}
-      }
-      setTimeRecords(recordsList);
+      // Records are rebuilt from contract events, resuming from the last indexed block
+      const network = await getActiveNetwork();
+      const indexer = await getRecordIndexer(contract, { deployBlock: getActiveBank(network)?.deployBlock });
+      const snapshot = await indexer.sync();
+      setTimeRecords([...snapshot.records]);
+      setExchanges(indexer.exchanges);
+      setListings(indexer.listings);
+      setPledges(indexer.pledges);
+      setBatches(indexer.batches);
+      setDecryptionRequests(indexer.decryptionRequests);
+      setAdminEvents(indexer.adminEvents);
+      setApplications(indexer.applications);
+      setReputations(indexer.reputations);
+      setOwner(await contract.owner());
+      const proposedOwner = await contract.pendingOwner();
+      setPendingOwner(proposedOwner === ethers.ZeroAddress ? null : proposedOwner);
+      setSnapshot({ ...snapshot });
     } catch (e) {
       console.error("Error loading data:", e);
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
@@ -102,6 +174,13 @@ const App: React.FC = () => {
     }
   };
 
+  // Each community has its own bank, so nothing read from the previous one carries over
+  const switchCommunity = async () => {
+    setSelectedRecord(null);
+    setBalanceVersion(v => v + 1);
+    await loadData();
+  };
+
   // Deposit new time record
   const depositTime = async () => {
     if (!isConnected || !address) { 
@@ -117,34 +196,21 @@ const App: React.FC = () => {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      // Create new time record
       const hoursValue = parseFloat(newRecordData.hours);
       if (isNaN(hoursValue) || hoursValue <= 0) throw new Error("Invalid hours value");
       
-      const newRecord: TimeRecord = {
-        id: timeRecords.length + 1,
-        serviceType: newRecordData.serviceType,
-        hours: FHEEncryptNumber(hoursValue),
-        timestamp: Math.floor(Date.now() / 1000),
-        provider: address,
-        status: 'deposited'
-      };
-      
-      // Update records list
-      const updatedRecords = [...timeRecords, newRecord];
-      
-      // Save to contract
-      await contract.setData("timeRecords", ethers.toUtf8Bytes(JSON.stringify(updatedRecords)));
-      
-      // Update user actions
-      const newAction: UserAction = {
+      const encrypted = await encryptHours(await contract.getAddress(), address, hoursValue);
+      const tx = await contract["depositTime(bytes32,bytes,string)"](encrypted.handle, encrypted.inputProof, newRecordData.serviceType);
+      recordLocalAction({
         type: 'deposit',
-        timestamp: Math.floor(Date.now() / 1000),
-        details: `Deposited ${newRecordData.hours} hours for ${newRecordData.serviceType}`
-      };
-      setUserActions(prev => [newAction, ...prev]);
+        details: `Deposited ${newRecordData.hours} hours for ${newRecordData.serviceType}`,
+        txHash: tx.hash,
+        status: 'pending'
+      });
+      await tx.wait();
       
       setTransactionStatus({ visible: true, status: "success", message: "Time deposited successfully!" });
+      setBalanceVersion(v => v + 1);
       await loadData();
       
       setTimeout(() => {
@@ -153,9 +219,8 @@ const App: React.FC = () => {
         setNewRecordData({ serviceType: "", hours: "" });
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Deposit failed: " + (e.message || "Unknown error");
+      const errorMessage = describeTxError(e, "Deposit");
+      checkLocalActionReceipts();
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
@@ -163,82 +228,80 @@ const App: React.FC = () => {
     }
   };
 
-  // Withdraw time
-  const withdrawTime = async (recordId: number) => {
+  // Propose an exchange the receiver has to confirm
+  const proposeExchange = async () => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return; 
     }
     
-    setTransactionStatus({ visible: true, status: "pending", message: "Withdrawing time with Zama FHE..." });
+    setProposing(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Proposing exchange with Zama FHE..." });
     
     try {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      // Find the record
-      const recordIndex = timeRecords.findIndex(r => r.id === recordId);
-      if (recordIndex === -1) throw new Error("Record not found");
-      
-      // Update record status
-      const updatedRecords = [...timeRecords];
-      updatedRecords[recordIndex] = {
-        ...updatedRecords[recordIndex],
-        status: 'withdrawn',
-        receiver: address
-      };
-      
-      // Save to contract
-      await contract.setData("timeRecords", ethers.toUtf8Bytes(JSON.stringify(updatedRecords)));
+      if (!ethers.isAddress(newExchangeData.receiver)) throw new Error("Invalid receiver address");
+      const hoursValue = parseFloat(newExchangeData.hours);
+      if (isNaN(hoursValue) || hoursValue <= 0) throw new Error("Invalid hours value");
       
-      // Update user actions
-      const newAction: UserAction = {
-        type: 'withdraw',
-        timestamp: Math.floor(Date.now() / 1000),
-        details: `Withdrawn ${updatedRecords[recordIndex].hours} hours for ${updatedRecords[recordIndex].serviceType}`
-      };
-      setUserActions(prev => [newAction, ...prev]);
+      const encrypted = await encryptHours(await contract.getAddress(), address, hoursValue);
+      const tx = await contract.proposeExchange(newExchangeData.receiver, encrypted.handle, encrypted.inputProof, newExchangeData.serviceType);
+      recordLocalAction({
+        type: 'exchange',
+        details: `Proposed ${newExchangeData.hours} hours of ${newExchangeData.serviceType} to ${newExchangeData.receiver}`,
+        txHash: tx.hash,
+        status: 'pending'
+      });
+      await tx.wait();
       
-      setTransactionStatus({ visible: true, status: "success", message: "Time withdrawn successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Exchange proposed, waiting for the receiver to confirm" });
       await loadData();
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setShowExchangeModal(false);
+        setNewExchangeData({ receiver: "", serviceType: "", hours: "" });
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Withdrawal failed: " + (e.message || "Unknown error");
+      const errorMessage = describeTxError(e, "Exchange proposal");
+      checkLocalActionReceipts();
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { 
+      setProposing(false); 
     }
   };
 
-  // Decrypt hours with signature
+  // Decrypt hours through the relayer with an EIP-712 user-decryption signature
   const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
     if (!isConnected) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     }
+    if (!isEncryptedHandle(encryptedData)) {
+      setTransactionStatus({ visible: true, status: "error", message: "This record predates FHE encryption and cannot be decrypted" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    }
     
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const contract = await getContractReadOnly();
+      if (!contract) throw new Error("Contract is not available");
+      const hours = await decryptHours(encryptedData, await contract.getAddress(), await getSigner());
       
-      // Update user actions
-      const newAction: UserAction = {
-        type: 'decrypt',
-        timestamp: Math.floor(Date.now() / 1000),
-        details: "Decrypted FHE data"
-      };
-      setUserActions(prev => [newAction, ...prev]);
+      // User decryption happens off-chain, so only the local history knows about it
+      recordLocalAction({ type: 'decrypt', details: "Decrypted FHE data", status: 'confirmed' });
       
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { 
+      return hours;
+    } catch (e: any) { 
+      console.error("Decryption failed:", e);
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     } finally { 
       setIsDecrypting(false); 
@@ -268,8 +331,8 @@ const App: React.FC = () => {
         <div className="flow-step">
           <div className="step-icon">3</div>
           <div className="step-content">
-            <h4>Private Withdrawal</h4>
-            <p>Members can withdraw time anonymously when needed</p>
+            <h4>Confirmed Exchange</h4>
+            <p>The receiver co-signs and encrypted hours move from their balance to the provider</p>
           </div>
         </div>
         <div className="flow-arrow">→</div>
@@ -284,29 +347,6 @@ const App: React.FC = () => {
     );
   };
 
-  // Render user actions history
-  const renderUserActions = () => {
-    if (userActions.length === 0) return <div className="no-data">No actions recorded</div>;
-    
-    return (
-      <div className="actions-list">
-        {userActions.map((action, index) => (
-          <div className="action-item" key={index}>
-            <div className={`action-type ${action.type}`}>
-              {action.type === 'deposit' && '⏳'}
-              {action.type === 'withdraw' && '⏱️'}
-              {action.type === 'decrypt' && '🔓'}
-            </div>
-            <div className="action-details">
-              <div className="action-text">{action.details}</div>
-              <div className="action-time">{new Date(action.timestamp * 1000).toLocaleString()}</div>
-            </div>
-          </div>
-        ))}
-      </div>
-    );
-  };
-
   // Render FAQ section
   const renderFAQ = () => {
     const faqItems = [
@@ -320,7 +360,7 @@ const App: React.FC = () => {
       },
       {
         question: "How do I earn time credits?",
-        answer: "You earn credits by providing services to other community members. Each hour of service equals one time credit."
+        answer: "You earn credits by providing services to other community members. Record the exchange with the receiver's address; once they accept, the hours move from their balance to yours. Each hour of service equals one time credit."
       },
       {
         question: "Can I see my own time balance?",
@@ -344,41 +384,6 @@ const App: React.FC = () => {
     );
   };
 
-  // Prepare data for charts
-  const prepareChartData = () => {
-    const serviceTypes: Record<string, number> = {};
-    
-    timeRecords.forEach(record => {
-      if (record.status === 'deposited') {
-        const hours = FHEDecryptNumber(record.hours);
-        serviceTypes[record.serviceType] = (serviceTypes[record.serviceType] || 0) + hours;
-      }
-    });
-    
-    return Object.entries(serviceTypes).map(([name, value]) => ({
-      name,
-      value
-    }));
-  };
-
-  const prepareMonthlyData = () => {
-    const monthlyData: Record<number, number> = {};
-    
-    timeRecords.forEach(record => {
-      if (record.status === 'deposited') {
-        const date = new Date(record.timestamp * 1000);
-        const month = date.getMonth();
-        const hours = FHEDecryptNumber(record.hours);
-        monthlyData[month] = (monthlyData[month] || 0) + hours;
-      }
-    });
-    
-    return Array(12).fill(0).map((_, month) => ({
-      name: new Date(2023, month, 1).toLocaleString('default', { month: 'short' }),
-      hours: monthlyData[month] || 0
-    }));
-  };
-
   if (loading) return (
     <div className="loading-screen">
       <div className="fhe-spinner"></div>
@@ -393,175 +398,214 @@ const App: React.FC = () => {
           <div className="logo-icon">
             <div className="time-icon"></div>
           </div>
-          <h1>隱時銀行<span>Time Bank FHE</span></h1>
+          <Link to="/" className="logo-link"><h1>隱時銀行<span>Time Bank FHE</span></h1></Link>
         </div>
         
         <div className="header-actions">
-          <button 
-            onClick={() => setShowDepositModal(true)} 
-            className="deposit-time-btn"
-          >
-            <div className="add-icon"></div>Deposit Time
-          </button>
+          <CommunitySwitcher onSwitched={switchCommunity} />
+          {isMember && (
+            <>
+              <button 
+                onClick={() => setShowDepositModal(true)} 
+                className="deposit-time-btn"
+              >
+                <div className="add-icon"></div>Deposit Time
+              </button>
+              <button 
+                onClick={() => setShowExchangeModal(true)} 
+                className="deposit-time-btn exchange-time-btn"
+              >
+                Record Exchange
+              </button>
+            </>
+          )}
+          {(canActAs(roles, 'ADMIN') || isPendingOwner) && (
+            <Link to="/admin" className="deposit-time-btn admin-link">Admin</Link>
+          )}
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
         </div>
       </header>
       
-      <div className="main-content-container">
-        <div className="dashboard-section">
-          <div className="dashboard-grid">
-            <div className="dashboard-panel intro-panel">
-              <div className="panel-card">
-                <h2>Private Time Banking with FHE</h2>
-                <p>Time Bank FHE allows community members to exchange service hours with complete privacy using Zama FHE encryption.</p>
-                <div className="fhe-badge">
-                  <div className="fhe-icon"></div>
-                  <span>Powered by Zama FHE</span>
-                </div>
-              </div>
-              
-              <div className="panel-card">
-                <h2>FHE Time Exchange Flow</h2>
-                {renderFHEFlow()}
-              </div>
-              
-              <div className="panel-card">
-                <h2>Community Statistics</h2>
-                <div className="stats-grid">
-                  <div className="stat-item">
-                    <div className="stat-value">{timeRecords.length}</div>
-                    <div className="stat-label">Transactions</div>
-                  </div>
-                  <div className="stat-item">
-                    <div className="stat-value">
-                      {timeRecords.length > 0 
-                        ? timeRecords.reduce((sum, r) => sum + FHEDecryptNumber(r.hours), 0).toFixed(1)
-                        : 0}
+      <NetworkBanner />
+      
+      <Routes>
+        <Route path="/" element={
+          <div className="main-content-container">
+            <div className="dashboard-section">
+              <div className="dashboard-grid">
+                <div className="dashboard-panel intro-panel">
+                  <div className="panel-card">
+                    <h2>Private Time Banking with FHE</h2>
+                    <p>Time Bank FHE allows community members to exchange service hours with complete privacy using Zama FHE encryption.</p>
+                    <div className="fhe-badge">
+                      <div className="fhe-icon"></div>
+                      <span>Powered by Zama FHE</span>
                     </div>
-                    <div className="stat-label">Total Hours</div>
                   </div>
-                  <div className="stat-item">
-                    <div className="stat-value">
-                      {timeRecords.length > 0 
-                        ? (timeRecords.filter(r => r.status === 'withdrawn').length / timeRecords.length * 100).toFixed(1)
-                        : 0}%
-                    </div>
-                    <div className="stat-label">Withdrawal Rate</div>
+              
+                  <MembershipApplication address={address} applications={applications} onChanged={loadData} />
+                  
+                  <MyBalance address={address} refreshKey={balanceVersion} />
+
+                  <ReputationPanel address={address} exchanges={exchanges} reputations={reputations} onChanged={loadData} />
+                  
+                  {canActAs(roles, 'COORDINATOR') && (
+                    <CoordinatorPanel address={address} applications={applications} exchanges={exchanges} onChanged={loadData} />
+                  )}
+              
+                  <PendingExchanges 
+                    address={address} 
+                    isMember={isMember}
+                    exchanges={exchanges} 
+                    onSettled={async () => {
+                      setBalanceVersion(v => v + 1);
+                      await loadData();
+                    }} 
+                  />
+              
+                  <div className="panel-card">
+                    <h2>FHE Time Exchange Flow</h2>
+                    {renderFHEFlow()}
                   </div>
+              
+                  <CommunityStats 
+                    batches={batches} 
+                    decryptionRequests={decryptionRequests} 
+                    canRequestSummary={canActAs(roles, 'AUDITOR')} 
+                    onChanged={loadData} 
+                  />
                 </div>
-              </div>
-            </div>
             
-            <div className="dashboard-panel chart-panel">
-              <div className="panel-card">
-                <h2>Service Type Distribution</h2>
-              </div>
-              
-              <div className="panel-card">
-                <h2>Monthly Activity</h2>
+                <div className="dashboard-panel chart-panel">
+                  <ActivityCharts batches={batches} />
+                </div>
               </div>
-            </div>
-          </div>
           
-          <div className="tabs-container">
-            <div className="tabs">
-              <button 
-                className={`tab ${activeTab === 'records' ? 'active' : ''}`}
-                onClick={() => setActiveTab('records')}
-              >
-                Time Records
-              </button>
-              <button 
-                className={`tab ${activeTab === 'actions' ? 'active' : ''}`}
-                onClick={() => setActiveTab('actions')}
-              >
-                My Actions
-              </button>
-              <button 
-                className={`tab ${activeTab === 'faq' ? 'active' : ''}`}
-                onClick={() => setActiveTab('faq')}
-              >
-                FAQ
-              </button>
-            </div>
+              <div className="tabs-container">
+                <div className="tabs">
+                  <button 
+                    className={`tab ${activeTab === 'records' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('records')}
+                  >
+                    Time Records
+                  </button>
+                  <button 
+                    className={`tab ${activeTab === 'marketplace' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('marketplace')}
+                  >
+                    Marketplace
+                  </button>
+                  <button 
+                    className={`tab ${activeTab === 'actions' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('actions')}
+                  >
+                    My Actions
+                  </button>
+                  <button 
+                    className={`tab ${activeTab === 'faq' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('faq')}
+                  >
+                    FAQ
+                  </button>
+                </div>
             
-            <div className="tab-content">
-              {activeTab === 'records' && (
-                <div className="records-section">
-                  <div className="section-header">
-                    <h2>Time Transactions</h2>
-                    <div className="header-actions">
-                      <button 
-                        onClick={loadData} 
-                        className="refresh-btn" 
-                        disabled={isRefreshing}
-                      >
-                        {isRefreshing ? "Refreshing..." : "Refresh"}
-                      </button>
-                    </div>
-                  </div>
-                  
-                  <div className="records-list">
-                    {timeRecords.length === 0 ? (
-                      <div className="no-records">
-                        <div className="no-records-icon"></div>
-                        <p>No time records found</p>
-                        <button 
-                          className="deposit-btn" 
-                          onClick={() => setShowDepositModal(true)}
-                        >
-                          Deposit Your First Hours
-                        </button>
-                      </div>
-                    ) : timeRecords.map((record, index) => (
-                      <div 
-                        className={`record-item ${selectedRecord?.id === record.id ? "selected" : ""}`} 
-                        key={index}
-                        onClick={() => setSelectedRecord(record)}
-                      >
-                        <div className="record-type">{record.serviceType}</div>
-                        <div className="record-hours">Encrypted Hours: {record.hours.substring(0, 15)}...</div>
-                        <div className="record-status">
-                          <span className={`status-badge ${record.status}`}>{record.status}</span>
-                          {record.provider === address && (
-                            <button 
-                              className="withdraw-btn"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                withdrawTime(record.id);
-                              }}
-                              disabled={record.status !== 'deposited'}
-                            >
-                              Withdraw
-                            </button>
-                          )}
+                <div className="tab-content">
+                  {activeTab === 'records' && (
+                    <div className="records-section">
+                      <div className="section-header">
+                        <h2>Time Transactions</h2>
+                        <div className="header-actions">
+                          <button 
+                            onClick={loadData} 
+                            className="refresh-btn" 
+                            disabled={isRefreshing}
+                          >
+                            {isRefreshing ? "Refreshing..." : "Refresh"}
+                          </button>
                         </div>
-                        <div className="record-date">{new Date(record.timestamp * 1000).toLocaleDateString()}</div>
                       </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+
+                      <PledgeList address={address} isMember={isMember} pledges={pledges} onChanged={loadData} />
+
+                      <CommunityTransfer address={address} isMember={isMember} refreshKey={balanceVersion} onChanged={loadData} />
+                  
+                      <div className="records-list">
+                        {timeRecords.length === 0 ? (
+                          <div className="no-records">
+                            <div className="no-records-icon"></div>
+                            <p>No time records found</p>
+                            {isMember && (
+                              <button 
+                                className="deposit-btn" 
+                                onClick={() => setShowDepositModal(true)}
+                              >
+                                Deposit Your First Hours
+                              </button>
+                            )}
+                          </div>
+                        ) : timeRecords.map((record, index) => (
+                          <div 
+                            className={`record-item ${selectedRecord?.id === record.id ? "selected" : ""}`} 
+                            key={index}
+                            onClick={() => setSelectedRecord(record)}
+                          >
+                            <div className="record-type">{record.serviceType}</div>
+                            <div className="record-hours">Encrypted Hours: {record.hours.substring(0, 15)}...</div>
+                            <div className="record-status">
+                              <span className={`status-badge ${record.status}`}>{record.status}</span>
+                              {record.partnerBank && (
+                                <span className="listing-note">{record.status === 'withdrawn' ? "to" : "from"} another community</span>
+                              )}
+                            </div>
+                            <div className="record-date">{new Date(record.timestamp * 1000).toLocaleDateString()}</div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
               
-              {activeTab === 'actions' && (
-                <div className="actions-section">
-                  <h2>My Activity History</h2>
-                  {renderUserActions()}
-                </div>
-              )}
+                  {activeTab === 'marketplace' && (
+                    <Marketplace 
+                      address={address} 
+                      isMember={isMember} 
+                      listings={listings} 
+                      reputations={reputations} 
+                      onChanged={loadData} 
+                    />
+                  )}
+              
+                  {activeTab === 'actions' && (
+                    <ActionHistory actions={userActions} address={address} />
+                  )}
               
-              {activeTab === 'faq' && (
-                <div className="faq-section">
-                  <h2>Frequently Asked Questions</h2>
-                  {renderFAQ()}
+                  {activeTab === 'faq' && (
+                    <div className="faq-section">
+                      <h2>Frequently Asked Questions</h2>
+                      {renderFAQ()}
+                    </div>
+                  )}
                 </div>
-              )}
+              </div>
             </div>
           </div>
-        </div>
-      </div>
+        } />
+        <Route path="/admin" element={
+          <div className="main-content-container">
+            <AdminConsole 
+              address={address} 
+              owner={owner} 
+              pendingOwner={pendingOwner} 
+              roles={roles} 
+              batches={batches} 
+              decryptionRequests={decryptionRequests} 
+              adminEvents={adminEvents} 
+              onChanged={loadData} 
+            />
+          </div>
+        } />
+      </Routes>
       
       {showDepositModal && (
         <ModalDepositTime 
@@ -573,6 +617,16 @@ const App: React.FC = () => {
         />
       )}
       
+      {showExchangeModal && (
+        <ModalProposeExchange 
+          onSubmit={proposeExchange} 
+          onClose={() => setShowExchangeModal(false)} 
+          proposing={proposing} 
+          exchangeData={newExchangeData} 
+          setExchangeData={setNewExchangeData}
+        />
+      )}
+      
       {selectedRecord && (
         <RecordDetailModal 
           record={selectedRecord} 
@@ -585,6 +639,8 @@ const App: React.FC = () => {
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
           address={address}
+          exchange={exchanges.find((e) => e.recordId === selectedRecord.id)}
+          onChanged={loadData}
         />
       )}
       
@@ -705,6 +761,88 @@ const ModalDepositTime: React.FC<ModalDepositTimeProps> = ({ onSubmit, onClose,
   );
 };
 
+interface ModalProposeExchangeProps {
+  onSubmit: () => void; 
+  onClose: () => void; 
+  proposing: boolean;
+  exchangeData: any;
+  setExchangeData: (data: any) => void;
+}
+
+const ModalProposeExchange: React.FC<ModalProposeExchangeProps> = ({ onSubmit, onClose, proposing, exchangeData, setExchangeData }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setExchangeData({ ...exchangeData, [name]: value });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="deposit-time-modal">
+        <div className="modal-header">
+          <h2>Record Service Exchange</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="lock-icon"></div>
+            <div>
+              <strong>Two-party confirmation</strong>
+              <p>The hours are encrypted with Zama FHE and only move once the receiver accepts</p>
+            </div>
+          </div>
+          
+          <div className="form-group">
+            <label>Receiver Address *</label>
+            <input 
+              type="text" 
+              name="receiver" 
+              value={exchangeData.receiver} 
+              onChange={handleChange} 
+              placeholder="0x..." 
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Service Type *</label>
+            <input 
+              type="text" 
+              name="serviceType" 
+              value={exchangeData.serviceType} 
+              onChange={handleChange} 
+              placeholder="e.g. Gardening, Tutoring..." 
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Hours Provided *</label>
+            <input 
+              type="number" 
+              name="hours" 
+              value={exchangeData.hours} 
+              onChange={handleChange} 
+              placeholder="Enter hours..." 
+              min="0.1"
+              step="0.1"
+            />
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn">Cancel</button>
+          <button 
+            onClick={onSubmit} 
+            disabled={proposing || !exchangeData.receiver || !exchangeData.serviceType || !exchangeData.hours} 
+            className="submit-btn"
+          >
+            {proposing ? "Proposing with FHE..." : "Propose Exchange"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 interface RecordDetailModalProps {
   record: TimeRecord;
   onClose: () => void;
@@ -713,6 +851,8 @@ interface RecordDetailModalProps {
   isDecrypting: boolean;
   decryptWithSignature: (encryptedData: string) => Promise<number | null>;
   address: string | undefined;
+  exchange?: ExchangeInfo; // set when the record came from an accepted exchange
+  onChanged: () => Promise<void> | void;
 }
 
 const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ 
@@ -722,7 +862,9 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
   setDecryptedHours, 
   isDecrypting, 
   decryptWithSignature,
-  address
+  address,
+  exchange,
+  onChanged
 }) => {
   const handleDecrypt = async () => {
     if (decryptedHours !== null) { 
@@ -807,6 +949,8 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               </div>
             </div>
           )}
+
+          {exchange && <DisputeSection exchange={exchange} address={address} onChanged={onChanged} />}
         </div>
         
         <div className="modal-footer">
@@ -0,0 +1,59 @@
+// admin/audit.ts
+import type { AdminEventInfo } from "../indexer";
+import { decodeHours } from "../fhe";
+import { CREDIT_POLICY_KINDS, describeCreditPolicy } from "../policy";
+import { roleFromId } from "../roles";
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+export function describeAdminEvent(event: AdminEventInfo): string {
+  const { args } = event;
+  switch (event.name) {
+    case 'OwnershipTransferStarted':
+      return `Ownership transfer from ${shortAddress(args.previousOwner)} to ${shortAddress(args.newOwner)} proposed`;
+    case 'OwnershipTransferCancelled':
+      return `Pending ownership transfer to ${shortAddress(args.pendingOwner)} cancelled by ${shortAddress(args.owner)}`;
+    case 'OwnershipTransferred':
+      return `Ownership transferred from ${shortAddress(args.previousOwner)} to ${shortAddress(args.newOwner)}`;
+    case 'RoleGranted':
+      return `${roleFromId(args.role) ?? "Unknown"} role granted to ${shortAddress(args.account)} by ${shortAddress(args.sender)}`;
+    case 'RoleRevoked':
+      return args.account.toLowerCase() === args.sender.toLowerCase()
+        ? `${shortAddress(args.account)} renounced the ${roleFromId(args.role) ?? "unknown"} role`
+        : `${roleFromId(args.role) ?? "Unknown"} role revoked from ${shortAddress(args.account)} by ${shortAddress(args.sender)}`;
+    case 'MembershipApproved':
+      return `Membership of ${shortAddress(args.applicant)} approved by ${shortAddress(args.approver)}`;
+    case 'MembershipRejected':
+      return `Membership of ${shortAddress(args.applicant)} rejected by ${shortAddress(args.approver)}: ${args.reason || "no reason given"}`;
+    case 'Paused':
+      return `Contract paused by ${shortAddress(args.account)}`;
+    case 'Unpaused':
+      return `Contract unpaused by ${shortAddress(args.account)}`;
+    case 'CooldownSecondsSet':
+      return `Cooldown changed from ${args.oldCooldownSeconds}s to ${args.newCooldownSeconds}s`;
+    case 'CreditPolicySet':
+      return `Credit policy changed: ${describeCreditPolicy({
+        kind: CREDIT_POLICY_KINDS[Number(args.policy)] ?? 'none',
+        expiryDays: Number(args.expiryDays),
+        decayBasisPoints: Number(args.decayBasisPoints),
+        decayPeriodDays: Number(args.decayPeriodDays),
+        updatedAt: event.timestamp
+      })}`;
+    case 'DefaultCreditLimitSet':
+      return `Default credit limit set to ${decodeHours(Number(args.limit))} h`;
+    case 'CreditLimitSet':
+      return `Credit limit of ${shortAddress(args.account)} set to ${decodeHours(Number(args.limit))} h`;
+    case 'CreditLimitCleared':
+      return `Credit limit of ${shortAddress(args.account)} reset to the default`;
+    case 'CommunityRegistrySet':
+      return BigInt(args.registry) === 0n
+        ? "Left the community registry; transfers to other communities stopped"
+        : `Joined the community registry at ${shortAddress(args.registry)}`;
+    case 'BatchOpened':
+      return `Batch #${args.batchId} opened`;
+    case 'BatchClosed':
+      return `Batch #${args.batchId} closed`;
+    case 'DecryptionRequested':
+      return `Summary of batch #${args.batchId} requested by ${shortAddress(args.requester)}`;
+  }
+}
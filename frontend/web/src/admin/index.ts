@@ -0,0 +1,2 @@
+// admin/index.ts
+export { describeAdminEvent } from "./audit";
@@ -0,0 +1,93 @@
+// charts/aggregates.ts
+import { HOURS_SCALE } from "../fhe";
+import type { BatchInfo, BatchSummary } from "../indexer";
+
+export interface ServiceShare {
+  serviceType: string;
+  hours: number;
+}
+
+export interface ActivityPoint {
+  key: string; // YYYY-MM, or the batch id for per-batch series
+  label: string;
+  deposited: number; // hours
+  withdrawn: number;
+}
+
+export interface TimeRange {
+  from?: number; // unix seconds, inclusive
+  to?: number;
+}
+
+type DecryptedBatch = BatchInfo & { summary: BatchSummary };
+
+const toHours = (units: number) => units / HOURS_SCALE;
+
+// A batch's activity is dated by its close; older snapshots may only know when it was decrypted
+const batchTime = (batch: DecryptedBatch) => batch.closedAt ?? batch.summary.decryptedAt;
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+/** Only batches whose totals were publicly decrypted can feed a chart. */
+export function decryptedBatches(batches: BatchInfo[], range: TimeRange = {}): DecryptedBatch[] {
+  return batches
+    .filter((batch): batch is DecryptedBatch => batch.summary !== undefined)
+    .filter((batch) =>
+      (range.from === undefined || batchTime(batch) >= range.from) &&
+      (range.to === undefined || batchTime(batch) <= range.to)
+    )
+    .sort((a, b) => batchTime(a) - batchTime(b));
+}
+
+export function serviceDistribution(batches: BatchInfo[], range?: TimeRange): ServiceShare[] {
+  const totals: Record<string, number> = {};
+  for (const batch of decryptedBatches(batches, range)) {
+    for (const [serviceType, units] of Object.entries(batch.summary.serviceTotals ?? {})) {
+      totals[serviceType] = (totals[serviceType] ?? 0) + units;
+    }
+  }
+  return Object.entries(totals)
+    .filter(([, units]) => units > 0)
+    .map(([serviceType, units]) => ({ serviceType, hours: toHours(units) }))
+    .sort((a, b) => b.hours - a.hours);
+}
+
+/** Hours per calendar month, with empty months between the first and last batch filled in. */
+export function monthlyActivity(batches: BatchInfo[], range?: TimeRange): ActivityPoint[] {
+  const decrypted = decryptedBatches(batches, range);
+  if (decrypted.length === 0) return [];
+
+  const byMonth = new Map<string, ActivityPoint>();
+  const first = new Date(batchTime(decrypted[0]) * 1000);
+  const last = new Date(batchTime(decrypted[decrypted.length - 1]) * 1000);
+  for (let month = new Date(first.getFullYear(), first.getMonth(), 1); month <= last; month.setMonth(month.getMonth() + 1)) {
+    byMonth.set(monthKey(month), {
+      key: monthKey(month),
+      label: month.toLocaleString('default', { month: 'short', year: 'numeric' }),
+      deposited: 0,
+      withdrawn: 0
+    });
+  }
+
+  for (const batch of decrypted) {
+    const point = byMonth.get(monthKey(new Date(batchTime(batch) * 1000)))!;
+    point.deposited += toHours(batch.summary.totalDeposited);
+    point.withdrawn += toHours(batch.summary.totalWithdrawn);
+  }
+  return Array.from(byMonth.values());
+}
+
+export function batchActivity(batches: BatchInfo[], range?: TimeRange): ActivityPoint[] {
+  return decryptedBatches(batches, range).map((batch) => ({
+    key: String(batch.id),
+    label: `Batch #${batch.id}`,
+    deposited: toHours(batch.summary.totalDeposited),
+    withdrawn: toHours(batch.summary.totalWithdrawn)
+  }));
+}
+
+/** Calendar years that have at least one decrypted batch, newest first. */
+export function activityYears(batches: BatchInfo[]): number[] {
+  const years = new Set(decryptedBatches(batches).map((batch) => new Date(batchTime(batch) * 1000).getFullYear()));
+  return Array.from(years).sort((a, b) => b - a);
+}
@@ -0,0 +1,3 @@
+// charts/index.ts
+export { activityYears, batchActivity, decryptedBatches, monthlyActivity, serviceDistribution } from "./aggregates";
+export type { ActivityPoint, ServiceShare, TimeRange } from "./aggregates";
@@ -0,0 +1,133 @@
+// communities/communities.ts
+import { ethers } from "ethers";
+import bankJson from "../abi/TimeBankFHE.json";
+import registryJson from "../abi/TimeBankCommunities.json";
+import { getReadProvider } from "../network";
+import type { Deployment, NetworkConfig } from "../network";
+import type { TimeBankCommunities, TimeBankFHE } from "../../../../types";
+
+const STORAGE_PREFIX = "timebank:community";
+
+export const TRANSFER_DECLINED_MESSAGE = "Insufficient balance: only earned hours can go to another community, so nothing was sent";
+
+export interface Community {
+  id: number;
+  name: string;
+  bank: string;
+  registeredBy: string;
+  deployBlock: number;
+}
+
+export interface CommunityPartner {
+  community: Community;
+  opened: boolean; // this community accepts transfers with the partner
+  reciprocated: boolean; // the partner accepts transfers with this community
+}
+
+const storageKey = (network: NetworkConfig) => `${STORAGE_PREFIX}:${network.key}`;
+
+// Written per network by the deploy script; the FHEVM contract addresses are compiled into the bytecode
+const bankBytecodes = import.meta.glob<{ bytecode: string }>("../abi/bytecode/*.json", { import: "default" });
+
+const loadBankBytecode = async (network: NetworkConfig): Promise<string> => {
+  const load = bankBytecodes[`../abi/bytecode/${network.key}.json`];
+  if (!load) throw new Error(`Communities cannot be created on ${network.name} until the deploy script has run for it`);
+  return (await load()).bytecode;
+};
+
+const registryAt = (address: string, runner: ethers.ContractRunner) =>
+  new ethers.Contract(address, registryJson.abi, runner) as unknown as TimeBankCommunities;
+
+/**
+ * The bank the app reads and writes: the selected community's, falling back
+ * to the network's own deployment when none is selected or the network has
+ * no community registry.
+ */
+export function getActiveBank(network: NetworkConfig): Deployment | undefined {
+  if (!network.deployment?.communitiesAddress) return network.deployment;
+  try {
+    const stored = localStorage.getItem(storageKey(network));
+    if (stored) {
+      const { contractAddress, deployBlock } = JSON.parse(stored);
+      if (ethers.isAddress(contractAddress)) return { ...network.deployment, contractAddress, deployBlock: Number(deployBlock) || 0 };
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable community selection:", e);
+  }
+  return network.deployment;
+}
+
+/** Remembers the community per network; `null` goes back to the deployment's own bank. */
+export function setActiveCommunity(network: NetworkConfig, community: Community | null) {
+  if (community) {
+    localStorage.setItem(storageKey(network), JSON.stringify({ contractAddress: community.bank, deployBlock: community.deployBlock }));
+  } else {
+    localStorage.removeItem(storageKey(network));
+  }
+}
+
+/** The listed community whose bank is the active one, if any. */
+export function findActiveCommunity(network: NetworkConfig, communities: Community[]): Community | undefined {
+  const bank = getActiveBank(network)?.contractAddress.toLowerCase();
+  return communities.find((community) => community.bank.toLowerCase() === bank);
+}
+
+export async function loadCommunities(network: NetworkConfig): Promise<Community[]> {
+  const registryAddress = network.deployment?.communitiesAddress;
+  if (!registryAddress) return [];
+  const registry = registryAt(registryAddress, await getReadProvider(network));
+  const count = Number(await registry.communityCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(ids.map(async (id) => {
+    const { name, bank, registeredBy, deployBlock } = await registry.communities(id);
+    return { id, name, bank, registeredBy, deployBlock: Number(deployBlock) };
+  }));
+}
+
+/** Transfer settings between `community` and every other one; hours only move when both sides opened. */
+export async function loadPartners(network: NetworkConfig, community: Community, communities: Community[]): Promise<CommunityPartner[]> {
+  const registryAddress = network.deployment?.communitiesAddress;
+  if (!registryAddress) return [];
+  const registry = registryAt(registryAddress, await getReadProvider(network));
+  const others = communities.filter((other) => other.id !== community.id);
+  return Promise.all(others.map(async (other) => {
+    const [opened, reciprocated] = await Promise.all([
+      registry.isTransferPartner(community.id, other.id),
+      registry.isTransferPartner(other.id, community.id)
+    ]);
+    return { community: other, opened, reciprocated };
+  }));
+}
+
+export async function setTransferPartner(network: NetworkConfig, signer: ethers.Signer, community: Community, partner: Community, open: boolean) {
+  const registryAddress = network.deployment?.communitiesAddress;
+  if (!registryAddress) throw new Error(`No community registry on ${network.name}`);
+  const tx = await registryAt(registryAddress, signer).setTransferPartner(community.id, partner.id, open);
+  await tx.wait();
+}
+
+/**
+ * Deploys a bank for a new community, owned by the signer, and lists it in
+ * the registry. Takes three transactions: deploy, link and register.
+ */
+export async function createCommunity(network: NetworkConfig, signer: ethers.Signer, name: string): Promise<Community> {
+  const registryAddress = network.deployment?.communitiesAddress;
+  if (!registryAddress) throw new Error(`No community registry on ${network.name}`);
+
+  const factory = new ethers.ContractFactory(bankJson.abi, await loadBankBytecode(network), signer);
+  const bank = (await factory.deploy()) as unknown as TimeBankFHE;
+  const receipt = await bank.deploymentTransaction()?.wait();
+  const bankAddress = await bank.getAddress();
+  await (await bank.setCommunityRegistry(registryAddress)).wait();
+
+  const registry = registryAt(registryAddress, signer);
+  const deployBlock = receipt?.blockNumber ?? 0;
+  await (await registry.registerCommunity(bankAddress, name, deployBlock)).wait();
+  return {
+    id: Number(await registry.communityOfBank(bankAddress)),
+    name,
+    bank: bankAddress,
+    registeredBy: await signer.getAddress(),
+    deployBlock
+  };
+}
@@ -0,0 +1,12 @@
+// communities/index.ts
+export {
+  createCommunity,
+  findActiveCommunity,
+  getActiveBank,
+  loadCommunities,
+  loadPartners,
+  setActiveCommunity,
+  setTransferPartner,
+  TRANSFER_DECLINED_MESSAGE
+} from "./communities";
+export type { Community, CommunityPartner } from "./communities";
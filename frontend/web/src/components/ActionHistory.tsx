@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import {
+  actionsToCsv,
+  actionsToJson,
+  ActionType,
+  downloadFile,
+  filterActions,
+  paginate,
+  UserAction
+} from '../history';
+
+interface ActionHistoryProps {
+  actions: UserAction[];
+  address: string | undefined;
+}
+
+const PAGE_SIZE = 10;
+
+const ACTION_TYPES: { type: ActionType; label: string; icon: string }[] = [
+  { type: 'deposit', label: "Deposits", icon: '⏳' },
+  { type: 'withdraw', label: "Withdrawals", icon: '⏱️' },
+  { type: 'exchange', label: "Exchanges", icon: '🤝' },
+  { type: 'listing', label: "Listings", icon: '📋' },
+  { type: 'pledge', label: "Pledges", icon: '🔒' },
+  { type: 'dispute', label: "Disputes", icon: '⚖️' },
+  { type: 'rating', label: "Ratings", icon: '⭐' },
+  { type: 'membership', label: "Membership", icon: '🪪' },
+  { type: 'summary', label: "Summaries", icon: '📊' },
+  { type: 'decrypt', label: "Decryptions", icon: '🔓' }
+];
+
+const ICONS = Object.fromEntries(ACTION_TYPES.map(({ type, icon }) => [type, icon])) as Record<ActionType, string>;
+
+// Date inputs are local calendar days; the range covers both days in full
+const startOfDay = (value: string) => value ? Math.floor(new Date(`${value}T00:00:00`).getTime() / 1000) : undefined;
+const endOfDay = (value: string) => value ? Math.floor(new Date(`${value}T23:59:59`).getTime() / 1000) : undefined;
+
+const ActionHistory: React.FC<ActionHistoryProps> = ({ actions, address }) => {
+  const [typeFilter, setTypeFilter] = useState<'all' | ActionType>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(1);
+
+  const filtered = filterActions(actions, {
+    types: typeFilter === 'all' ? undefined : [typeFilter],
+    from: startOfDay(fromDate),
+    to: endOfDay(toDate)
+  });
+  const { items, pageCount } = paginate(filtered, page, PAGE_SIZE);
+
+  useEffect(() => {
+    setPage(1);
+  }, [typeFilter, fromDate, toDate, address]);
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const filename = `timebank-actions-${address?.substring(0, 8) ?? "account"}.${format}`;
+    if (format === 'csv') downloadFile(filename, actionsToCsv(filtered), "text/csv");
+    else downloadFile(filename, actionsToJson(filtered), "application/json");
+  };
+
+  return (
+    <div className="actions-section">
+      <div className="section-header">
+        <h2>My Activity History</h2>
+        <div className="header-actions">
+          <button className="refresh-btn" onClick={() => exportAs('csv')} disabled={filtered.length === 0}>Export CSV</button>
+          <button className="refresh-btn" onClick={() => exportAs('json')} disabled={filtered.length === 0}>Export JSON</button>
+        </div>
+      </div>
+
+      <div className="history-filters">
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as 'all' | ActionType)}>
+          <option value="all">All actions</option>
+          {ACTION_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+        </select>
+        <label>
+          From <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </label>
+        <label>
+          To <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </label>
+      </div>
+
+      {!address ? (
+        <div className="no-data">Connect your wallet to see your history</div>
+      ) : items.length === 0 ? (
+        <div className="no-data">No actions recorded</div>
+      ) : (
+        <div className="actions-list">
+          {items.map((action) => (
+            <div className="action-item" key={action.id}>
+              <div className={`action-type ${action.type}`}>{ICONS[action.type]}</div>
+              <div className="action-details">
+                <div className="action-text">
+                  {action.details}
+                  {action.status === 'pending' && <span className="status-badge pending">pending</span>}
+                  {action.status === 'failed' && <span className="status-badge failed">failed</span>}
+                </div>
+                <div className="action-time">
+                  {new Date(action.timestamp * 1000).toLocaleString()}
+                  {action.txHash && <span className="action-tx"> · {action.txHash.substring(0, 10)}...</span>}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <div className="history-pagination">
+          <button className="cancel-btn" onClick={() => setPage(page - 1)} disabled={page <= 1}>Previous</button>
+          <span>Page {Math.min(page, pageCount)} of {pageCount}</span>
+          <button className="cancel-btn" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>Next</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActionHistory;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import {
+  ArcElement,
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip
+} from 'chart.js';
+import { Bar, Line, Pie } from 'react-chartjs-2';
+import { activityYears, batchActivity, monthlyActivity, serviceDistribution, TimeRange } from '../charts';
+import type { BatchInfo } from '../indexer';
+
+ChartJS.register(ArcElement, BarElement, CategoryScale, Legend, LinearScale, LineElement, PointElement, Tooltip);
+
+interface ActivityChartsProps {
+  batches: BatchInfo[];
+}
+
+const COLORS = ['#8BAAAD', '#6B8E4E', '#D4A59A', '#F3DDB3', '#5C7A7D', '#A3B88C', '#B7837A', '#CDB98A'];
+const DEPOSIT_COLOR = '#6B8E4E';
+const WITHDRAW_COLOR = '#D4A59A';
+
+const RANGES = [
+  { value: 'all', label: "All time" },
+  { value: '12m', label: "Last 12 months" },
+  { value: '24m', label: "Last 24 months" }
+];
+
+const toRange = (value: string): TimeRange => {
+  const now = new Date();
+  if (value === '12m' || value === '24m') {
+    const from = new Date(now.getFullYear(), now.getMonth() - (value === '12m' ? 11 : 23), 1);
+    return { from: Math.floor(from.getTime() / 1000) };
+  }
+  const year = Number(value);
+  if (!isNaN(year)) {
+    return {
+      from: Math.floor(new Date(year, 0, 1).getTime() / 1000),
+      to: Math.floor(new Date(year + 1, 0, 1).getTime() / 1000) - 1
+    };
+  }
+  return {};
+};
+
+const chartOptions = { responsive: true, maintainAspectRatio: false };
+
+const NoSummaries: React.FC = () => (
+  <div className="no-data">No decrypted batch summaries in this range yet</div>
+);
+
+/** Charts fed only by publicly decrypted batch summaries, never by individual records. */
+const ActivityCharts: React.FC<ActivityChartsProps> = ({ batches }) => {
+  const [rangeValue, setRangeValue] = useState('all');
+
+  const range = toRange(rangeValue);
+  const services = serviceDistribution(batches, range);
+  const months = monthlyActivity(batches, range);
+  const perBatch = batchActivity(batches, range);
+
+  const rangeSelect = (
+    <select className="chart-range" value={rangeValue} onChange={(e) => setRangeValue(e.target.value)}>
+      {RANGES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+      {activityYears(batches).map((year) => <option key={year} value={String(year)}>{year}</option>)}
+    </select>
+  );
+
+  return (
+    <>
+      <div className="panel-card">
+        <div className="section-header">
+          <h2>Service Type Distribution</h2>
+          {rangeSelect}
+        </div>
+        {services.length === 0 ? <NoSummaries /> : (
+          <div className="chart-container">
+            <Pie
+              data={{
+                labels: services.map((s) => s.serviceType),
+                datasets: [{
+                  data: services.map((s) => s.hours),
+                  backgroundColor: services.map((_, i) => COLORS[i % COLORS.length])
+                }]
+              }}
+              options={chartOptions}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="panel-card">
+        <h2>Monthly Activity</h2>
+        {months.length === 0 ? <NoSummaries /> : (
+          <div className="chart-container">
+            <Line
+              data={{
+                labels: months.map((m) => m.label),
+                datasets: [
+                  { label: "Hours credited", data: months.map((m) => m.deposited), borderColor: DEPOSIT_COLOR, backgroundColor: DEPOSIT_COLOR },
+                  { label: "Hours spent", data: months.map((m) => m.withdrawn), borderColor: WITHDRAW_COLOR, backgroundColor: WITHDRAW_COLOR }
+                ]
+              }}
+              options={chartOptions}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="panel-card">
+        <h2>Deposits vs Withdrawals</h2>
+        {perBatch.length === 0 ? <NoSummaries /> : (
+          <div className="chart-container">
+            <Bar
+              data={{
+                labels: perBatch.map((b) => b.label),
+                datasets: [
+                  { label: "Deposited", data: perBatch.map((b) => b.deposited), backgroundColor: DEPOSIT_COLOR },
+                  { label: "Withdrawn", data: perBatch.map((b) => b.withdrawn), backgroundColor: WITHDRAW_COLOR }
+                ]
+              }}
+              options={chartOptions}
+            />
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ActivityCharts;
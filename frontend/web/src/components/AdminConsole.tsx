@@ -0,0 +1,476 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { Link } from 'react-router-dom';
+import { useAccount } from 'wagmi';
+import type { TimeBankFHE } from '../../../../types';
+import { describeAdminEvent } from '../admin';
+import { describeTxError, getContractReadOnly, getContractWithSigner } from '../contract';
+import type { AdminEventInfo, BatchInfo, DecryptionRequestInfo } from '../indexer';
+import { getNetworkByChainId } from '../network';
+import { decodeHours, HOURS_SCALE } from '../fhe';
+import { CREDIT_POLICY_KINDS, CreditPolicy, CreditPolicyKind, customCreditLimits, describeCreditPolicy, loadCreditPolicy } from '../policy';
+import { Role, ROLE_IDS, roleAssignments, ROLES } from '../roles';
+import { computeCommunityStats } from '../stats';
+import CommunityPartners from './CommunityPartners';
+
+interface AdminConsoleProps {
+  address: string | undefined;
+  owner: string | null;
+  // Proposed owner of a transfer that has not been accepted yet
+  pendingOwner: string | null;
+  // Roles of the connected account
+  roles: Set<Role>;
+  batches: BatchInfo[];
+  decryptionRequests: DecryptionRequestInfo[];
+  adminEvents: AdminEventInfo[];
+  // Called once an admin transaction is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+interface ContractState {
+  paused: boolean;
+  cooldownSeconds: number;
+  currentBatchId: number;
+  currentBatchClosed: boolean;
+  creditPolicy: CreditPolicy;
+  defaultCreditLimit: number; // hours
+}
+
+interface PolicyForm {
+  kind: CreditPolicyKind;
+  expiryDays: string;
+  decayPercent: string;
+  decayPeriodDays: string;
+}
+
+const toPolicyForm = (policy: CreditPolicy): PolicyForm => ({
+  kind: policy.kind,
+  expiryDays: policy.expiryDays ? String(policy.expiryDays) : '',
+  decayPercent: policy.decayBasisPoints ? String(policy.decayBasisPoints / 100) : '',
+  decayPeriodDays: policy.decayPeriodDays ? String(policy.decayPeriodDays) : ''
+});
+
+const AUDIT_PAGE_SIZE = 20;
+
+const formatTime = (timestamp: number) => timestamp ? new Date(timestamp * 1000).toLocaleString() : "before indexing";
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ address, owner, pendingOwner, roles, batches, decryptionRequests, adminEvents, onChanged }) => {
+  const { chainId } = useAccount();
+  const [state, setState] = useState<ContractState | null>(null);
+  const [grant, setGrant] = useState<{ account: string; role: Role }>({ account: '', role: 'MEMBER' });
+  const [cooldownInput, setCooldownInput] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [policyForm, setPolicyForm] = useState<PolicyForm>({ kind: 'none', expiryDays: '', decayPercent: '', decayPeriodDays: '' });
+  const [defaultLimitInput, setDefaultLimitInput] = useState('');
+  const [memberLimit, setMemberLimit] = useState({ account: '', hours: '' });
+  const [auditLimit, setAuditLimit] = useState(AUDIT_PAGE_SIZE);
+  const [busy, setBusy] = useState('');
+  const [error, setError] = useState('');
+
+  const isAdmin = roles.has('ADMIN');
+  const isOwner = !!address && !!owner && address.toLowerCase() === owner.toLowerCase();
+  const isPendingOwner = !!address && !!pendingOwner && address.toLowerCase() === pendingOwner.toLowerCase();
+  const explorerUrl = chainId ? getNetworkByChainId(chainId)?.explorerUrl : undefined;
+
+  const loadState = async () => {
+    const contract = await getContractReadOnly();
+    if (!contract) return;
+    const [paused, cooldownSeconds, currentBatchId] = await Promise.all([
+      contract.paused(),
+      contract.cooldownSeconds(),
+      contract.currentBatchId()
+    ]);
+    const [currentBatchClosed, creditPolicy, defaultLimit] = await Promise.all([
+      contract.isBatchClosed(currentBatchId),
+      loadCreditPolicy(contract),
+      contract.defaultCreditLimit()
+    ]);
+    const defaultCreditLimit = decodeHours(defaultLimit);
+    setState({ paused, cooldownSeconds: Number(cooldownSeconds), currentBatchId: Number(currentBatchId), currentBatchClosed, creditPolicy, defaultCreditLimit });
+    setCooldownInput(String(cooldownSeconds));
+    setPolicyForm(toPolicyForm(creditPolicy));
+    setDefaultLimitInput(String(defaultCreditLimit));
+  };
+
+  useEffect(() => {
+    if (isAdmin) loadState().catch((e) => console.error("Failed to load contract state:", e));
+  }, [isAdmin, adminEvents.length]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError('');
+    try {
+      await action();
+      await onChanged();
+      await loadState();
+    } catch (e: any) {
+      console.error(`Admin action "${label}" failed:`, e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const send = (label: string, call: (contract: TimeBankFHE) => Promise<ethers.ContractTransactionResponse>) =>
+    run(label, async () => {
+      const tx = await call(await getContractWithSigner());
+      await tx.wait();
+    });
+
+  const grantRole = () => {
+    if (!ethers.isAddress(grant.account)) {
+      setError("Invalid account address");
+      return;
+    }
+    run('grant', async () => {
+      const contract = await getContractWithSigner();
+      const tx = await contract.grantRole(ROLE_IDS[grant.role], grant.account);
+      await tx.wait();
+      setGrant({ ...grant, account: '' });
+    });
+  };
+
+  const proposeOwner = () => {
+    if (!ethers.isAddress(newOwner) || newOwner === ethers.ZeroAddress) {
+      setError("Invalid owner address");
+      return;
+    }
+    run('transfer', async () => {
+      const contract = await getContractWithSigner();
+      const tx = await contract.transferOwnership(newOwner);
+      await tx.wait();
+      setNewOwner('');
+    });
+  };
+
+  const savePolicy = () => {
+    const expiryDays = policyForm.kind === 'expiry' ? Number(policyForm.expiryDays) : 0;
+    // The contract takes basis points; the form asks for a percentage
+    const decayBasisPoints = policyForm.kind === 'decay' ? Math.round(Number(policyForm.decayPercent) * 100) : 0;
+    const decayPeriodDays = policyForm.kind === 'decay' ? Number(policyForm.decayPeriodDays) : 0;
+    if (policyForm.kind === 'expiry' && (!Number.isInteger(expiryDays) || expiryDays <= 0)) {
+      setError("Expiry must be a whole number of days");
+      return;
+    }
+    if (policyForm.kind === 'decay' && (!(decayBasisPoints > 0 && decayBasisPoints <= 10000) || !Number.isInteger(decayPeriodDays) || decayPeriodDays <= 0)) {
+      setError("Decay needs a percentage between 0.01 and 100 and a whole number of days");
+      return;
+    }
+    send('policy', (contract) => contract.setCreditPolicy(CREDIT_POLICY_KINDS.indexOf(policyForm.kind), expiryDays, decayBasisPoints, decayPeriodDays));
+  };
+
+  const saveDefaultLimit = () => {
+    const hours = Number(defaultLimitInput);
+    if (defaultLimitInput === '' || isNaN(hours) || hours < 0) {
+      setError("Invalid credit limit");
+      return;
+    }
+    send('defaultLimit', (contract) => contract.setDefaultCreditLimit(Math.round(hours * HOURS_SCALE)));
+  };
+
+  const saveMemberLimit = () => {
+    const hours = Number(memberLimit.hours);
+    if (!ethers.isAddress(memberLimit.account)) {
+      setError("Invalid account address");
+      return;
+    }
+    if (memberLimit.hours === '' || isNaN(hours) || hours < 0) {
+      setError("Invalid credit limit");
+      return;
+    }
+    run('memberLimit', async () => {
+      const contract = await getContractWithSigner();
+      const tx = await contract.setCreditLimit(memberLimit.account, Math.round(hours * HOURS_SCALE));
+      await tx.wait();
+      setMemberLimit({ account: '', hours: '' });
+    });
+  };
+
+  const ownership = (
+    <div className="panel-card">
+      <h2>Ownership</h2>
+      <div className="admin-row">
+        <span>Owner: {owner ?? "unknown"}</span>
+      </div>
+      {pendingOwner ? (
+        <div className="admin-row">
+          <span>
+            Pending transfer to {pendingOwner} <span className="status-badge pending">awaiting acceptance</span>
+          </span>
+          {isPendingOwner && (
+            <button className="submit-btn" onClick={() => send('accept', (contract) => contract.acceptOwnership())} disabled={!!busy}>
+              {busy === 'accept' ? "Accepting..." : "Accept Ownership"}
+            </button>
+          )}
+          {isOwner && (
+            <button className="cancel-btn" onClick={() => send('cancelTransfer', (contract) => contract.cancelOwnershipTransfer())} disabled={!!busy}>
+              {busy === 'cancelTransfer' ? "Cancelling..." : "Cancel Transfer"}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="no-data">No ownership transfer pending</div>
+      )}
+      {isOwner && (
+        <div className="admin-row">
+          <input type="text" value={newOwner} onChange={(e) => setNewOwner(e.target.value)} placeholder="New owner or multisig address 0x..." />
+          <button className="submit-btn" onClick={proposeOwner} disabled={!!busy || !newOwner}>
+            {busy === 'transfer' ? "Proposing..." : pendingOwner ? "Replace Transfer" : "Propose Transfer"}
+          </button>
+        </div>
+      )}
+      <div className="stats-note">The new owner only takes over after accepting from their own wallet or multisig.</div>
+    </div>
+  );
+
+  const saveCooldown = () => {
+    const seconds = Number(cooldownInput);
+    if (!Number.isInteger(seconds) || seconds < 0) {
+      setError("Cooldown must be a whole number of seconds");
+      return;
+    }
+    send('cooldown', (contract) => contract.setCooldownSeconds(seconds));
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="admin-console">
+        {error && <div className="balance-error">{error}</div>}
+        {isPendingOwner && ownership}
+        <div className="panel-card">
+          <h2>Admin Console</h2>
+          <div className="no-data">
+            {!address
+              ? "Connect an admin wallet to continue."
+              : isPendingOwner
+                ? "Admin tools become available once you accept ownership."
+                : "Only admins can use the admin console."}
+          </div>
+          <Link to="/" className="refresh-btn">Back to dashboard</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const assignments = roleAssignments(adminEvents);
+  // Only the owner manages admins
+  const grantableRoles = ROLES.filter((role) => role !== 'ADMIN' || isOwner);
+  const batchStats = computeCommunityStats(batches, decryptionRequests).batches;
+  const customLimits = customCreditLimits(adminEvents);
+  const audit = adminEvents.slice(0, auditLimit);
+
+  return (
+    <div className="admin-console">
+      {error && <div className="balance-error">{error}</div>}
+
+      <div className="admin-grid">
+        <div className="panel-card">
+          <h2>Contract</h2>
+          {!state ? <div className="no-data">Loading contract state...</div> : (
+            <>
+              <div className="admin-row">
+                <span>Status: <span className={`status-badge ${state.paused ? 'closed' : 'open'}`}>{state.paused ? "paused" : "active"}</span></span>
+                <button
+                  className={state.paused ? "submit-btn" : "cancel-btn"}
+                  onClick={() => send('pause', (contract) => state.paused ? contract.unpause() : contract.pause())}
+                  disabled={!!busy}
+                >
+                  {busy === 'pause' ? "Confirming..." : state.paused ? "Unpause" : "Pause"}
+                </button>
+              </div>
+              <div className="admin-row">
+                <label>Cooldown (seconds)</label>
+                <input type="number" min="0" step="1" value={cooldownInput} onChange={(e) => setCooldownInput(e.target.value)} />
+                <button
+                  className="submit-btn"
+                  onClick={saveCooldown}
+                  disabled={!!busy || cooldownInput === String(state.cooldownSeconds)}
+                >
+                  {busy === 'cooldown' ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="panel-card">
+          <h2>Batches</h2>
+          {state && (
+            <div className="admin-row">
+              <span>
+                Current batch #{state.currentBatchId}{" "}
+                <span className={`status-badge ${state.currentBatchClosed ? 'closed' : 'open'}`}>{state.currentBatchClosed ? "closed" : "open"}</span>
+              </span>
+              {!state.currentBatchClosed && (
+                <button className="cancel-btn" onClick={() => send('closeBatch', (contract) => contract.closeCurrentBatch())} disabled={!!busy}>
+                  {busy === 'closeBatch' ? "Closing..." : "Close Batch"}
+                </button>
+              )}
+              <button className="submit-btn" onClick={() => send('openBatch', (contract) => contract.openNewBatch())} disabled={!!busy}>
+                {busy === 'openBatch' ? "Opening..." : "Open New Batch"}
+              </button>
+            </div>
+          )}
+          <div className="batch-stats-list">
+            {batchStats.map((batch) => (
+              <div className="batch-stats-item" key={batch.id}>
+                <span className={`status-badge ${batch.state}`}>Batch #{batch.id}</span>
+                <span className="batch-stats-detail">{batch.state}</span>
+                {batch.state === 'closed' && (
+                  <button
+                    className="refresh-btn"
+                    onClick={() => send(`summary-${batch.id}`, (contract) => contract.requestBatchSummary(batch.id))}
+                    disabled={!!busy}
+                  >
+                    {busy === `summary-${batch.id}` ? "Requesting..." : "Request Decryption"}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="panel-card">
+        <h2>Credit Policy</h2>
+        {state && <div className="stats-note">Current: {describeCreditPolicy(state.creditPolicy)}</div>}
+        <div className="admin-row">
+          <select value={policyForm.kind} onChange={(e) => setPolicyForm({ ...policyForm, kind: e.target.value as CreditPolicyKind })}>
+            <option value="none">No expiry</option>
+            <option value="expiry">Fixed expiry</option>
+            <option value="decay">Percentage decay</option>
+          </select>
+          {policyForm.kind === 'expiry' && (
+            <>
+              <label>Expire after (days)</label>
+              <input type="number" min="1" step="1" value={policyForm.expiryDays} onChange={(e) => setPolicyForm({ ...policyForm, expiryDays: e.target.value })} />
+            </>
+          )}
+          {policyForm.kind === 'decay' && (
+            <>
+              <label>Decay (%)</label>
+              <input type="number" min="0.01" max="100" step="0.01" value={policyForm.decayPercent} onChange={(e) => setPolicyForm({ ...policyForm, decayPercent: e.target.value })} />
+              <label>every (days)</label>
+              <input type="number" min="1" step="1" value={policyForm.decayPeriodDays} onChange={(e) => setPolicyForm({ ...policyForm, decayPeriodDays: e.target.value })} />
+            </>
+          )}
+          <button className="submit-btn" onClick={savePolicy} disabled={!!busy}>
+            {busy === 'policy' ? "Saving..." : "Save Policy"}
+          </button>
+        </div>
+        <div className="stats-note">A new policy only counts time from the moment it is saved.</div>
+      </div>
+
+      <div className="panel-card">
+        <h2>Credit Limits</h2>
+        <div className="stats-note">Members may spend this many hours beyond a zero balance; incoming hours repay it first.</div>
+        <div className="admin-row">
+          <label>Default (hours)</label>
+          <input type="number" min="0" step="0.1" value={defaultLimitInput} onChange={(e) => setDefaultLimitInput(e.target.value)} />
+          <button className="submit-btn" onClick={saveDefaultLimit} disabled={!!busy}>
+            {busy === 'defaultLimit' ? "Saving..." : "Save Default"}
+          </button>
+        </div>
+        <div className="admin-row">
+          <input type="text" value={memberLimit.account} onChange={(e) => setMemberLimit({ ...memberLimit, account: e.target.value })} placeholder="Member address 0x..." />
+          <input type="number" min="0" step="0.1" value={memberLimit.hours} onChange={(e) => setMemberLimit({ ...memberLimit, hours: e.target.value })} placeholder="Hours" />
+          <button className="submit-btn" onClick={saveMemberLimit} disabled={!!busy}>
+            {busy === 'memberLimit' ? "Saving..." : "Set Member Limit"}
+          </button>
+        </div>
+        {customLimits.length > 0 && (
+          <div className="batch-stats-list">
+            {customLimits.map((limit) => (
+              <div className="batch-stats-item" key={limit.account}>
+                <span className="batch-stats-detail">{limit.account} · {limit.hours} h</span>
+                <button
+                  className="cancel-btn"
+                  onClick={() => send(`clearLimit-${limit.account}`, (contract) => contract.clearCreditLimit(limit.account))}
+                  disabled={!!busy}
+                >
+                  {busy === `clearLimit-${limit.account}` ? "Resetting..." : "Use Default"}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <CommunityPartners />
+
+      {ownership}
+
+      <div className="panel-card">
+        <h2>Roles</h2>
+        <div className="admin-row">
+          <input type="text" value={grant.account} onChange={(e) => setGrant({ ...grant, account: e.target.value })} placeholder="Account address 0x..." />
+          <select value={grant.role} onChange={(e) => setGrant({ ...grant, role: e.target.value as Role })}>
+            {grantableRoles.map((role) => <option key={role} value={role}>{role}</option>)}
+          </select>
+          <button className="submit-btn" onClick={grantRole} disabled={!!busy || !grant.account}>
+            {busy === 'grant' ? "Granting..." : "Grant Role"}
+          </button>
+        </div>
+        <div className="records-list">
+          {owner && (
+            <div className="record-item">
+              <div className="record-type">{owner}</div>
+              <div className="record-status">
+                <span className="status-badge open">ADMIN</span>
+                <span className="listing-note">owner</span>
+              </div>
+            </div>
+          )}
+          {assignments.map((assignment) => (
+            <div className="record-item" key={`${assignment.role}:${assignment.account}`}>
+              <div className="record-type">{assignment.account}</div>
+              <div className="record-status">
+                <span className={`status-badge ${assignment.active ? 'open' : 'closed'}`}>{assignment.role}</span>
+                {!assignment.active && <span className="listing-note">revoked</span>}
+              </div>
+              <div className="record-date">
+                {assignment.active ? `Granted ${formatTime(assignment.grantedAt)}` : `Revoked ${formatTime(assignment.revokedAt!)}`}
+              </div>
+              {assignment.active && grantableRoles.includes(assignment.role) && (
+                <button
+                  className="cancel-btn"
+                  onClick={() => send(
+                    `revoke-${assignment.role}-${assignment.account}`,
+                    (contract) => contract.revokeRole(ROLE_IDS[assignment.role], assignment.account)
+                  )}
+                  disabled={!!busy}
+                >
+                  {busy === `revoke-${assignment.role}-${assignment.account}` ? "Revoking..." : "Revoke"}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="panel-card">
+        <h2>Audit Log</h2>
+        <div className="actions-list">
+          {audit.length === 0 ? <div className="no-data">No admin events indexed yet</div> : audit.map((event) => (
+            <div className="action-item" key={event.id}>
+              <div className="action-details">
+                <div className="action-text">{describeAdminEvent(event)}</div>
+                <div className="action-time">
+                  {formatTime(event.timestamp)} · block {event.blockNumber} ·{" "}
+                  {explorerUrl
+                    ? <a href={`${explorerUrl}/tx/${event.txHash}`} target="_blank" rel="noreferrer">{event.txHash.substring(0, 10)}...</a>
+                    : <span className="action-tx">{event.txHash.substring(0, 10)}...</span>}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        {adminEvents.length > auditLimit && (
+          <button className="refresh-btn" onClick={() => setAuditLimit(auditLimit + AUDIT_PAGE_SIZE)}>Show more</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { describeTxError, getContractWithSigner } from '../contract';
+import type { ApplicationInfo } from '../indexer';
+
+interface ApplicationQueueProps {
+  applications: ApplicationInfo[];
+  // Called once a decision is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+/** Pending membership applications for coordinators and admins. */
+const ApplicationQueue: React.FC<ApplicationQueueProps> = ({ applications, onChanged }) => {
+  const [busyApplicant, setBusyApplicant] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const pending = applications.filter((a) => a.status === 'pending');
+
+  const decide = async (application: ApplicationInfo, approve: boolean) => {
+    setBusyApplicant(application.applicant);
+    setError('');
+    try {
+      const contract = await getContractWithSigner();
+      const tx = approve
+        ? await contract.approveApplication(application.applicant)
+        : await contract.rejectApplication(application.applicant, reason);
+      await tx.wait();
+      setRejecting(null);
+      setReason('');
+      await onChanged();
+    } catch (e: any) {
+      console.error("Application decision failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusyApplicant(null);
+    }
+  };
+
+  return (
+    <div className="panel-card">
+      <h2>Membership Applications</h2>
+      {error && <div className="balance-error">{error}</div>}
+      {pending.length === 0 ? (
+        <div className="no-data">No pending applications</div>
+      ) : (
+        <div className="records-list">
+          {pending.map((application) => (
+            <div className="record-item" key={application.applicant}>
+              <div className="record-type">{application.displayName}</div>
+              {application.skills && <div className="record-hours">{application.skills}</div>}
+              <div className="listing-meta">
+                <span>{shortAddress(application.applicant)}</span>
+                <span>applied {new Date(application.appliedAt * 1000).toLocaleString()}</span>
+              </div>
+              {rejecting === application.applicant ? (
+                <div className="listing-match-form">
+                  <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason shown to the applicant" />
+                  <button className="cancel-btn" onClick={() => decide(application, false)} disabled={busyApplicant !== null}>
+                    {busyApplicant === application.applicant ? "Rejecting..." : "Confirm Rejection"}
+                  </button>
+                  <button className="cancel-btn" onClick={() => setRejecting(null)}>Cancel</button>
+                </div>
+              ) : (
+                <div className="listing-actions">
+                  <button className="submit-btn" onClick={() => decide(application, true)} disabled={busyApplicant !== null}>
+                    {busyApplicant === application.applicant ? "Approving..." : "Approve"}
+                  </button>
+                  <button className="cancel-btn" onClick={() => setRejecting(application.applicant)} disabled={busyApplicant !== null}>
+                    Reject
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApplicationQueue;
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { findActiveCommunity, loadCommunities, loadPartners, setTransferPartner } from '../communities';
+import type { Community, CommunityPartner } from '../communities';
+import { describeTxError, getActiveNetwork, getSigner } from '../contract';
+
+/** Admins choose which other communities their members may exchange hours with. */
+const CommunityPartners: React.FC = () => {
+  const [community, setCommunity] = useState<Community | null>(null);
+  const [partners, setPartners] = useState<CommunityPartner[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    const network = await getActiveNetwork();
+    const communities = await loadCommunities(network);
+    const active = findActiveCommunity(network, communities);
+    setCommunity(active ?? null);
+    setPartners(active ? await loadPartners(network, active, communities) : []);
+  };
+
+  useEffect(() => {
+    load().catch((e) => console.error("Failed to load partner communities:", e));
+  }, []);
+
+  if (!community) return null;
+
+  const toggle = async (partner: CommunityPartner) => {
+    setBusyId(partner.community.id);
+    setError('');
+    try {
+      await setTransferPartner(await getActiveNetwork(), await getSigner(), community, partner.community, !partner.opened);
+      await load();
+    } catch (e: any) {
+      console.error("Partner update failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describe = (partner: CommunityPartner) => {
+    if (partner.opened && partner.reciprocated) return "Transfers open both ways";
+    if (partner.opened) return "Waiting for their admins to accept";
+    if (partner.reciprocated) return "They accept transfers with us";
+    return "Closed";
+  };
+
+  return (
+    <div className="panel-card">
+      <h2>Partner Communities</h2>
+      <div className="stats-note">
+        Members of {community.name} can send earned hours to members of a partner once both communities have opened transfers.
+      </div>
+      {error && <div className="balance-error">{error}</div>}
+      {partners.length === 0 ? (
+        <div className="no-data">No other communities yet</div>
+      ) : (
+        <div className="batch-stats-list">
+          {partners.map((partner) => (
+            <div className="batch-stats-item" key={partner.community.id}>
+              <span className="batch-stats-detail">{partner.community.name} · {describe(partner)}</span>
+              <button
+                className={partner.opened ? "cancel-btn" : "submit-btn"}
+                onClick={() => toggle(partner)}
+                disabled={busyId !== null}
+              >
+                {busyId === partner.community.id ? "Saving..." : partner.opened ? "Close Transfers" : "Open Transfers"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommunityPartners;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { describeTxError, getContractWithSigner } from '../contract';
+import type { BatchInfo, DecryptionRequestInfo } from '../indexer';
+import { BatchStats, computeCommunityStats } from '../stats';
+
+interface CommunityStatsProps {
+  batches: BatchInfo[];
+  decryptionRequests: DecryptionRequestInfo[];
+  // Auditors (and admins) may request summaries of closed batches
+  canRequestSummary: boolean;
+  // Called once a summary request is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+const formatHours = (hours: number) => hours.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+const formatTime = (timestamp?: number) => timestamp ? new Date(timestamp * 1000).toLocaleString() : "—";
+
+const describeBatch = (batch: BatchStats) => {
+  switch (batch.state) {
+    case 'decrypted':
+      return `${formatHours(batch.hoursDeposited!)} h in / ${formatHours(batch.hoursWithdrawn!)} h out · decrypted ${formatTime(batch.decryptedAt)}`;
+    case 'requested':
+      return `Summary requested ${formatTime(batch.requestedAt)}, waiting for the decryption oracle`;
+    case 'closed':
+      return `Closed ${formatTime(batch.closedAt)}, totals still encrypted`;
+    default:
+      return "Open, totals are revealed once the batch is closed and decrypted";
+  }
+};
+
+const CommunityStats: React.FC<CommunityStatsProps> = ({ batches, decryptionRequests, canRequestSummary, onChanged }) => {
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const stats = computeCommunityStats(batches, decryptionRequests);
+
+  const requestSummary = async (batchId: number) => {
+    setBusyId(batchId);
+    setError('');
+    try {
+      const contract = await getContractWithSigner();
+      const tx = await contract.requestBatchSummary(batchId);
+      await tx.wait();
+      await onChanged();
+    } catch (e: any) {
+      console.error("Batch summary request failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="panel-card">
+      <h2>Community Statistics</h2>
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{formatHours(stats.hoursDeposited)}</div>
+          <div className="stat-label">Hours Credited</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{formatHours(stats.hoursWithdrawn)}</div>
+          <div className="stat-label">Hours Spent</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{stats.serviceTypes}</div>
+          <div className="stat-label">Service Types</div>
+        </div>
+      </div>
+      <div className="stats-note">
+        From {stats.decryptedBatches} decrypted batch{stats.decryptedBatches === 1 ? "" : "es"}
+        {stats.undecryptedBatches > 0 && `, ${stats.undecryptedBatches} awaiting decryption`}
+        {stats.lastDecryptedAt && ` · last decrypted ${formatTime(stats.lastDecryptedAt)}`}
+      </div>
+
+      {error && <div className="balance-error">{error}</div>}
+
+      <div className="batch-stats-list">
+        {stats.batches.map((batch) => (
+          <div className="batch-stats-item" key={batch.id}>
+            <span className={`status-badge ${batch.state}`}>Batch #{batch.id}</span>
+            <span className="batch-stats-detail">{describeBatch(batch)}</span>
+            {batch.state === 'closed' && canRequestSummary && (
+              <button className="refresh-btn" onClick={() => requestSummary(batch.id)} disabled={busyId !== null}>
+                {busyId === batch.id ? "Requesting..." : "Request Summary"}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CommunityStats;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { createCommunity, findActiveCommunity, loadCommunities, setActiveCommunity } from '../communities';
+import type { Community } from '../communities';
+import { describeTxError, getSigner } from '../contract';
+import { resolveNetwork } from '../network';
+
+interface CommunitySwitcherProps {
+  // Called after switching so everything is reloaded from the selected community's bank
+  onSwitched: () => Promise<void> | void;
+}
+
+const NEW_COMMUNITY = "new";
+
+/** Picks which community's ledger the app shows; hidden on networks without a community registry. */
+const CommunitySwitcher: React.FC<CommunitySwitcherProps> = ({ onSwitched }) => {
+  const { chainId, isConnected } = useAccount();
+  const [communities, setCommunities] = useState<Community[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const network = resolveNetwork(chainId);
+
+  useEffect(() => {
+    loadCommunities(network)
+      .then(setCommunities)
+      .catch((e) => console.error("Failed to load communities:", e));
+  }, [chainId]);
+
+  if (!network.deployment?.communitiesAddress) return null;
+
+  const active = findActiveCommunity(network, communities);
+
+  const select = async (value: string) => {
+    setError('');
+    if (value === NEW_COMMUNITY) {
+      setCreating(true);
+      return;
+    }
+    setCreating(false);
+    setActiveCommunity(network, communities.find((community) => String(community.id) === value) ?? null);
+    await onSwitched();
+  };
+
+  // The creator owns the new bank and becomes its first admin and member
+  const create = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const community = await createCommunity(network, await getSigner(), name.trim());
+      setCommunities((current) => [...current, community]);
+      setActiveCommunity(network, community);
+      setCreating(false);
+      setName('');
+      await onSwitched();
+    } catch (e: any) {
+      console.error("Community creation failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="community-switcher">
+      <select value={creating ? NEW_COMMUNITY : active ? String(active.id) : ''} onChange={(e) => select(e.target.value)} disabled={busy}>
+        {!active && <option value="">Default community</option>}
+        {communities.map((community) => (
+          <option key={community.id} value={String(community.id)}>{community.name}</option>
+        ))}
+        {isConnected && <option value={NEW_COMMUNITY}>+ New community</option>}
+      </select>
+      {creating && (
+        <div className="community-create">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Community name" />
+          <button className="submit-btn" onClick={create} disabled={busy || !name.trim()}>
+            {busy ? "Creating..." : "Create"}
+          </button>
+          <button className="cancel-btn" onClick={() => setCreating(false)} disabled={busy}>Cancel</button>
+          <div className="listing-note">Deploys a new bank you own; it takes three transactions.</div>
+        </div>
+      )}
+      {error && <div className="balance-error">{error}</div>}
+    </div>
+  );
+};
+
+export default CommunitySwitcher;
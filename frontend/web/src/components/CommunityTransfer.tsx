@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { findActiveCommunity, loadCommunities, loadPartners, TRANSFER_DECLINED_MESSAGE } from '../communities';
+import type { Community } from '../communities';
+import { describeTxError, getActiveNetwork, getContractWithSigner, getSigner } from '../contract';
+import { encryptHours } from '../fhe';
+import { wasLastSpendDeclined } from '../policy';
+
+interface CommunityTransferProps {
+  address: string | undefined;
+  // Only members can send hours
+  isMember: boolean;
+  // Changes whenever another community is selected
+  refreshKey: number;
+  // Called once a transfer is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+const emptyTransfer = { bank: "", recipient: "", serviceType: "", hours: "" };
+
+/** Sends earned hours to a member of a partner community; shown only when a partner accepts transfers. */
+const CommunityTransfer: React.FC<CommunityTransferProps> = ({ address, isMember, refreshKey, onChanged }) => {
+  const [partners, setPartners] = useState<Community[]>([]);
+  const [transfer, setTransfer] = useState(emptyTransfer);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      const network = await getActiveNetwork();
+      const communities = await loadCommunities(network);
+      const active = findActiveCommunity(network, communities);
+      if (!active) return setPartners([]);
+      const settings = await loadPartners(network, active, communities);
+      setPartners(settings.filter((partner) => partner.opened && partner.reciprocated).map((partner) => partner.community));
+    };
+    load().catch((e) => console.error("Failed to load partner communities:", e));
+  }, [address, refreshKey]);
+
+  if (!address || !isMember || partners.length === 0) return null;
+
+  const send = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      if (!ethers.isAddress(transfer.recipient)) throw new Error("Invalid recipient address");
+      const hoursValue = parseFloat(transfer.hours);
+      if (isNaN(hoursValue) || hoursValue <= 0) throw new Error("Invalid hours value");
+
+      const contract = await getContractWithSigner();
+      const encrypted = await encryptHours(await contract.getAddress(), address, hoursValue);
+      const tx = await contract.transferToCommunity(transfer.bank, transfer.recipient, encrypted.handle, encrypted.inputProof, transfer.serviceType);
+      await tx.wait();
+      setTransfer(emptyTransfer);
+      await onChanged();
+      if (await wasLastSpendDeclined(contract, address, await getSigner())) throw new Error(TRANSFER_DECLINED_MESSAGE);
+    } catch (e: any) {
+      console.error("Community transfer failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setTransfer({ ...transfer, [name]: value });
+  };
+
+  return (
+    <div className="community-transfer-section">
+      <div className="section-header">
+        <h3>Send Hours to Another Community</h3>
+      </div>
+      <div className="listing-form">
+        <div className="form-group">
+          <label>Community *</label>
+          <select name="bank" value={transfer.bank} onChange={handleChange}>
+            <option value="">Choose a partner community</option>
+            {partners.map((partner) => <option key={partner.id} value={partner.bank}>{partner.name}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label>Recipient Address *</label>
+          <input type="text" name="recipient" value={transfer.recipient} onChange={handleChange} placeholder="A member there, 0x..." />
+        </div>
+        <div className="form-group">
+          <label>Service Type *</label>
+          <input type="text" name="serviceType" value={transfer.serviceType} onChange={handleChange} placeholder="e.g. Tutoring, Transport..." />
+        </div>
+        <div className="form-group">
+          <label>Hours *</label>
+          <input type="number" step="0.1" min="0" name="hours" value={transfer.hours} onChange={handleChange} />
+        </div>
+        <div className="listing-note">Only your earned balance can be sent; credit stays within this community.</div>
+        <button className="submit-btn" onClick={send} disabled={busy || !transfer.bank || !transfer.serviceType}>
+          {busy ? "Sending..." : "Send Hours"}
+        </button>
+      </div>
+      {error && <div className="balance-error">{error}</div>}
+    </div>
+  );
+};
+
+export default CommunityTransfer;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { describeTxError, getContractWithSigner } from '../contract';
+import { describeResolution, MAX_SHARE_BASIS_POINTS } from '../disputes';
+import { encryptHours } from '../fhe';
+import type { ApplicationInfo, ExchangeInfo } from '../indexer';
+import ApplicationQueue from './ApplicationQueue';
+
+interface CoordinatorPanelProps {
+  address: string | undefined;
+  applications: ApplicationInfo[];
+  exchanges: ExchangeInfo[];
+  // Called once a decision or verification is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+interface DisputeForm {
+  note: string;
+  share: string; // provider's share in percent
+  hours: string; // hours the provider keeps
+}
+
+const EMPTY_FORM: DisputeForm = { note: '', share: '50', hours: '' };
+
+/** Coordinator duties: membership decisions, verifying and arbitrating exchanges they took no part in. */
+const CoordinatorPanel: React.FC<CoordinatorPanelProps> = ({ address, applications, exchanges, onChanged }) => {
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [forms, setForms] = useState<Record<number, DisputeForm>>({});
+  const [error, setError] = useState('');
+
+  const account = address?.toLowerCase();
+  const outsider = (exchange: ExchangeInfo) =>
+    exchange.provider.toLowerCase() !== account && exchange.receiver.toLowerCase() !== account;
+  const unverified = exchanges.filter((exchange) =>
+    exchange.status === 'accepted' &&
+    !exchange.verifiedBy &&
+    exchange.dispute?.status !== 'open' &&
+    outsider(exchange)
+  );
+  const disputed = exchanges.filter((exchange) => exchange.dispute?.status === 'open' && outsider(exchange));
+
+  const formOf = (id: number) => forms[id] ?? EMPTY_FORM;
+  const updateForm = (id: number, changes: Partial<DisputeForm>) =>
+    setForms((current) => ({ ...current, [id]: { ...formOf(id), ...changes } }));
+
+  const run = async (exchange: ExchangeInfo, label: string, action: () => Promise<{ wait: () => Promise<unknown> }>) => {
+    setBusyId(exchange.id);
+    setError('');
+    try {
+      const tx = await action();
+      await tx.wait();
+      await onChanged();
+    } catch (e: any) {
+      console.error(`${label} failed:`, e);
+      setError(describeTxError(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const verify = (exchange: ExchangeInfo) => run(exchange, "Exchange verification", async () =>
+    (await getContractWithSigner()).verifyExchange(exchange.id)
+  );
+
+  const claim = (exchange: ExchangeInfo) => run(exchange, "Dispute assignment", async () =>
+    (await getContractWithSigner()).assignDispute(exchange.id, address!)
+  );
+
+  const addNote = (exchange: ExchangeInfo) => run(exchange, "Dispute note", async () => {
+    const tx = await (await getContractWithSigner()).addDisputeEvidence(exchange.id, formOf(exchange.id).note.trim());
+    updateForm(exchange.id, { note: '' });
+    return tx;
+  });
+
+  const uphold = (exchange: ExchangeInfo) => run(exchange, "Dispute resolution", async () =>
+    (await getContractWithSigner()).upholdDispute(exchange.id)
+  );
+
+  const voidExchange = (exchange: ExchangeInfo) => run(exchange, "Dispute resolution", async () =>
+    (await getContractWithSigner()).voidDispute(exchange.id)
+  );
+
+  const split = (exchange: ExchangeInfo) => run(exchange, "Dispute resolution", async () => {
+    const percent = parseFloat(formOf(exchange.id).share);
+    if (isNaN(percent) || percent < 0 || percent > 100) throw new Error("Share must be between 0 and 100%");
+    const basisPoints = Math.round((percent / 100) * MAX_SHARE_BASIS_POINTS);
+    return (await getContractWithSigner()).splitDispute(exchange.id, basisPoints);
+  });
+
+  const adjust = (exchange: ExchangeInfo) => run(exchange, "Dispute resolution", async () => {
+    const hours = parseFloat(formOf(exchange.id).hours);
+    if (isNaN(hours) || hours < 0) throw new Error("Invalid hours value");
+    const contract = await getContractWithSigner();
+    const encrypted = await encryptHours(await contract.getAddress(), address!, hours);
+    return contract.adjustDispute(exchange.id, encrypted.handle, encrypted.inputProof);
+  });
+
+  return (
+    <>
+      <ApplicationQueue applications={applications} onChanged={onChanged} />
+
+      {error && <div className="balance-error">{error}</div>}
+
+      <div className="panel-card">
+        <h2>Open Disputes</h2>
+        {disputed.length === 0 ? (
+          <div className="no-data">No open disputes</div>
+        ) : (
+          <div className="records-list">
+            {disputed.map((exchange) => {
+              const dispute = exchange.dispute!;
+              const form = formOf(exchange.id);
+              const mine = dispute.coordinator?.toLowerCase() === account;
+              return (
+                <div className="record-item" key={exchange.id}>
+                  <div className="record-type">#{exchange.id} · {exchange.serviceType}</div>
+                  <div className="listing-meta">
+                    <span>{shortAddress(exchange.provider)} → {shortAddress(exchange.receiver)}</span>
+                    <span>opened by {shortAddress(dispute.openedBy)} {new Date(dispute.openedAt * 1000).toLocaleString()}: {dispute.reason}</span>
+                    <span>{dispute.evidence.length} note{dispute.evidence.length === 1 ? "" : "s"} · {describeResolution(dispute)}</span>
+                    {dispute.coordinator && !mine && <span>assigned to {shortAddress(dispute.coordinator)}</span>}
+                  </div>
+                  {!dispute.coordinator && (
+                    <div className="listing-actions">
+                      <button className="submit-btn" onClick={() => claim(exchange)} disabled={busyId !== null}>
+                        {busyId === exchange.id ? "Claiming..." : "Claim"}
+                      </button>
+                    </div>
+                  )}
+                  {mine && (
+                    <>
+                      <div className="listing-match-form">
+                        <input
+                          type="text"
+                          value={form.note}
+                          onChange={(e) => updateForm(exchange.id, { note: e.target.value })}
+                          placeholder="Public note"
+                        />
+                        <button className="refresh-btn" onClick={() => addNote(exchange)} disabled={busyId !== null || !form.note.trim()}>
+                          Add Note
+                        </button>
+                      </div>
+                      <div className="listing-match-form">
+                        <button className="submit-btn" onClick={() => uphold(exchange)} disabled={busyId !== null}>Uphold</button>
+                        <button className="cancel-btn" onClick={() => voidExchange(exchange)} disabled={busyId !== null}>Void</button>
+                      </div>
+                      <div className="listing-match-form">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={form.share}
+                          onChange={(e) => updateForm(exchange.id, { share: e.target.value })}
+                          placeholder="Provider keeps %"
+                        />
+                        <button className="refresh-btn" onClick={() => split(exchange)} disabled={busyId !== null}>Split</button>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={form.hours}
+                          onChange={(e) => updateForm(exchange.id, { hours: e.target.value })}
+                          placeholder="Provider keeps hours"
+                        />
+                        <button className="refresh-btn" onClick={() => adjust(exchange)} disabled={busyId !== null || !form.hours}>Adjust</button>
+                      </div>
+                      {busyId === exchange.id && <div className="listing-note">Waiting for the transaction...</div>}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="panel-card">
+        <h2>Exchanges to Verify</h2>
+        {unverified.length === 0 ? (
+          <div className="no-data">No accepted exchanges awaiting verification</div>
+        ) : (
+          <div className="records-list">
+            {unverified.map((exchange) => (
+              <div className="record-item" key={exchange.id}>
+                <div className="record-type">#{exchange.id} · {exchange.serviceType}</div>
+                <div className="listing-meta">
+                  <span>{shortAddress(exchange.provider)} → {shortAddress(exchange.receiver)}</span>
+                  {exchange.settledAt && <span>accepted {new Date(exchange.settledAt * 1000).toLocaleString()}</span>}
+                </div>
+                <div className="listing-actions">
+                  <button className="submit-btn" onClick={() => verify(exchange)} disabled={busyId !== null}>
+                    {busyId === exchange.id ? "Verifying..." : "Verify"}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CoordinatorPanel;
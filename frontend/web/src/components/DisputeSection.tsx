@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { describeTxError, getContractWithSigner } from '../contract';
+import { canOpenDispute, describeResolution, disputeTimeline, isDisputeParticipant } from '../disputes';
+import type { ExchangeInfo } from '../indexer';
+
+interface DisputeSectionProps {
+  exchange: ExchangeInfo;
+  address: string | undefined;
+  // Called once a dispute action is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+const shortAddress = (value: string) => value ? `${value.substring(0, 6)}...${value.substring(38)}` : "—";
+
+/** Dispute status and history of an exchange, with the forms its parties may use. Notes are public. */
+const DisputeSection: React.FC<DisputeSectionProps> = ({ exchange, address, onChanged }) => {
+  const [text, setText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const dispute = exchange.dispute;
+  const canOpen = canOpenDispute(exchange, address);
+  const canAddEvidence = dispute?.status === 'open' && isDisputeParticipant(exchange, address);
+  if (!dispute && !canOpen) return null;
+
+  const submit = async () => {
+    if (!text.trim()) return;
+    setBusy(true);
+    setError('');
+    try {
+      const contract = await getContractWithSigner();
+      const tx = dispute
+        ? await contract.addDisputeEvidence(exchange.id, text.trim())
+        : await contract.openDispute(exchange.id, text.trim());
+      await tx.wait();
+      setText('');
+      await onChanged();
+    } catch (e: any) {
+      console.error("Dispute action failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="dispute-section">
+      <h3>Dispute</h3>
+      {dispute ? (
+        <>
+          <div className="info-item">
+            <span>Status:</span>
+            <strong className={`status-text ${dispute.status}`}>
+              {dispute.status === 'resolved' ? describeResolution(dispute) : dispute.coordinator ? "Under review" : "Awaiting a coordinator"}
+            </strong>
+          </div>
+          <ol className="dispute-timeline">
+            {disputeTimeline(dispute).map((entry, i) => (
+              <li key={i}>
+                <span className="dispute-timeline-time">{new Date(entry.at * 1000).toLocaleString()}</span>
+                <strong>{entry.label}</strong> by {shortAddress(entry.actor)}
+                {entry.detail && <div className="listing-note">{entry.detail}</div>}
+              </li>
+            ))}
+          </ol>
+        </>
+      ) : (
+        <div className="listing-note">Disagree with the hours of this exchange? A coordinator will review it.</div>
+      )}
+
+      {error && <div className="balance-error">{error}</div>}
+
+      {(canOpen || canAddEvidence) && (
+        <div className="listing-match-form">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={dispute ? "Add a public note or evidence reference" : "Why are you disputing this exchange?"}
+          />
+          <button className="submit-btn" onClick={submit} disabled={busy || !text.trim()}>
+            {busy ? "Submitting..." : dispute ? "Add Evidence" : "Open Dispute"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DisputeSection;
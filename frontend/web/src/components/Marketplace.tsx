@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { describeTxError, getContractWithSigner } from '../contract';
+import { encryptHours } from '../fhe';
+import type { ListingInfo, ReputationInfo } from '../indexer';
+import { averageRating, formatRating } from '../reputation';
+
+interface MarketplaceProps {
+  address: string | undefined;
+  // Only members can propose exchanges from a listing
+  isMember: boolean;
+  listings: ListingInfo[];
+  reputations: Record<string, ReputationInfo>;
+  // Called once a transaction is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+type KindFilter = 'all' | ListingInfo['kind'];
+
+const LISTING_KIND = { offer: 0, request: 1 } as const;
+
+const emptyListing = { kind: 'offer' as ListingInfo['kind'], serviceType: "", description: "", location: "", availableFrom: "", availableUntil: "" };
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+const toTimestamp = (value: string) => value ? Math.floor(new Date(value).getTime() / 1000) : 0;
+
+const formatWindow = (listing: ListingInfo) => {
+  const from = listing.availableFrom ? new Date(listing.availableFrom * 1000).toLocaleString() : "now";
+  const until = listing.availableUntil ? new Date(listing.availableUntil * 1000).toLocaleString() : "open-ended";
+  return `${from} → ${until}`;
+};
+
+const Marketplace: React.FC<MarketplaceProps> = ({ address, isMember, listings, reputations, onChanged }) => {
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [newListing, setNewListing] = useState(emptyListing);
+  const [matchingId, setMatchingId] = useState<number | null>(null);
+  const [matchData, setMatchData] = useState({ receiver: "", hours: "" });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const account = address?.toLowerCase();
+  const categories = Array.from(new Set(listings.map((l) => l.serviceType))).sort();
+  const visible = listings.filter(
+    (l) => (kindFilter === 'all' || l.kind === kindFilter) && (!categoryFilter || l.serviceType === categoryFilter)
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      await onChanged();
+    } catch (e: any) {
+      console.error("Marketplace transaction failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const postListing = () => run(async () => {
+    const contract = await getContractWithSigner();
+    const tx = await contract.postListing(
+      LISTING_KIND[newListing.kind],
+      newListing.serviceType,
+      newListing.description,
+      newListing.location,
+      toTimestamp(newListing.availableFrom),
+      toTimestamp(newListing.availableUntil)
+    );
+    await tx.wait();
+    setShowForm(false);
+    setNewListing(emptyListing);
+  });
+
+  // The provider side of a match encrypts the hours, so the match doubles as the exchange proposal
+  const matchListing = (listing: ListingInfo) => run(async () => {
+    if (!address) throw new Error("Please connect wallet first");
+    const hoursValue = parseFloat(matchData.hours);
+    if (isNaN(hoursValue) || hoursValue <= 0) throw new Error("Invalid hours value");
+
+    const contract = await getContractWithSigner();
+    const encrypted = await encryptHours(await contract.getAddress(), address, hoursValue);
+    let tx;
+    if (listing.kind === 'offer') {
+      if (!ethers.isAddress(matchData.receiver)) throw new Error("Invalid receiver address");
+      tx = await contract.matchOffer(listing.id, matchData.receiver, encrypted.handle, encrypted.inputProof);
+    } else {
+      tx = await contract.matchRequest(listing.id, encrypted.handle, encrypted.inputProof);
+    }
+    await tx.wait();
+    setMatchingId(null);
+    setMatchData({ receiver: "", hours: "" });
+  });
+
+  const closeListing = (listing: ListingInfo) => run(async () => {
+    const contract = await getContractWithSigner();
+    const tx = await contract.closeListing(listing.id);
+    await tx.wait();
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setNewListing({ ...newListing, [name]: value });
+  };
+
+  // Only revealed averages are public; authors without one show nothing
+  const renderScore = (author: string) => {
+    const reputation = reputations[author.toLowerCase()];
+    const average = averageRating(reputation);
+    if (average === undefined) return null;
+    return <span title={`Average of ${reputation.revealedCount} ratings`}>★ {formatRating(average)}</span>;
+  };
+
+  const renderActions = (listing: ListingInfo) => {
+    if (listing.status === 'matched') {
+      return <span className="listing-note">Awaiting confirmation of exchange #{listing.exchangeId}</span>;
+    }
+    if (listing.status !== 'open' || !account) return null;
+
+    const isAuthor = listing.author.toLowerCase() === account;
+    const canMatch = isMember && (listing.kind === 'offer' ? isAuthor : !isAuthor);
+
+    if (matchingId === listing.id) {
+      return (
+        <div className="listing-match-form">
+          {listing.kind === 'offer' && (
+            <input
+              type="text"
+              value={matchData.receiver}
+              onChange={(e) => setMatchData({ ...matchData, receiver: e.target.value })}
+              placeholder="Receiver address 0x..."
+            />
+          )}
+          <input
+            type="number"
+            value={matchData.hours}
+            onChange={(e) => setMatchData({ ...matchData, hours: e.target.value })}
+            placeholder="Hours"
+            min="0.1"
+            step="0.1"
+          />
+          <button className="submit-btn" onClick={() => matchListing(listing)} disabled={busy || !matchData.hours}>
+            {busy ? "Encrypting..." : "Propose Exchange"}
+          </button>
+          <button className="cancel-btn" onClick={() => setMatchingId(null)}>Cancel</button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="listing-actions">
+        {canMatch && (
+          <button className="submit-btn" onClick={() => setMatchingId(listing.id)} disabled={busy}>
+            {listing.kind === 'offer' ? "Match" : "Answer"}
+          </button>
+        )}
+        {isAuthor && (
+          <button className="cancel-btn" onClick={() => closeListing(listing)} disabled={busy}>Close</button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="marketplace-section">
+      <div className="section-header">
+        <h2>Offers &amp; Requests</h2>
+        <div className="header-actions">
+          <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value as KindFilter)}>
+            <option value="all">All</option>
+            <option value="offer">Offers</option>
+            <option value="request">Requests</option>
+          </select>
+          <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)}>
+            <option value="">All categories</option>
+            {categories.map((category) => <option key={category} value={category}>{category}</option>)}
+          </select>
+          {address && (
+            <button className="refresh-btn" onClick={() => setShowForm(!showForm)}>
+              {showForm ? "Hide Form" : "Post Listing"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="listing-form">
+          <div className="form-group">
+            <label>Type *</label>
+            <select name="kind" value={newListing.kind} onChange={handleChange}>
+              <option value="offer">I can offer</option>
+              <option value="request">I need</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Service Type *</label>
+            <input type="text" name="serviceType" value={newListing.serviceType} onChange={handleChange} placeholder="e.g. Tutoring, Transport..." />
+          </div>
+          <div className="form-group">
+            <label>Description</label>
+            <input type="text" name="description" value={newListing.description} onChange={handleChange} placeholder="e.g. Math for grades 6-9" />
+          </div>
+          <div className="form-group">
+            <label>Location</label>
+            <input type="text" name="location" value={newListing.location} onChange={handleChange} placeholder="e.g. Community library" />
+          </div>
+          <div className="form-group">
+            <label>Available From</label>
+            <input type="datetime-local" name="availableFrom" value={newListing.availableFrom} onChange={handleChange} />
+          </div>
+          <div className="form-group">
+            <label>Available Until</label>
+            <input type="datetime-local" name="availableUntil" value={newListing.availableUntil} onChange={handleChange} />
+          </div>
+          <button className="submit-btn" onClick={postListing} disabled={busy || !newListing.serviceType}>
+            {busy ? "Posting..." : "Post Listing"}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="balance-error">{error}</div>}
+
+      <div className="records-list">
+        {visible.length === 0 ? (
+          <div className="no-data">No listings yet</div>
+        ) : visible.map((listing) => (
+          <div className="record-item listing-item" key={listing.id}>
+            <div className="record-type">
+              <span className={`listing-kind ${listing.kind}`}>{listing.kind === 'offer' ? "Offer" : "Request"}</span>
+              {listing.serviceType}
+            </div>
+            {listing.description && <div className="record-hours">{listing.description}</div>}
+            <div className="listing-meta">
+              {listing.location && <span>📍 {listing.location}</span>}
+              <span>🕒 {formatWindow(listing)}</span>
+              <span>by {shortAddress(listing.author)}</span>
+              {renderScore(listing.author)}
+            </div>
+            <div className="record-status">
+              <span className={`status-badge ${listing.status}`}>{listing.status}</span>
+              {renderActions(listing)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Marketplace;
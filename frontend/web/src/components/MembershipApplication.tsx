@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { describeTxError, getContractReadOnly, getContractWithSigner } from '../contract';
+import type { ApplicationInfo } from '../indexer';
+
+interface MembershipApplicationProps {
+  address: string | undefined;
+  applications: ApplicationInfo[];
+  // Called once the application is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+/** Lets a connected non-provider apply for provider rights and follow the decision. */
+const MembershipApplication: React.FC<MembershipApplicationProps> = ({ address, applications, onChanged }) => {
+  const [isProvider, setIsProvider] = useState<boolean | null>(null);
+  const [form, setForm] = useState({ displayName: "", skills: "" });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const application = applications.find((a) => a.applicant.toLowerCase() === address?.toLowerCase());
+
+  useEffect(() => {
+    setIsProvider(null);
+    if (!address) return;
+    getContractReadOnly()
+      .then((contract) => contract?.isProvider(address))
+      .then((provider) => setIsProvider(!!provider))
+      .catch((e) => console.error("Failed to load provider status:", e));
+  }, [address, application?.status]);
+
+  if (!address || isProvider !== false) return null;
+
+  const apply = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const contract = await getContractWithSigner();
+      const tx = await contract.applyForMembership(form.displayName, form.skills);
+      await tx.wait();
+      setForm({ displayName: "", skills: "" });
+      await onChanged();
+    } catch (e: any) {
+      console.error("Membership application failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="panel-card">
+      <h2>Become a Member</h2>
+      {application?.status === 'pending' ? (
+        <p>
+          Your application as <strong>{application.displayName}</strong> was submitted on{" "}
+          {new Date(application.appliedAt * 1000).toLocaleDateString()} and is waiting for approval.
+        </p>
+      ) : (
+        <>
+          {application?.status === 'rejected' && (
+            <div className="balance-error">
+              Your previous application was rejected: {application.reason || "no reason given"}. You can apply again.
+            </div>
+          )}
+          <p>Members can deposit hours and record exchanges once a coordinator accepts their application.</p>
+          <div className="form-group">
+            <label>Display Name *</label>
+            <input
+              type="text"
+              value={form.displayName}
+              onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+              placeholder="How the community knows you"
+            />
+          </div>
+          <div className="form-group">
+            <label>Skills</label>
+            <input
+              type="text"
+              value={form.skills}
+              onChange={(e) => setForm({ ...form, skills: e.target.value })}
+              placeholder="e.g. Gardening, Tutoring"
+            />
+          </div>
+          <button className="submit-btn" onClick={apply} disabled={busy || !form.displayName}>
+            {busy ? "Submitting..." : "Apply"}
+          </button>
+        </>
+      )}
+      {error && <div className="balance-error">{error}</div>}
+    </div>
+  );
+};
+
+export default MembershipApplication;
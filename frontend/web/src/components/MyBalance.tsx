@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getContractReadOnly, getSigner } from '../contract';
+import { decodeHours, decryptHandles } from '../fhe';
+import { BalanceChange, CreditLimit, CreditPolicy, describeCreditPolicy, loadCreditLimit, loadCreditPolicy, upcomingChanges } from '../policy';
+
+interface MyBalanceProps {
+  address: string | undefined;
+  // Bumped after the member's own transactions so a stale cleartext is hidden
+  refreshKey: number;
+}
+
+const MyBalance: React.FC<MyBalanceProps> = ({ address, refreshKey }) => {
+  const [balance, setBalance] = useState<number | null>(null);
+  const [overdraft, setOverdraft] = useState(0);
+  const [creditLimit, setCreditLimit] = useState<CreditLimit | null>(null);
+  const [policy, setPolicy] = useState<CreditPolicy | null>(null);
+  const [changes, setChanges] = useState<BalanceChange[]>([]);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setBalance(null);
+    setError('');
+  }, [address, refreshKey]);
+
+  const decryptBalance = async () => {
+    if (!address) return;
+    if (balance !== null) {
+      setBalance(null);
+      return;
+    }
+
+    setIsDecrypting(true);
+    setError('');
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) throw new Error("Contract is not available");
+
+      const [handle, overdraftHandle, creditPolicy, settledAt, limit] = await Promise.all([
+        contract.getBalance(address),
+        contract.getOverdraft(address),
+        loadCreditPolicy(contract),
+        contract.balanceSettledAt(address),
+        loadCreditLimit(contract, address)
+      ]);
+      // An unset balance or overdraft has no ciphertext yet
+      const handles = [handle, overdraftHandle].filter((h) => h !== ethers.ZeroHash);
+      const values = await decryptHandles(handles, await contract.getAddress(), await getSigner());
+      const hours = handle === ethers.ZeroHash ? 0 : decodeHours(values[handle]);
+      setBalance(hours);
+      setOverdraft(overdraftHandle === ethers.ZeroHash ? 0 : decodeHours(values[overdraftHandle]));
+      setCreditLimit(limit);
+      setPolicy(creditPolicy);
+      setChanges(upcomingChanges(hours, creditPolicy, Number(settledAt), Math.floor(Date.now() / 1000)));
+    } catch (e: any) {
+      console.error("Balance decryption failed:", e);
+      setError(e.message || "Decryption failed");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="panel-card balance-panel">
+      <h2>My Balance</h2>
+      {!address ? (
+        <p>Connect your wallet to view your encrypted time balance.</p>
+      ) : (
+        <>
+          <div className="balance-value">
+            {balance === null ? "🔒 Encrypted" : overdraft > 0 ? `−${overdraft.toFixed(1)} hours` : `${balance.toFixed(1)} hours`}
+          </div>
+          <button className="decrypt-btn" onClick={decryptBalance} disabled={isDecrypting}>
+            {isDecrypting ? "Decrypting..." : balance !== null ? "Hide Balance" : "Decrypt with Wallet Signature"}
+          </button>
+          {balance !== null && creditLimit && (creditLimit.hours > 0 || overdraft > 0) && (
+            <div className="stats-note">
+              Credit line: {creditLimit.hours.toFixed(1)} h{creditLimit.custom ? " (set for you)" : ""}
+              {overdraft > 0 && ` · ${overdraft.toFixed(1)} h used, repaid from the hours you receive`}
+            </div>
+          )}
+          {balance !== null && policy && (
+            <div className="balance-policy">
+              <div className="stats-note">{describeCreditPolicy(policy)}</div>
+              {changes.length > 0 && (
+                <ul className="balance-changes">
+                  {changes.map((change) => (
+                    <li key={change.at} className={change.overdue ? "overdue" : undefined}>
+                      <span>{new Date(change.at * 1000).toLocaleDateString()}</span>
+                      <span>
+                        {change.hoursAfter === 0
+                          ? `${change.hoursBefore.toFixed(1)} h expire`
+                          : `${change.hoursBefore.toFixed(1)} → ${change.hoursAfter.toFixed(1)} h`}
+                        {change.overdue && " · due, applied at your next transaction"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          {error && <div className="balance-error">{error}</div>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MyBalance;
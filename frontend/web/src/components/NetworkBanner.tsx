@@ -0,0 +1,48 @@
+import React from 'react';
+import { useAccount, useSwitchChain } from 'wagmi';
+import { getDeployedNetworks, getNetworkByChainId } from '../network';
+
+/**
+ * Shown while the connected wallet is on a chain without a TimeBankFHE
+ * deployment, or on one where hours cannot be encrypted for lack of a relayer.
+ */
+const NetworkBanner: React.FC = () => {
+  const { chainId, isConnected } = useAccount();
+  const { switchChain, isPending, error } = useSwitchChain();
+
+  if (!isConnected || chainId === undefined) return null;
+
+  const current = getNetworkByChainId(chainId);
+  if (current?.deployment) {
+    if (current.relayer) return null;
+    return (
+      <div className="network-banner">
+        <span>{current.name} has no FHE relayer configured, so hours cannot be encrypted or decrypted here. Records stay readable.</span>
+      </div>
+    );
+  }
+
+  const targets = getDeployedNetworks();
+
+  return (
+    <div className="network-banner">
+      <span>
+        {current ? `Time Bank FHE is not deployed on ${current.name}.` : `Chain ${chainId} is not supported.`}
+        {targets.length > 0 ? " Switch to continue:" : " No network has a deployment configured."}
+      </span>
+      {targets.map((network) => (
+        <button
+          key={network.key}
+          className="network-switch-btn"
+          onClick={() => switchChain({ chainId: network.chainId })}
+          disabled={isPending}
+        >
+          {isPending ? "Switching..." : `Switch to ${network.name}`}
+        </button>
+      ))}
+      {error && <span className="network-banner-error">{error.message}</span>}
+    </div>
+  );
+};
+
+export default NetworkBanner;
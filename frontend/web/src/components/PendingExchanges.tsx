@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { describeTxError, getContractReadOnly, getContractWithSigner, getSigner } from '../contract';
+import { decryptHours } from '../fhe';
+import type { ExchangeInfo } from '../indexer';
+import { INSUFFICIENT_CREDIT_MESSAGE, wasLastSpendDeclined } from '../policy';
+
+interface PendingExchangesProps {
+  address: string | undefined;
+  // Only members can accept, since accepting spends their hours
+  isMember: boolean;
+  exchanges: ExchangeInfo[];
+  // Called once a settlement transaction is mined so the index can catch up
+  onSettled: () => Promise<void> | void;
+}
+
+type Settlement = 'accept' | 'reject' | 'cancel';
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+const PendingExchanges: React.FC<PendingExchangesProps> = ({ address, isMember, exchanges, onSettled }) => {
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [decrypted, setDecrypted] = useState<Record<number, number>>({});
+  const [error, setError] = useState('');
+
+  const account = address?.toLowerCase();
+  const pending = exchanges.filter(
+    (e) => e.status === 'proposed' && (e.provider.toLowerCase() === account || e.receiver.toLowerCase() === account)
+  );
+
+  const settle = async (exchange: ExchangeInfo, action: Settlement) => {
+    setBusyId(exchange.id);
+    setError('');
+    try {
+      const contract = await getContractWithSigner();
+      const tx = action === 'accept'
+        ? await contract.acceptExchange(exchange.id)
+        : action === 'reject'
+          ? await contract.rejectExchange(exchange.id)
+          : await contract.cancelExchange(exchange.id);
+      await tx.wait();
+      await onSettled();
+      // An uncovered exchange still settles, moving nothing; only the receiver can tell
+      if (action === 'accept' && address && await wasLastSpendDeclined(contract, address, await getSigner())) {
+        setError(INSUFFICIENT_CREDIT_MESSAGE);
+      }
+    } catch (e: any) {
+      console.error(`Exchange ${action} failed:`, e);
+      setError(describeTxError(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revealHours = async (exchange: ExchangeInfo) => {
+    setBusyId(exchange.id);
+    setError('');
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) throw new Error("Contract is not available");
+      const hours = await decryptHours(exchange.hours, await contract.getAddress(), await getSigner());
+      setDecrypted((prev) => ({ ...prev, [exchange.id]: hours }));
+    } catch (e: any) {
+      console.error("Exchange decryption failed:", e);
+      setError(e.message || "Decryption failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!address) return null;
+
+  return (
+    <div className="panel-card exchanges-panel">
+      <h2>Pending Exchanges</h2>
+      {pending.length === 0 ? (
+        <p>No exchanges are waiting for you.</p>
+      ) : (
+        <div className="exchange-list">
+          {pending.map((exchange) => {
+            const isReceiver = exchange.receiver.toLowerCase() === account;
+            const busy = busyId === exchange.id;
+            return (
+              <div className="exchange-item" key={exchange.id}>
+                <div className="exchange-summary">
+                  <strong>{exchange.serviceType}</strong>
+                  <span>
+                    {isReceiver
+                      ? `from ${shortAddress(exchange.provider)}`
+                      : `for ${shortAddress(exchange.receiver)}`}
+                  </span>
+                  <span className="exchange-hours">
+                    {decrypted[exchange.id] !== undefined ? (
+                      `${decrypted[exchange.id].toFixed(1)} hours`
+                    ) : (
+                      <button className="link-btn" onClick={() => revealHours(exchange)} disabled={busy}>
+                        🔒 Reveal hours
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <div className="exchange-actions">
+                  {isReceiver ? (
+                    <>
+                      {isMember && (
+                        <button className="submit-btn" onClick={() => settle(exchange, 'accept')} disabled={busy}>
+                          {busy ? "Confirming..." : "Accept"}
+                        </button>
+                      )}
+                      <button className="cancel-btn" onClick={() => settle(exchange, 'reject')} disabled={busy}>
+                        Reject
+                      </button>
+                    </>
+                  ) : (
+                    <button className="cancel-btn" onClick={() => settle(exchange, 'cancel')} disabled={busy}>
+                      {busy ? "Cancelling..." : "Cancel"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {error && <div className="balance-error">{error}</div>}
+    </div>
+  );
+};
+
+export default PendingExchanges;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { describeTxError, getContractReadOnly, getContractWithSigner, getSigner } from '../contract';
+import { decryptHours, encryptHours } from '../fhe';
+import type { PledgeInfo } from '../indexer';
+import { INSUFFICIENT_CREDIT_MESSAGE, wasLastSpendDeclined } from '../policy';
+import { describePledge, pledgeActions } from '../pledges';
+
+interface PledgeListProps {
+  address: string | undefined;
+  // Only members can book services
+  isMember: boolean;
+  pledges: PledgeInfo[];
+  // Called once a transaction is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+const emptyBooking = { provider: "", serviceType: "", hours: "", scheduledFor: "", expiresAt: "" };
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+const toTimestamp = (value: string) => value ? Math.floor(new Date(value).getTime() / 1000) : 0;
+
+/** The member's booked services, with their escrowed hours, shown above the time records. */
+const PledgeList: React.FC<PledgeListProps> = ({ address, isMember, pledges, onChanged }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [booking, setBooking] = useState(emptyBooking);
+  const [decrypted, setDecrypted] = useState<Record<number, number>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!address) return null;
+
+  const account = address.toLowerCase();
+  const mine = pledges.filter((p) => p.receiver.toLowerCase() === account || p.provider.toLowerCase() === account);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (e: any) {
+      console.error("Pledge action failed:", e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const book = () => run(async () => {
+    if (!ethers.isAddress(booking.provider)) throw new Error("Invalid provider address");
+    const hoursValue = parseFloat(booking.hours);
+    if (isNaN(hoursValue) || hoursValue <= 0) throw new Error("Invalid hours value");
+    const scheduledFor = toTimestamp(booking.scheduledFor);
+    const expiresAt = toTimestamp(booking.expiresAt);
+    if (!scheduledFor || expiresAt <= scheduledFor) throw new Error("The pledge must expire after the scheduled time");
+
+    const contract = await getContractWithSigner();
+    const encrypted = await encryptHours(await contract.getAddress(), address, hoursValue);
+    const tx = await contract.pledgeHours(booking.provider, encrypted.handle, encrypted.inputProof, booking.serviceType, scheduledFor, expiresAt);
+    await tx.wait();
+    setShowForm(false);
+    setBooking(emptyBooking);
+    await onChanged();
+    if (await wasLastSpendDeclined(contract, address, await getSigner())) throw new Error(INSUFFICIENT_CREDIT_MESSAGE);
+  });
+
+  const settle = (pledge: PledgeInfo, confirm: boolean) => run(async () => {
+    const contract = await getContractWithSigner();
+    const tx = confirm ? await contract.confirmPledge(pledge.id) : await contract.cancelPledge(pledge.id);
+    await tx.wait();
+    await onChanged();
+  });
+
+  // Zero means the balance could not cover the pledge when it was made
+  const revealHours = (pledge: PledgeInfo) => run(async () => {
+    const contract = await getContractReadOnly();
+    if (!contract) throw new Error("Contract is not available");
+    const hours = await decryptHours(pledge.hours, await contract.getAddress(), await getSigner());
+    setDecrypted((prev) => ({ ...prev, [pledge.id]: hours }));
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setBooking({ ...booking, [name]: value });
+  };
+
+  return (
+    <div className="pledges-section">
+      <div className="section-header">
+        <h3>Booked Services</h3>
+        {isMember && (
+          <div className="header-actions">
+            <button className="refresh-btn" onClick={() => setShowForm(!showForm)}>
+              {showForm ? "Hide Form" : "Book a Service"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="listing-form">
+          <div className="form-group">
+            <label>Provider Address *</label>
+            <input type="text" name="provider" value={booking.provider} onChange={handleChange} placeholder="0x..." />
+          </div>
+          <div className="form-group">
+            <label>Service Type *</label>
+            <input type="text" name="serviceType" value={booking.serviceType} onChange={handleChange} placeholder="e.g. Tutoring, Transport..." />
+          </div>
+          <div className="form-group">
+            <label>Hours to Lock *</label>
+            <input type="number" step="0.1" min="0" name="hours" value={booking.hours} onChange={handleChange} />
+          </div>
+          <div className="form-group">
+            <label>Scheduled For *</label>
+            <input type="datetime-local" name="scheduledFor" value={booking.scheduledFor} onChange={handleChange} />
+          </div>
+          <div className="form-group">
+            <label>Return Hours If Unconfirmed After *</label>
+            <input type="datetime-local" name="expiresAt" value={booking.expiresAt} onChange={handleChange} />
+          </div>
+          <button className="submit-btn" onClick={book} disabled={busy || !booking.serviceType}>
+            {busy ? "Locking..." : "Lock Hours"}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="balance-error">{error}</div>}
+
+      {mine.length === 0 ? (
+        <div className="no-data">No booked services</div>
+      ) : (
+        <div className="records-list">
+          {mine.map((pledge) => {
+            const { canConfirm, canCancel } = pledgeActions(pledge, address);
+            const isReceiver = pledge.receiver.toLowerCase() === account;
+            return (
+              <div className="record-item" key={pledge.id}>
+                <div className="record-type">{pledge.serviceType}</div>
+                <div className="listing-meta">
+                  <span>{isReceiver ? `with ${shortAddress(pledge.provider)}` : `for ${shortAddress(pledge.receiver)}`}</span>
+                  <span>🕒 {new Date(pledge.scheduledFor * 1000).toLocaleString()}</span>
+                  <span>{describePledge(pledge)}</span>
+                  {decrypted[pledge.id] !== undefined && <span>{decrypted[pledge.id].toFixed(1)} hours locked</span>}
+                </div>
+                <div className="record-status">
+                  <span className={`status-badge ${pledge.status}`}>{pledge.status}</span>
+                </div>
+                <div className="listing-actions">
+                  {decrypted[pledge.id] === undefined && (
+                    <button className="refresh-btn" onClick={() => revealHours(pledge)} disabled={busy}>Decrypt Hours</button>
+                  )}
+                  {canConfirm && (
+                    <button className="submit-btn" onClick={() => settle(pledge, true)} disabled={busy}>Confirm Service</button>
+                  )}
+                  {canCancel && (
+                    <button className="cancel-btn" onClick={() => settle(pledge, false)} disabled={busy}>
+                      {isReceiver ? "Cancel" : "Decline"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PledgeList;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { describeTxError, getContractWithSigner } from '../contract';
+import { encryptUint32 } from '../fhe';
+import type { ExchangeInfo, ReputationInfo } from '../indexer';
+import { averageRating, formatRating, MAX_RATING, MIN_RATING, ratingsUntilReveal } from '../reputation';
+
+interface ReputationPanelProps {
+  address: string | undefined;
+  exchanges: ExchangeInfo[];
+  reputations: Record<string, ReputationInfo>;
+  // Called once a rating or reveal request is mined so the index can catch up
+  onChanged: () => Promise<void> | void;
+}
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+const RATING_OPTIONS = Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, i) => MIN_RATING + i);
+
+/**
+ * The member's own profile: their revealed score and the exchanges they still
+ * have to rate. Individual ratings are encrypted and never shown to anyone.
+ */
+const ReputationPanel: React.FC<ReputationPanelProps> = ({ address, exchanges, reputations, onChanged }) => {
+  const [ratings, setRatings] = useState<Record<number, number>>({});
+  const [busy, setBusy] = useState('');
+  const [error, setError] = useState('');
+
+  if (!address) return null;
+
+  const account = address.toLowerCase();
+  const reputation = reputations[account];
+  const average = averageRating(reputation);
+  const remaining = ratingsUntilReveal(reputation);
+  const toRate = exchanges.filter(
+    (e) => e.status === 'accepted' && e.recordId !== undefined && !e.rated && e.receiver.toLowerCase() === account
+  );
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError('');
+    try {
+      await action();
+      await onChanged();
+    } catch (e: any) {
+      console.error(`Reputation action "${label}" failed:`, e);
+      setError(describeTxError(e));
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const submitRating = (exchange: ExchangeInfo) => run(`rate-${exchange.id}`, async () => {
+    const contract = await getContractWithSigner();
+    const rating = ratings[exchange.id] ?? MAX_RATING;
+    const encrypted = await encryptUint32(await contract.getAddress(), address, rating);
+    const tx = await contract.rateRecord(exchange.recordId!, encrypted.handle, encrypted.inputProof);
+    await tx.wait();
+  });
+
+  const requestReveal = () => run('reveal', async () => {
+    const contract = await getContractWithSigner();
+    const tx = await contract.requestRatingReveal();
+    await tx.wait();
+  });
+
+  return (
+    <div className="panel-card">
+      <h2>My Reputation</h2>
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{average !== undefined ? formatRating(average) : "—"}</div>
+          <div className="stat-label">Revealed Score</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{reputation?.ratingCount ?? 0}</div>
+          <div className="stat-label">Ratings Received</div>
+        </div>
+      </div>
+      <div className="stats-note">
+        {average !== undefined && `Based on ${reputation!.revealedCount} ratings · `}
+        {reputation?.revealPendingCount
+          ? `Reveal of ${reputation.revealPendingCount} ratings waiting for the decryption oracle`
+          : remaining > 0
+            ? `${remaining} more rating${remaining === 1 ? "" : "s"} needed before the next reveal`
+            : "Enough new ratings to reveal an updated score"}
+      </div>
+      {remaining === 0 && !reputation?.revealPendingCount && (
+        <button className="refresh-btn" onClick={requestReveal} disabled={!!busy}>
+          {busy === 'reveal' ? "Requesting..." : "Reveal My Score"}
+        </button>
+      )}
+
+      {error && <div className="balance-error">{error}</div>}
+
+      {toRate.length > 0 && (
+        <>
+          <h3>Rate Completed Exchanges</h3>
+          <div className="records-list">
+            {toRate.map((exchange) => (
+              <div className="record-item" key={exchange.id}>
+                <div className="record-type">{exchange.serviceType}</div>
+                <div className="listing-meta">
+                  <span>by {shortAddress(exchange.provider)}</span>
+                  {exchange.settledAt && <span>{new Date(exchange.settledAt * 1000).toLocaleDateString()}</span>}
+                </div>
+                <div className="listing-actions">
+                  <select
+                    value={ratings[exchange.id] ?? MAX_RATING}
+                    onChange={(e) => setRatings({ ...ratings, [exchange.id]: Number(e.target.value) })}
+                  >
+                    {RATING_OPTIONS.map((value) => <option key={value} value={value}>{"★".repeat(value)}</option>)}
+                  </select>
+                  <button className="submit-btn" onClick={() => submitRating(exchange)} disabled={!!busy}>
+                    {busy === `rate-${exchange.id}` ? "Encrypting..." : "Submit Rating"}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="stats-note">Ratings are encrypted; providers only ever see an average over several ratings.</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReputationPanel;
@@ -1,10 +1,13 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import abiJson from "./abi/TimeBankFHE.json";
+import registryJson from "./abi/TimeBankCommunities.json";
+import { getActiveBank } from "./communities";
+import { getNetworkByChainId, getReadProvider, resolveNetwork } from "./network";
+import type { NetworkConfig } from "./network";
+import type { TimeBankFHE } from "../../../types";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,43 +21,35 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+const getWalletChainId = async (): Promise<number | null> => {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) return null;
+  try {
+    return Number(await ethereum.request({ method: "eth_chainId" }));
+  } catch (error) {
+    return null;
   }
-  
-  throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+/** The wallet's chain when it is a registered network, otherwise the configured default. */
+export async function getActiveNetwork(): Promise<NetworkConfig> {
+  return resolveNetwork(await getWalletChainId());
+}
+
+export async function getContractReadOnly(): Promise<TimeBankFHE | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const network = await getActiveNetwork();
+    const bank = getActiveBank(network);
+    if (!bank) {
+      console.warn(`TimeBankFHE has no deployment on ${network.name}`);
+      return null;
+    }
+
+    const provider = await getReadProvider(network);
+    const { contractAddress } = bank;
+    const contract = new ethers.Contract(contractAddress, ABI, provider) as unknown as TimeBankFHE;
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(contractAddress));
     if (code === "0x") {
       return null;
     }
@@ -66,14 +61,25 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner(): Promise<TimeBankFHE> {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getSigner();
+    const { chainId } = await signer.provider.getNetwork();
+    const network = getNetworkByChainId(Number(chainId));
+    const bank = network && getActiveBank(network);
+    if (!bank) {
+      throw new Error(`TimeBankFHE has no deployment on chain ${chainId}`);
+    }
+
+    const contract = new ethers.Contract(bank.contractAddress, ABI, signer) as unknown as TimeBankFHE;
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +87,40 @@ export async function getContractWithSigner() {
   }
 }
 
+// Custom errors either contract reverts with; they carry no reason string, only selector data
+const revertErrors = new ethers.Interface(
+  [...ABI, ...registryJson.abi].filter((fragment: { type: string }) => fragment.type === "error")
+);
+
+const textField = (error: unknown, field: string): string | undefined => {
+  if (typeof error !== "object" || error === null) return undefined;
+  const value = (error as Record<string, unknown>)[field];
+  return typeof value === "string" && value ? value : undefined;
+};
+
+const revertErrorName = (error: unknown): string | undefined => {
+  const data = textField(error, "data");
+  if (!data || !ethers.isHexString(data)) return undefined;
+  try {
+    return revertErrors.parseError(data)?.name;
+  } catch {
+    return undefined;
+  }
+};
+
+/** What to show for a failed wallet or contract call; `action` prefixes anything but a rejection. */
+export function describeTxError(error: unknown, action?: string): string {
+  const message = textField(error, "message");
+  if (textField(error, "code") === "ACTION_REJECTED" || message?.includes("user rejected transaction")) {
+    return "Transaction rejected by user";
+  }
+  const customError = revertErrorName(error);
+  // ethers puts a revert reason and a one-line summary next to the verbose message
+  const detail = customError ? `reverted with ${customError}` : textField(error, "reason") ?? textField(error, "shortMessage") ?? message;
+  if (action) return `${action} failed: ${detail ?? "Unknown error"}`;
+  return detail ?? "Transaction failed";
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+// disputes/disputes.ts
+import type { DisputeInfo, ExchangeInfo } from "../indexer";
+
+// Mirrors the contract: split shares are in basis points of the transferred hours
+export const MAX_SHARE_BASIS_POINTS = 10000;
+
+export interface DisputeTimelineEntry {
+  at: number;
+  actor: string;
+  label: string;
+  detail?: string;
+}
+
+export function describeResolution(dispute: DisputeInfo): string {
+  switch (dispute.resolution) {
+    case 'upheld':
+      return "Upheld, the exchange stands";
+    case 'adjusted':
+      return "Adjusted to hours set by the coordinator";
+    case 'split':
+      return `Split, the provider keeps ${((dispute.providerShareBasisPoints ?? 0) / 100).toLocaleString()}%`;
+    case 'voided':
+      return "Voided, all hours returned to the receiver";
+    default:
+      return "Open";
+  }
+}
+
+/** Every step of the dispute in the order it happened. */
+export function disputeTimeline(dispute: DisputeInfo): DisputeTimelineEntry[] {
+  const entries: DisputeTimelineEntry[] = [
+    { at: dispute.openedAt, actor: dispute.openedBy, label: "Opened", detail: dispute.reason }
+  ];
+  if (dispute.coordinator && dispute.assignedAt) {
+    entries.push({ at: dispute.assignedAt, actor: dispute.coordinator, label: "Assigned" });
+  }
+  for (const evidence of dispute.evidence) {
+    entries.push({ at: evidence.addedAt, actor: evidence.author, label: "Evidence", detail: evidence.note });
+  }
+  if (dispute.status === 'resolved' && dispute.resolvedAt) {
+    entries.push({ at: dispute.resolvedAt, actor: dispute.coordinator ?? "", label: "Resolved", detail: describeResolution(dispute) });
+  }
+  return entries.sort((a, b) => a.at - b.at);
+}
+
+/** Only the two parties of an accepted exchange may contest it, and only once. */
+export function canOpenDispute(exchange: ExchangeInfo, address: string | undefined): boolean {
+  const account = address?.toLowerCase();
+  return exchange.status === 'accepted' &&
+    !exchange.dispute &&
+    (exchange.provider.toLowerCase() === account || exchange.receiver.toLowerCase() === account);
+}
+
+export function isDisputeParticipant(exchange: ExchangeInfo, address: string | undefined): boolean {
+  const account = address?.toLowerCase();
+  return !!account && (
+    exchange.provider.toLowerCase() === account ||
+    exchange.receiver.toLowerCase() === account ||
+    exchange.dispute?.coordinator?.toLowerCase() === account
+  );
+}
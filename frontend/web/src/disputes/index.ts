@@ -0,0 +1,9 @@
+// disputes/index.ts
+export {
+  MAX_SHARE_BASIS_POINTS,
+  canOpenDispute,
+  describeResolution,
+  disputeTimeline,
+  isDisputeParticipant
+} from "./disputes";
+export type { DisputeTimelineEntry } from "./disputes";
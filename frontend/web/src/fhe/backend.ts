@@ -0,0 +1,96 @@
+// fhe/backend.ts
+import type { Eip1193Provider } from "ethers";
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+
+/**
+ * The part of an FHEVM instance the client relies on. The relayer SDK
+ * instance and the hardhat plugin's mock `fhevm` runtime both satisfy it,
+ * so local tests can hand the mock to `setFheBackend`.
+ */
+export type FheBackend = Pick<
+  FhevmInstance,
+  "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt"
+>;
+
+/** What the relayer is configured from; a registry NetworkConfig satisfies it. */
+export interface RelayerNetwork {
+  key: string;
+  name: string;
+  chainId: number;
+  relayer?: Partial<FhevmInstanceConfig>;
+}
+
+let backend: FheBackend | null = null;
+let pendingBackend: Promise<FheBackend> | null = null;
+let relayerConfig: Partial<FhevmInstanceConfig> = {};
+// Set while the selected network has no relayer; encryption and decryption then fail with it
+let unavailableReason: string | null = null;
+let relayerNetworkKey: string | null = null;
+// A backend handed to setFheBackend serves every network until it is cleared
+let overridden = false;
+
+const createRelayerBackend = async (): Promise<FheBackend> => {
+  if (unavailableReason) throw new Error(unavailableReason);
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+
+  const network = (globalThis as { ethereum?: Eip1193Provider }).ethereum;
+  // Only Sepolia's addresses ship with the SDK; any other chain brings its own in full
+  const preset = relayerConfig.chainId === undefined || relayerConfig.chainId === SepoliaConfig.chainId ? SepoliaConfig : {};
+  return createInstance({ ...preset, network, ...relayerConfig } as FhevmInstanceConfig);
+};
+
+/**
+ * Overrides the relayer instance config (e.g. chain or contract addresses).
+ * Drops any instance created with the previous config.
+ */
+export function configureRelayer(config: Partial<FhevmInstanceConfig>) {
+  relayerConfig = config;
+  unavailableReason = null;
+  backend = null;
+  pendingBackend = null;
+}
+
+/**
+ * Points the relayer at `network`, or turns encrypted actions off with a
+ * readable reason when the network has no relayer settings. Reconfigures
+ * only when the network actually changed.
+ */
+export function configureRelayerForNetwork(network: RelayerNetwork) {
+  if (overridden || relayerNetworkKey === network.key) return;
+  relayerNetworkKey = network.key;
+  if (network.relayer) {
+    configureRelayer({ chainId: network.chainId, ...network.relayer });
+  } else {
+    unavailableReason = `Encrypted actions are not available on ${network.name}: it has no FHE relayer configured`;
+    backend = null;
+    pendingBackend = null;
+  }
+}
+
+/** Why encrypted actions are off on the selected network, or null when they work. */
+export function getRelayerUnavailableReason(): string | null {
+  return unavailableReason;
+}
+
+/** Replaces the backend, or restores the default relayer backend with `null`. */
+export function setFheBackend(next: FheBackend | null) {
+  backend = next;
+  overridden = next !== null;
+  pendingBackend = null;
+}
+
+export async function getFheBackend(): Promise<FheBackend> {
+  if (backend) return backend;
+
+  if (!pendingBackend) {
+    pendingBackend = createRelayerBackend().then(
+      (instance) => (backend = instance),
+      (error) => {
+        pendingBackend = null;
+        throw error;
+      }
+    );
+  }
+  return pendingBackend;
+}
@@ -0,0 +1,129 @@
+// fhe/client.ts
+import { ethers } from "ethers";
+import { getFheBackend } from "./backend";
+
+// Hours are encrypted as euint32 tenths of an hour so the 0.1h steps of the UI survive.
+export const HOURS_SCALE = 10;
+const MAX_UINT32 = 0xffffffff;
+
+// How long a user-decryption signature stays valid.
+export const DECRYPT_DURATION_DAYS = 30;
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+export type EncryptedHours = EncryptedInput;
+
+/** Anything that can sign EIP-712 data, e.g. an ethers signer. */
+export interface TypedDataSigner {
+  getAddress(): Promise<string>;
+  signTypedData(domain: any, types: Record<string, any[]>, value: Record<string, any>): Promise<string>;
+}
+
+interface DecryptSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+}
+
+// One signature per user and contract, reused until it expires.
+const sessions = new Map<string, DecryptSession>();
+
+export function encodeHours(hours: number): number {
+  const units = Math.round(hours * HOURS_SCALE);
+  if (!Number.isFinite(units) || units <= 0 || units > MAX_UINT32) {
+    throw new Error("Invalid hours value");
+  }
+  return units;
+}
+
+export function decodeHours(units: bigint | number): number {
+  return Number(units) / HOURS_SCALE;
+}
+
+export function isEncryptedHandle(value: string): boolean {
+  return ethers.isHexString(value, 32);
+}
+
+export async function encryptHours(contractAddress: string, userAddress: string, hours: number): Promise<EncryptedHours> {
+  return encryptUint32(contractAddress, userAddress, encodeHours(hours));
+}
+
+/** Encrypts a raw euint32 input, e.g. a 1-5 rating. */
+export async function encryptUint32(contractAddress: string, userAddress: string, value: number): Promise<EncryptedInput> {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new Error("Invalid uint32 value");
+  }
+  const fhe = await getFheBackend();
+  const input = fhe.createEncryptedInput(contractAddress, userAddress);
+  input.add32(value);
+
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+const getDecryptSession = async (contractAddress: string, signer: TypedDataSigner, userAddress: string): Promise<DecryptSession> => {
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const now = Math.floor(Date.now() / 1000);
+  const cached = sessions.get(key);
+  if (cached && cached.startTimestamp + DECRYPT_DURATION_DAYS * 86400 > now + 60) return cached;
+
+  const fhe = await getFheBackend();
+  const { publicKey, privateKey } = fhe.generateKeypair();
+  const eip712 = fhe.createEIP712(publicKey, [contractAddress], now, DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const session = { publicKey, privateKey, signature, startTimestamp: now };
+  sessions.set(key, session);
+  return session;
+};
+
+/** User-decrypts euint32 and ebool handles the signer has ACL access to; booleans come back as 0n or 1n. */
+export async function decryptHandles(handles: string[], contractAddress: string, signer: TypedDataSigner): Promise<Record<string, bigint>> {
+  if (handles.length === 0) return {};
+
+  const fhe = await getFheBackend();
+  const userAddress = await signer.getAddress();
+  const session = await getDecryptSession(contractAddress, signer, userAddress);
+
+  const results = await fhe.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    session.startTimestamp,
+    DECRYPT_DURATION_DAYS
+  );
+
+  const values: Record<string, bigint> = {};
+  for (const handle of handles) {
+    const value = typeof results[handle] === "boolean" ? BigInt(results[handle]) : results[handle];
+    if (typeof value !== "bigint") throw new Error(`No cleartext returned for handle ${handle}`);
+    values[handle] = value;
+  }
+  return values;
+}
+
+export async function decryptHours(handle: string, contractAddress: string, signer: TypedDataSigner): Promise<number> {
+  const values = await decryptHandles([handle], contractAddress, signer);
+  return decodeHours(values[handle]);
+}
+
+export async function decryptFlag(handle: string, contractAddress: string, signer: TypedDataSigner): Promise<boolean> {
+  const values = await decryptHandles([handle], contractAddress, signer);
+  return values[handle] !== 0n;
+}
+
+/** Forgets cached decryption signatures, e.g. after the wallet account changes. */
+export function clearDecryptSessions() {
+  sessions.clear();
+}
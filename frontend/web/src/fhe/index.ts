@@ -0,0 +1,23 @@
+// fhe/index.ts
+export {
+  configureRelayer,
+  configureRelayerForNetwork,
+  getFheBackend,
+  getRelayerUnavailableReason,
+  setFheBackend
+} from "./backend";
+export type { FheBackend, RelayerNetwork } from "./backend";
+export {
+  HOURS_SCALE,
+  DECRYPT_DURATION_DAYS,
+  clearDecryptSessions,
+  decodeHours,
+  decryptFlag,
+  decryptHandles,
+  decryptHours,
+  encodeHours,
+  encryptHours,
+  encryptUint32,
+  isEncryptedHandle,
+} from "./client";
+export type { EncryptedHours, EncryptedInput, TypedDataSigner } from "./client";
@@ -0,0 +1,31 @@
+// history/export.ts
+import type { UserAction } from "./types";
+
+const CSV_COLUMNS: (keyof UserAction)[] = ["timestamp", "type", "status", "source", "details", "txHash"];
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function actionsToCsv(actions: UserAction[]): string {
+  const rows = actions.map((action) =>
+    CSV_COLUMNS.map((column) =>
+      csvCell(column === "timestamp" ? new Date(action.timestamp * 1000).toISOString() : action[column])
+    ).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+export function actionsToJson(actions: UserAction[]): string {
+  return JSON.stringify(actions, null, 2);
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
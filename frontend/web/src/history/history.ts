@@ -0,0 +1,230 @@
+// history/history.ts
+import type { IndexSnapshot } from "../indexer";
+import type { ActionFilter, UserAction } from "./types";
+
+const shortAddress = (value: string) => `${value.substring(0, 6)}...${value.substring(38)}`;
+
+const sameAddress = (a: string | undefined, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+const chainAction = (action: Omit<UserAction, "id" | "status" | "source">, key: string | number): UserAction => ({
+  ...action,
+  id: `${action.txHash ?? "chain"}:${action.type}:${key}`,
+  status: 'confirmed',
+  source: 'chain'
+});
+
+/** Rebuilds an address's actions from indexed contract events, newest first. */
+export function buildHistory(snapshot: IndexSnapshot, address: string): UserAction[] {
+  const actions: UserAction[] = [];
+
+  for (const record of snapshot.records) {
+    if (record.status === 'deposited' && sameAddress(record.provider, address)) {
+      actions.push(chainAction({
+        type: 'deposit',
+        timestamp: record.timestamp,
+        details: record.partnerBank
+          ? `Received encrypted hours for ${record.serviceType} from another community`
+          : `Deposited encrypted hours for ${record.serviceType}`,
+        txHash: record.txHash
+      }, record.id));
+    } else if (record.status === 'withdrawn' && sameAddress(record.provider, address)) {
+      actions.push(chainAction({
+        type: 'withdraw',
+        timestamp: record.timestamp,
+        details: record.partnerBank
+          ? `Sent encrypted hours for ${record.serviceType} to ${shortAddress(record.receiver!)} in another community`
+          : `Withdrew encrypted hours for ${record.serviceType}`,
+        txHash: record.txHash
+      }, record.id));
+    } else if (record.status === 'exchanged' && (sameAddress(record.provider, address) || sameAddress(record.receiver, address))) {
+      const details = sameAddress(record.provider, address)
+        ? `Earned hours for ${record.serviceType} provided to ${shortAddress(record.receiver!)}`
+        : `Paid hours for ${record.serviceType} from ${shortAddress(record.provider)}`;
+      actions.push(chainAction({ type: 'exchange', timestamp: record.timestamp, details, txHash: record.txHash }, record.id));
+    }
+  }
+
+  for (const exchange of Object.values(snapshot.exchanges)) {
+    const isProvider = sameAddress(exchange.provider, address);
+    if (!isProvider && !sameAddress(exchange.receiver, address)) continue;
+
+    actions.push(chainAction({
+      type: 'exchange',
+      timestamp: exchange.proposedAt,
+      details: isProvider
+        ? `Proposed exchange #${exchange.id}: ${exchange.serviceType} for ${shortAddress(exchange.receiver)}`
+        : `Received exchange proposal #${exchange.id}: ${exchange.serviceType} from ${shortAddress(exchange.provider)}`,
+      txHash: exchange.txHash
+    }, `proposed-${exchange.id}`));
+
+    // Acceptance is already covered by the exchanged time record
+    if (exchange.status === 'rejected' || exchange.status === 'cancelled') {
+      actions.push(chainAction({
+        type: 'exchange',
+        timestamp: exchange.settledAt ?? exchange.proposedAt,
+        details: `Exchange #${exchange.id} was ${exchange.status}`,
+        txHash: exchange.settledTxHash
+      }, `${exchange.status}-${exchange.id}`));
+    }
+
+    if (exchange.rated && exchange.ratedAt !== undefined && !isProvider) {
+      actions.push(chainAction({
+        type: 'rating',
+        timestamp: exchange.ratedAt,
+        details: `Rated ${exchange.serviceType} from ${shortAddress(exchange.provider)}`,
+        txHash: exchange.ratedTxHash
+      }, `rated-${exchange.id}`));
+    }
+  }
+
+  // Coordinators see the disputes they handle without being a party to the exchange
+  for (const exchange of Object.values(snapshot.exchanges)) {
+    const dispute = exchange.dispute;
+    if (!dispute) continue;
+    const isParty = sameAddress(exchange.provider, address) || sameAddress(exchange.receiver, address);
+    const isCoordinator = sameAddress(dispute.coordinator, address);
+    if (isParty) {
+      actions.push(chainAction({
+        type: 'dispute',
+        timestamp: dispute.openedAt,
+        details: sameAddress(dispute.openedBy, address)
+          ? `Opened a dispute on exchange #${exchange.id}: ${dispute.reason}`
+          : `${shortAddress(dispute.openedBy)} disputed exchange #${exchange.id}: ${dispute.reason}`,
+        txHash: dispute.txHash
+      }, `opened-${exchange.id}`));
+    }
+    if (isCoordinator && dispute.assignedAt !== undefined) {
+      actions.push(chainAction({
+        type: 'dispute',
+        timestamp: dispute.assignedAt,
+        details: `Assigned to coordinate the dispute on exchange #${exchange.id}`,
+        txHash: dispute.assignedTxHash
+      }, `assigned-${exchange.id}`));
+    }
+    for (const evidence of dispute.evidence) {
+      if (!sameAddress(evidence.author, address)) continue;
+      actions.push(chainAction({
+        type: 'dispute',
+        timestamp: evidence.addedAt,
+        details: `Added evidence to the dispute on exchange #${exchange.id}`,
+        txHash: evidence.id.split(":")[0]
+      }, `evidence-${evidence.id}`));
+    }
+    if ((isParty || isCoordinator) && dispute.status === 'resolved' && dispute.resolvedAt !== undefined) {
+      actions.push(chainAction({
+        type: 'dispute',
+        timestamp: dispute.resolvedAt,
+        details: isCoordinator
+          ? `Resolved the dispute on exchange #${exchange.id} as ${dispute.resolution}`
+          : `The dispute on exchange #${exchange.id} was resolved as ${dispute.resolution}`,
+        txHash: dispute.resolvedTxHash
+      }, `resolved-${exchange.id}`));
+    }
+  }
+
+  for (const pledge of Object.values(snapshot.pledges)) {
+    const isReceiver = sameAddress(pledge.receiver, address);
+    if (!isReceiver && !sameAddress(pledge.provider, address) && !sameAddress(pledge.refundedBy, address)) continue;
+
+    if (isReceiver || sameAddress(pledge.provider, address)) {
+      actions.push(chainAction({
+        type: 'pledge',
+        timestamp: pledge.pledgedAt,
+        details: isReceiver
+          ? `Pledged hours for ${pledge.serviceType} to ${shortAddress(pledge.provider)}`
+          : `Received a pledge for ${pledge.serviceType} from ${shortAddress(pledge.receiver)}`,
+        txHash: pledge.txHash
+      }, `pledged-${pledge.id}`));
+    }
+
+    // Release is already covered by the exchanged time record
+    if (pledge.status === 'refunded') {
+      actions.push(chainAction({
+        type: 'pledge',
+        timestamp: pledge.settledAt ?? pledge.pledgedAt,
+        details: isReceiver
+          ? `Pledge #${pledge.id} for ${pledge.serviceType} was refunded`
+          : `Pledge #${pledge.id} for ${pledge.serviceType} was returned to ${shortAddress(pledge.receiver)}`,
+        txHash: pledge.settledTxHash
+      }, `refunded-${pledge.id}`));
+    }
+  }
+
+  for (const application of Object.values(snapshot.applications)) {
+    const isApplicant = sameAddress(application.applicant, address);
+    if (isApplicant) {
+      actions.push(chainAction({
+        type: 'membership',
+        timestamp: application.appliedAt,
+        details: `Applied for membership as ${application.displayName}`,
+        txHash: application.txHash
+      }, `applied-${application.applicant.toLowerCase()}`));
+    }
+    if (application.status === 'pending' || application.decidedAt === undefined) continue;
+    if (!isApplicant && !sameAddress(application.decidedBy, address)) continue;
+    actions.push(chainAction({
+      type: 'membership',
+      timestamp: application.decidedAt,
+      details: isApplicant
+        ? `Membership application ${application.status}${application.reason ? `: ${application.reason}` : ""}`
+        : `${application.status === 'approved' ? "Approved" : "Rejected"} the membership application of ${application.displayName}`,
+      txHash: application.decidedTxHash
+    }, `${application.status}-${application.applicant.toLowerCase()}`));
+  }
+
+  const reputation = snapshot.reputations[address.toLowerCase()];
+  if (reputation?.revealedAt !== undefined) {
+    actions.push(chainAction({
+      type: 'rating',
+      timestamp: reputation.revealedAt,
+      details: `Revealed the average of ${reputation.revealedCount} ratings`,
+      txHash: reputation.revealedTxHash
+    }, "revealed"));
+  }
+
+  for (const listing of Object.values(snapshot.listings)) {
+    if (!sameAddress(listing.author, address)) continue;
+    actions.push(chainAction({
+      type: 'listing',
+      timestamp: listing.postedAt,
+      details: `Posted ${listing.kind}: ${listing.serviceType}`,
+      txHash: listing.txHash
+    }, listing.id));
+  }
+
+  for (const request of Object.values(snapshot.decryptionRequests)) {
+    if (!sameAddress(request.requester, address)) continue;
+    const summary = snapshot.batches[request.batchId]?.summary;
+    actions.push(chainAction({
+      type: 'summary',
+      timestamp: request.requestedAt,
+      details: summary?.requestId === request.requestId
+        ? `Requested summary of batch #${request.batchId} (decrypted)`
+        : `Requested summary of batch #${request.batchId}`,
+      txHash: request.txHash
+    }, request.requestId));
+  }
+
+  return actions.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/** Merges on-chain and local actions; a local action is dropped once its transaction is indexed. */
+export function mergeActions(chain: UserAction[], local: UserAction[]): UserAction[] {
+  const indexed = new Set(chain.map((action) => action.txHash).filter(Boolean));
+  const pending = local.filter((action) => !action.txHash || !indexed.has(action.txHash));
+  return [...chain, ...pending].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export function filterActions(actions: UserAction[], filter: ActionFilter): UserAction[] {
+  return actions.filter((action) =>
+    (!filter.types || filter.types.length === 0 || filter.types.includes(action.type)) &&
+    (filter.from === undefined || action.timestamp >= filter.from) &&
+    (filter.to === undefined || action.timestamp <= filter.to)
+  );
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number): { items: T[]; pageCount: number } {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(page, 1), pageCount);
+  return { items: items.slice((current - 1) * pageSize, current * pageSize), pageCount };
+}
@@ -0,0 +1,5 @@
+// history/index.ts
+export { buildHistory, filterActions, mergeActions, paginate } from "./history";
+export { addLocalAction, loadLocalActions, markRevertedLocalActions, pruneLocalActions, saveLocalActions } from "./localActions";
+export { actionsToCsv, actionsToJson, downloadFile } from "./export";
+export type { ActionFilter, ActionType, UserAction } from "./types";
@@ -0,0 +1,71 @@
+// history/localActions.ts
+import type { ethers } from "ethers";
+import type { UserAction } from "./types";
+
+const STORAGE_PREFIX = "timebank:actions";
+// Oldest local actions are dropped beyond this
+const MAX_LOCAL_ACTIONS = 200;
+
+const storageKey = (chainId: number, address: string) => `${STORAGE_PREFIX}:${chainId}:${address.toLowerCase()}`;
+
+export function loadLocalActions(chainId: number, address: string): UserAction[] {
+  try {
+    const raw = globalThis.localStorage?.getItem(storageKey(chainId, address));
+    return raw ? (JSON.parse(raw) as UserAction[]) : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable local action history:", e);
+    return [];
+  }
+}
+
+export function saveLocalActions(chainId: number, address: string, actions: UserAction[]) {
+  try {
+    globalThis.localStorage?.setItem(storageKey(chainId, address), JSON.stringify(actions.slice(0, MAX_LOCAL_ACTIONS)));
+  } catch (e) {
+    console.warn("Failed to persist local action history:", e);
+  }
+}
+
+/** Records an action that is not (yet) visible on-chain and returns the updated list. */
+export function addLocalAction(
+  chainId: number,
+  address: string,
+  action: Omit<UserAction, "id" | "source">
+): UserAction[] {
+  const entry: UserAction = { ...action, id: `local:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`, source: 'local' };
+  const actions = [entry, ...loadLocalActions(chainId, address)];
+  saveLocalActions(chainId, address, actions);
+  return actions;
+}
+
+/** Forgets local actions whose transactions are now indexed and returns what is left. */
+export function pruneLocalActions(chainId: number, address: string, indexedTxHashes: Set<string>): UserAction[] {
+  const actions = loadLocalActions(chainId, address);
+  const remaining = actions.filter((action) => !action.txHash || !indexedTxHashes.has(action.txHash));
+  if (remaining.length !== actions.length) saveLocalActions(chainId, address, remaining);
+  return remaining;
+}
+
+/** Marks pending local actions failed once their transaction is mined but reverted, and returns the updated list. */
+export async function markRevertedLocalActions(
+  chainId: number,
+  address: string,
+  provider: Pick<ethers.Provider, "getTransactionReceipt">
+): Promise<UserAction[]> {
+  const reverted = new Set<string>();
+  for (const action of loadLocalActions(chainId, address)) {
+    if (action.status !== 'pending' || !action.txHash) continue;
+    // No receipt yet means the transaction is still waiting to be mined
+    const receipt = await provider.getTransactionReceipt(action.txHash);
+    if (receipt?.status === 0) reverted.add(action.txHash);
+  }
+
+  // Reload, since actions may have been recorded while the receipts were fetched
+  const actions = loadLocalActions(chainId, address);
+  if (reverted.size === 0) return actions;
+  const updated = actions.map((action): UserAction =>
+    action.txHash && reverted.has(action.txHash) ? { ...action, status: 'failed' } : action
+  );
+  saveLocalActions(chainId, address, updated);
+  return updated;
+}
@@ -0,0 +1,29 @@
+// history/types.ts
+export type ActionType =
+  | 'deposit'
+  | 'withdraw'
+  | 'exchange'
+  | 'listing'
+  | 'pledge'
+  | 'dispute'
+  | 'rating'
+  | 'membership'
+  | 'summary'
+  | 'decrypt';
+
+export interface UserAction {
+  id: string;
+  type: ActionType;
+  timestamp: number;
+  details: string;
+  txHash?: string;
+  // Local actions stay pending until their transaction shows up in the index, or fail if it reverts
+  status: 'pending' | 'confirmed' | 'failed';
+  source: 'chain' | 'local';
+}
+
+export interface ActionFilter {
+  types?: ActionType[];
+  from?: number; // unix seconds, inclusive
+  to?: number;
+}
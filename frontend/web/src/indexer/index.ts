@@ -0,0 +1,19 @@
+// indexer/index.ts
+export { RecordIndexer, getRecordIndexer } from "./recordIndexer";
+export type { RecordIndexerOptions } from "./recordIndexer";
+export type {
+  AdminEventInfo,
+  AdminEventName,
+  ApplicationInfo,
+  BatchInfo,
+  BatchSummary,
+  DecryptionRequestInfo,
+  DisputeEvidence,
+  DisputeInfo,
+  ExchangeInfo,
+  IndexSnapshot,
+  ListingInfo,
+  PledgeInfo,
+  ReputationInfo,
+  TimeRecord
+} from "./types";
@@ -0,0 +1,700 @@
+// indexer/recordIndexer.ts
+import { ethers } from "ethers";
+import type { TimeBankFHE } from "../../../../types";
+import type {
+  AdminEventInfo,
+  AdminEventName,
+  ApplicationInfo,
+  BatchInfo,
+  DecryptionRequestInfo,
+  DisputeInfo,
+  ExchangeInfo,
+  IndexSnapshot,
+  ListingInfo,
+  PledgeInfo,
+  ReputationInfo,
+  TimeRecord
+} from "./types";
+
+const SNAPSHOT_VERSION = 13;
+const STORAGE_PREFIX = "timebank:index";
+
+// Blocks this close to the head may still be reorged out, so they are indexed again on every sync.
+const REORG_DEPTH = 5;
+const DEFAULT_BLOCK_RANGE = 5000;
+const MIN_BLOCK_RANGE = 100;
+
+const INDEXED_EVENTS = [
+  "TimeDeposited",
+  "TimeWithdrawn",
+  "ExchangeProposed",
+  "ExchangeAccepted",
+  "ExchangeRejected",
+  "ExchangeCancelled",
+  "ListingPosted",
+  "ListingMatched",
+  "ListingReopened",
+  "ListingCompleted",
+  "ListingClosed",
+  "BatchOpened",
+  "BatchClosed",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "ServiceTotalsDecrypted",
+  "OwnershipTransferStarted",
+  "OwnershipTransferCancelled",
+  "OwnershipTransferred",
+  "RoleGranted",
+  "RoleRevoked",
+  "Paused",
+  "Unpaused",
+  "CooldownSecondsSet",
+  "CreditPolicySet",
+  "DefaultCreditLimitSet",
+  "CreditLimitSet",
+  "CreditLimitCleared",
+  "ExchangeVerified",
+  "MembershipRequested",
+  "MembershipApproved",
+  "MembershipRejected",
+  "RatingSubmitted",
+  "RatingRevealRequested",
+  "RatingRevealed",
+  "DisputeOpened",
+  "DisputeAssigned",
+  "DisputeEvidenceAdded",
+  "DisputeResolved",
+  "PledgeCreated",
+  "PledgeReleased",
+  "PledgeRefunded",
+  "CommunityRegistrySet",
+  "CommunityTransferSent",
+  "CommunityTransferReceived"
+] as const;
+
+// DisputeResolution enum order in the contract, starting at Upheld
+const DISPUTE_RESOLUTIONS: NonNullable<DisputeInfo['resolution']>[] = ['upheld', 'adjusted', 'split', 'voided'];
+
+// Admin and role operations (and summary requests) kept verbatim for the audit log
+const ADMIN_EVENTS: readonly string[] = [
+  "OwnershipTransferStarted",
+  "OwnershipTransferCancelled",
+  "OwnershipTransferred",
+  "RoleGranted",
+  "RoleRevoked",
+  "MembershipApproved",
+  "MembershipRejected",
+  "Paused",
+  "Unpaused",
+  "CooldownSecondsSet",
+  "CreditPolicySet",
+  "DefaultCreditLimitSet",
+  "CreditLimitSet",
+  "CreditLimitCleared",
+  "CommunityRegistrySet",
+  "BatchOpened",
+  "BatchClosed",
+  "DecryptionRequested"
+] satisfies AdminEventName[];
+
+export interface RecordIndexerOptions {
+  deployBlock?: number;
+  blockRange?: number;
+  storage?: Storage | null;
+}
+
+/**
+ * Rebuilds time records and batch state from contract events. Logs are
+ * fetched in block ranges from the last persisted cursor, so a refresh only
+ * pulls what happened since the previous one. Only blocks older than
+ * REORG_DEPTH are persisted; newer ones are applied to a copy on each sync,
+ * so whatever a reorg replaced is dropped the next time round.
+ *
+ * An update whose creating event was never indexed (the deploy block is set
+ * past it) is skipped.
+ */
+export class RecordIndexer {
+  // The persisted state, up to the last block deeper than REORG_DEPTH
+  private confirmed: IndexSnapshot | null = null;
+  private snapshot: IndexSnapshot | null = null;
+  private syncing: Promise<IndexSnapshot> | null = null;
+  private readonly blockTimes = new Map<number, number>();
+  private readonly topics: string[];
+  private readonly storage: Storage | null;
+  private blockRange: number;
+
+  constructor(private readonly contract: TimeBankFHE, private readonly options: RecordIndexerOptions = {}) {
+    this.blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+    this.storage = options.storage === undefined ? globalThis.localStorage ?? null : options.storage;
+    this.topics = INDEXED_EVENTS.map((name) => this.contract.interface.getEvent(name).topicHash);
+  }
+
+  get records(): TimeRecord[] {
+    return this.snapshot?.records ?? [];
+  }
+
+  get batches(): BatchInfo[] {
+    return Object.values(this.snapshot?.batches ?? {}).sort((a, b) => a.id - b.id);
+  }
+
+  get exchanges(): ExchangeInfo[] {
+    return Object.values(this.snapshot?.exchanges ?? {}).sort((a, b) => b.id - a.id);
+  }
+
+  get listings(): ListingInfo[] {
+    return Object.values(this.snapshot?.listings ?? {}).sort((a, b) => b.id - a.id);
+  }
+
+  /** Newest first. */
+  get pledges(): PledgeInfo[] {
+    return Object.values(this.snapshot?.pledges ?? {}).sort((a, b) => b.id - a.id);
+  }
+
+  get decryptionRequests(): DecryptionRequestInfo[] {
+    return Object.values(this.snapshot?.decryptionRequests ?? {}).sort((a, b) => a.requestedAt - b.requestedAt);
+  }
+
+  /** Newest first. */
+  get applications(): ApplicationInfo[] {
+    return Object.values(this.snapshot?.applications ?? {}).sort((a, b) => b.appliedAt - a.appliedAt);
+  }
+
+  /** Keyed by lowercased provider address. */
+  get reputations(): Record<string, ReputationInfo> {
+    return this.snapshot?.reputations ?? {};
+  }
+
+  /** Newest first. */
+  get adminEvents(): AdminEventInfo[] {
+    return Object.values(this.snapshot?.adminEvents ?? {}).sort((a, b) => b.blockNumber - a.blockNumber || b.id.localeCompare(a.id));
+  }
+
+  /** Indexes new blocks; concurrent callers share the same run. */
+  sync(): Promise<IndexSnapshot> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /** Drops the persisted snapshot and indexes again from the deploy block. */
+  async reset(): Promise<IndexSnapshot> {
+    if (this.confirmed) this.storage?.removeItem(this.storageKey(this.confirmed.chainId, this.confirmed.contractAddress));
+    this.confirmed = null;
+    this.snapshot = null;
+    return this.sync();
+  }
+
+  private getProvider(): ethers.Provider {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("Indexer contract is not connected to a provider");
+    return provider;
+  }
+
+  private async runSync(): Promise<IndexSnapshot> {
+    const provider = this.getProvider();
+    const [network, latest, contractAddress] = await Promise.all([
+      provider.getNetwork(),
+      provider.getBlockNumber(),
+      this.contract.getAddress()
+    ]);
+    const deployBlock = this.options.deployBlock ?? 0;
+
+    let snapshot = this.confirmed ?? this.load(Number(network.chainId), contractAddress);
+    // A cursor past the chain head means the chain was reset (e.g. a restarted local node)
+    if (snapshot.cursor > latest) snapshot = this.emptySnapshot(Number(network.chainId), contractAddress);
+
+    const confirmedBlock = latest - REORG_DEPTH;
+    const recentLogs: ethers.Log[] = [];
+    let fromBlock = Math.max(snapshot.cursor + 1, deployBlock);
+    while (fromBlock <= latest) {
+      const toBlock = Math.min(fromBlock + this.blockRange - 1, latest);
+
+      let logs: ethers.Log[];
+      try {
+        logs = await provider.getLogs({ address: contractAddress, fromBlock, toBlock, topics: [this.topics] });
+      } catch (e) {
+        // Most public RPCs cap eth_getLogs ranges; shrink and retry
+        if (this.blockRange <= MIN_BLOCK_RANGE) throw e;
+        this.blockRange = Math.max(MIN_BLOCK_RANGE, Math.floor(this.blockRange / 2));
+        continue;
+      }
+
+      for (const log of logs) {
+        if (log.blockNumber > confirmedBlock) recentLogs.push(log);
+        else await this.apply(snapshot, log);
+      }
+      if (fromBlock <= confirmedBlock) {
+        snapshot.cursor = Math.min(toBlock, confirmedBlock);
+        this.save(snapshot);
+      }
+      fromBlock = toBlock + 1;
+    }
+
+    snapshot.records.sort((a, b) => b.id - a.id);
+    this.confirmed = snapshot;
+
+    // Recent blocks start from the confirmed state each time, never from a previous copy
+    const current: IndexSnapshot = structuredClone(snapshot);
+    for (const log of recentLogs) {
+      await this.apply(current, log);
+    }
+    current.cursor = latest;
+    current.records.sort((a, b) => b.id - a.id);
+    this.snapshot = current;
+    return current;
+  }
+
+  private async apply(snapshot: IndexSnapshot, log: ethers.Log) {
+    const parsed = this.contract.interface.parseLog(log);
+    if (!parsed) return;
+
+    const timestamp = await this.getBlockTime(log.blockNumber);
+    const args = parsed.args;
+
+    if (ADMIN_EVENTS.includes(parsed.name)) {
+      const id = `${log.transactionHash}:${log.index}`;
+      snapshot.adminEvents[id] = {
+        id,
+        name: parsed.name as AdminEventName,
+        args: Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, args[i].toString()])),
+        blockNumber: log.blockNumber,
+        timestamp,
+        txHash: log.transactionHash
+      };
+    }
+
+    switch (parsed.name) {
+      case "TimeDeposited":
+        this.upsertRecord(snapshot, {
+          id: Number(args.recordId),
+          batchId: Number(args.batchId),
+          serviceType: args.serviceType,
+          hours: args.encryptedHours,
+          timestamp,
+          provider: args.depositor,
+          status: 'deposited',
+          txHash: log.transactionHash
+        });
+        break;
+      case "TimeWithdrawn":
+        this.upsertRecord(snapshot, {
+          id: Number(args.recordId),
+          batchId: Number(args.batchId),
+          serviceType: args.serviceType,
+          hours: args.encryptedHours,
+          timestamp,
+          provider: args.withdrawer,
+          receiver: args.withdrawer,
+          status: 'withdrawn',
+          txHash: log.transactionHash
+        });
+        break;
+      // Hours sent to another community leave this ledger like a withdrawal
+      case "CommunityTransferSent":
+        this.upsertRecord(snapshot, {
+          id: Number(args.recordId),
+          batchId: Number(args.batchId),
+          serviceType: args.serviceType,
+          hours: args.encryptedHours,
+          timestamp,
+          provider: args.sender,
+          receiver: args.recipient,
+          status: 'withdrawn',
+          txHash: log.transactionHash,
+          partnerBank: args.toBank
+        });
+        break;
+      case "CommunityTransferReceived":
+        this.upsertRecord(snapshot, {
+          id: Number(args.recordId),
+          batchId: Number(args.batchId),
+          serviceType: args.serviceType,
+          hours: args.encryptedHours,
+          timestamp,
+          provider: args.recipient,
+          receiver: args.recipient,
+          status: 'deposited',
+          txHash: log.transactionHash,
+          partnerBank: args.fromBank
+        });
+        break;
+      case "ExchangeProposed": {
+        const id = Number(args.exchangeId);
+        snapshot.exchanges[id] = {
+          id,
+          provider: args.provider,
+          receiver: args.receiver,
+          serviceType: args.serviceType,
+          hours: args.encryptedHours,
+          status: 'proposed',
+          proposedAt: timestamp,
+          txHash: log.transactionHash
+        };
+        break;
+      }
+      case "ExchangeAccepted": {
+        const exchange = this.settleExchange(snapshot, log, args, 'accepted', timestamp);
+        exchange.recordId = Number(args.recordId);
+        this.upsertRecord(snapshot, {
+          id: exchange.recordId,
+          batchId: Number(args.batchId),
+          serviceType: exchange.serviceType,
+          hours: args.transferredHours,
+          timestamp,
+          provider: args.provider,
+          receiver: args.receiver,
+          status: 'exchanged',
+          txHash: log.transactionHash
+        });
+        break;
+      }
+      case "ExchangeRejected":
+        this.settleExchange(snapshot, log, args, 'rejected', timestamp);
+        break;
+      case "ExchangeCancelled":
+        this.settleExchange(snapshot, log, args, 'cancelled', timestamp);
+        break;
+      case "ExchangeVerified": {
+        const exchange = snapshot.exchanges[Number(args.exchangeId)];
+        if (exchange) snapshot.exchanges[exchange.id] = { ...exchange, verifiedBy: args.coordinator, verifiedAt: timestamp };
+        break;
+      }
+      case "DisputeOpened": {
+        const exchange = snapshot.exchanges[Number(args.exchangeId)];
+        if (exchange) {
+          snapshot.exchanges[exchange.id] = {
+            ...exchange,
+            dispute: { status: 'open', openedBy: args.openedBy, reason: args.reason, openedAt: timestamp, txHash: log.transactionHash, evidence: [] }
+          };
+        }
+        break;
+      }
+      case "DisputeAssigned":
+        this.updateDispute(snapshot, args, () => ({ coordinator: args.coordinator, assignedAt: timestamp, assignedTxHash: log.transactionHash }));
+        break;
+      case "DisputeEvidenceAdded": {
+        const id = `${log.transactionHash}:${log.index}`;
+        this.updateDispute(snapshot, args, (dispute) => dispute.evidence.some((e) => e.id === id) ? {} : {
+          evidence: [...dispute.evidence, { id, author: args.author, note: args.note, addedAt: timestamp }]
+        });
+        break;
+      }
+      case "DisputeResolved": {
+        const resolution = DISPUTE_RESOLUTIONS[Number(args.resolution) - 1];
+        this.updateDispute(snapshot, args, () => ({
+          status: 'resolved',
+          resolution,
+          providerShareBasisPoints: resolution === 'split' ? Number(args.providerShareBasisPoints) : undefined,
+          refundedHours: args.refundedHours,
+          resolvedAt: timestamp,
+          resolvedTxHash: log.transactionHash
+        }));
+        break;
+      }
+      case "PledgeCreated": {
+        const id = Number(args.pledgeId);
+        snapshot.pledges[id] = {
+          id,
+          receiver: args.receiver,
+          provider: args.provider,
+          serviceType: args.serviceType,
+          hours: args.lockedHours,
+          scheduledFor: Number(args.scheduledFor),
+          expiresAt: Number(args.expiresAt),
+          status: 'locked',
+          pledgedAt: timestamp,
+          txHash: log.transactionHash
+        };
+        break;
+      }
+      case "PledgeReleased": {
+        const pledge = snapshot.pledges[Number(args.pledgeId)];
+        if (!pledge) break;
+        const recordId = Number(args.recordId);
+        snapshot.pledges[pledge.id] = { ...pledge, status: 'released', settledAt: timestamp, settledTxHash: log.transactionHash, recordId };
+        this.upsertRecord(snapshot, {
+          id: recordId,
+          batchId: Number(args.batchId),
+          serviceType: pledge.serviceType,
+          hours: pledge.hours,
+          timestamp,
+          provider: pledge.provider,
+          receiver: pledge.receiver,
+          status: 'exchanged',
+          txHash: log.transactionHash
+        });
+        break;
+      }
+      case "PledgeRefunded": {
+        const pledge = snapshot.pledges[Number(args.pledgeId)];
+        if (pledge) {
+          snapshot.pledges[pledge.id] = {
+            ...pledge,
+            status: 'refunded',
+            settledAt: timestamp,
+            settledTxHash: log.transactionHash,
+            refundedBy: args.refundedBy
+          };
+        }
+        break;
+      }
+      case "ListingPosted": {
+        const id = Number(args.listingId);
+        snapshot.listings[id] = {
+          id,
+          author: args.author,
+          kind: Number(args.kind) === 0 ? 'offer' : 'request',
+          serviceType: args.serviceType,
+          description: args.description,
+          location: args.location,
+          availableFrom: Number(args.availableFrom),
+          availableUntil: Number(args.availableUntil),
+          status: 'open',
+          postedAt: timestamp,
+          txHash: log.transactionHash
+        };
+        break;
+      }
+      case "ListingMatched":
+        this.updateListing(snapshot, args, { status: 'matched', exchangeId: Number(args.exchangeId) });
+        break;
+      case "ListingReopened":
+        this.updateListing(snapshot, args, { status: 'open', exchangeId: undefined });
+        break;
+      case "ListingCompleted":
+        this.updateListing(snapshot, args, { status: 'completed' });
+        break;
+      case "ListingClosed":
+        this.updateListing(snapshot, args, { status: 'closed' });
+        break;
+      case "BatchOpened": {
+        const id = Number(args.batchId);
+        snapshot.batches[id] = { ...this.batchOf(snapshot, id), openedAt: timestamp };
+        break;
+      }
+      case "BatchClosed": {
+        const id = Number(args.batchId);
+        snapshot.batches[id] = { ...this.batchOf(snapshot, id), closedAt: timestamp };
+        break;
+      }
+      case "MembershipRequested":
+        snapshot.applications[args.applicant.toLowerCase()] = {
+          applicant: args.applicant,
+          displayName: args.displayName,
+          skills: args.skills,
+          status: 'pending',
+          appliedAt: timestamp,
+          txHash: log.transactionHash
+        };
+        break;
+      case "MembershipApproved":
+        this.decideApplication(snapshot, args, { status: 'approved', decidedBy: args.approver, decidedAt: timestamp, decidedTxHash: log.transactionHash });
+        break;
+      case "MembershipRejected":
+        this.decideApplication(snapshot, args, {
+          status: 'rejected',
+          decidedBy: args.approver,
+          decidedAt: timestamp,
+          decidedTxHash: log.transactionHash,
+          reason: args.reason
+        });
+        break;
+      case "RatingSubmitted": {
+        const exchange = Object.values(snapshot.exchanges).find((e) => e.recordId === Number(args.recordId));
+        if (exchange) snapshot.exchanges[exchange.id] = { ...exchange, rated: true, ratedAt: timestamp, ratedTxHash: log.transactionHash };
+        const reputation = this.reputationOf(snapshot, args.provider);
+        const recordId = Number(args.recordId);
+        if (reputation.ratedRecords.includes(recordId)) break;
+        snapshot.reputations[args.provider.toLowerCase()] = {
+          ...reputation,
+          ratingCount: reputation.ratingCount + 1,
+          ratedRecords: [...reputation.ratedRecords, recordId]
+        };
+        break;
+      }
+      case "RatingRevealRequested": {
+        const reputation = this.reputationOf(snapshot, args.provider);
+        snapshot.reputations[args.provider.toLowerCase()] = { ...reputation, revealPendingCount: Number(args.ratingCount) };
+        break;
+      }
+      case "RatingRevealed": {
+        const reputation = this.reputationOf(snapshot, args.provider);
+        const count = Number(args.ratingCount);
+        // An older request fulfilled late does not replace a newer reveal
+        if ((reputation.revealedCount ?? 0) >= count) break;
+        snapshot.reputations[args.provider.toLowerCase()] = {
+          ...reputation,
+          revealedSum: Number(args.ratingSum),
+          revealedCount: count,
+          revealedAt: timestamp,
+          revealedTxHash: log.transactionHash,
+          revealPendingCount: reputation.revealPendingCount !== undefined && reputation.revealPendingCount > count
+            ? reputation.revealPendingCount
+            : undefined
+        };
+        break;
+      }
+      case "DecryptionRequested": {
+        const requestId = args.requestId.toString();
+        snapshot.decryptionRequests[requestId] = {
+          requestId,
+          batchId: Number(args.batchId),
+          requester: args.requester,
+          requestedAt: timestamp,
+          txHash: log.transactionHash
+        };
+        break;
+      }
+      case "DecryptionCompleted": {
+        const id = Number(args.batchId);
+        snapshot.batches[id] = {
+          ...this.batchOf(snapshot, id),
+          summary: {
+            requestId: args.requestId.toString(),
+            totalDeposited: Number(args.totalDeposited),
+            totalWithdrawn: Number(args.totalWithdrawn),
+            decryptedAt: timestamp
+          }
+        };
+        break;
+      }
+      case "ServiceTotalsDecrypted": {
+        // Emitted right after DecryptionCompleted in the same callback
+        const batch = this.batchOf(snapshot, Number(args.batchId));
+        if (!batch.summary || batch.summary.requestId !== args.requestId.toString()) break;
+        const serviceTotals: Record<string, number> = {};
+        (args.serviceTypes as string[]).forEach((serviceType, i) => {
+          serviceTotals[serviceType] = Number(args.totals[i]);
+        });
+        snapshot.batches[batch.id] = { ...batch, summary: { ...batch.summary, serviceTotals } };
+        break;
+      }
+    }
+  }
+
+  private updateDispute(snapshot: IndexSnapshot, args: ethers.Result, changes: (dispute: DisputeInfo) => Partial<DisputeInfo>) {
+    const exchange = snapshot.exchanges[Number(args.exchangeId)];
+    if (!exchange?.dispute) return;
+    snapshot.exchanges[exchange.id] = { ...exchange, dispute: { ...exchange.dispute, ...changes(exchange.dispute) } };
+  }
+
+  private settleExchange(
+    snapshot: IndexSnapshot,
+    log: ethers.Log,
+    args: ethers.Result,
+    status: ExchangeInfo['status'],
+    timestamp: number
+  ): ExchangeInfo {
+    const id = Number(args.exchangeId);
+    // Unlike other updates, a settlement whose proposal was never indexed still gets an entry
+    const exchange: ExchangeInfo = snapshot.exchanges[id] ?? {
+      id,
+      provider: args.provider,
+      receiver: args.receiver,
+      serviceType: "",
+      hours: ethers.ZeroHash,
+      status: 'proposed',
+      proposedAt: 0,
+      txHash: log.transactionHash
+    };
+    snapshot.exchanges[id] = { ...exchange, status, settledAt: timestamp, settledTxHash: log.transactionHash };
+    return snapshot.exchanges[id];
+  }
+
+  private updateListing(snapshot: IndexSnapshot, args: ethers.Result, changes: Partial<ListingInfo>) {
+    const listing = snapshot.listings[Number(args.listingId)];
+    if (!listing) return;
+    snapshot.listings[listing.id] = { ...listing, ...changes };
+  }
+
+  private decideApplication(snapshot: IndexSnapshot, args: ethers.Result, changes: Partial<ApplicationInfo>) {
+    const key = args.applicant.toLowerCase();
+    const application = snapshot.applications[key];
+    if (!application) return;
+    snapshot.applications[key] = { ...application, ...changes };
+  }
+
+  private reputationOf(snapshot: IndexSnapshot, provider: string): ReputationInfo {
+    return snapshot.reputations[provider.toLowerCase()] ?? { provider, ratingCount: 0, ratedRecords: [] };
+  }
+
+  private batchOf(snapshot: IndexSnapshot, id: number): BatchInfo {
+    return snapshot.batches[id] ?? { id, openedAt: 0 };
+  }
+
+  private upsertRecord(snapshot: IndexSnapshot, record: TimeRecord) {
+    const index = snapshot.records.findIndex((r) => r.id === record.id);
+    if (index === -1) snapshot.records.push(record);
+    else snapshot.records[index] = record;
+  }
+
+  private async getBlockTime(blockNumber: number): Promise<number> {
+    let timestamp = this.blockTimes.get(blockNumber);
+    if (timestamp === undefined) {
+      const block = await this.getProvider().getBlock(blockNumber);
+      timestamp = block ? block.timestamp : 0;
+      this.blockTimes.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  }
+
+  private storageKey(chainId: number, contractAddress: string) {
+    return `${STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}`;
+  }
+
+  private emptySnapshot(chainId: number, contractAddress: string): IndexSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      chainId,
+      contractAddress,
+      cursor: (this.options.deployBlock ?? 0) - 1,
+      records: [],
+      batches: {},
+      exchanges: {},
+      listings: {},
+      pledges: {},
+      decryptionRequests: {},
+      adminEvents: {},
+      applications: {},
+      reputations: {}
+    };
+  }
+
+  private load(chainId: number, contractAddress: string): IndexSnapshot {
+    try {
+      const raw = this.storage?.getItem(this.storageKey(chainId, contractAddress));
+      if (raw) {
+        const stored = JSON.parse(raw) as IndexSnapshot;
+        if (stored.version === SNAPSHOT_VERSION) return stored;
+      }
+    } catch (e) {
+      console.warn("Ignoring unreadable record index snapshot:", e);
+    }
+    return this.emptySnapshot(chainId, contractAddress);
+  }
+
+  private save(snapshot: IndexSnapshot) {
+    try {
+      this.storage?.setItem(this.storageKey(snapshot.chainId, snapshot.contractAddress), JSON.stringify(snapshot));
+    } catch (e) {
+      console.warn("Failed to persist record index snapshot:", e);
+    }
+  }
+}
+
+const indexers = new Map<string, RecordIndexer>();
+
+/** Returns the shared indexer for a contract address on the contract's chain. */
+export async function getRecordIndexer(contract: TimeBankFHE, options: RecordIndexerOptions = {}): Promise<RecordIndexer> {
+  const network = await contract.runner?.provider?.getNetwork();
+  const key = `${network?.chainId ?? "?"}:${(await contract.getAddress()).toLowerCase()}`;
+  let indexer = indexers.get(key);
+  if (!indexer) {
+    indexer = new RecordIndexer(contract, options);
+    indexers.set(key, indexer);
+  }
+  return indexer;
+}
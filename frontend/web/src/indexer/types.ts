@@ -0,0 +1,183 @@
+// indexer/types.ts
+export interface TimeRecord {
+  id: number;
+  batchId: number;
+  serviceType: string;
+  hours: string; // euint32 ciphertext handle
+  timestamp: number;
+  provider: string;
+  receiver?: string;
+  status: 'deposited' | 'withdrawn' | 'exchanged' | 'pending';
+  txHash: string;
+  partnerBank?: string; // the other community's bank, for hours sent to or received from it
+}
+
+export interface BatchSummary {
+  requestId: string;
+  totalDeposited: number; // hour units, see HOURS_SCALE
+  totalWithdrawn: number;
+  // Credited hours per service type; they add up to totalDeposited
+  serviceTotals?: Record<string, number>;
+  decryptedAt: number;
+}
+
+export interface BatchInfo {
+  id: number;
+  openedAt: number;
+  closedAt?: number;
+  summary?: BatchSummary;
+}
+
+export interface DisputeEvidence {
+  id: string; // txHash:logIndex
+  author: string;
+  note: string;
+  addedAt: number;
+}
+
+export interface DisputeInfo {
+  status: 'open' | 'resolved';
+  openedBy: string;
+  reason: string;
+  openedAt: number;
+  txHash: string;
+  coordinator?: string;
+  assignedAt?: number;
+  assignedTxHash?: string;
+  evidence: DisputeEvidence[];
+  resolution?: 'upheld' | 'adjusted' | 'split' | 'voided';
+  providerShareBasisPoints?: number; // set for splits
+  refundedHours?: string; // euint32 ciphertext handle, decryptable by both parties
+  resolvedAt?: number;
+  resolvedTxHash?: string;
+}
+
+export interface ExchangeInfo {
+  id: number;
+  provider: string;
+  receiver: string;
+  serviceType: string;
+  hours: string; // euint32 ciphertext handle of the proposed hours
+  status: 'proposed' | 'accepted' | 'rejected' | 'cancelled';
+  proposedAt: number;
+  settledAt?: number;
+  recordId?: number; // time record created on acceptance
+  txHash: string;
+  settledTxHash?: string;
+  verifiedBy?: string; // coordinator who confirmed an accepted exchange
+  verifiedAt?: number;
+  rated?: boolean; // the receiver has rated the resulting record
+  ratedAt?: number;
+  ratedTxHash?: string;
+  dispute?: DisputeInfo;
+}
+
+export interface ListingInfo {
+  id: number;
+  author: string;
+  kind: 'offer' | 'request';
+  serviceType: string;
+  description: string;
+  location: string;
+  availableFrom: number;
+  availableUntil: number; // 0 when open-ended
+  status: 'open' | 'matched' | 'completed' | 'closed';
+  exchangeId?: number; // exchange created by the current match
+  postedAt: number;
+  txHash: string;
+}
+
+export interface PledgeInfo {
+  id: number;
+  receiver: string;
+  provider: string;
+  serviceType: string;
+  hours: string; // euint32 ciphertext handle of the locked hours
+  scheduledFor: number;
+  expiresAt: number; // after this anyone may return the hours to the receiver
+  status: 'locked' | 'released' | 'refunded';
+  pledgedAt: number;
+  settledAt?: number;
+  refundedBy?: string;
+  recordId?: number; // time record created on release
+  txHash: string;
+  settledTxHash?: string;
+}
+
+export interface DecryptionRequestInfo {
+  requestId: string;
+  batchId: number;
+  requester: string;
+  requestedAt: number;
+  txHash: string;
+}
+
+export interface ApplicationInfo {
+  applicant: string;
+  displayName: string;
+  skills: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reason?: string; // set when rejected
+  decidedBy?: string;
+  appliedAt: number;
+  decidedAt?: number;
+  txHash: string;
+  decidedTxHash?: string;
+}
+
+// Only the number of ratings and the sums a provider chose to reveal are public
+export interface ReputationInfo {
+  provider: string;
+  ratingCount: number;
+  ratedRecords: number[]; // lets a re-scanned RatingSubmitted log be recognised
+  revealedSum?: number;
+  revealedCount?: number; // ratings included in the revealed sum
+  revealedAt?: number;
+  revealedTxHash?: string;
+  revealPendingCount?: number; // ratings in a requested reveal not yet fulfilled
+}
+
+export type AdminEventName =
+  | 'OwnershipTransferStarted'
+  | 'OwnershipTransferCancelled'
+  | 'OwnershipTransferred'
+  | 'RoleGranted'
+  | 'RoleRevoked'
+  | 'MembershipApproved'
+  | 'MembershipRejected'
+  | 'Paused'
+  | 'Unpaused'
+  | 'CooldownSecondsSet'
+  | 'CreditPolicySet'
+  | 'DefaultCreditLimitSet'
+  | 'CreditLimitSet'
+  | 'CreditLimitCleared'
+  | 'CommunityRegistrySet'
+  | 'BatchOpened'
+  | 'BatchClosed'
+  | 'DecryptionRequested';
+
+export interface AdminEventInfo {
+  id: string; // txHash:logIndex
+  name: AdminEventName;
+  args: Record<string, string>; // event arguments by name, stringified
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface IndexSnapshot {
+  version: number;
+  chainId: number;
+  contractAddress: string;
+  cursor: number; // last block included in the snapshot
+  records: TimeRecord[];
+  batches: Record<number, BatchInfo>;
+  exchanges: Record<number, ExchangeInfo>;
+  listings: Record<number, ListingInfo>;
+  pledges: Record<number, PledgeInfo>;
+  decryptionRequests: Record<string, DecryptionRequestInfo>;
+  adminEvents: Record<string, AdminEventInfo>;
+  applications: Record<string, ApplicationInfo>; // keyed by lowercased applicant
+  reputations: Record<string, ReputationInfo>; // keyed by lowercased provider
+}
@@ -5,15 +5,17 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { getWagmiChains, getWagmiTransports } from './network';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// Chains come from the same registry the contract layer resolves deployments from
 const config = getDefaultConfig({
-  appName: '',
+  appName: 'Time Bank FHE',
   projectId: projectId,
-  chains: [sepolia],
+  chains: getWagmiChains(),
+  transports: getWagmiTransports(),
 });
 
 const queryClient = new QueryClient();
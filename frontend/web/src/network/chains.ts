@@ -0,0 +1,65 @@
+// network/chains.ts
+import { defineChain, fallback, http } from "viem";
+import type { Chain, Transport } from "viem";
+import { hardhat, sepolia } from "wagmi/chains";
+import { getDefaultNetwork, getNetworks } from "./registry";
+import type { NetworkConfig } from "./registry";
+
+// Keeps wagmi's metadata (icons, multicall) for chains it already knows
+const KNOWN_CHAINS: Record<number, Chain> = {
+  [hardhat.id]: hardhat,
+  [sepolia.id]: sepolia
+};
+
+export function toChain(network: NetworkConfig): Chain {
+  const rpcUrls = { default: { http: network.rpcUrls } };
+  const known = KNOWN_CHAINS[network.chainId];
+  if (known) return { ...known, name: network.name, rpcUrls };
+
+  return defineChain({
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls,
+    blockExplorers: network.explorerUrl
+      ? { default: { name: "Explorer", url: network.explorerUrl } }
+      : undefined
+  });
+}
+
+/** Every registered network as a wagmi chain, the default network first. */
+export function getWagmiChains(): [Chain, ...Chain[]] {
+  const defaultNetwork = getDefaultNetwork();
+  const others = getNetworks().filter((network) => network.key !== defaultNetwork.key);
+  return [toChain(defaultNetwork), ...others.map(toChain)];
+}
+
+export function getWagmiTransports(): Record<number, Transport> {
+  return Object.fromEntries(
+    getNetworks().map((network) => [network.chainId, fallback(network.rpcUrls.map((url) => http(url)))])
+  );
+}
+
+/**
+ * Asks an EIP-1193 wallet to switch to the network, adding it first when the
+ * wallet does not know the chain yet.
+ */
+export async function switchWalletNetwork(provider: { request: (args: { method: string; params?: any[] }) => Promise<any> }, network: NetworkConfig) {
+  const chainId = `0x${network.chainId.toString(16)}`;
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (switchError: any) {
+    // 4902: unrecognized chain
+    if (switchError?.code !== 4902) throw switchError;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+      }]
+    });
+  }
+}
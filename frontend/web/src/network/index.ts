@@ -0,0 +1,13 @@
+// network/index.ts
+export {
+  getDefaultNetwork,
+  getDeployedNetworks,
+  getNetworkByChainId,
+  getNetworkByKey,
+  getNetworks,
+  resolveNetwork
+} from "./registry";
+export type { Deployment, NativeCurrency, NetworkConfig } from "./registry";
+export { getEndpointHealth, getReadProvider, resetProviders, scoreEndpoint } from "./providers";
+export type { EndpointHealth } from "./providers";
+export { getWagmiChains, getWagmiTransports, switchWalletNetwork, toChain } from "./chains";
@@ -0,0 +1,136 @@
+// network/providers.ts
+import { ethers } from "ethers";
+import type { NetworkConfig } from "./registry";
+
+const PROBE_TIMEOUT_MS = 5000;
+const STALL_TIMEOUT_MS = 2000;
+// Endpoints are re-probed and the provider rebuilt after this long.
+const HEALTH_TTL_MS = 60_000;
+// An endpoint this many blocks behind the best one is treated as stale.
+const MAX_BLOCK_LAG = 5;
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  latencyMs: number;
+  blockNumber: number;
+  // Consecutive failed probes; reset by a successful one
+  failures: number;
+  checkedAt: number;
+  score: number;
+}
+
+interface CachedProvider {
+  provider: ethers.AbstractProvider;
+  createdAt: number;
+}
+
+const health = new Map<string, EndpointHealth>();
+const providers = new Map<string, CachedProvider>();
+const pending = new Map<string, Promise<ethers.AbstractProvider>>();
+
+const createRpcProvider = (url: string, network: ethers.Network) =>
+  new ethers.JsonRpcProvider(url, network, { staticNetwork: network });
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), ms))
+  ]);
+
+const probe = async (url: string, network: ethers.Network): Promise<EndpointHealth> => {
+  const previous = health.get(url);
+  const provider = createRpcProvider(url, network);
+  const startedAt = Date.now();
+  try {
+    const [blockNumber, chainId] = await withTimeout(
+      Promise.all([provider.getBlockNumber(), provider.send("eth_chainId", [])]),
+      PROBE_TIMEOUT_MS
+    );
+    if (BigInt(chainId) !== network.chainId) throw new Error(`RPC serves chain ${BigInt(chainId)}`);
+    return { url, healthy: true, latencyMs: Date.now() - startedAt, blockNumber, failures: 0, checkedAt: Date.now(), score: 0 };
+  } catch (e) {
+    console.warn(`RPC endpoint ${url} failed its health check:`, e);
+    return {
+      url,
+      healthy: false,
+      latencyMs: PROBE_TIMEOUT_MS,
+      blockNumber: previous?.blockNumber ?? 0,
+      failures: (previous?.failures ?? 0) + 1,
+      checkedAt: Date.now(),
+      score: 0
+    };
+  } finally {
+    provider.destroy();
+  }
+};
+
+/** Higher is better: slow, lagging and recently failing endpoints rank last. */
+export function scoreEndpoint(endpoint: Omit<EndpointHealth, "score">, bestBlock: number): number {
+  if (!endpoint.healthy) return -1000 * endpoint.failures;
+  const lag = Math.max(0, bestBlock - endpoint.blockNumber);
+  return 1000 - endpoint.latencyMs / 10 - lag * 50;
+}
+
+const rankEndpoints = async (config: NetworkConfig, network: ethers.Network): Promise<EndpointHealth[]> => {
+  const probes = await Promise.all(config.rpcUrls.map((url) => probe(url, network)));
+  const bestBlock = Math.max(0, ...probes.filter((p) => p.healthy).map((p) => p.blockNumber));
+
+  const ranked = probes
+    .map((p) => ({ ...p, healthy: p.healthy && bestBlock - p.blockNumber <= MAX_BLOCK_LAG }))
+    .map((p) => ({ ...p, score: scoreEndpoint(p, bestBlock) }))
+    .sort((a, b) => b.score - a.score);
+  for (const endpoint of ranked) health.set(endpoint.url, endpoint);
+  return ranked;
+};
+
+const buildProvider = async (config: NetworkConfig): Promise<ethers.AbstractProvider> => {
+  const network = ethers.Network.from({ name: config.key, chainId: config.chainId });
+  const healthy = (await rankEndpoints(config, network)).filter((endpoint) => endpoint.healthy);
+  if (healthy.length === 0) throw new Error(`No healthy RPC endpoint for ${config.name}`);
+
+  if (healthy.length === 1) return createRpcProvider(healthy[0].url, network);
+
+  // Better-scored endpoints get lower priority numbers and are asked first
+  return new ethers.FallbackProvider(
+    healthy.map((endpoint, index) => ({
+      provider: createRpcProvider(endpoint.url, network),
+      priority: index + 1,
+      weight: 1,
+      stallTimeout: STALL_TIMEOUT_MS
+    })),
+    network,
+    { quorum: Math.min(config.quorum, healthy.length) }
+  );
+};
+
+/** Returns a read provider for the network, rebuilt from fresh health checks every HEALTH_TTL_MS. */
+export async function getReadProvider(config: NetworkConfig): Promise<ethers.AbstractProvider> {
+  const cached = providers.get(config.key);
+  if (cached && Date.now() - cached.createdAt < HEALTH_TTL_MS) return cached.provider;
+
+  let building = pending.get(config.key);
+  if (!building) {
+    building = buildProvider(config)
+      .then((provider) => {
+        // Replaced providers are not destroyed; contracts created earlier may still hold them
+        providers.set(config.key, { provider, createdAt: Date.now() });
+        return provider;
+      })
+      .finally(() => pending.delete(config.key));
+    pending.set(config.key, building);
+  }
+  return building;
+}
+
+export function getEndpointHealth(config: NetworkConfig): EndpointHealth[] {
+  return config.rpcUrls
+    .map((url) => health.get(url))
+    .filter((endpoint): endpoint is EndpointHealth => endpoint !== undefined);
+}
+
+/** Drops cached providers so the next read re-probes every endpoint. */
+export function resetProviders() {
+  providers.clear();
+  health.clear();
+}
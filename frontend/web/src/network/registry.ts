@@ -0,0 +1,144 @@
+// network/registry.ts
+import type { FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+import configJson from "../config.json";
+
+export interface Deployment {
+  contractAddress: string;
+  deployBlock: number;
+  deployer?: string;
+  // Registry listing every community's bank on this network
+  communitiesAddress?: string;
+}
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface NetworkConfig {
+  key: string;
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  nativeCurrency: NativeCurrency;
+  // Endpoints that must agree on a read result; 1 means plain fallback
+  quorum: number;
+  explorerUrl?: string;
+  // FHE relayer settings; the SDK ships Sepolia's, other chains list theirs in full.
+  // Encrypted actions are unavailable on networks without one.
+  relayer?: Partial<FhevmInstanceConfig>;
+  deployment?: Deployment;
+}
+
+interface AppConfig {
+  defaultNetwork: string;
+  deployments: Record<string, Deployment>;
+}
+
+type NetworkDefinition = Omit<NetworkConfig, "deployment" | "quorum" | "nativeCurrency"> & {
+  quorum?: number;
+  nativeCurrency?: NativeCurrency;
+};
+
+const ETHER: NativeCurrency = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+const appConfig = configJson as AppConfig;
+
+// Keyless public endpoints only; keyed URLs belong in VITE_RPC_URLS_<KEY>.
+const BUILTIN_NETWORKS: NetworkDefinition[] = [
+  {
+    key: "localhost",
+    chainId: 31337,
+    name: "Hardhat Node",
+    rpcUrls: ["http://127.0.0.1:8545"]
+  },
+  {
+    key: "sepolia",
+    chainId: 11155111,
+    name: "Sepolia",
+    rpcUrls: [
+      "https://ethereum-sepolia-rpc.publicnode.com",
+      "https://sepolia.drpc.org",
+      "https://rpc.sepolia.org"
+    ],
+    quorum: 1,
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    explorerUrl: "https://sepolia.etherscan.io",
+    relayer: {}
+  }
+];
+
+const env = import.meta.env;
+
+const parseList = (value: string | undefined) =>
+  (value ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+
+const parseCustomNetworks = (): NetworkDefinition[] => {
+  if (!env.VITE_CUSTOM_NETWORKS) return [];
+  try {
+    const parsed = JSON.parse(env.VITE_CUSTOM_NETWORKS);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable VITE_CUSTOM_NETWORKS:", e);
+    return [];
+  }
+};
+
+const buildRegistry = (): NetworkConfig[] => {
+  const definitions = new Map<string, NetworkDefinition>();
+  for (const definition of [...BUILTIN_NETWORKS, ...parseCustomNetworks()]) {
+    definitions.set(definition.key, definition);
+  }
+
+  return Array.from(definitions.values()).map((definition) => {
+    const rpcOverride = parseList(env[`VITE_RPC_URLS_${definition.key.toUpperCase()}`]);
+    const rpcUrls = rpcOverride.length > 0 ? rpcOverride : definition.rpcUrls;
+    return {
+      ...definition,
+      rpcUrls,
+      nativeCurrency: definition.nativeCurrency ?? ETHER,
+      quorum: Math.max(1, Math.min(definition.quorum ?? 1, rpcUrls.length)),
+      deployment: appConfig.deployments[definition.key]
+    };
+  });
+};
+
+const registry = buildRegistry();
+
+export function getNetworks(): NetworkConfig[] {
+  return registry;
+}
+
+export function getNetworkByKey(key: string): NetworkConfig | undefined {
+  return registry.find((network) => network.key === key);
+}
+
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return registry.find((network) => network.chainId === chainId);
+}
+
+/** The network named by VITE_NETWORK, falling back to `defaultNetwork` in config.json. */
+export function getDefaultNetwork(): NetworkConfig {
+  const key = env.VITE_NETWORK || appConfig.defaultNetwork;
+  const network = getNetworkByKey(key);
+  if (!network) throw new Error(`Unknown network "${key}"`);
+  return network;
+}
+
+/** Networks the contract is deployed on, default network first. */
+export function getDeployedNetworks(): NetworkConfig[] {
+  const fallback = getDefaultNetwork();
+  return registry
+    .filter((network) => network.deployment)
+    .sort((a, b) => Number(b.key === fallback.key) - Number(a.key === fallback.key));
+}
+
+/**
+ * Picks the wallet's chain when it is a registered network, otherwise the
+ * default network.
+ */
+export function resolveNetwork(walletChainId?: number | null): NetworkConfig {
+  const walletNetwork = walletChainId ? getNetworkByChainId(walletChainId) : undefined;
+  return walletNetwork ?? getDefaultNetwork();
+}
@@ -0,0 +1,3 @@
+// pledges/index.ts
+export { describePledge, pledgeActions } from "./pledges";
+export type { PledgeActions } from "./pledges";
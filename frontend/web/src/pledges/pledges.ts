@@ -0,0 +1,34 @@
+// pledges/pledges.ts
+import type { PledgeInfo } from "../indexer";
+
+export interface PledgeActions {
+  canConfirm: boolean;
+  canCancel: boolean;
+}
+
+/**
+ * Mirrors the contract: the receiver confirms, the provider may always
+ * decline, the receiver may cancel until the scheduled time and anyone may
+ * return the hours once the pledge has expired.
+ */
+export function pledgeActions(pledge: PledgeInfo, address: string | undefined, now = Math.floor(Date.now() / 1000)): PledgeActions {
+  if (pledge.status !== 'locked' || !address) return { canConfirm: false, canCancel: false };
+  const account = address.toLowerCase();
+  const isReceiver = pledge.receiver.toLowerCase() === account;
+  const isProvider = pledge.provider.toLowerCase() === account;
+  return {
+    canConfirm: isReceiver,
+    canCancel: isProvider || (isReceiver && now < pledge.scheduledFor) || now > pledge.expiresAt
+  };
+}
+
+export function describePledge(pledge: PledgeInfo, now = Math.floor(Date.now() / 1000)): string {
+  switch (pledge.status) {
+    case 'released':
+      return "Released to the provider";
+    case 'refunded':
+      return "Returned to the receiver";
+    default:
+      return now > pledge.expiresAt ? "Expired, hours can be returned" : "Hours locked in escrow";
+  }
+}
@@ -0,0 +1,52 @@
+// policy/creditLimit.ts
+import { ethers } from "ethers";
+import type { TimeBankFHE } from "../../../../types";
+import { decodeHours, decryptFlag, TypedDataSigner } from "../fhe";
+import type { AdminEventInfo } from "../indexer";
+
+export const INSUFFICIENT_CREDIT_MESSAGE = "Insufficient credit: your balance and credit line do not cover these hours, so nothing was moved";
+
+export interface CreditLimit {
+  hours: number;
+  custom: boolean; // set for this member rather than the community default
+}
+
+export interface MemberCreditLimit {
+  account: string;
+  hours: number;
+  setAt: number;
+}
+
+export async function loadCreditLimit(contract: TimeBankFHE, account: string): Promise<CreditLimit> {
+  const [limit, custom] = await Promise.all([
+    contract.creditLimitOf(account),
+    contract.hasCustomCreditLimit(account)
+  ]);
+  return { hours: decodeHours(limit), custom };
+}
+
+/**
+ * Whether the account's last withdrawal, exchange acceptance, pledge or
+ * community transfer was declined. Only the account can decrypt this; nobody
+ * else learns whether its balance fell short.
+ */
+export async function wasLastSpendDeclined(contract: TimeBankFHE, account: string, signer: TypedDataSigner): Promise<boolean> {
+  const handle = await contract.getInsufficientCredit(account);
+  if (handle === ethers.ZeroHash) return false;
+  return decryptFlag(handle, await contract.getAddress(), signer);
+}
+
+/** Members with a limit of their own, rebuilt from the admin log; cleared limits are dropped. */
+export function customCreditLimits(events: AdminEventInfo[]): MemberCreditLimit[] {
+  const limits = new Map<string, MemberCreditLimit>();
+  const chronological = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.id.localeCompare(b.id));
+  for (const event of chronological) {
+    if (event.name === 'CreditLimitSet') {
+      const { account, limit } = event.args;
+      limits.set(account.toLowerCase(), { account, hours: decodeHours(Number(limit)), setAt: event.timestamp });
+    } else if (event.name === 'CreditLimitCleared') {
+      limits.delete(event.args.account.toLowerCase());
+    }
+  }
+  return Array.from(limits.values()).sort((a, b) => b.setAt - a.setAt);
+}
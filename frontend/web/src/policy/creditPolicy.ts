@@ -0,0 +1,101 @@
+// policy/creditPolicy.ts
+import type { TimeBankFHE } from "../../../../types";
+import { HOURS_SCALE } from "../fhe";
+
+const DAY = 24 * 60 * 60;
+const MAX_BASIS_POINTS = 10000;
+// Same fixed-point scale the contract compounds decay with
+const DECAY_SCALE = 1_000_000;
+
+export type CreditPolicyKind = 'none' | 'expiry' | 'decay';
+
+// Order matches the contract's CreditPolicy enum
+export const CREDIT_POLICY_KINDS: CreditPolicyKind[] = ['none', 'expiry', 'decay'];
+
+export interface CreditPolicy {
+  kind: CreditPolicyKind;
+  expiryDays: number;
+  decayBasisPoints: number;
+  decayPeriodDays: number;
+  updatedAt: number;
+}
+
+export interface BalanceChange {
+  at: number;
+  hoursBefore: number;
+  hoursAfter: number;
+  overdue: boolean; // already due, applied at the next settlement
+}
+
+export async function loadCreditPolicy(contract: TimeBankFHE): Promise<CreditPolicy> {
+  const [kind, expiryDays, decayBasisPoints, decayPeriodDays, updatedAt] = await Promise.all([
+    contract.creditPolicy(),
+    contract.expiryDays(),
+    contract.decayBasisPoints(),
+    contract.decayPeriodDays(),
+    contract.creditPolicyUpdatedAt()
+  ]);
+  return {
+    kind: CREDIT_POLICY_KINDS[Number(kind)] ?? 'none',
+    expiryDays: Number(expiryDays),
+    decayBasisPoints: Number(decayBasisPoints),
+    decayPeriodDays: Number(decayPeriodDays),
+    updatedAt: Number(updatedAt)
+  };
+}
+
+export function describeCreditPolicy(policy: CreditPolicy): string {
+  switch (policy.kind) {
+    case 'expiry':
+      return `Hours expire after ${policy.expiryDays} day${policy.expiryDays === 1 ? "" : "s"} without activity`;
+    case 'decay':
+      return `Balances lose ${policy.decayBasisPoints / 100}% every ${policy.decayPeriodDays} day${policy.decayPeriodDays === 1 ? "" : "s"}`;
+    default:
+      return "Hours never expire";
+  }
+}
+
+/**
+ * Projects what the policy will do to a decrypted balance, mirroring the
+ * contract's integer arithmetic on hour units so the figures match settlement.
+ * Expiry or decay still owed under a policy this one replaced is not shown;
+ * it applies at the next settlement.
+ */
+export function upcomingChanges(
+  hours: number,
+  policy: CreditPolicy,
+  settledAt: number,
+  now: number,
+  count = 4
+): BalanceChange[] {
+  const since = Math.max(settledAt, policy.updatedAt);
+  const units = Math.round(hours * HOURS_SCALE);
+  if (units === 0 || since === 0) return [];
+
+  if (policy.kind === 'expiry') {
+    const at = since + policy.expiryDays * DAY;
+    return [{ at, hoursBefore: hours, hoursAfter: 0, overdue: at <= now }];
+  }
+
+  if (policy.kind === 'decay') {
+    const period = policy.decayPeriodDays * DAY;
+    const keep = MAX_BASIS_POINTS - policy.decayBasisPoints;
+    const due = Math.floor((now - since) / period);
+    const changes: BalanceChange[] = [];
+    // Every step compounds from the settled balance, as a single later settlement would;
+    // periods already due collapse into one overdue step
+    let factor = DECAY_SCALE;
+    let previous = units;
+    for (let n = 1; factor > 0 && changes.length < count; n++) {
+      factor = Math.floor((factor * keep) / MAX_BASIS_POINTS);
+      if (n < due) continue;
+      const after = Math.floor((units * factor) / DECAY_SCALE);
+      changes.push({ at: since + n * period, hoursBefore: previous / HOURS_SCALE, hoursAfter: after / HOURS_SCALE, overdue: n <= due });
+      previous = after;
+      if (after === 0) break;
+    }
+    return changes;
+  }
+
+  return [];
+}
@@ -0,0 +1,5 @@
+// policy/index.ts
+export { INSUFFICIENT_CREDIT_MESSAGE, customCreditLimits, loadCreditLimit, wasLastSpendDeclined } from "./creditLimit";
+export type { CreditLimit, MemberCreditLimit } from "./creditLimit";
+export { CREDIT_POLICY_KINDS, describeCreditPolicy, loadCreditPolicy, upcomingChanges } from "./creditPolicy";
+export type { BalanceChange, CreditPolicy, CreditPolicyKind } from "./creditPolicy";
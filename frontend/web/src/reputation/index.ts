@@ -0,0 +1,9 @@
+// reputation/index.ts
+export {
+  MAX_RATING,
+  MIN_RATING,
+  MIN_RATINGS_FOR_REVEAL,
+  averageRating,
+  formatRating,
+  ratingsUntilReveal
+} from "./reputation";
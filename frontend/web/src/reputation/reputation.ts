@@ -0,0 +1,24 @@
+// reputation/reputation.ts
+import type { ReputationInfo } from "../indexer";
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+// Mirrors the contract: each reveal needs this many ratings since the previous one
+export const MIN_RATINGS_FOR_REVEAL = 5;
+
+/** Average of the last revealed sum, or undefined before the first reveal. */
+export function averageRating(reputation: ReputationInfo | undefined): number | undefined {
+  if (!reputation?.revealedCount || reputation.revealedSum === undefined) return undefined;
+  return reputation.revealedSum / reputation.revealedCount;
+}
+
+/** Ratings still needed before the provider may request another reveal. */
+export function ratingsUntilReveal(reputation: ReputationInfo | undefined): number {
+  const count = reputation?.ratingCount ?? 0;
+  const revealed = reputation?.revealedCount ?? 0;
+  return Math.max(0, revealed + MIN_RATINGS_FOR_REVEAL - count);
+}
+
+export function formatRating(average: number): string {
+  return `${average.toFixed(1)} / ${MAX_RATING}`;
+}
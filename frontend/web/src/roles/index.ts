@@ -0,0 +1,3 @@
+// roles/index.ts
+export { canActAs, roleAssignments, roleFromId, ROLE_IDS, ROLES, rolesOf } from "./roles";
+export type { Role, RoleAssignment } from "./roles";
@@ -0,0 +1,69 @@
+// roles/roles.ts
+import { ethers } from "ethers";
+import type { AdminEventInfo } from "../indexer";
+
+export type Role = 'ADMIN' | 'COORDINATOR' | 'AUDITOR' | 'MEMBER';
+
+export const ROLES: Role[] = ['ADMIN', 'COORDINATOR', 'AUDITOR', 'MEMBER'];
+
+// Matches the contract's keccak256("<ROLE>_ROLE") constants
+export const ROLE_IDS: Record<Role, string> = {
+  ADMIN: ethers.id("ADMIN_ROLE"),
+  COORDINATOR: ethers.id("COORDINATOR_ROLE"),
+  AUDITOR: ethers.id("AUDITOR_ROLE"),
+  MEMBER: ethers.id("MEMBER_ROLE")
+};
+
+export interface RoleAssignment {
+  role: Role;
+  account: string;
+  active: boolean;
+  grantedAt: number;
+  grantedBy?: string;
+  revokedAt?: number;
+}
+
+export function roleFromId(roleId: string): Role | undefined {
+  return ROLES.find((role) => ROLE_IDS[role] === roleId.toLowerCase());
+}
+
+const chronological = (events: AdminEventInfo[]) =>
+  [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.id.localeCompare(b.id));
+
+/** Replays RoleGranted/RoleRevoked into current and past assignments, active ones first. */
+export function roleAssignments(events: AdminEventInfo[]): RoleAssignment[] {
+  const assignments = new Map<string, RoleAssignment>();
+  for (const event of chronological(events)) {
+    if (event.name !== 'RoleGranted' && event.name !== 'RoleRevoked') continue;
+    const role = roleFromId(event.args.role);
+    if (!role) continue;
+    const account = event.args.account;
+    const key = `${role}:${account.toLowerCase()}`;
+    if (event.name === 'RoleGranted') {
+      assignments.set(key, { role, account, active: true, grantedAt: event.timestamp, grantedBy: event.args.sender });
+    } else {
+      const entry = assignments.get(key) ?? { role, account, active: false, grantedAt: 0 };
+      assignments.set(key, { ...entry, active: false, revokedAt: event.timestamp });
+    }
+  }
+  return Array.from(assignments.values()).sort(
+    (a, b) => Number(b.active) - Number(a.active) || ROLES.indexOf(a.role) - ROLES.indexOf(b.role) || a.grantedAt - b.grantedAt
+  );
+}
+
+/** Roles an account holds; the owner is always an admin. */
+export function rolesOf(account: string | undefined, assignments: RoleAssignment[], owner: string | null): Set<Role> {
+  const roles = new Set<Role>();
+  if (!account) return roles;
+  const key = account.toLowerCase();
+  if (owner?.toLowerCase() === key) roles.add('ADMIN');
+  for (const assignment of assignments) {
+    if (assignment.active && assignment.account.toLowerCase() === key) roles.add(assignment.role);
+  }
+  return roles;
+}
+
+/** Mirrors the contract's onlyRoleOrAdmin: admins may act for every staff role. */
+export function canActAs(roles: Set<Role>, role: Role): boolean {
+  return roles.has(role) || (role !== 'MEMBER' && roles.has('ADMIN'));
+}
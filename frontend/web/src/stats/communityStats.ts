@@ -0,0 +1,82 @@
+// stats/communityStats.ts
+import { HOURS_SCALE } from "../fhe";
+import type { BatchInfo, DecryptionRequestInfo } from "../indexer";
+
+// open: still taking records; closed: no summary requested; requested: waiting for the oracle
+export type BatchStatsState = 'open' | 'closed' | 'requested' | 'decrypted';
+
+export interface BatchStats {
+  id: number;
+  state: BatchStatsState;
+  openedAt: number;
+  closedAt?: number;
+  requestedAt?: number; // latest summary request
+  decryptedAt?: number;
+  hoursDeposited?: number;
+  hoursWithdrawn?: number;
+}
+
+export interface CommunityStats {
+  hoursDeposited: number;
+  hoursWithdrawn: number;
+  // Hours credited but not yet spent, across decrypted batches only
+  netHours: number;
+  decryptedBatches: number;
+  undecryptedBatches: number; // closed batches without a summary yet
+  serviceTypes: number;
+  lastDecryptedAt?: number;
+  batches: BatchStats[]; // newest first
+}
+
+const toHours = (units: number) => units / HOURS_SCALE;
+
+/**
+ * Aggregates the publicly decrypted batch totals. Individual records are never
+ * read, so nothing here depends on anyone's own hours.
+ */
+export function computeCommunityStats(batches: BatchInfo[], requests: DecryptionRequestInfo[]): CommunityStats {
+  const latestRequest = new Map<number, DecryptionRequestInfo>();
+  for (const request of requests) {
+    const previous = latestRequest.get(request.batchId);
+    if (!previous || request.requestedAt >= previous.requestedAt) latestRequest.set(request.batchId, request);
+  }
+
+  const serviceTypes = new Set<string>();
+  const stats: CommunityStats = {
+    hoursDeposited: 0,
+    hoursWithdrawn: 0,
+    netHours: 0,
+    decryptedBatches: 0,
+    undecryptedBatches: 0,
+    serviceTypes: 0,
+    batches: []
+  };
+
+  for (const batch of batches) {
+    const { summary } = batch;
+    const requestedAt = latestRequest.get(batch.id)?.requestedAt;
+    const entry: BatchStats = { id: batch.id, state: 'open', openedAt: batch.openedAt, closedAt: batch.closedAt, requestedAt };
+
+    if (summary) {
+      entry.state = 'decrypted';
+      entry.decryptedAt = summary.decryptedAt;
+      entry.hoursDeposited = toHours(summary.totalDeposited);
+      entry.hoursWithdrawn = toHours(summary.totalWithdrawn);
+
+      stats.hoursDeposited += entry.hoursDeposited;
+      stats.hoursWithdrawn += entry.hoursWithdrawn;
+      stats.decryptedBatches++;
+      stats.lastDecryptedAt = Math.max(stats.lastDecryptedAt ?? 0, summary.decryptedAt);
+      Object.keys(summary.serviceTotals ?? {}).forEach((serviceType) => serviceTypes.add(serviceType));
+    } else if (batch.closedAt !== undefined) {
+      entry.state = requestedAt !== undefined ? 'requested' : 'closed';
+      stats.undecryptedBatches++;
+    }
+    stats.batches.push(entry);
+  }
+
+  stats.netHours = stats.hoursDeposited - stats.hoursWithdrawn;
+  stats.serviceTypes = serviceTypes.size;
+  stats.batches.sort((a, b) => b.id - a.id);
+  return stats;
+}
@@ -0,0 +1,3 @@
+// stats/index.ts
+export { computeCommunityStats } from "./communityStats";
+export type { BatchStats, BatchStatsState, CommunityStats } from "./communityStats";
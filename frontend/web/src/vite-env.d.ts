@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Network key selected when the wallet is not on a registered chain
+  readonly VITE_NETWORK?: string;
+  // JSON array of extra networks: [{ key, chainId, name, rpcUrls, quorum? }]
+  readonly VITE_CUSTOM_NETWORKS?: string;
+  // Comma-separated RPC URLs per network, e.g. VITE_RPC_URLS_SEPOLIA
+  readonly [key: `VITE_RPC_URLS_${string}`]: string | undefined;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
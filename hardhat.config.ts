@@ -9,9 +9,13 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
       accounts: [],
     },
   },
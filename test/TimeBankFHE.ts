@@ -0,0 +1,2275 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  clearDecryptSessions,
+  decryptHours as clientDecryptHours,
+  encryptHours as clientEncryptHours,
+  HOURS_SCALE,
+} from "../frontend/web/src/fhe/client";
+import { setFheBackend } from "../frontend/web/src/fhe/backend";
+import {
+  TimeBankCommunities,
+  TimeBankFHE,
+  TimeBankFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "TimeBankFHE",
+  )) as TimeBankFHE__factory;
+  const timeBank = (await factory.deploy()) as TimeBankFHE;
+  const timeBankAddress = await timeBank.getAddress();
+
+  return { timeBank, timeBankAddress };
+}
+
+async function encryptHours(
+  timeBankAddress: string,
+  signer: HardhatEthersSigner,
+  units: number,
+) {
+  return fhevm
+    .createEncryptedInput(timeBankAddress, signer.address)
+    .add32(units)
+    .encrypt();
+}
+
+async function depositHours(
+  timeBank: TimeBankFHE,
+  signer: HardhatEthersSigner,
+  units: number,
+  serviceType = "Gardening",
+) {
+  const input = await encryptHours(await timeBank.getAddress(), signer, units);
+  return timeBank
+    .connect(signer)
+    [
+      "depositTime(bytes32,bytes,string)"
+    ](input.handles[0], input.inputProof, serviceType);
+}
+
+async function withdrawHours(
+  timeBank: TimeBankFHE,
+  signer: HardhatEthersSigner,
+  units: number,
+  serviceType = "Cooking",
+) {
+  const input = await encryptHours(await timeBank.getAddress(), signer, units);
+  return timeBank
+    .connect(signer)
+    [
+      "withdrawTime(bytes32,bytes,string)"
+    ](input.handles[0], input.inputProof, serviceType);
+}
+
+async function proposeExchange(
+  timeBank: TimeBankFHE,
+  provider: HardhatEthersSigner,
+  receiver: HardhatEthersSigner,
+  units: number,
+  serviceType = "Gardening",
+) {
+  const input = await encryptHours(
+    await timeBank.getAddress(),
+    provider,
+    units,
+  );
+  await timeBank
+    .connect(provider)
+    .proposeExchange(
+      receiver.address,
+      input.handles[0],
+      input.inputProof,
+      serviceType,
+    );
+  return timeBank.exchangeCount();
+}
+
+async function decryptBalance(
+  timeBank: TimeBankFHE,
+  signer: HardhatEthersSigner,
+) {
+  const handle = await timeBank.getBalance(signer.address);
+  if (handle === ethers.ZeroHash) return 0n;
+  return fhevm.userDecryptEuint(
+    FhevmType.euint32,
+    handle,
+    await timeBank.getAddress(),
+    signer,
+  );
+}
+
+async function lastRequestId(timeBank: TimeBankFHE) {
+  const events = await timeBank.queryFilter(
+    timeBank.filters.DecryptionRequested(),
+  );
+  return events[events.length - 1].args.requestId;
+}
+
+async function decryptedSummary(timeBank: TimeBankFHE, batchId: number) {
+  await fhevm.awaitDecryptionOracle();
+
+  const events = await timeBank.queryFilter(
+    timeBank.filters.DecryptionCompleted(undefined, batchId),
+  );
+  expect(events).to.have.length(1);
+  return {
+    totalDeposited: events[0].args.totalDeposited,
+    totalWithdrawn: events[0].args.totalWithdrawn,
+  };
+}
+
+async function decryptedServiceTotals(timeBank: TimeBankFHE, batchId: number) {
+  await fhevm.awaitDecryptionOracle();
+
+  const events = await timeBank.queryFilter(
+    timeBank.filters.ServiceTotalsDecrypted(undefined, batchId),
+  );
+  expect(events).to.have.length(1);
+  const { serviceTypes, totals } = events[0].args;
+  return Object.fromEntries(
+    serviceTypes.map((serviceType, i) => [serviceType, totals[i]]),
+  );
+}
+
+const ADMIN_ROLE = ethers.id("ADMIN_ROLE");
+const COORDINATOR_ROLE = ethers.id("COORDINATOR_ROLE");
+const AUDITOR_ROLE = ethers.id("AUDITOR_ROLE");
+const MEMBER_ROLE = ethers.id("MEMBER_ROLE");
+
+describe("TimeBankFHE", function () {
+  let signers: Signers;
+  let timeBank: TimeBankFHE;
+  let timeBankAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    // The decryption oracle is only simulated by the FHEVM mock
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+
+    ({ timeBank, timeBankAddress } = await deployFixture());
+    await timeBank.setCooldownSeconds(0);
+    await timeBank.addProvider(signers.alice.address);
+    await timeBank.addProvider(signers.bob.address);
+  });
+
+  describe("deployment", function () {
+    it("makes the deployer owner and provider and opens the first batch", async function () {
+      const { timeBank } = await deployFixture();
+
+      expect(await timeBank.owner()).to.eq(signers.deployer.address);
+      expect(await timeBank.isProvider(signers.deployer.address)).to.eq(true);
+      expect(await timeBank.currentBatchId()).to.eq(1);
+      expect(await timeBank.cooldownSeconds()).to.eq(60);
+      expect(await timeBank.paused()).to.eq(false);
+    });
+  });
+
+  describe("provider management", function () {
+    it("lets the owner add and remove providers", async function () {
+      await expect(timeBank.addProvider(signers.carol.address))
+        .to.emit(timeBank, "RoleGranted")
+        .withArgs(MEMBER_ROLE, signers.carol.address, signers.deployer.address);
+      expect(await timeBank.isProvider(signers.carol.address)).to.eq(true);
+
+      await expect(timeBank.removeProvider(signers.carol.address))
+        .to.emit(timeBank, "RoleRevoked")
+        .withArgs(MEMBER_ROLE, signers.carol.address, signers.deployer.address);
+      expect(await timeBank.isProvider(signers.carol.address)).to.eq(false);
+    });
+
+    it("does not emit when the provider set is unchanged", async function () {
+      await expect(timeBank.addProvider(signers.alice.address)).not.to.emit(
+        timeBank,
+        "RoleGranted",
+      );
+      await expect(timeBank.removeProvider(signers.carol.address)).not.to.emit(
+        timeBank,
+        "RoleRevoked",
+      );
+    });
+
+    it("restricts provider management to admins", async function () {
+      await expect(
+        timeBank.connect(signers.alice).addProvider(signers.carol.address),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+      await expect(
+        timeBank.connect(signers.alice).removeProvider(signers.bob.address),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+    });
+
+    it("rejects deposits and withdrawals from non-members", async function () {
+      await expect(depositHours(timeBank, signers.carol, 10))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(MEMBER_ROLE, signers.carol.address);
+      await expect(withdrawHours(timeBank, signers.carol, 10))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(MEMBER_ROLE, signers.carol.address);
+    });
+
+    it("stops a removed provider from depositing", async function () {
+      await timeBank.removeProvider(signers.alice.address);
+
+      await expect(depositHours(timeBank, signers.alice, 10))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(MEMBER_ROLE, signers.alice.address);
+    });
+  });
+
+  describe("membership applications", function () {
+    const PENDING = 1;
+    const APPROVED = 2;
+    const REJECTED = 3;
+
+    it("grants provider rights when an application is approved", async function () {
+      await expect(
+        timeBank
+          .connect(signers.carol)
+          .applyForMembership("Carol", "Gardening, Cooking"),
+      )
+        .to.emit(timeBank, "MembershipRequested")
+        .withArgs(signers.carol.address, "Carol", "Gardening, Cooking");
+      expect((await timeBank.applications(signers.carol.address)).status).to.eq(
+        PENDING,
+      );
+
+      await expect(timeBank.approveApplication(signers.carol.address))
+        .to.emit(timeBank, "MembershipApproved")
+        .withArgs(signers.carol.address, signers.deployer.address)
+        .and.to.emit(timeBank, "RoleGranted")
+        .withArgs(MEMBER_ROLE, signers.carol.address, signers.deployer.address);
+      expect(await timeBank.isProvider(signers.carol.address)).to.eq(true);
+      expect((await timeBank.applications(signers.carol.address)).status).to.eq(
+        APPROVED,
+      );
+    });
+
+    it("keeps the rejection reason and lets the applicant apply again", async function () {
+      await timeBank.connect(signers.carol).applyForMembership("Carol", "");
+
+      await expect(
+        timeBank.rejectApplication(signers.carol.address, "Please add skills"),
+      )
+        .to.emit(timeBank, "MembershipRejected")
+        .withArgs(
+          signers.carol.address,
+          signers.deployer.address,
+          "Please add skills",
+        );
+      const application = await timeBank.applications(signers.carol.address);
+      expect(application.status).to.eq(REJECTED);
+      expect(application.rejectionReason).to.eq("Please add skills");
+      expect(await timeBank.isProvider(signers.carol.address)).to.eq(false);
+
+      await timeBank
+        .connect(signers.carol)
+        .applyForMembership("Carol", "Tutoring");
+      expect(
+        (await timeBank.applications(signers.carol.address)).rejectionReason,
+      ).to.eq("");
+    });
+
+    it("lets coordinators decide applications", async function () {
+      await timeBank.connect(signers.carol).applyForMembership("Carol", "");
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .approveApplication(signers.carol.address),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(COORDINATOR_ROLE, signers.alice.address);
+
+      await timeBank.grantRole(COORDINATOR_ROLE, signers.alice.address);
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .approveApplication(signers.carol.address),
+      )
+        .to.emit(timeBank, "MembershipApproved")
+        .withArgs(signers.carol.address, signers.alice.address);
+    });
+
+    it("only decides pending applications", async function () {
+      await expect(
+        timeBank.approveApplication(signers.carol.address),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidApplicationState");
+
+      await timeBank.connect(signers.carol).applyForMembership("Carol", "");
+      await expect(
+        timeBank.connect(signers.carol).applyForMembership("Carol", ""),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidApplicationState");
+
+      await timeBank.approveApplication(signers.carol.address);
+      await expect(
+        timeBank.rejectApplication(signers.carol.address, "Too late"),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidApplicationState");
+    });
+
+    it("refuses applications from providers or without a display name", async function () {
+      await expect(
+        timeBank.connect(signers.alice).applyForMembership("Alice", ""),
+      ).to.be.revertedWithCustomError(timeBank, "AlreadyProvider");
+      await expect(
+        timeBank.connect(signers.carol).applyForMembership("", "Gardening"),
+      ).to.be.revertedWithCustomError(timeBank, "EmptyDisplayName");
+    });
+  });
+
+  describe("roles", function () {
+    it("treats the owner as admin and member", async function () {
+      expect(
+        await timeBank.hasRole(ADMIN_ROLE, signers.deployer.address),
+      ).to.eq(true);
+      expect(await timeBank.isProvider(signers.deployer.address)).to.eq(true);
+      expect(await timeBank.hasRole(ADMIN_ROLE, signers.alice.address)).to.eq(
+        false,
+      );
+    });
+
+    it("lets admins grant and revoke staff roles", async function () {
+      await timeBank.grantRole(ADMIN_ROLE, signers.alice.address);
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .grantRole(COORDINATOR_ROLE, signers.carol.address),
+      )
+        .to.emit(timeBank, "RoleGranted")
+        .withArgs(
+          COORDINATOR_ROLE,
+          signers.carol.address,
+          signers.alice.address,
+        );
+      expect(
+        await timeBank.hasRole(COORDINATOR_ROLE, signers.carol.address),
+      ).to.eq(true);
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .revokeRole(COORDINATOR_ROLE, signers.carol.address),
+      )
+        .to.emit(timeBank, "RoleRevoked")
+        .withArgs(
+          COORDINATOR_ROLE,
+          signers.carol.address,
+          signers.alice.address,
+        );
+      expect(
+        await timeBank.hasRole(COORDINATOR_ROLE, signers.carol.address),
+      ).to.eq(false);
+    });
+
+    it("lets a granted admin run owner operations", async function () {
+      await timeBank.grantRole(ADMIN_ROLE, signers.alice.address);
+
+      await expect(timeBank.connect(signers.alice).pause())
+        .to.emit(timeBank, "Paused")
+        .withArgs(signers.alice.address);
+      await expect(
+        timeBank.connect(signers.alice).addProvider(signers.carol.address),
+      ).to.emit(timeBank, "RoleGranted");
+    });
+
+    it("keeps admin grants with the owner", async function () {
+      await timeBank.grantRole(ADMIN_ROLE, signers.alice.address);
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .grantRole(ADMIN_ROLE, signers.carol.address),
+      ).to.be.revertedWithCustomError(timeBank, "NotOwner");
+      await expect(
+        timeBank
+          .connect(signers.bob)
+          .grantRole(AUDITOR_ROLE, signers.carol.address),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.bob.address);
+    });
+
+    it("lets an account renounce its own role", async function () {
+      await timeBank.grantRole(AUDITOR_ROLE, signers.alice.address);
+
+      await expect(timeBank.connect(signers.alice).renounceRole(AUDITOR_ROLE))
+        .to.emit(timeBank, "RoleRevoked")
+        .withArgs(AUDITOR_ROLE, signers.alice.address, signers.alice.address);
+      expect(await timeBank.hasRole(AUDITOR_ROLE, signers.alice.address)).to.eq(
+        false,
+      );
+    });
+
+    it("restricts summary requests to auditors and admins", async function () {
+      await timeBank.closeCurrentBatch();
+
+      await expect(timeBank.connect(signers.alice).requestBatchSummary(1))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(AUDITOR_ROLE, signers.alice.address);
+
+      await timeBank.grantRole(AUDITOR_ROLE, signers.carol.address);
+      await expect(
+        timeBank.connect(signers.carol).requestBatchSummary(1),
+      ).to.emit(timeBank, "DecryptionRequested");
+    });
+
+    it("lets an uninvolved coordinator verify an accepted exchange", async function () {
+      await depositHours(timeBank, signers.bob, 50);
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+      await timeBank.grantRole(COORDINATOR_ROLE, signers.carol.address);
+      await timeBank.grantRole(COORDINATOR_ROLE, signers.bob.address);
+
+      await expect(
+        timeBank.connect(signers.carol).verifyExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidExchangeState");
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+
+      await expect(timeBank.connect(signers.alice).verifyExchange(exchangeId))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(COORDINATOR_ROLE, signers.alice.address);
+      await expect(
+        timeBank.connect(signers.bob).verifyExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "ConflictOfInterest");
+
+      await expect(timeBank.connect(signers.carol).verifyExchange(exchangeId))
+        .to.emit(timeBank, "ExchangeVerified")
+        .withArgs(exchangeId, signers.carol.address);
+      expect(await timeBank.exchangeVerifier(exchangeId)).to.eq(
+        signers.carol.address,
+      );
+      await expect(
+        timeBank.connect(signers.carol).verifyExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidExchangeState");
+    });
+  });
+
+  describe("ownership", function () {
+    it("transfers ownership only once the new owner accepts", async function () {
+      await expect(timeBank.transferOwnership(signers.alice.address))
+        .to.emit(timeBank, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      expect(await timeBank.owner()).to.eq(signers.deployer.address);
+      expect(await timeBank.pendingOwner()).to.eq(signers.alice.address);
+
+      await expect(
+        timeBank.connect(signers.bob).acceptOwnership(),
+      ).to.be.revertedWithCustomError(timeBank, "NotPendingOwner");
+
+      await expect(timeBank.connect(signers.alice).acceptOwnership())
+        .to.emit(timeBank, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      expect(await timeBank.owner()).to.eq(signers.alice.address);
+      expect(await timeBank.pendingOwner()).to.eq(ethers.ZeroAddress);
+      expect(await timeBank.hasRole(ADMIN_ROLE, signers.alice.address)).to.eq(
+        true,
+      );
+      expect(
+        await timeBank.hasRole(ADMIN_ROLE, signers.deployer.address),
+      ).to.eq(false);
+    });
+
+    it("rejects the zero address and the current owner", async function () {
+      await expect(
+        timeBank.transferOwnership(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidOwner");
+      await expect(
+        timeBank.transferOwnership(signers.deployer.address),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidOwner");
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .transferOwnership(signers.alice.address),
+      ).to.be.revertedWithCustomError(timeBank, "NotOwner");
+    });
+
+    it("lets the owner cancel or replace a pending transfer", async function () {
+      await timeBank.transferOwnership(signers.alice.address);
+      await timeBank.transferOwnership(signers.bob.address);
+
+      await expect(
+        timeBank.connect(signers.alice).acceptOwnership(),
+      ).to.be.revertedWithCustomError(timeBank, "NotPendingOwner");
+
+      await expect(timeBank.cancelOwnershipTransfer())
+        .to.emit(timeBank, "OwnershipTransferCancelled")
+        .withArgs(signers.deployer.address, signers.bob.address);
+
+      await expect(
+        timeBank.connect(signers.bob).acceptOwnership(),
+      ).to.be.revertedWithCustomError(timeBank, "NotPendingOwner");
+      await expect(
+        timeBank.cancelOwnershipTransfer(),
+      ).to.be.revertedWithCustomError(timeBank, "NotPendingOwner");
+    });
+  });
+
+  describe("multicall", function () {
+    it("applies bundled admin calls as the same sender", async function () {
+      const calls = [
+        timeBank.interface.encodeFunctionData("setCooldownSeconds", [30]),
+        timeBank.interface.encodeFunctionData("closeCurrentBatch"),
+        timeBank.interface.encodeFunctionData("openNewBatch"),
+      ];
+
+      await expect(timeBank.multicall(calls))
+        .to.emit(timeBank, "CooldownSecondsSet")
+        .withArgs(0, 30)
+        .and.to.emit(timeBank, "BatchClosed")
+        .withArgs(1)
+        .and.to.emit(timeBank, "BatchOpened")
+        .withArgs(2);
+
+      expect(await timeBank.cooldownSeconds()).to.eq(30);
+      expect(await timeBank.isBatchClosed(1)).to.eq(true);
+      expect(await timeBank.currentBatchId()).to.eq(2);
+    });
+
+    it("reverts every call when one fails", async function () {
+      const calls = [
+        timeBank.interface.encodeFunctionData("setCooldownSeconds", [30]),
+        timeBank.interface.encodeFunctionData("pause"),
+        timeBank.interface.encodeFunctionData("pause"),
+      ];
+
+      await expect(timeBank.multicall(calls)).to.be.revertedWithCustomError(
+        timeBank,
+        "PausedError",
+      );
+      expect(await timeBank.cooldownSeconds()).to.eq(0);
+      expect(await timeBank.paused()).to.eq(false);
+    });
+
+    it("does not grant non-admins any extra rights", async function () {
+      const calls = [
+        timeBank.interface.encodeFunctionData("setCooldownSeconds", [30]),
+      ];
+
+      await expect(timeBank.connect(signers.alice).multicall(calls))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks submissions while paused and resumes after unpause", async function () {
+      await expect(timeBank.pause())
+        .to.emit(timeBank, "Paused")
+        .withArgs(signers.deployer.address);
+
+      await expect(
+        depositHours(timeBank, signers.alice, 10),
+      ).to.be.revertedWithCustomError(timeBank, "PausedError");
+      await expect(
+        withdrawHours(timeBank, signers.alice, 10),
+      ).to.be.revertedWithCustomError(timeBank, "PausedError");
+
+      await expect(timeBank.unpause())
+        .to.emit(timeBank, "Unpaused")
+        .withArgs(signers.deployer.address);
+      await depositHours(timeBank, signers.alice, 10);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(10);
+    });
+
+    it("blocks summary requests while paused", async function () {
+      await timeBank.closeCurrentBatch();
+      await timeBank.pause();
+
+      await expect(
+        timeBank.requestBatchSummary(1),
+      ).to.be.revertedWithCustomError(timeBank, "PausedError");
+    });
+
+    it("cannot pause twice", async function () {
+      await timeBank.pause();
+
+      await expect(timeBank.pause()).to.be.revertedWithCustomError(
+        timeBank,
+        "PausedError",
+      );
+    });
+
+    it("restricts pausing to admins", async function () {
+      await expect(timeBank.connect(signers.alice).pause())
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+      await timeBank.pause();
+      await expect(timeBank.connect(signers.alice).unpause())
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+    });
+  });
+
+  describe("cooldowns", function () {
+    beforeEach(async function () {
+      await expect(timeBank.setCooldownSeconds(60))
+        .to.emit(timeBank, "CooldownSecondsSet")
+        .withArgs(0, 60);
+    });
+
+    it("rejects a second submission inside the cooldown", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+
+      await expect(
+        depositHours(timeBank, signers.alice, 10),
+      ).to.be.revertedWithCustomError(timeBank, "CooldownActive");
+      await expect(
+        withdrawHours(timeBank, signers.alice, 5),
+      ).to.be.revertedWithCustomError(timeBank, "CooldownActive");
+    });
+
+    it("tracks the cooldown per account", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+
+      await depositHours(timeBank, signers.bob, 10);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(10);
+    });
+
+    it("accepts a submission once the cooldown has passed", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+      await ethers.provider.send("evm_increaseTime", [60]);
+
+      await depositHours(timeBank, signers.alice, 10);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(20);
+    });
+
+    it("applies a separate cooldown to summary requests", async function () {
+      await timeBank.grantRole(AUDITOR_ROLE, signers.alice.address);
+      await depositHours(timeBank, signers.alice, 10);
+      await timeBank.closeCurrentBatch();
+
+      await timeBank.connect(signers.alice).requestBatchSummary(1);
+      await expect(
+        timeBank.connect(signers.alice).requestBatchSummary(1),
+      ).to.be.revertedWithCustomError(timeBank, "CooldownActive");
+    });
+
+    it("restricts the cooldown setting to admins", async function () {
+      await expect(timeBank.connect(signers.alice).setCooldownSeconds(0))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+    });
+  });
+
+  describe("batches", function () {
+    it("rejects deposits and withdrawals once the batch is closed", async function () {
+      await expect(timeBank.closeCurrentBatch())
+        .to.emit(timeBank, "BatchClosed")
+        .withArgs(1);
+      expect(await timeBank.isBatchClosed(1)).to.eq(true);
+
+      await expect(
+        depositHours(timeBank, signers.alice, 10),
+      ).to.be.revertedWithCustomError(timeBank, "BatchClosedError");
+      await expect(
+        withdrawHours(timeBank, signers.alice, 10),
+      ).to.be.revertedWithCustomError(timeBank, "BatchClosedError");
+    });
+
+    it("records submissions in a newly opened batch", async function () {
+      await timeBank.closeCurrentBatch();
+      await expect(timeBank.openNewBatch())
+        .to.emit(timeBank, "BatchOpened")
+        .withArgs(2);
+
+      await expect(depositHours(timeBank, signers.alice, 10))
+        .to.emit(timeBank, "TimeDeposited")
+        .withArgs(signers.alice.address, 2, 1, anyValue, "Gardening");
+    });
+
+    it("numbers records across deposits and withdrawals", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+
+      await expect(withdrawHours(timeBank, signers.alice, 5))
+        .to.emit(timeBank, "TimeWithdrawn")
+        .withArgs(signers.alice.address, 1, 2, anyValue, "Cooking");
+      expect(await timeBank.recordCount()).to.eq(2);
+    });
+
+    it("only summarizes closed batches", async function () {
+      await expect(timeBank.requestBatchSummary(1)).to.be.revertedWith(
+        "Batch not closed",
+      );
+    });
+
+    it("restricts batch management to admins", async function () {
+      await expect(timeBank.connect(signers.alice).closeCurrentBatch())
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+      await expect(timeBank.connect(signers.alice).openNewBatch())
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+    });
+  });
+
+  describe("encrypted inputs", function () {
+    it("credits an encrypted deposit to the depositor's balance", async function () {
+      await depositHours(timeBank, signers.alice, 35);
+      await depositHours(timeBank, signers.alice, 10);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(45);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(0);
+    });
+
+    it("lets the depositor decrypt the hours of their own record", async function () {
+      await depositHours(timeBank, signers.alice, 25);
+
+      const [event] = await timeBank.queryFilter(
+        timeBank.filters.TimeDeposited(signers.alice.address),
+      );
+      const hours = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        event.args.encryptedHours,
+        timeBankAddress,
+        signers.alice,
+      );
+      expect(hours).to.eq(25);
+    });
+
+    it("debits an encrypted withdrawal", async function () {
+      await depositHours(timeBank, signers.alice, 50);
+      await withdrawHours(timeBank, signers.alice, 20);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(30);
+    });
+
+    it("leaves the balance untouched when a withdrawal exceeds it", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+      await withdrawHours(timeBank, signers.alice, 11);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(10);
+    });
+
+    it("rejects an input encrypted for another account", async function () {
+      const input = await encryptHours(timeBankAddress, signers.alice, 10);
+
+      await expect(
+        timeBank
+          .connect(signers.bob)
+          [
+            "depositTime(bytes32,bytes,string)"
+          ](input.handles[0], input.inputProof, "Gardening"),
+      ).to.be.reverted;
+    });
+
+    it("emits the withdrawn amount, or zero when it is not covered", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+      await withdrawHours(timeBank, signers.alice, 4);
+      await withdrawHours(timeBank, signers.alice, 7);
+
+      const events = await timeBank.queryFilter(
+        timeBank.filters.TimeWithdrawn(signers.alice.address),
+      );
+      const withdrawn = [];
+      for (const event of events) {
+        withdrawn.push(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            event.args.encryptedHours,
+            timeBankAddress,
+            signers.alice,
+          ),
+        );
+      }
+      expect(withdrawn).to.deep.eq([4n, 0n]);
+    });
+
+    it("accepts hours encrypted by the frontend client", async function () {
+      setFheBackend(fhevm);
+      try {
+        const input = await clientEncryptHours(
+          timeBankAddress,
+          signers.alice.address,
+          2.5,
+        );
+        await timeBank
+          .connect(signers.alice)
+          [
+            "depositTime(bytes32,bytes,string)"
+          ](input.handle, input.inputProof, "Gardening");
+
+        // The contract only sees tenths of an hour
+        expect(await decryptBalance(timeBank, signers.alice)).to.eq(
+          2.5 * HOURS_SCALE,
+        );
+        const handle = await timeBank.getBalance(signers.alice.address);
+        expect(
+          await clientDecryptHours(handle, timeBankAddress, signers.alice),
+        ).to.eq(2.5);
+      } finally {
+        setFheBackend(null);
+        clearDecryptSessions();
+      }
+    });
+
+    it("still accepts the deprecated plaintext entry points", async function () {
+      await timeBank
+        .connect(signers.alice)
+        ["depositTime(uint32,string)"](40, "Gardening");
+      await timeBank
+        .connect(signers.alice)
+        ["withdrawTime(uint32,string)"](15, "Cooking");
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(25);
+    });
+  });
+
+  describe("exchanges", function () {
+    beforeEach(async function () {
+      await depositHours(timeBank, signers.bob, 50);
+    });
+
+    it("moves hours from the receiver to the provider once accepted", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+
+      await expect(timeBank.connect(signers.bob).acceptExchange(exchangeId))
+        .to.emit(timeBank, "ExchangeAccepted")
+        .withArgs(
+          exchangeId,
+          signers.alice.address,
+          signers.bob.address,
+          1,
+          2,
+          anyValue,
+        );
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(20);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(30);
+      expect((await timeBank.exchanges(exchangeId)).status).to.eq(2);
+    });
+
+    it("lets both parties decrypt the proposed hours", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        15,
+      );
+      const { encryptedHours } = await timeBank.exchanges(exchangeId);
+
+      for (const signer of [signers.alice, signers.bob]) {
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            encryptedHours,
+            timeBankAddress,
+            signer,
+          ),
+        ).to.eq(15);
+      }
+    });
+
+    it("transfers nothing when the receiver's balance cannot cover the hours", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        60,
+      );
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+    });
+
+    it("counts an accepted exchange in the batch totals", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+      await timeBank.closeCurrentBatch();
+
+      await timeBank.requestBatchSummary(1);
+
+      expect(await decryptedSummary(timeBank, 1)).to.deep.eq({
+        totalDeposited: 70n,
+        totalWithdrawn: 20n,
+      });
+    });
+
+    it("only lets the receiver accept or reject", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+
+      await expect(
+        timeBank.connect(signers.alice).acceptExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "NotExchangeParty");
+      await expect(
+        timeBank.connect(signers.alice).rejectExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "NotExchangeParty");
+      await expect(
+        timeBank.connect(signers.bob).cancelExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "NotExchangeParty");
+    });
+
+    it("only debits a receiver who is still a member", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+      await timeBank.removeProvider(signers.bob.address);
+
+      await expect(timeBank.connect(signers.bob).acceptExchange(exchangeId))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(MEMBER_ROLE, signers.bob.address);
+      await timeBank.connect(signers.bob).rejectExchange(exchangeId);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+    });
+
+    it("settles an exchange only once", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+      await expect(timeBank.connect(signers.bob).rejectExchange(exchangeId))
+        .to.emit(timeBank, "ExchangeRejected")
+        .withArgs(exchangeId, signers.alice.address, signers.bob.address);
+
+      await expect(
+        timeBank.connect(signers.bob).acceptExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidExchangeState");
+      await expect(
+        timeBank.connect(signers.alice).cancelExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidExchangeState");
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+    });
+
+    it("lets the provider cancel a pending proposal", async function () {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+
+      await expect(timeBank.connect(signers.alice).cancelExchange(exchangeId))
+        .to.emit(timeBank, "ExchangeCancelled")
+        .withArgs(exchangeId, signers.alice.address, signers.bob.address);
+      expect((await timeBank.exchanges(exchangeId)).status).to.eq(4);
+    });
+
+    it("rejects a proposal to oneself", async function () {
+      const input = await encryptHours(timeBankAddress, signers.alice, 10);
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .proposeExchange(
+            signers.alice.address,
+            input.handles[0],
+            input.inputProof,
+            "Gardening",
+          ),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidReceiver");
+    });
+  });
+
+  describe("ratings", function () {
+    // Alice provides to Bob, who accepts; returns the resulting record id
+    async function completedRecord() {
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        1,
+      );
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+      return timeBank.recordCount();
+    }
+
+    async function rate(
+      signer: HardhatEthersSigner,
+      recordId: bigint,
+      rating: number,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(timeBankAddress, signer.address)
+        .add32(rating)
+        .encrypt();
+      return timeBank
+        .connect(signer)
+        .rateRecord(recordId, input.handles[0], input.inputProof);
+    }
+
+    async function revealedRating() {
+      await fhevm.awaitDecryptionOracle();
+      const events = await timeBank.queryFilter(
+        timeBank.filters.RatingRevealed(undefined, signers.alice.address),
+      );
+      return events[events.length - 1].args;
+    }
+
+    beforeEach(async function () {
+      await depositHours(timeBank, signers.bob, 100);
+    });
+
+    it("lets the receiver rate a completed exchange once", async function () {
+      const recordId = await completedRecord();
+
+      await expect(rate(signers.bob, recordId, 4))
+        .to.emit(timeBank, "RatingSubmitted")
+        .withArgs(recordId, signers.alice.address, signers.bob.address);
+      expect(await timeBank.ratingCount(signers.alice.address)).to.eq(1);
+
+      await expect(
+        rate(signers.bob, recordId, 5),
+      ).to.be.revertedWithCustomError(timeBank, "AlreadyRated");
+    });
+
+    it("only accepts ratings from the receiver of an exchange", async function () {
+      const recordId = await completedRecord();
+
+      await expect(
+        rate(signers.alice, recordId, 5),
+      ).to.be.revertedWithCustomError(timeBank, "NotExchangeParty");
+      await expect(
+        rate(signers.carol, recordId, 5),
+      ).to.be.revertedWithCustomError(timeBank, "NotExchangeParty");
+
+      // Plain deposits are not exchanges and cannot be rated
+      await depositHours(timeBank, signers.bob, 10);
+      await expect(
+        rate(signers.bob, await timeBank.recordCount(), 5),
+      ).to.be.revertedWithCustomError(timeBank, "NotRateable");
+    });
+
+    it("reveals the rating sum only once enough ratings exist", async function () {
+      const ratings = [5, 4, 3, 5, 4];
+      for (const [i, rating] of ratings.entries()) {
+        if (i === ratings.length - 1) {
+          await expect(
+            timeBank.connect(signers.alice).requestRatingReveal(),
+          ).to.be.revertedWithCustomError(timeBank, "NotEnoughRatings");
+        }
+        await rate(signers.bob, await completedRecord(), rating);
+      }
+
+      await expect(timeBank.connect(signers.alice).requestRatingReveal())
+        .to.emit(timeBank, "RatingRevealRequested")
+        .withArgs(anyValue, signers.alice.address, 5);
+
+      const { ratingSum, ratingCount } = await revealedRating();
+      expect(ratingSum).to.eq(21);
+      expect(ratingCount).to.eq(5);
+      expect(await timeBank.revealedRatingSum(signers.alice.address)).to.eq(21);
+      expect(await timeBank.revealedRatingCount(signers.alice.address)).to.eq(
+        5,
+      );
+    });
+
+    it("clamps ratings outside one to five", async function () {
+      for (const rating of [0, 9, 7, 1, 3]) {
+        await rate(signers.bob, await completedRecord(), rating);
+      }
+      await timeBank.connect(signers.alice).requestRatingReveal();
+
+      const { ratingSum } = await revealedRating();
+      expect(ratingSum).to.eq(1 + 5 + 5 + 1 + 3);
+    });
+
+    it("requires a full set of new ratings before revealing again", async function () {
+      for (let i = 0; i < 5; i++) {
+        await rate(signers.bob, await completedRecord(), 4);
+      }
+      await timeBank.connect(signers.alice).requestRatingReveal();
+      await fhevm.awaitDecryptionOracle();
+
+      // A sixth rating alone would be exposed by comparing the two sums
+      await rate(signers.bob, await completedRecord(), 1);
+      await expect(
+        timeBank.connect(signers.alice).requestRatingReveal(),
+      ).to.be.revertedWithCustomError(timeBank, "NotEnoughRatings");
+    });
+  });
+
+  describe("disputes", function () {
+    const UPHELD = 1;
+    const ADJUSTED = 2;
+    const SPLIT = 3;
+    const VOIDED = 4;
+    let exchangeId: bigint;
+
+    // Alice provided 20 units to Bob, who accepted; Carol coordinates
+    beforeEach(async function () {
+      await depositHours(timeBank, signers.bob, 50);
+      exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        20,
+      );
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+      await timeBank.grantRole(COORDINATOR_ROLE, signers.carol.address);
+    });
+
+    async function openAndAssign() {
+      await timeBank
+        .connect(signers.bob)
+        .openDispute(exchangeId, "Only two hours were worked");
+      await timeBank
+        .connect(signers.carol)
+        .assignDispute(exchangeId, signers.carol.address);
+    }
+
+    it("lets either party open one dispute on an accepted exchange", async function () {
+      await expect(
+        timeBank.connect(signers.carol).openDispute(exchangeId, "No"),
+      ).to.be.revertedWithCustomError(timeBank, "NotExchangeParty");
+
+      await expect(
+        timeBank
+          .connect(signers.bob)
+          .openDispute(exchangeId, "Only two hours were worked"),
+      )
+        .to.emit(timeBank, "DisputeOpened")
+        .withArgs(
+          exchangeId,
+          signers.bob.address,
+          "Only two hours were worked",
+        );
+
+      await expect(
+        timeBank.connect(signers.alice).openDispute(exchangeId, "Again"),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidDisputeState");
+
+      const pendingId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        5,
+      );
+      await expect(
+        timeBank.connect(signers.bob).openDispute(pendingId, "Not yet"),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidExchangeState");
+    });
+
+    it("assigns disputes only to coordinators outside the exchange", async function () {
+      await timeBank.connect(signers.bob).openDispute(exchangeId, "Short");
+
+      await expect(
+        timeBank
+          .connect(signers.bob)
+          .assignDispute(exchangeId, signers.bob.address),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(COORDINATOR_ROLE, signers.bob.address);
+
+      await timeBank.grantRole(COORDINATOR_ROLE, signers.alice.address);
+      await expect(
+        timeBank.assignDispute(exchangeId, signers.alice.address),
+      ).to.be.revertedWithCustomError(timeBank, "ConflictOfInterest");
+
+      // Coordinators may only claim a dispute for themselves
+      await expect(
+        timeBank
+          .connect(signers.carol)
+          .assignDispute(exchangeId, signers.deployer.address),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.carol.address);
+
+      await expect(timeBank.assignDispute(exchangeId, signers.carol.address))
+        .to.emit(timeBank, "DisputeAssigned")
+        .withArgs(exchangeId, signers.carol.address, signers.deployer.address);
+      expect((await timeBank.disputes(exchangeId)).coordinator).to.eq(
+        signers.carol.address,
+      );
+    });
+
+    it("holds every dispute action while paused", async function () {
+      await timeBank.connect(signers.bob).openDispute(exchangeId, "Short");
+      await timeBank.pause();
+
+      await expect(
+        timeBank
+          .connect(signers.carol)
+          .assignDispute(exchangeId, signers.carol.address),
+      ).to.be.revertedWithCustomError(timeBank, "PausedError");
+      await expect(
+        timeBank.connect(signers.bob).addDisputeEvidence(exchangeId, "Note"),
+      ).to.be.revertedWithCustomError(timeBank, "PausedError");
+      await expect(
+        timeBank.connect(signers.carol).upholdDispute(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "PausedError");
+
+      await timeBank.unpause();
+      await expect(
+        timeBank
+          .connect(signers.carol)
+          .assignDispute(exchangeId, signers.carol.address),
+      ).to.emit(timeBank, "DisputeAssigned");
+    });
+
+    it("takes evidence from the parties and the coordinator only", async function () {
+      await openAndAssign();
+
+      for (const signer of [signers.alice, signers.bob, signers.carol]) {
+        await expect(
+          timeBank.connect(signer).addDisputeEvidence(exchangeId, "Note"),
+        )
+          .to.emit(timeBank, "DisputeEvidenceAdded")
+          .withArgs(exchangeId, signer.address, "Note");
+      }
+      await expect(
+        timeBank.addDisputeEvidence(exchangeId, "Note"),
+      ).to.be.revertedWithCustomError(timeBank, "NotDisputeParticipant");
+    });
+
+    it("refunds everything when the exchange is voided", async function () {
+      await openAndAssign();
+
+      await expect(
+        timeBank.voidDispute(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "NotAssignedCoordinator");
+
+      await expect(timeBank.connect(signers.carol).voidDispute(exchangeId))
+        .to.emit(timeBank, "DisputeResolved")
+        .withArgs(exchangeId, signers.carol.address, VOIDED, 0, anyValue);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+      const dispute = await timeBank.disputes(exchangeId);
+      expect(dispute.status).to.eq(2);
+      expect(dispute.resolution).to.eq(VOIDED);
+    });
+
+    it("splits the transferred hours by the provider's share", async function () {
+      await openAndAssign();
+
+      await expect(
+        timeBank.connect(signers.carol).splitDispute(exchangeId, 10001),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidShare");
+      await expect(
+        timeBank.connect(signers.carol).splitDispute(exchangeId, 2500),
+      )
+        .to.emit(timeBank, "DisputeResolved")
+        .withArgs(exchangeId, signers.carol.address, SPLIT, 2500, anyValue);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(5);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(45);
+    });
+
+    it("adjusts the hours to an encrypted amount set by the coordinator", async function () {
+      await openAndAssign();
+
+      const input = await encryptHours(timeBankAddress, signers.carol, 8);
+      await expect(
+        timeBank
+          .connect(signers.carol)
+          .adjustDispute(exchangeId, input.handles[0], input.inputProof),
+      )
+        .to.emit(timeBank, "DisputeResolved")
+        .withArgs(exchangeId, signers.carol.address, ADJUSTED, 0, anyValue);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(8);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(42);
+    });
+
+    it("never adjusts above the hours originally transferred", async function () {
+      await openAndAssign();
+
+      const input = await encryptHours(timeBankAddress, signers.carol, 30);
+      await timeBank
+        .connect(signers.carol)
+        .adjustDispute(exchangeId, input.handles[0], input.inputProof);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(20);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(30);
+    });
+
+    it("refunds only what the provider's balance still covers", async function () {
+      await openAndAssign();
+      await withdrawHours(timeBank, signers.alice, 15);
+
+      await timeBank.connect(signers.carol).voidDispute(exchangeId);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(35);
+    });
+
+    it("closes the dispute for good once upheld", async function () {
+      await openAndAssign();
+
+      await expect(timeBank.connect(signers.carol).upholdDispute(exchangeId))
+        .to.emit(timeBank, "DisputeResolved")
+        .withArgs(exchangeId, signers.carol.address, UPHELD, 10000, anyValue);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(20);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(30);
+
+      await expect(
+        timeBank.connect(signers.carol).voidDispute(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidDisputeState");
+      await expect(
+        timeBank.connect(signers.bob).openDispute(exchangeId, "Again"),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidDisputeState");
+    });
+
+    it("holds verification while a dispute is open", async function () {
+      await openAndAssign();
+
+      await expect(
+        timeBank.connect(signers.carol).verifyExchange(exchangeId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidDisputeState");
+
+      await timeBank.connect(signers.carol).upholdDispute(exchangeId);
+      await expect(
+        timeBank.connect(signers.carol).verifyExchange(exchangeId),
+      ).to.emit(timeBank, "ExchangeVerified");
+    });
+
+    it("only runs the extension through the bank", async function () {
+      const extension = await ethers.getContractAt(
+        "TimeBankExtension",
+        await timeBank.extension(),
+      );
+      await expect(
+        extension.connect(signers.alice).openDispute(exchangeId, "direct"),
+      ).to.be.revertedWithCustomError(extension, "DirectCallNotAllowed");
+    });
+  });
+
+  describe("pledges", function () {
+    const HOUR = 60 * 60;
+    const LOCKED = 1;
+    const RELEASED = 2;
+    const REFUNDED = 3;
+
+    let scheduledFor: number;
+    let expiresAt: number;
+
+    async function increaseTime(seconds: number) {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    async function pledge(units: number, serviceType = "Tutoring") {
+      const input = await encryptHours(timeBankAddress, signers.bob, units);
+      await timeBank
+        .connect(signers.bob)
+        .pledgeHours(
+          signers.alice.address,
+          input.handles[0],
+          input.inputProof,
+          serviceType,
+          scheduledFor,
+          expiresAt,
+        );
+      return timeBank.pledgeCount();
+    }
+
+    beforeEach(async function () {
+      await depositHours(timeBank, signers.bob, 50);
+      const latest = await ethers.provider.getBlock("latest");
+      scheduledFor = latest!.timestamp + 24 * HOUR;
+      expiresAt = scheduledFor + 48 * HOUR;
+    });
+
+    it("locks the hours until the receiver confirms, then pays the provider", async function () {
+      const pledgeId = await pledge(20);
+      expect((await timeBank.pledges(pledgeId)).status).to.eq(LOCKED);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(30);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+
+      await expect(
+        timeBank.connect(signers.alice).confirmPledge(pledgeId),
+      ).to.be.revertedWithCustomError(timeBank, "NotPledgeParty");
+      await expect(timeBank.connect(signers.bob).confirmPledge(pledgeId))
+        .to.emit(timeBank, "PledgeReleased")
+        .withArgs(pledgeId, signers.alice.address, signers.bob.address, 1, 2);
+
+      expect((await timeBank.pledges(pledgeId)).status).to.eq(RELEASED);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(20);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(30);
+      await expect(
+        timeBank.connect(signers.bob).cancelPledge(pledgeId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidPledgeState");
+    });
+
+    it("locks nothing when the balance cannot cover the pledge", async function () {
+      const pledgeId = await pledge(80);
+      const { lockedHours } = await timeBank.pledges(pledgeId);
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          lockedHours,
+          timeBankAddress,
+          signers.alice,
+        ),
+      ).to.eq(0);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+    });
+
+    it("validates the provider and the schedule", async function () {
+      await expect(
+        timeBank
+          .connect(signers.bob)
+          .pledgeHours(
+            signers.bob.address,
+            ethers.ZeroHash,
+            "0x",
+            "Tutoring",
+            scheduledFor,
+            expiresAt,
+          ),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidProvider");
+      await expect(
+        timeBank
+          .connect(signers.bob)
+          .pledgeHours(
+            signers.alice.address,
+            ethers.ZeroHash,
+            "0x",
+            "Tutoring",
+            scheduledFor,
+            scheduledFor,
+          ),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidSchedule");
+    });
+
+    it("lets the receiver cancel only before the scheduled time", async function () {
+      const early = await pledge(10);
+      await expect(timeBank.connect(signers.bob).cancelPledge(early))
+        .to.emit(timeBank, "PledgeRefunded")
+        .withArgs(early, signers.bob.address, signers.bob.address);
+      expect((await timeBank.pledges(early)).status).to.eq(REFUNDED);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+
+      const late = await pledge(10);
+      await increaseTime(25 * HOUR);
+      await expect(
+        timeBank.connect(signers.bob).cancelPledge(late),
+      ).to.be.revertedWithCustomError(timeBank, "NotPledgeParty");
+      // The provider may still decline
+      await timeBank.connect(signers.alice).cancelPledge(late);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+    });
+
+    it("lets anyone return the hours once the pledge has expired", async function () {
+      const pledgeId = await pledge(10);
+      await expect(
+        timeBank.connect(signers.carol).cancelPledge(pledgeId),
+      ).to.be.revertedWithCustomError(timeBank, "NotPledgeParty");
+
+      await increaseTime(73 * HOUR);
+      await expect(timeBank.connect(signers.carol).cancelPledge(pledgeId))
+        .to.emit(timeBank, "PledgeRefunded")
+        .withArgs(pledgeId, signers.bob.address, signers.carol.address);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(50);
+    });
+
+    it("counts released hours in the batch open at release", async function () {
+      const pledgeId = await pledge(20);
+      await timeBank.closeCurrentBatch();
+      await expect(
+        timeBank.connect(signers.bob).confirmPledge(pledgeId),
+      ).to.be.revertedWithCustomError(timeBank, "BatchClosedError");
+
+      await timeBank.openNewBatch();
+      await timeBank.connect(signers.bob).confirmPledge(pledgeId);
+      await timeBank.closeCurrentBatch();
+      await timeBank.requestBatchSummary(2);
+
+      expect(await decryptedSummary(timeBank, 2)).to.deep.eq({
+        totalDeposited: 20n,
+        totalWithdrawn: 20n,
+      });
+      expect(await decryptedServiceTotals(timeBank, 2)).to.deep.eq({
+        Tutoring: 20n,
+      });
+    });
+
+    it("applies the submission cooldown to new pledges", async function () {
+      await timeBank.setCooldownSeconds(60);
+      await increaseTime(60);
+      await pledge(10);
+      await expect(pledge(10)).to.be.revertedWithCustomError(
+        timeBank,
+        "CooldownActive",
+      );
+    });
+  });
+
+  describe("marketplace", function () {
+    const OFFER = 0;
+    const REQUEST = 1;
+
+    async function postListing(
+      author: HardhatEthersSigner,
+      kind: number,
+      availableUntil = 0,
+    ) {
+      await timeBank
+        .connect(author)
+        .postListing(
+          kind,
+          "Tutoring",
+          "Math, grades 6-9",
+          "Library",
+          0,
+          availableUntil,
+        );
+      return timeBank.listingCount();
+    }
+
+    beforeEach(async function () {
+      await depositHours(timeBank, signers.bob, 50);
+    });
+
+    it("turns a matched offer into an exchange that completes on acceptance", async function () {
+      const listingId = await postListing(signers.alice, OFFER);
+      const input = await encryptHours(timeBankAddress, signers.alice, 20);
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .matchOffer(
+            listingId,
+            signers.bob.address,
+            input.handles[0],
+            input.inputProof,
+          ),
+      )
+        .to.emit(timeBank, "ListingMatched")
+        .withArgs(listingId, 1, signers.alice.address, signers.bob.address);
+      expect((await timeBank.listings(listingId)).status).to.eq(2);
+
+      const exchange = await timeBank.exchanges(1);
+      expect(exchange.serviceType).to.eq("Tutoring");
+      expect(exchange.receiver).to.eq(signers.bob.address);
+
+      await expect(timeBank.connect(signers.bob).acceptExchange(1))
+        .to.emit(timeBank, "ListingCompleted")
+        .withArgs(listingId, 1);
+      expect((await timeBank.listings(listingId)).status).to.eq(3);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(20);
+    });
+
+    it("lets a provider answer a request on behalf of its author", async function () {
+      const listingId = await postListing(signers.bob, REQUEST);
+      const input = await encryptHours(timeBankAddress, signers.alice, 10);
+
+      await timeBank
+        .connect(signers.alice)
+        .matchRequest(listingId, input.handles[0], input.inputProof);
+
+      const exchange = await timeBank.exchanges(1);
+      expect(exchange.provider).to.eq(signers.alice.address);
+      expect(exchange.receiver).to.eq(signers.bob.address);
+    });
+
+    it("reopens the listing when the exchange is rejected", async function () {
+      const listingId = await postListing(signers.bob, REQUEST);
+      const input = await encryptHours(timeBankAddress, signers.alice, 10);
+      await timeBank
+        .connect(signers.alice)
+        .matchRequest(listingId, input.handles[0], input.inputProof);
+
+      await expect(timeBank.connect(signers.bob).rejectExchange(1))
+        .to.emit(timeBank, "ListingReopened")
+        .withArgs(listingId, 1);
+
+      const listing = await timeBank.listings(listingId);
+      expect(listing.status).to.eq(1);
+      expect(listing.exchangeId).to.eq(0);
+    });
+
+    it("only lets the author match their own offer", async function () {
+      const listingId = await postListing(signers.alice, OFFER);
+      const input = await encryptHours(timeBankAddress, signers.bob, 10);
+
+      await expect(
+        timeBank
+          .connect(signers.bob)
+          .matchOffer(
+            listingId,
+            signers.alice.address,
+            input.handles[0],
+            input.inputProof,
+          ),
+      ).to.be.revertedWithCustomError(timeBank, "NotListingAuthor");
+    });
+
+    it("refuses to match a listing past its availability window", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const listingId = await postListing(signers.bob, REQUEST, now + 60);
+      await ethers.provider.send("evm_increaseTime", [120]);
+      const input = await encryptHours(timeBankAddress, signers.alice, 10);
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .matchRequest(listingId, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(timeBank, "ListingExpired");
+    });
+
+    it("lets the author close an open listing", async function () {
+      const listingId = await postListing(signers.alice, OFFER);
+
+      await expect(
+        timeBank.connect(signers.bob).closeListing(listingId),
+      ).to.be.revertedWithCustomError(timeBank, "NotListingAuthor");
+      await expect(timeBank.connect(signers.alice).closeListing(listingId))
+        .to.emit(timeBank, "ListingClosed")
+        .withArgs(listingId);
+      await expect(
+        timeBank.connect(signers.alice).closeListing(listingId),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidListingState");
+    });
+  });
+
+  describe("credit policy", function () {
+    const DAY = 24 * 60 * 60;
+    const NONE = 0;
+    const FIXED_EXPIRY = 1;
+    const DECAY = 2;
+
+    async function increaseTime(seconds: number) {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    it("validates policy parameters and restricts them to admins", async function () {
+      await expect(timeBank.setCreditPolicy(FIXED_EXPIRY, 30, 0, 0))
+        .to.emit(timeBank, "CreditPolicySet")
+        .withArgs(FIXED_EXPIRY, 30, 0, 0);
+      expect(await timeBank.creditPolicy()).to.eq(FIXED_EXPIRY);
+
+      await expect(
+        timeBank.setCreditPolicy(FIXED_EXPIRY, 0, 0, 0),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidCreditPolicy");
+      await expect(
+        timeBank.setCreditPolicy(DECAY, 0, 10001, 7),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidCreditPolicy");
+      await expect(
+        timeBank.setCreditPolicy(NONE, 30, 0, 0),
+      ).to.be.revertedWithCustomError(timeBank, "InvalidCreditPolicy");
+      await expect(
+        timeBank.connect(signers.alice).setCreditPolicy(NONE, 0, 0, 0),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+    });
+
+    it("expires a balance left untouched for the expiry period", async function () {
+      await timeBank.setCreditPolicy(FIXED_EXPIRY, 30, 0, 0);
+      await depositHours(timeBank, signers.alice, 100);
+
+      await increaseTime(29 * DAY);
+      // Settling on someone else's behalf does not count as activity
+      await timeBank.connect(signers.bob).settleBalance(signers.alice.address);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(100);
+
+      await increaseTime(DAY);
+      await expect(
+        timeBank.connect(signers.bob).settleBalance(signers.alice.address),
+      ).to.emit(timeBank, "CreditsExpired");
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+    });
+
+    it("restarts the expiry clock on the member's own activity", async function () {
+      await timeBank.setCreditPolicy(FIXED_EXPIRY, 30, 0, 0);
+      await depositHours(timeBank, signers.alice, 100);
+
+      await increaseTime(20 * DAY);
+      await depositHours(timeBank, signers.alice, 10);
+      await increaseTime(20 * DAY);
+
+      await expect(timeBank.settleBalance(signers.alice.address)).not.to.emit(
+        timeBank,
+        "CreditsExpired",
+      );
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(110);
+    });
+
+    it("decays a balance by the configured share per elapsed period", async function () {
+      await timeBank.setCreditPolicy(DECAY, 0, 1000, 7);
+      await depositHours(timeBank, signers.alice, 1000);
+
+      await increaseTime(15 * DAY);
+      await expect(timeBank.settleBalance(signers.alice.address))
+        .to.emit(timeBank, "CreditsDecayed")
+        .withArgs(signers.alice.address, 2);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(810);
+
+      // The remaining day counts towards the next period
+      await increaseTime(6 * DAY);
+      await expect(timeBank.settleBalance(signers.alice.address))
+        .to.emit(timeBank, "CreditsDecayed")
+        .withArgs(signers.alice.address, 1);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(729);
+    });
+
+    it("settles decay before a withdrawal is checked against the balance", async function () {
+      await timeBank.setCreditPolicy(DECAY, 0, 5000, 1);
+      await depositHours(timeBank, signers.alice, 100);
+
+      await increaseTime(DAY);
+      await withdrawHours(timeBank, signers.alice, 80);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(50);
+    });
+
+    it("still applies decay accrued before the policy changed", async function () {
+      await timeBank.setCreditPolicy(DECAY, 0, 1000, 7);
+      await depositHours(timeBank, signers.alice, 1000);
+
+      await increaseTime(15 * DAY);
+      await timeBank.setCreditPolicy(NONE, 0, 0, 0);
+      await expect(timeBank.settleBalance(signers.alice.address))
+        .to.emit(timeBank, "CreditsDecayed")
+        .withArgs(signers.alice.address, 2);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(810);
+
+      // Nothing decays under the new policy
+      await increaseTime(30 * DAY);
+      await expect(timeBank.settleBalance(signers.alice.address)).not.to.emit(
+        timeBank,
+        "CreditsDecayed",
+      );
+    });
+
+    it("still expires a balance that was due before the policy changed", async function () {
+      await timeBank.setCreditPolicy(FIXED_EXPIRY, 30, 0, 0);
+      await depositHours(timeBank, signers.alice, 100);
+
+      await increaseTime(31 * DAY);
+      await timeBank.setCreditPolicy(FIXED_EXPIRY, 60, 0, 0);
+      await expect(
+        timeBank.connect(signers.bob).settleBalance(signers.alice.address),
+      ).to.emit(timeBank, "CreditsExpired");
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+    });
+
+    it("keeps the expiry clock when the same policy is set again", async function () {
+      await timeBank.setCreditPolicy(FIXED_EXPIRY, 30, 0, 0);
+      await depositHours(timeBank, signers.alice, 100);
+
+      await increaseTime(20 * DAY);
+      await expect(
+        timeBank.setCreditPolicy(FIXED_EXPIRY, 30, 0, 0),
+      ).not.to.emit(timeBank, "CreditPolicySet");
+      await increaseTime(10 * DAY);
+      await expect(
+        timeBank.connect(signers.bob).settleBalance(signers.alice.address),
+      ).to.emit(timeBank, "CreditsExpired");
+    });
+
+    it("does not apply a new policy to time before it was set", async function () {
+      await depositHours(timeBank, signers.alice, 100);
+      await increaseTime(60 * DAY);
+
+      await timeBank.setCreditPolicy(FIXED_EXPIRY, 30, 0, 0);
+      await expect(timeBank.settleBalance(signers.alice.address)).not.to.emit(
+        timeBank,
+        "CreditsExpired",
+      );
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(100);
+    });
+  });
+
+  describe("credit limits", function () {
+    async function decryptOverdraft(signer: HardhatEthersSigner) {
+      const handle = await timeBank.getOverdraft(signer.address);
+      if (handle === ethers.ZeroHash) return 0n;
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        handle,
+        timeBankAddress,
+        signer,
+      );
+    }
+
+    async function wasDeclined(signer: HardhatEthersSigner) {
+      return fhevm.userDecryptEbool(
+        await timeBank.getInsufficientCredit(signer.address),
+        timeBankAddress,
+        signer,
+      );
+    }
+
+    it("resolves per-member limits over the default and restricts them to admins", async function () {
+      await expect(timeBank.setDefaultCreditLimit(50))
+        .to.emit(timeBank, "DefaultCreditLimitSet")
+        .withArgs(50);
+      await expect(timeBank.setCreditLimit(signers.alice.address, 200))
+        .to.emit(timeBank, "CreditLimitSet")
+        .withArgs(signers.alice.address, 200);
+      expect(await timeBank.creditLimitOf(signers.alice.address)).to.eq(200);
+      expect(await timeBank.creditLimitOf(signers.bob.address)).to.eq(50);
+
+      await timeBank.clearCreditLimit(signers.alice.address);
+      expect(await timeBank.creditLimitOf(signers.alice.address)).to.eq(50);
+
+      await expect(
+        timeBank
+          .connect(signers.alice)
+          .setCreditLimit(signers.alice.address, 1000),
+      )
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+      await expect(timeBank.connect(signers.alice).setDefaultCreditLimit(1000))
+        .to.be.revertedWithCustomError(timeBank, "MissingRole")
+        .withArgs(ADMIN_ROLE, signers.alice.address);
+    });
+
+    it("lets a withdrawal go into overdraft up to the limit", async function () {
+      await timeBank.setCreditLimit(signers.alice.address, 30);
+      await depositHours(timeBank, signers.alice, 20);
+
+      await withdrawHours(timeBank, signers.alice, 45);
+      expect(await wasDeclined(signers.alice)).to.eq(false);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+      expect(await decryptOverdraft(signers.alice)).to.eq(25);
+
+      // 5 units of credit left
+      await withdrawHours(timeBank, signers.alice, 6);
+      expect(await wasDeclined(signers.alice)).to.eq(true);
+      expect(await decryptOverdraft(signers.alice)).to.eq(25);
+    });
+
+    it("lets a receiver accept an exchange on credit and repays it from incoming hours", async function () {
+      await timeBank.setDefaultCreditLimit(40);
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        30,
+      );
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(30);
+      expect(await decryptOverdraft(signers.bob)).to.eq(30);
+
+      await depositHours(timeBank, signers.bob, 50);
+      expect(await decryptOverdraft(signers.bob)).to.eq(0);
+      expect(await decryptBalance(timeBank, signers.bob)).to.eq(20);
+    });
+
+    it("moves nothing when balance and credit together fall short", async function () {
+      await timeBank.setDefaultCreditLimit(10);
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        30,
+      );
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+
+      expect(await wasDeclined(signers.bob)).to.eq(true);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(0);
+      expect(await decryptOverdraft(signers.bob)).to.eq(0);
+    });
+
+    it("leaves no credit once a lowered limit is below what is owed", async function () {
+      await timeBank.setCreditLimit(signers.alice.address, 30);
+      await withdrawHours(timeBank, signers.alice, 25);
+      await timeBank.setCreditLimit(signers.alice.address, 10);
+
+      await withdrawHours(timeBank, signers.alice, 1);
+      expect(await wasDeclined(signers.alice)).to.eq(true);
+      expect(await decryptOverdraft(signers.alice)).to.eq(25);
+    });
+  });
+
+  describe("communities", function () {
+    let communities: TimeBankCommunities;
+    let otherBank: TimeBankFHE;
+    let otherBankAddress: string;
+
+    async function transferHours(
+      signer: HardhatEthersSigner,
+      recipient: HardhatEthersSigner,
+      units: number,
+      serviceType = "Tutoring",
+    ) {
+      const input = await encryptHours(timeBankAddress, signer, units);
+      return timeBank
+        .connect(signer)
+        .transferToCommunity(
+          otherBankAddress,
+          recipient.address,
+          input.handles[0],
+          input.inputProof,
+          serviceType,
+        );
+    }
+
+    async function openTransfers() {
+      await communities.setTransferPartner(1, 2, true);
+      await communities.setTransferPartner(2, 1, true);
+    }
+
+    beforeEach(async function () {
+      communities = await (
+        await ethers.getContractFactory("TimeBankCommunities")
+      ).deploy();
+      const communitiesAddress = await communities.getAddress();
+      ({ timeBank: otherBank, timeBankAddress: otherBankAddress } =
+        await deployFixture());
+      await otherBank.setCooldownSeconds(0);
+      await otherBank.addProvider(signers.carol.address);
+
+      await timeBank.setCommunityRegistry(communitiesAddress);
+      await otherBank.setCommunityRegistry(communitiesAddress);
+      await communities.registerCommunity(timeBankAddress, "Riverside", 0);
+      await communities.registerCommunity(otherBankAddress, "Hillside", 0);
+    });
+
+    it("lists each bank once, registered by its owner", async function () {
+      expect(await communities.communityCount()).to.eq(2);
+      expect(await communities.communityOfBank(otherBankAddress)).to.eq(2);
+      const community = await communities.communities(1);
+      expect(community.name).to.eq("Riverside");
+      expect(community.bank).to.eq(timeBankAddress);
+
+      await expect(
+        communities.registerCommunity(timeBankAddress, "Again", 0),
+      ).to.be.revertedWithCustomError(communities, "AlreadyRegistered");
+
+      const { timeBank: thirdBank, timeBankAddress: thirdBankAddress } =
+        await deployFixture();
+      await expect(
+        communities.registerCommunity(thirdBankAddress, "Unlinked", 0),
+      ).to.be.revertedWithCustomError(communities, "InvalidCommunity");
+      await thirdBank.setCommunityRegistry(await communities.getAddress());
+      await expect(
+        communities
+          .connect(signers.alice)
+          .registerCommunity(thirdBankAddress, "Hijacked", 0),
+      ).to.be.revertedWithCustomError(communities, "NotCommunityAdmin");
+      await expect(
+        communities.registerCommunity(thirdBankAddress, "", 0),
+      ).to.be.revertedWithCustomError(communities, "EmptyName");
+    });
+
+    it("only allows transfers once both communities' admins opened them", async function () {
+      await expect(
+        communities.connect(signers.alice).setTransferPartner(1, 2, true),
+      ).to.be.revertedWithCustomError(communities, "NotCommunityAdmin");
+
+      await expect(communities.setTransferPartner(1, 2, true))
+        .to.emit(communities, "TransferPartnerSet")
+        .withArgs(1, 2, true, signers.deployer.address);
+      expect(
+        await communities.canTransfer(timeBankAddress, otherBankAddress),
+      ).to.eq(false);
+
+      await depositHours(timeBank, signers.alice, 50);
+      await expect(
+        transferHours(signers.alice, signers.carol, 20),
+      ).to.be.revertedWithCustomError(timeBank, "TransferNotAllowed");
+
+      await communities.setTransferPartner(2, 1, true);
+      expect(
+        await communities.canTransfer(otherBankAddress, timeBankAddress),
+      ).to.eq(true);
+    });
+
+    it("moves hours into the partner community's ledger", async function () {
+      await openTransfers();
+      await depositHours(timeBank, signers.alice, 50);
+
+      await expect(transferHours(signers.alice, signers.carol, 20))
+        .to.emit(timeBank, "CommunityTransferSent")
+        .withArgs(
+          signers.alice.address,
+          otherBankAddress,
+          signers.carol.address,
+          1,
+          2,
+          anyValue,
+          "Tutoring",
+        )
+        .and.to.emit(otherBank, "CommunityTransferReceived")
+        .withArgs(
+          timeBankAddress,
+          signers.alice.address,
+          signers.carol.address,
+          1,
+          1,
+          anyValue,
+          "Tutoring",
+        );
+
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(30);
+      expect(await decryptBalance(otherBank, signers.carol)).to.eq(20);
+      // Carol holds nothing in the first community
+      expect(await decryptBalance(timeBank, signers.carol)).to.eq(0);
+    });
+
+    it("moves nothing past the balance, even with a credit line", async function () {
+      await openTransfers();
+      await timeBank.setDefaultCreditLimit(100);
+      await depositHours(timeBank, signers.alice, 10);
+
+      await transferHours(signers.alice, signers.carol, 20);
+      expect(
+        await fhevm.userDecryptEbool(
+          await timeBank.getInsufficientCredit(signers.alice.address),
+          timeBankAddress,
+          signers.alice,
+        ),
+      ).to.eq(true);
+      expect(await decryptBalance(timeBank, signers.alice)).to.eq(10);
+      expect(await decryptBalance(otherBank, signers.carol)).to.eq(0);
+    });
+
+    it("rejects recipients who are not members of the partner community", async function () {
+      await openTransfers();
+      await depositHours(timeBank, signers.alice, 10);
+
+      await expect(transferHours(signers.alice, signers.bob, 5))
+        .to.be.revertedWithCustomError(otherBank, "MissingRole")
+        .withArgs(MEMBER_ROLE, signers.bob.address);
+    });
+
+    it("only credits transfers sent by a partner bank", async function () {
+      await openTransfers();
+      await expect(
+        otherBank
+          .connect(signers.alice)
+          .receiveCommunityTransfer(
+            signers.alice.address,
+            signers.carol.address,
+            ethers.ZeroHash,
+            "Tutoring",
+          ),
+      ).to.be.revertedWithCustomError(otherBank, "TransferNotAllowed");
+    });
+  });
+
+  describe("batch summaries", function () {
+    it("decrypts the sum of the batch's deposits and withdrawals", async function () {
+      await depositHours(timeBank, signers.alice, 30);
+      await depositHours(timeBank, signers.bob, 55, "Tutoring");
+      await withdrawHours(timeBank, signers.alice, 20);
+      await timeBank.closeCurrentBatch();
+
+      await timeBank.requestBatchSummary(1);
+
+      const summary = await decryptedSummary(timeBank, 1);
+      expect(summary.totalDeposited).to.eq(85);
+      expect(summary.totalWithdrawn).to.eq(20);
+    });
+
+    it("counts a withdrawal the balance cannot cover as zero", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+      await withdrawHours(timeBank, signers.alice, 25);
+      await timeBank.closeCurrentBatch();
+
+      await timeBank.requestBatchSummary(1);
+
+      const summary = await decryptedSummary(timeBank, 1);
+      expect(summary.totalDeposited).to.eq(10);
+      expect(summary.totalWithdrawn).to.eq(0);
+    });
+
+    it("keeps totals separate per batch", async function () {
+      await depositHours(timeBank, signers.alice, 40);
+      await timeBank.closeCurrentBatch();
+      await timeBank.openNewBatch();
+      await depositHours(timeBank, signers.bob, 15, "Tutoring");
+      await timeBank.closeCurrentBatch();
+
+      await timeBank.requestBatchSummary(1);
+      expect(await decryptedSummary(timeBank, 1)).to.deep.eq({
+        totalDeposited: 40n,
+        totalWithdrawn: 0n,
+      });
+
+      await timeBank.requestBatchSummary(2);
+      expect(await decryptedSummary(timeBank, 2)).to.deep.eq({
+        totalDeposited: 15n,
+        totalWithdrawn: 0n,
+      });
+    });
+
+    it("breaks credited hours down by service type", async function () {
+      await depositHours(timeBank, signers.alice, 30);
+      await depositHours(timeBank, signers.bob, 55, "Tutoring");
+      await depositHours(timeBank, signers.alice, 5, "Tutoring");
+      await withdrawHours(timeBank, signers.alice, 20, "Tutoring");
+      const exchangeId = await proposeExchange(
+        timeBank,
+        signers.alice,
+        signers.bob,
+        15,
+        "Transport",
+      );
+      await timeBank.connect(signers.bob).acceptExchange(exchangeId);
+      await timeBank.closeCurrentBatch();
+
+      expect(await timeBank.getBatchServiceTypes(1)).to.deep.eq([
+        "Gardening",
+        "Tutoring",
+        "Transport",
+      ]);
+
+      await timeBank.requestBatchSummary(1);
+
+      expect(await decryptedServiceTotals(timeBank, 1)).to.deep.eq({
+        Gardening: 30n,
+        Tutoring: 60n,
+        Transport: 15n,
+      });
+      expect((await decryptedSummary(timeBank, 1)).totalDeposited).to.eq(105);
+    });
+
+    it("pools service types beyond the per-batch limit", async function () {
+      const limit = Number(await timeBank.MAX_BATCH_SERVICE_TYPES());
+      for (let i = 1; i <= limit + 1; i++) {
+        await depositHours(timeBank, signers.alice, i, `Service ${i}`);
+      }
+      await timeBank.closeCurrentBatch();
+
+      const serviceTypes = await timeBank.getBatchServiceTypes(1);
+      expect(serviceTypes).to.have.length(limit);
+      expect(serviceTypes[limit - 1]).to.eq(
+        await timeBank.OTHER_SERVICE_TYPE(),
+      );
+
+      await timeBank.requestBatchSummary(1);
+
+      const totals = await decryptedServiceTotals(timeBank, 1);
+      expect(totals[`Service ${limit - 1}`]).to.eq(limit - 1);
+      expect(totals.Other).to.eq(limit + limit + 1);
+    });
+
+    it("records who requested the summary", async function () {
+      await timeBank.grantRole(AUDITOR_ROLE, signers.alice.address);
+      await timeBank.closeCurrentBatch();
+
+      await expect(timeBank.connect(signers.alice).requestBatchSummary(1))
+        .to.emit(timeBank, "DecryptionRequested")
+        .withArgs(anyValue, 1, signers.alice.address);
+    });
+
+    it("rejects a replayed callback", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+      await timeBank.closeCurrentBatch();
+      await timeBank.requestBatchSummary(1);
+      await decryptedSummary(timeBank, 1);
+
+      const requestId = await lastRequestId(timeBank);
+      expect((await timeBank.decryptionContexts(requestId)).processed).to.eq(
+        true,
+      );
+      await expect(
+        timeBank.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(timeBank, "ReplayError");
+    });
+
+    it("rejects a callback whose ciphertexts do not match the request", async function () {
+      await depositHours(timeBank, signers.alice, 10);
+      await timeBank.closeCurrentBatch();
+      await timeBank.requestBatchSummary(1);
+      const requestId = await lastRequestId(timeBank);
+
+      // Swap the batch's deposit total for another handle behind the contract's back;
+      // batchDeposits is slot 16 of the contract's layout
+      const slot = ethers.solidityPackedKeccak256(
+        ["uint256", "uint256"],
+        [1, 16],
+      );
+      const original = await ethers.provider.getStorage(timeBankAddress, slot);
+      expect(original).not.to.eq(ethers.ZeroHash);
+      await ethers.provider.send("hardhat_setStorageAt", [
+        timeBankAddress,
+        slot,
+        ethers.id("another ciphertext"),
+      ]);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint32"],
+        [100, 0],
+      );
+      await expect(
+        timeBank.myCallback(requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(timeBank, "StateMismatchError");
+
+      // Put the handle back so the oracle's own answer to the request goes through
+      await ethers.provider.send("hardhat_setStorageAt", [
+        timeBankAddress,
+        slot,
+        original,
+      ]);
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("rejects a callback without valid decryption signatures", async function () {
+      await timeBank.closeCurrentBatch();
+      await timeBank.requestBatchSummary(1);
+      const requestId = await lastRequestId(timeBank);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint32"],
+        [1000, 0],
+      );
+      await expect(timeBank.myCallback(requestId, cleartexts, "0x")).to.be
+        .reverted;
+      expect((await timeBank.decryptionContexts(requestId)).processed).to.eq(
+        false,
+      );
+    });
+
+    it("reports zero totals for an empty batch", async function () {
+      await timeBank.closeCurrentBatch();
+
+      await timeBank.requestBatchSummary(1);
+
+      expect(await decryptedSummary(timeBank, 1)).to.deep.eq({
+        totalDeposited: 0n,
+        totalWithdrawn: 0n,
+      });
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface TimeBankCommunitiesInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "canTransfer"
+      | "communities"
+      | "communityCount"
+      | "communityOfBank"
+      | "isTransferPartner"
+      | "registerCommunity"
+      | "setTransferPartner"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "CommunityRegistered" | "TransferPartnerSet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canTransfer",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "communities",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "communityCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "communityOfBank",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTransferPartner",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerCommunity",
+    values: [AddressLike, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTransferPartner",
+    values: [BigNumberish, BigNumberish, boolean]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "canTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "communities",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "communityCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "communityOfBank",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTransferPartner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerCommunity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTransferPartner",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CommunityRegisteredEvent {
+  export type InputTuple = [
+    communityId: BigNumberish,
+    bank: AddressLike,
+    name: string,
+    registeredBy: AddressLike
+  ];
+  export type OutputTuple = [
+    communityId: bigint,
+    bank: string,
+    name: string,
+    registeredBy: string
+  ];
+  export interface OutputObject {
+    communityId: bigint;
+    bank: string;
+    name: string;
+    registeredBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferPartnerSetEvent {
+  export type InputTuple = [
+    communityId: BigNumberish,
+    partnerId: BigNumberish,
+    open: boolean,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    communityId: bigint,
+    partnerId: bigint,
+    open: boolean,
+    sender: string
+  ];
+  export interface OutputObject {
+    communityId: bigint;
+    partnerId: bigint;
+    open: boolean;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TimeBankCommunities extends BaseContract {
+  connect(runner?: ContractRunner | null): TimeBankCommunities;
+  waitForDeployment(): Promise<this>;
+
+  interface: TimeBankCommunitiesInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  canTransfer: TypedContractMethod<
+    [fromBank: AddressLike, toBank: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  communities: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        name: string;
+        bank: string;
+        registeredBy: string;
+        deployBlock: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  communityCount: TypedContractMethod<[], [bigint], "view">;
+
+  communityOfBank: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  isTransferPartner: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  registerCommunity: TypedContractMethod<
+    [bank: AddressLike, name: string, deployBlock: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setTransferPartner: TypedContractMethod<
+    [communityId: BigNumberish, partnerId: BigNumberish, open: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "canTransfer"
+  ): TypedContractMethod<
+    [fromBank: AddressLike, toBank: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "communities"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        name: string;
+        bank: string;
+        registeredBy: string;
+        deployBlock: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "communityCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "communityOfBank"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isTransferPartner"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "registerCommunity"
+  ): TypedContractMethod<
+    [bank: AddressLike, name: string, deployBlock: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTransferPartner"
+  ): TypedContractMethod<
+    [communityId: BigNumberish, partnerId: BigNumberish, open: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "CommunityRegistered"
+  ): TypedContractEvent<
+    CommunityRegisteredEvent.InputTuple,
+    CommunityRegisteredEvent.OutputTuple,
+    CommunityRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferPartnerSet"
+  ): TypedContractEvent<
+    TransferPartnerSetEvent.InputTuple,
+    TransferPartnerSetEvent.OutputTuple,
+    TransferPartnerSetEvent.OutputObject
+  >;
+
+  filters: {
+    "CommunityRegistered(uint256,address,string,address)": TypedContractEvent<
+      CommunityRegisteredEvent.InputTuple,
+      CommunityRegisteredEvent.OutputTuple,
+      CommunityRegisteredEvent.OutputObject
+    >;
+    CommunityRegistered: TypedContractEvent<
+      CommunityRegisteredEvent.InputTuple,
+      CommunityRegisteredEvent.OutputTuple,
+      CommunityRegisteredEvent.OutputObject
+    >;
+
+    "TransferPartnerSet(uint256,uint256,bool,address)": TypedContractEvent<
+      TransferPartnerSetEvent.InputTuple,
+      TransferPartnerSetEvent.OutputTuple,
+      TransferPartnerSetEvent.OutputObject
+    >;
+    TransferPartnerSet: TypedContractEvent<
+      TransferPartnerSetEvent.InputTuple,
+      TransferPartnerSetEvent.OutputTuple,
+      TransferPartnerSetEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,3173 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface TimeBankExtensionInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "AUDITOR_ROLE"
+      | "COORDINATOR_ROLE"
+      | "MAX_BASIS_POINTS"
+      | "MAX_BATCH_SERVICE_TYPES"
+      | "MAX_RATING"
+      | "MEMBER_ROLE"
+      | "MIN_RATING"
+      | "MIN_RATINGS_FOR_REVEAL"
+      | "OTHER_SERVICE_TYPE"
+      | "addDisputeEvidence"
+      | "adjustDispute"
+      | "applications"
+      | "assignDispute"
+      | "balanceSettledAt"
+      | "cancelPledge"
+      | "communityRegistry"
+      | "confirmPledge"
+      | "cooldownSeconds"
+      | "creditLimitOf"
+      | "creditPolicy"
+      | "creditPolicyUpdatedAt"
+      | "currentBatchId"
+      | "decayBasisPoints"
+      | "decayPeriodDays"
+      | "decryptionContexts"
+      | "defaultCreditLimit"
+      | "disputes"
+      | "exchangeCount"
+      | "exchangeOfRecord"
+      | "exchangeVerifier"
+      | "exchanges"
+      | "expiryDays"
+      | "hasCustomCreditLimit"
+      | "hasRole"
+      | "isBatchClosed"
+      | "isRecordRated"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "listingCount"
+      | "listingOfExchange"
+      | "listings"
+      | "openDispute"
+      | "owner"
+      | "paused"
+      | "pendingOwner"
+      | "pledgeCount"
+      | "pledgeHours"
+      | "pledges"
+      | "rateRecord"
+      | "ratingCount"
+      | "ratingRevealCallback"
+      | "ratingRevealContexts"
+      | "receiveCommunityTransfer"
+      | "recordCount"
+      | "requestRatingReveal"
+      | "revealedRatingCount"
+      | "revealedRatingSum"
+      | "setCommunityRegistry"
+      | "splitDispute"
+      | "transferToCommunity"
+      | "upholdDispute"
+      | "voidDispute"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "CommunityRegistrySet"
+      | "CommunityTransferReceived"
+      | "CommunityTransferSent"
+      | "CooldownSecondsSet"
+      | "CreditLimitCleared"
+      | "CreditLimitSet"
+      | "CreditPolicySet"
+      | "CreditsDecayed"
+      | "CreditsExpired"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DefaultCreditLimitSet"
+      | "DisputeAssigned"
+      | "DisputeEvidenceAdded"
+      | "DisputeOpened"
+      | "DisputeResolved"
+      | "ExchangeAccepted"
+      | "ExchangeCancelled"
+      | "ExchangeProposed"
+      | "ExchangeRejected"
+      | "ExchangeVerified"
+      | "ListingClosed"
+      | "ListingCompleted"
+      | "ListingMatched"
+      | "ListingPosted"
+      | "ListingReopened"
+      | "MembershipApproved"
+      | "MembershipRejected"
+      | "MembershipRequested"
+      | "OwnershipTransferCancelled"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PledgeCreated"
+      | "PledgeRefunded"
+      | "PledgeReleased"
+      | "RatingRevealRequested"
+      | "RatingRevealed"
+      | "RatingSubmitted"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "ServiceTotalsDecrypted"
+      | "TimeDeposited"
+      | "TimeWithdrawn"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COORDINATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BASIS_POINTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SERVICE_TYPES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RATING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MEMBER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_RATING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_RATINGS_FOR_REVEAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "OTHER_SERVICE_TYPE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addDisputeEvidence",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "adjustDispute",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "applications",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assignDispute",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceSettledAt",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelPledge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "communityRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmPledge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditLimitOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditPolicy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditPolicyUpdatedAt",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decayBasisPoints",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decayPeriodDays",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultCreditLimit",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "exchangeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "exchangeOfRecord",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "exchangeVerifier",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "exchanges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expiryDays",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasCustomCreditLimit",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchClosed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isRecordRated",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listingCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listingOfExchange",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listings",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openDispute",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pledgeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pledgeHours",
+    values: [
+      AddressLike,
+      BytesLike,
+      BytesLike,
+      string,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pledges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rateRecord",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingRevealCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingRevealContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "receiveCommunityTransfer",
+    values: [AddressLike, AddressLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRatingReveal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealedRatingCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealedRatingSum",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCommunityRegistry",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "splitDispute",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferToCommunity",
+    values: [AddressLike, AddressLike, BytesLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upholdDispute",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voidDispute",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COORDINATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BASIS_POINTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SERVICE_TYPES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_RATING", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MEMBER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MIN_RATING", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_RATINGS_FOR_REVEAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "OTHER_SERVICE_TYPE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addDisputeEvidence",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "adjustDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "applications",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assignDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "balanceSettledAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelPledge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "communityRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confirmPledge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditLimitOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditPolicyUpdatedAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decayBasisPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decayPeriodDays",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultCreditLimit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "disputes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "exchangeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "exchangeOfRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "exchangeVerifier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "exchanges", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "expiryDays", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasCustomCreditLimit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchClosed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isRecordRated",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "listingCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "listingOfExchange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "listings", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pledgeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pledgeHours",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pledges", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rateRecord", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ratingCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ratingRevealCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ratingRevealContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "receiveCommunityTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRatingReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealedRatingCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealedRatingSum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCommunityRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "splitDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferToCommunity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upholdDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "voidDispute",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommunityRegistrySetEvent {
+  export type InputTuple = [registry: AddressLike];
+  export type OutputTuple = [registry: string];
+  export interface OutputObject {
+    registry: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommunityTransferReceivedEvent {
+  export type InputTuple = [
+    fromBank: AddressLike,
+    sender: AddressLike,
+    recipient: AddressLike,
+    batchId: BigNumberish,
+    recordId: BigNumberish,
+    encryptedHours: BytesLike,
+    serviceType: string
+  ];
+  export type OutputTuple = [
+    fromBank: string,
+    sender: string,
+    recipient: string,
+    batchId: bigint,
+    recordId: bigint,
+    encryptedHours: string,
+    serviceType: string
+  ];
+  export interface OutputObject {
+    fromBank: string;
+    sender: string;
+    recipient: string;
+    batchId: bigint;
+    recordId: bigint;
+    encryptedHours: string;
+    serviceType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommunityTransferSentEvent {
+  export type InputTuple = [
+    sender: AddressLike,
+    toBank: AddressLike,
+    recipient: AddressLike,
+    batchId: BigNumberish,
+    recordId: BigNumberish,
+    encryptedHours: BytesLike,
+    serviceType: string
+  ];
+  export type OutputTuple = [
+    sender: string,
+    toBank: string,
+    recipient: string,
+    batchId: bigint,
+    recordId: bigint,
+    encryptedHours: string,
+    serviceType: string
+  ];
+  export interface OutputObject {
+    sender: string;
+    toBank: string;
+    recipient: string;
+    batchId: bigint;
+    recordId: bigint;
+    encryptedHours: string;
+    serviceType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditLimitClearedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditLimitSetEvent {
+  export type InputTuple = [account: AddressLike, limit: BigNumberish];
+  export type OutputTuple = [account: string, limit: bigint];
+  export interface OutputObject {
+    account: string;
+    limit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditPolicySetEvent {
+  export type InputTuple = [
+    policy: BigNumberish,
+    expiryDays: BigNumberish,
+    decayBasisPoints: BigNumberish,
+    decayPeriodDays: BigNumberish
+  ];
+  export type OutputTuple = [
+    policy: bigint,
+    expiryDays: bigint,
+    decayBasisPoints: bigint,
+    decayPeriodDays: bigint
+  ];
+  export interface OutputObject {
+    policy: bigint;
+    expiryDays: bigint;
+    decayBasisPoints: bigint;
+    decayPeriodDays: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditsDecayedEvent {
+  export type InputTuple = [account: AddressLike, periods: BigNumberish];
+  export type OutputTuple = [account: string, periods: bigint];
+  export interface OutputObject {
+    account: string;
+    periods: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditsExpiredEvent {
+  export type InputTuple = [account: AddressLike, lastActivity: BigNumberish];
+  export type OutputTuple = [account: string, lastActivity: bigint];
+  export interface OutputObject {
+    account: string;
+    lastActivity: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    totalDeposited: BigNumberish,
+    totalWithdrawn: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    totalDeposited: bigint,
+    totalWithdrawn: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    totalDeposited: bigint;
+    totalWithdrawn: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    requester: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    requester: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    requester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DefaultCreditLimitSetEvent {
+  export type InputTuple = [limit: BigNumberish];
+  export type OutputTuple = [limit: bigint];
+  export interface OutputObject {
+    limit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeAssignedEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    coordinator: AddressLike,
+    assignedBy: AddressLike
+  ];
+  export type OutputTuple = [
+    exchangeId: bigint,
+    coordinator: string,
+    assignedBy: string
+  ];
+  export interface OutputObject {
+    exchangeId: bigint;
+    coordinator: string;
+    assignedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeEvidenceAddedEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    author: AddressLike,
+    note: string
+  ];
+  export type OutputTuple = [exchangeId: bigint, author: string, note: string];
+  export interface OutputObject {
+    exchangeId: bigint;
+    author: string;
+    note: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeOpenedEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    openedBy: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    exchangeId: bigint,
+    openedBy: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    exchangeId: bigint;
+    openedBy: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    coordinator: AddressLike,
+    resolution: BigNumberish,
+    providerShareBasisPoints: BigNumberish,
+    refundedHours: BytesLike
+  ];
+  export type OutputTuple = [
+    exchangeId: bigint,
+    coordinator: string,
+    resolution: bigint,
+    providerShareBasisPoints: bigint,
+    refundedHours: string
+  ];
+  export interface OutputObject {
+    exchangeId: bigint;
+    coordinator: string;
+    resolution: bigint;
+    providerShareBasisPoints: bigint;
+    refundedHours: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExchangeAcceptedEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    provider: AddressLike,
+    receiver: AddressLike,
+    batchId: BigNumberish,
+    recordId: BigNumberish,
+    transferredHours: BytesLike
+  ];
+  export type OutputTuple = [
+    exchangeId: bigint,
+    provider: string,
+    receiver: string,
+    batchId: bigint,
+    recordId: bigint,
+    transferredHours: string
+  ];
+  export interface OutputObject {
+    exchangeId: bigint;
+    provider: string;
+    receiver: string;
+    batchId: bigint;
+    recordId: bigint;
+    transferredHours: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExchangeCancelledEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    provider: AddressLike,
+    receiver: AddressLike
+  ];
+  export type OutputTuple = [
+    exchangeId: bigint,
+    provider: string,
+    receiver: string
+  ];
+  export interface OutputObject {
+    exchangeId: bigint;
+    provider: string;
+    receiver: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExchangeProposedEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    provider: AddressLike,
+    receiver: AddressLike,
+    encryptedHours: BytesLike,
+    serviceType: string
+  ];
+  export type OutputTuple = [
+    exchangeId: bigint,
+    provider: string,
+    receiver: string,
+    encryptedHours: string,
+    serviceType: string
+  ];
+  export interface OutputObject {
+    exchangeId: bigint;
+    provider: string;
+    receiver: string;
+    encryptedHours: string;
+    serviceType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExchangeRejectedEvent {
+  export type InputTuple = [
+    exchangeId: BigNumberish,
+    provider: AddressLike,
+    receiver: AddressLike
+  ];
+  export type OutputTuple = [
+    exchangeId: bigint,
+    provider: string,
+    receiver: string
+  ];
+  export interface OutputObject {
+    exchangeId: bigint;
+    provider: string;
+    receiver: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExchangeVerifiedEvent {
+  export type InputTuple = [exchangeId: BigNumberish, coordinator: AddressLike];
+  export type OutputTuple = [exchangeId: bigint, coordinator: string];
+  export interface OutputObject {
+    exchangeId: bigint;
+    coordinator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingClosedEvent {
+  export type InputTuple = [listingId: BigNumberish];
+  export type OutputTuple = [listingId: bigint];
+  export interface OutputObject {
+    listingId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingCompletedEvent {
+  export type InputTuple = [listingId: BigNumberish, exchangeId: BigNumberish];
+  export type OutputTuple = [listingId: bigint, exchangeId: bigint];
+  export interface OutputObject {
+    listingId: bigint;
+    exchangeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingMatchedEvent {
+  export type InputTuple = [
+    listingId: BigNumberish,
+    exchangeId: BigNumberish,
+    provider: AddressLike,
+    receiver: AddressLike
+  ];
+  export type OutputTuple = [
+    listingId: bigint,
+    exchangeId: bigint,
+    provider: string,
+    receiver: string
+  ];
+  export interface OutputObject {
+    listingId: bigint;
+    exchangeId: bigint;
+    provider: string;
+    receiver: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingPostedEvent {
+  export type InputTuple = [
+    listingId: BigNumberish,
+    author: AddressLike,
+    kind: BigNumberish,
+    serviceType: string,
+    description: string,
+    location: string,
+    availableFrom: BigNumberish,
+    availableUntil: BigNumberish
+  ];
+  export type OutputTuple = [
+    listingId: bigint,
+    author: string,
+    kind: bigint,
+    serviceType: string,
+    description: string,
+    location: string,
+    availableFrom: bigint,
+    availableUntil: bigint
+  ];
+  export interface OutputObject {
+    listingId: bigint;
+    author: string;
+    kind: bigint;
+    serviceType: string;
+    description: string;
+    location: string;
+    availableFrom: bigint;
+    availableUntil: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingReopenedEvent {
+  export type InputTuple = [listingId: BigNumberish, exchangeId: BigNumberish];
+  export type OutputTuple = [listingId: bigint, exchangeId: bigint];
+  export interface OutputObject {
+    listingId: bigint;
+    exchangeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MembershipApprovedEvent {
+  export type InputTuple = [applicant: AddressLike, approver: AddressLike];
+  export type OutputTuple = [applicant: string, approver: string];
+  export interface OutputObject {
+    applicant: string;
+    approver: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MembershipRejectedEvent {
+  export type InputTuple = [
+    applicant: AddressLike,
+    approver: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    applicant: string,
+    approver: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    applicant: string;
+    approver: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MembershipRequestedEvent {
+  export type InputTuple = [
+    applicant: AddressLike,
+    displayName: string,
+    skills: string
+  ];
+  export type OutputTuple = [
+    applicant: string,
+    displayName: string,
+    skills: string
+  ];
+  export interface OutputObject {
+    applicant: string;
+    displayName: string;
+    skills: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferCancelledEvent {
+  export type InputTuple = [owner: AddressLike, pendingOwner: AddressLike];
+  export type OutputTuple = [owner: string, pendingOwner: string];
+  export interface OutputObject {
+    owner: string;
+    pendingOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PledgeCreatedEvent {
+  export type InputTuple = [
+    pledgeId: BigNumberish,
+    receiver: AddressLike,
+    provider: AddressLike,
+    serviceType: string,
+    scheduledFor: BigNumberish,
+    expiresAt: BigNumberish,
+    lockedHours: BytesLike
+  ];
+  export type OutputTuple = [
+    pledgeId: bigint,
+    receiver: string,
+    provider: string,
+    serviceType: string,
+    scheduledFor: bigint,
+    expiresAt: bigint,
+    lockedHours: string
+  ];
+  export interface OutputObject {
+    pledgeId: bigint;
+    receiver: string;
+    provider: string;
+    serviceType: string;
+    scheduledFor: bigint;
+    expiresAt: bigint;
+    lockedHours: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PledgeRefundedEvent {
+  export type InputTuple = [
+    pledgeId: BigNumberish,
+    receiver: AddressLike,
+    refundedBy: AddressLike
+  ];
+  export type OutputTuple = [
+    pledgeId: bigint,
+    receiver: string,
+    refundedBy: string
+  ];
+  export interface OutputObject {
+    pledgeId: bigint;
+    receiver: string;
+    refundedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PledgeReleasedEvent {
+  export type InputTuple = [
+    pledgeId: BigNumberish,
+    provider: AddressLike,
+    receiver: AddressLike,
+    batchId: BigNumberish,
+    recordId: BigNumberish
+  ];
+  export type OutputTuple = [
+    pledgeId: bigint,
+    provider: string,
+    receiver: string,
+    batchId: bigint,
+    recordId: bigint
+  ];
+  export interface OutputObject {
+    pledgeId: bigint;
+    provider: string;
+    receiver: string;
+    batchId: bigint;
+    recordId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingRevealRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    provider: AddressLike,
+    ratingCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    provider: string,
+    ratingCount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    provider: string;
+    ratingCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingRevealedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    provider: AddressLike,
+    ratingSum: BigNumberish,
+    ratingCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    provider: string,
+    ratingSum: bigint,
+    ratingCount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    provider: string;
+    ratingSum: bigint;
+    ratingCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingSubmittedEvent {
+  export type InputTuple = [
+    recordId: BigNumberish,
+    provider: AddressLike,
+    receiver: AddressLike
+  ];
+  export type OutputTuple = [
+    recordId: bigint,
+    provider: string,
+    receiver: string
+  ];
+  export interface OutputObject {
+    recordId: bigint;
+    provider: string;
+    receiver: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ServiceTotalsDecryptedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    serviceTypes: string[],
+    totals: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    serviceTypes: string[],
+    totals: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    serviceTypes: string[];
+    totals: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimeDepositedEvent {
+  export type InputTuple = [
+    depositor: AddressLike,
+    batchId: BigNumberish,
+    recordId: BigNumberish,
+    encryptedHours: BytesLike,
+    serviceType: string
+  ];
+  export type OutputTuple = [
+    depositor: string,
+    batchId: bigint,
+    recordId: bigint,
+    encryptedHours: string,
+    serviceType: string
+  ];
+  export interface OutputObject {
+    depositor: string;
+    batchId: bigint;
+    recordId: bigint;
+    encryptedHours: string;
+    serviceType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimeWithdrawnEvent {
+  export type InputTuple = [
+    withdrawer: AddressLike,
+    batchId: BigNumberish,
+    recordId: BigNumberish,
+    encryptedHours: BytesLike,
+    serviceType: string
+  ];
+  export type OutputTuple = [
+    withdrawer: string,
+    batchId: bigint,
+    recordId: bigint,
+    encryptedHours: string,
+    serviceType: string
+  ];
+  export interface OutputObject {
+    withdrawer: string;
+    batchId: bigint;
+    recordId: bigint;
+    encryptedHours: string;
+    serviceType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TimeBankExtension extends BaseContract {
+  connect(runner?: ContractRunner | null): TimeBankExtension;
+  waitForDeployment(): Promise<this>;
+
+  interface: TimeBankExtensionInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  COORDINATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MAX_BASIS_POINTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SERVICE_TYPES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RATING: TypedContractMethod<[], [bigint], "view">;
+
+  MEMBER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MIN_RATING: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_RATINGS_FOR_REVEAL: TypedContractMethod<[], [bigint], "view">;
+
+  OTHER_SERVICE_TYPE: TypedContractMethod<[], [string], "view">;
+
+  addDisputeEvidence: TypedContractMethod<
+    [exchangeId: BigNumberish, note: string],
+    [void],
+    "nonpayable"
+  >;
+
+  adjustDispute: TypedContractMethod<
+    [
+      exchangeId: BigNumberish,
+      encryptedHours: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  applications: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint, string] & {
+        displayName: string;
+        skills: string;
+        status: bigint;
+        rejectionReason: string;
+      }
+    ],
+    "view"
+  >;
+
+  assignDispute: TypedContractMethod<
+    [exchangeId: BigNumberish, coordinator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  balanceSettledAt: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  cancelPledge: TypedContractMethod<
+    [pledgeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  communityRegistry: TypedContractMethod<[], [string], "view">;
+
+  confirmPledge: TypedContractMethod<
+    [pledgeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  creditLimitOf: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
+  creditPolicy: TypedContractMethod<[], [bigint], "view">;
+
+  creditPolicyUpdatedAt: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decayBasisPoints: TypedContractMethod<[], [bigint], "view">;
+
+  decayPeriodDays: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  defaultCreditLimit: TypedContractMethod<[], [bigint], "view">;
+
+  disputes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint] & {
+        status: bigint;
+        openedBy: string;
+        coordinator: string;
+        resolution: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  exchangeCount: TypedContractMethod<[], [bigint], "view">;
+
+  exchangeOfRecord: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  exchangeVerifier: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  exchanges: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, bigint] & {
+        provider: string;
+        receiver: string;
+        encryptedHours: string;
+        serviceType: string;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  expiryDays: TypedContractMethod<[], [bigint], "view">;
+
+  hasCustomCreditLimit: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isBatchClosed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  isRecordRated: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  listingCount: TypedContractMethod<[], [bigint], "view">;
+
+  listingOfExchange: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  listings: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        author: string;
+        kind: bigint;
+        serviceType: string;
+        description: string;
+        location: string;
+        availableFrom: bigint;
+        availableUntil: bigint;
+        status: bigint;
+        exchangeId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  openDispute: TypedContractMethod<
+    [exchangeId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  pledgeCount: TypedContractMethod<[], [bigint], "view">;
+
+  pledgeHours: TypedContractMethod<
+    [
+      provider: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      serviceType: string,
+      scheduledFor: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  pledges: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, bigint, bigint, bigint] & {
+        receiver: string;
+        provider: string;
+        lockedHours: string;
+        serviceType: string;
+        scheduledFor: bigint;
+        expiresAt: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  rateRecord: TypedContractMethod<
+    [recordId: BigNumberish, encryptedRating: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  ratingCount: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  ratingRevealCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  ratingRevealContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        provider: string;
+        ratingCount: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  receiveCommunityTransfer: TypedContractMethod<
+    [
+      sender: AddressLike,
+      recipient: AddressLike,
+      amount: BytesLike,
+      serviceType: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  recordCount: TypedContractMethod<[], [bigint], "view">;
+
+  requestRatingReveal: TypedContractMethod<[], [void], "nonpayable">;
+
+  revealedRatingCount: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  revealedRatingSum: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  setCommunityRegistry: TypedContractMethod<
+    [registry: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  splitDispute: TypedContractMethod<
+    [exchangeId: BigNumberish, providerShareBasisPoints: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferToCommunity: TypedContractMethod<
+    [
+      toBank: AddressLike,
+      recipient: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      serviceType: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  upholdDispute: TypedContractMethod<
+    [exchangeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  voidDispute: TypedContractMethod<
+    [exchangeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "COORDINATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BASIS_POINTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SERVICE_TYPES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RATING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MEMBER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MIN_RATING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_RATINGS_FOR_REVEAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OTHER_SERVICE_TYPE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "addDisputeEvidence"
+  ): TypedContractMethod<
+    [exchangeId: BigNumberish, note: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "adjustDispute"
+  ): TypedContractMethod<
+    [
+      exchangeId: BigNumberish,
+      encryptedHours: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "applications"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint, string] & {
+        displayName: string;
+        skills: string;
+        status: bigint;
+        rejectionReason: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "assignDispute"
+  ): TypedContractMethod<
+    [exchangeId: BigNumberish, coordinator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balanceSettledAt"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelPledge"
+  ): TypedContractMethod<[pledgeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "communityRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "confirmPledge"
+  ): TypedContractMethod<[pledgeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "creditLimitOf"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "creditPolicy"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "creditPolicyUpdatedAt"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decayBasisPoints"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decayPeriodDays"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "defaultCreditLimit"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disputes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint] & {
+        status: bigint;
+        openedBy: string;
+        coordinator: string;
+        resolution: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "exchangeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "exchangeOfRecord"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "exchangeVerifier"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "exchanges"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, bigint] & {
+        provider: string;
+        receiver: string;
+        encryptedHours: string;
+        serviceType: string;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "expiryDays"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hasCustomCreditLimit"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isBatchClosed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isRecordRated"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "listingCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "listingOfExchange"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "listings"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        author: string;
+        kind: bigint;
+        serviceType: string;
+        description: string;
+        location: string;
+        availableFrom: bigint;
+        availableUntil: bigint;
+        status: bigint;
+        exchangeId: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openDispute"
+  ): TypedContractMethod<
+    [exchangeId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pledgeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pledgeHours"
+  ): TypedContractMethod<
+    [
+      provider: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      serviceType: string,
+      scheduledFor: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pledges"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, bigint, bigint, bigint] & {
+        receiver: string;
+        provider: string;
+        lockedHours: string;
+        serviceType: string;
+        scheduledFor: bigint;
+        expiresAt: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "rateRecord"
+  ): TypedContractMethod<
+    [recordId: BigNumberish, encryptedRating: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "ratingCount"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ratingRevealCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "ratingRevealContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        provider: string;
+        ratingCount: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "receiveCommunityTransfer"
+  ): TypedContractMethod<
+    [
+      sender: AddressLike,
+      recipient: AddressLike,
+      amount: BytesLike,
+      serviceType: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestRatingReveal"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealedRatingCount"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revealedRatingSum"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setCommunityRegistry"
+  ): TypedContractMethod<[registry: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "splitDispute"
+  ): TypedContractMethod<
+    [exchangeId: BigNumberish, providerShareBasisPoints: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferToCommunity"
+  ): TypedContractMethod<
+    [
+      toBank: AddressLike,
+      recipient: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      serviceType: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "upholdDispute"
+  ): TypedContractMethod<[exchangeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "voidDispute"
+  ): TypedContractMethod<[exchangeId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommunityRegistrySet"
+  ): TypedContractEvent<
+    CommunityRegistrySetEvent.InputTuple,
+    CommunityRegistrySetEvent.OutputTuple,
+    CommunityRegistrySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommunityTransferReceived"
+  ): TypedContractEvent<
+    CommunityTransferReceivedEvent.InputTuple,
+    CommunityTransferReceivedEvent.OutputTuple,
+    CommunityTransferReceivedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommunityTransferSent"
+  ): TypedContractEvent<
+    CommunityTransferSentEvent.InputTuple,
+    CommunityTransferSentEvent.OutputTuple,
+    CommunityTransferSentEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditLimitCleared"
+  ): TypedContractEvent<
+    CreditLimitClearedEvent.InputTuple,
+    CreditLimitClearedEvent.OutputTuple,
+    CreditLimitClearedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditLimitSet"
+  ): TypedContractEvent<
+    CreditLimitSetEvent.InputTuple,
+    CreditLimitSetEvent.OutputTuple,
+    CreditLimitSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditPolicySet"
+  ): TypedContractEvent<
+    CreditPolicySetEvent.InputTuple,
+    CreditPolicySetEvent.OutputTuple,
+    CreditPolicySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditsDecayed"
+  ): TypedContractEvent<
+    CreditsDecayedEvent.InputTuple,
+    CreditsDecayedEvent.OutputTuple,
+    CreditsDecayedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditsExpired"
+  ): TypedContractEvent<
+    CreditsExpiredEvent.InputTuple,
+    CreditsExpiredEvent.OutputTuple,
+    CreditsExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DefaultCreditLimitSet"
+  ): TypedContractEvent<
+    DefaultCreditLimitSetEvent.InputTuple,
+    DefaultCreditLimitSetEvent.OutputTuple,
+    DefaultCreditLimitSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeAssigned"
+  ): TypedContractEvent<
+    DisputeAssignedEvent.InputTuple,
+    DisputeAssignedEvent.OutputTuple,
+    DisputeAssignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeEvidenceAdded"
+  ): TypedContractEvent<
+    DisputeEvidenceAddedEvent.InputTuple,
+    DisputeEvidenceAddedEvent.OutputTuple,
+    DisputeEvidenceAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeOpened"
+  ): TypedContractEvent<
+    DisputeOpenedEvent.InputTuple,
+    DisputeOpenedEvent.OutputTuple,
+    DisputeOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExchangeAccepted"
+  ): TypedContractEvent<
+    ExchangeAcceptedEvent.InputTuple,
+    ExchangeAcceptedEvent.OutputTuple,
+    ExchangeAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExchangeCancelled"
+  ): TypedContractEvent<
+    ExchangeCancelledEvent.InputTuple,
+    ExchangeCancelledEvent.OutputTuple,
+    ExchangeCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExchangeProposed"
+  ): TypedContractEvent<
+    ExchangeProposedEvent.InputTuple,
+    ExchangeProposedEvent.OutputTuple,
+    ExchangeProposedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExchangeRejected"
+  ): TypedContractEvent<
+    ExchangeRejectedEvent.InputTuple,
+    ExchangeRejectedEvent.OutputTuple,
+    ExchangeRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExchangeVerified"
+  ): TypedContractEvent<
+    ExchangeVerifiedEvent.InputTuple,
+    ExchangeVerifiedEvent.OutputTuple,
+    ExchangeVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingClosed"
+  ): TypedContractEvent<
+    ListingClosedEvent.InputTuple,
+    ListingClosedEvent.OutputTuple,
+    ListingClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingCompleted"
+  ): TypedContractEvent<
+    ListingCompletedEvent.InputTuple,
+    ListingCompletedEvent.OutputTuple,
+    ListingCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingMatched"
+  ): TypedContractEvent<
+    ListingMatchedEvent.InputTuple,
+    ListingMatchedEvent.OutputTuple,
+    ListingMatchedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingPosted"
+  ): TypedContractEvent<
+    ListingPostedEvent.InputTuple,
+    ListingPostedEvent.OutputTuple,
+    ListingPostedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingReopened"
+  ): TypedContractEvent<
+    ListingReopenedEvent.InputTuple,
+    ListingReopenedEvent.OutputTuple,
+    ListingReopenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MembershipApproved"
+  ): TypedContractEvent<
+    MembershipApprovedEvent.InputTuple,
+    MembershipApprovedEvent.OutputTuple,
+    MembershipApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MembershipRejected"
+  ): TypedContractEvent<
+    MembershipRejectedEvent.InputTuple,
+    MembershipRejectedEvent.OutputTuple,
+    MembershipRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MembershipRequested"
+  ): TypedContractEvent<
+    MembershipRequestedEvent.InputTuple,
+    MembershipRequestedEvent.OutputTuple,
+    MembershipRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferCancelled"
+  ): TypedContractEvent<
+    OwnershipTransferCancelledEvent.InputTuple,
+    OwnershipTransferCancelledEvent.OutputTuple,
+    OwnershipTransferCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PledgeCreated"
+  ): TypedContractEvent<
+    PledgeCreatedEvent.InputTuple,
+    PledgeCreatedEvent.OutputTuple,
+    PledgeCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PledgeRefunded"
+  ): TypedContractEvent<
+    PledgeRefundedEvent.InputTuple,
+    PledgeRefundedEvent.OutputTuple,
+    PledgeRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PledgeReleased"
+  ): TypedContractEvent<
+    PledgeReleasedEvent.InputTuple,
+    PledgeReleasedEvent.OutputTuple,
+    PledgeReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RatingRevealRequested"
+  ): TypedContractEvent<
+    RatingRevealRequestedEvent.InputTuple,
+    RatingRevealRequestedEvent.OutputTuple,
+    RatingRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RatingRevealed"
+  ): TypedContractEvent<
+    RatingRevealedEvent.InputTuple,
+    RatingRevealedEvent.OutputTuple,
+    RatingRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RatingSubmitted"
+  ): TypedContractEvent<
+    RatingSubmittedEvent.InputTuple,
+    RatingSubmittedEvent.OutputTuple,
+    RatingSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ServiceTotalsDecrypted"
+  ): TypedContractEvent<
+    ServiceTotalsDecryptedEvent.InputTuple,
+    ServiceTotalsDecryptedEvent.OutputTuple,
+    ServiceTotalsDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimeDeposited"
+  ): TypedContractEvent<
+    TimeDepositedEvent.InputTuple,
+    TimeDepositedEvent.OutputTuple,
+    TimeDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimeWithdrawn"
+  ): TypedContractEvent<
+    TimeWithdrawnEvent.InputTuple,
+    TimeWithdrawnEvent.OutputTuple,
+    TimeWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CommunityRegistrySet(address)": TypedContractEvent<
+      CommunityRegistrySetEvent.InputTuple,
+      CommunityRegistrySetEvent.OutputTuple,
+      CommunityRegistrySetEvent.OutputObject
+    >;
+    CommunityRegistrySet: TypedContractEvent<
+      CommunityRegistrySetEvent.InputTuple,
+      CommunityRegistrySetEvent.OutputTuple,
+      CommunityRegistrySetEvent.OutputObject
+    >;
+
+    "CommunityTransferReceived(address,address,address,uint256,uint256,bytes32,string)": TypedContractEvent<
+      CommunityTransferReceivedEvent.InputTuple,
+      CommunityTransferReceivedEvent.OutputTuple,
+      CommunityTransferReceivedEvent.OutputObject
+    >;
+    CommunityTransferReceived: TypedContractEvent<
+      CommunityTransferReceivedEvent.InputTuple,
+      CommunityTransferReceivedEvent.OutputTuple,
+      CommunityTransferReceivedEvent.OutputObject
+    >;
+
+    "CommunityTransferSent(address,address,address,uint256,uint256,bytes32,string)": TypedContractEvent<
+      CommunityTransferSentEvent.InputTuple,
+      CommunityTransferSentEvent.OutputTuple,
+      CommunityTransferSentEvent.OutputObject
+    >;
+    CommunityTransferSent: TypedContractEvent<
+      CommunityTransferSentEvent.InputTuple,
+      CommunityTransferSentEvent.OutputTuple,
+      CommunityTransferSentEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "CreditLimitCleared(address)": TypedContractEvent<
+      CreditLimitClearedEvent.InputTuple,
+      CreditLimitClearedEvent.OutputTuple,
+      CreditLimitClearedEvent.OutputObject
+    >;
+    CreditLimitCleared: TypedContractEvent<
+      CreditLimitClearedEvent.InputTuple,
+      CreditLimitClearedEvent.OutputTuple,
+      CreditLimitClearedEvent.OutputObject
+    >;
+
+    "CreditLimitSet(address,uint32)": TypedContractEvent<
+      CreditLimitSetEvent.InputTuple,
+      CreditLimitSetEvent.OutputTuple,
+      CreditLimitSetEvent.OutputObject
+    >;
+    CreditLimitSet: TypedContractEvent<
+      CreditLimitSetEvent.InputTuple,
+      CreditLimitSetEvent.OutputTuple,
+      CreditLimitSetEvent.OutputObject
+    >;
+
+    "CreditPolicySet(uint8,uint32,uint16,uint32)": TypedContractEvent<
+      CreditPolicySetEvent.InputTuple,
+      CreditPolicySetEvent.OutputTuple,
+      CreditPolicySetEvent.OutputObject
+    >;
+    CreditPolicySet: TypedContractEvent<
+      CreditPolicySetEvent.InputTuple,
+      CreditPolicySetEvent.OutputTuple,
+      CreditPolicySetEvent.OutputObject
+    >;
+
+    "CreditsDecayed(address,uint256)": TypedContractEvent<
+      CreditsDecayedEvent.InputTuple,
+      CreditsDecayedEvent.OutputTuple,
+      CreditsDecayedEvent.OutputObject
+    >;
+    CreditsDecayed: TypedContractEvent<
+      CreditsDecayedEvent.InputTuple,
+      CreditsDecayedEvent.OutputTuple,
+      CreditsDecayedEvent.OutputObject
+    >;
+
+    "CreditsExpired(address,uint256)": TypedContractEvent<
+      CreditsExpiredEvent.InputTuple,
+      CreditsExpiredEvent.OutputTuple,
+      CreditsExpiredEvent.OutputObject
+    >;
+    CreditsExpired: TypedContractEvent<
+      CreditsExpiredEvent.InputTuple,
+      CreditsExpiredEvent.OutputTuple,
+      CreditsExpiredEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint32,uint32)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,address)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DefaultCreditLimitSet(uint32)": TypedContractEvent<
+      DefaultCreditLimitSetEvent.InputTuple,
+      DefaultCreditLimitSetEvent.OutputTuple,
+      DefaultCreditLimitSetEvent.OutputObject
+    >;
+    DefaultCreditLimitSet: TypedContractEvent<
+      DefaultCreditLimitSetEvent.InputTuple,
+      DefaultCreditLimitSetEvent.OutputTuple,
+      DefaultCreditLimitSetEvent.OutputObject
+    >;
+
+    "DisputeAssigned(uint256,address,address)": TypedContractEvent<
+      DisputeAssignedEvent.InputTuple,
+      DisputeAssignedEvent.OutputTuple,
+      DisputeAssignedEvent.OutputObject
+    >;
+    DisputeAssigned: TypedContractEvent<
+      DisputeAssignedEvent.InputTuple,
+      DisputeAssignedEvent.OutputTuple,
+      DisputeAssignedEvent.OutputObject
+    >;
+
+    "DisputeEvidenceAdded(uint256,address,string)": TypedContractEvent<
+      DisputeEvidenceAddedEvent.InputTuple,
+      DisputeEvidenceAddedEvent.OutputTuple,
+      DisputeEvidenceAddedEvent.OutputObject
+    >;
+    DisputeEvidenceAdded: TypedContractEvent<
+      DisputeEvidenceAddedEvent.InputTuple,
+      DisputeEvidenceAddedEvent.OutputTuple,
+      DisputeEvidenceAddedEvent.OutputObject
+    >;
+
+    "DisputeOpened(uint256,address,string)": TypedContractEvent<
+      DisputeOpenedEvent.InputTuple,
+      DisputeOpenedEvent.OutputTuple,
+      DisputeOpenedEvent.OutputObject
+    >;
+    DisputeOpened: TypedContractEvent<
+      DisputeOpenedEvent.InputTuple,
+      DisputeOpenedEvent.OutputTuple,
+      DisputeOpenedEvent.OutputObject
+    >;
+
+    "DisputeResolved(uint256,address,uint8,uint16,bytes32)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "ExchangeAccepted(uint256,address,address,uint256,uint256,bytes32)": TypedContractEvent<
+      ExchangeAcceptedEvent.InputTuple,
+      ExchangeAcceptedEvent.OutputTuple,
+      ExchangeAcceptedEvent.OutputObject
+    >;
+    ExchangeAccepted: TypedContractEvent<
+      ExchangeAcceptedEvent.InputTuple,
+      ExchangeAcceptedEvent.OutputTuple,
+      ExchangeAcceptedEvent.OutputObject
+    >;
+
+    "ExchangeCancelled(uint256,address,address)": TypedContractEvent<
+      ExchangeCancelledEvent.InputTuple,
+      ExchangeCancelledEvent.OutputTuple,
+      ExchangeCancelledEvent.OutputObject
+    >;
+    ExchangeCancelled: TypedContractEvent<
+      ExchangeCancelledEvent.InputTuple,
+      ExchangeCancelledEvent.OutputTuple,
+      ExchangeCancelledEvent.OutputObject
+    >;
+
+    "ExchangeProposed(uint256,address,address,bytes32,string)": TypedContractEvent<
+      ExchangeProposedEvent.InputTuple,
+      ExchangeProposedEvent.OutputTuple,
+      ExchangeProposedEvent.OutputObject
+    >;
+    ExchangeProposed: TypedContractEvent<
+      ExchangeProposedEvent.InputTuple,
+      ExchangeProposedEvent.OutputTuple,
+      ExchangeProposedEvent.OutputObject
+    >;
+
+    "ExchangeRejected(uint256,address,address)": TypedContractEvent<
+      ExchangeRejectedEvent.InputTuple,
+      ExchangeRejectedEvent.OutputTuple,
+      ExchangeRejectedEvent.OutputObject
+    >;
+    ExchangeRejected: TypedContractEvent<
+      ExchangeRejectedEvent.InputTuple,
+      ExchangeRejectedEvent.OutputTuple,
+      ExchangeRejectedEvent.OutputObject
+    >;
+
+    "ExchangeVerified(uint256,address)": TypedContractEvent<
+      ExchangeVerifiedEvent.InputTuple,
+      ExchangeVerifiedEvent.OutputTuple,
+      ExchangeVerifiedEvent.OutputObject
+    >;
+    ExchangeVerified: TypedContractEvent<
+      ExchangeVerifiedEvent.InputTuple,
+      ExchangeVerifiedEvent.OutputTuple,
+      ExchangeVerifiedEvent.OutputObject
+    >;
+
+    "ListingClosed(uint256)": TypedContractEvent<
+      ListingClosedEvent.InputTuple,
+      ListingClosedEvent.OutputTuple,
+      ListingClosedEvent.OutputObject
+    >;
+    ListingClosed: TypedContractEvent<
+      ListingClosedEvent.InputTuple,
+      ListingClosedEvent.OutputTuple,
+      ListingClosedEvent.OutputObject
+    >;
+
+    "ListingCompleted(uint256,uint256)": TypedContractEvent<
+      ListingCompletedEvent.InputTuple,
+      ListingCompletedEvent.OutputTuple,
+      ListingCompletedEvent.OutputObject
+    >;
+    ListingCompleted: TypedContractEvent<
+      ListingCompletedEvent.InputTuple,
+      ListingCompletedEvent.OutputTuple,
+      ListingCompletedEvent.OutputObject
+    >;
+
+    "ListingMatched(uint256,uint256,address,address)": TypedContractEvent<
+      ListingMatchedEvent.InputTuple,
+      ListingMatchedEvent.OutputTuple,
+      ListingMatchedEvent.OutputObject
+    >;
+    ListingMatched: TypedContractEvent<
+      ListingMatchedEvent.InputTuple,
+      ListingMatchedEvent.OutputTuple,
+      ListingMatchedEvent.OutputObject
+    >;
+
+    "ListingPosted(uint256,address,uint8,string,string,string,uint64,uint64)": TypedContractEvent<
+      ListingPostedEvent.InputTuple,
+      ListingPostedEvent.OutputTuple,
+      ListingPostedEvent.OutputObject
+    >;
+    ListingPosted: TypedContractEvent<
+      ListingPostedEvent.InputTuple,
+      ListingPostedEvent.OutputTuple,
+      ListingPostedEvent.OutputObject
+    >;
+
+    "ListingReopened(uint256,uint256)": TypedContractEvent<
+      ListingReopenedEvent.InputTuple,
+      ListingReopenedEvent.OutputTuple,
+      ListingReopenedEvent.OutputObject
+    >;
+    ListingReopened: TypedContractEvent<
+      ListingReopenedEvent.InputTuple,
+      ListingReopenedEvent.OutputTuple,
+      ListingReopenedEvent.OutputObject
+    >;
+
+    "MembershipApproved(address,address)": TypedContractEvent<
+      MembershipApprovedEvent.InputTuple,
+      MembershipApprovedEvent.OutputTuple,
+      MembershipApprovedEvent.OutputObject
+    >;
+    MembershipApproved: TypedContractEvent<
+      MembershipApprovedEvent.InputTuple,
+      MembershipApprovedEvent.OutputTuple,
+      MembershipApprovedEvent.OutputObject
+    >;
+
+    "MembershipRejected(address,address,string)": TypedContractEvent<
+      MembershipRejectedEvent.InputTuple,
+      MembershipRejectedEvent.OutputTuple,
+      MembershipRejectedEvent.OutputObject
+    >;
+    MembershipRejected: TypedContractEvent<
+      MembershipRejectedEvent.InputTuple,
+      MembershipRejectedEvent.OutputTuple,
+      MembershipRejectedEvent.OutputObject
+    >;
+
+    "MembershipRequested(address,string,string)": TypedContractEvent<
+      MembershipRequestedEvent.InputTuple,
+      MembershipRequestedEvent.OutputTuple,
+      MembershipRequestedEvent.OutputObject
+    >;
+    MembershipRequested: TypedContractEvent<
+      MembershipRequestedEvent.InputTuple,
+      MembershipRequestedEvent.OutputTuple,
+      MembershipRequestedEvent.OutputObject
+    >;
+
+    "OwnershipTransferCancelled(address,address)": TypedContractEvent<
+      OwnershipTransferCancelledEvent.InputTuple,
+      OwnershipTransferCancelledEvent.OutputTuple,
+      OwnershipTransferCancelledEvent.OutputObject
+    >;
+    OwnershipTransferCancelled: TypedContractEvent<
+      OwnershipTransferCancelledEvent.InputTuple,
+      OwnershipTransferCancelledEvent.OutputTuple,
+      OwnershipTransferCancelledEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PledgeCreated(uint256,address,address,string,uint64,uint64,bytes32)": TypedContractEvent<
+      PledgeCreatedEvent.InputTuple,
+      PledgeCreatedEvent.OutputTuple,
+      PledgeCreatedEvent.OutputObject
+    >;
+    PledgeCreated: TypedContractEvent<
+      PledgeCreatedEvent.InputTuple,
+      PledgeCreatedEvent.OutputTuple,
+      PledgeCreatedEvent.OutputObject
+    >;
+
+    "PledgeRefunded(uint256,address,address)": TypedContractEvent<
+      PledgeRefundedEvent.InputTuple,
+      PledgeRefundedEvent.OutputTuple,
+      PledgeRefundedEvent.OutputObject
+    >;
+    PledgeRefunded: TypedContractEvent<
+      PledgeRefundedEvent.InputTuple,
+      PledgeRefundedEvent.OutputTuple,
+      PledgeRefundedEvent.OutputObject
+    >;
+
+    "PledgeReleased(uint256,address,address,uint256,uint256)": TypedContractEvent<
+      PledgeReleasedEvent.InputTuple,
+      PledgeReleasedEvent.OutputTuple,
+      PledgeReleasedEvent.OutputObject
+    >;
+    PledgeReleased: TypedContractEvent<
+      PledgeReleasedEvent.InputTuple,
+      PledgeReleasedEvent.OutputTuple,
+      PledgeReleasedEvent.OutputObject
+    >;
+
+    "RatingRevealRequested(uint256,address,uint32)": TypedContractEvent<
+      RatingRevealRequestedEvent.InputTuple,
+      RatingRevealRequestedEvent.OutputTuple,
+      RatingRevealRequestedEvent.OutputObject
+    >;
+    RatingRevealRequested: TypedContractEvent<
+      RatingRevealRequestedEvent.InputTuple,
+      RatingRevealRequestedEvent.OutputTuple,
+      RatingRevealRequestedEvent.OutputObject
+    >;
+
+    "RatingRevealed(uint256,address,uint32,uint32)": TypedContractEvent<
+      RatingRevealedEvent.InputTuple,
+      RatingRevealedEvent.OutputTuple,
+      RatingRevealedEvent.OutputObject
+    >;
+    RatingRevealed: TypedContractEvent<
+      RatingRevealedEvent.InputTuple,
+      RatingRevealedEvent.OutputTuple,
+      RatingRevealedEvent.OutputObject
+    >;
+
+    "RatingSubmitted(uint256,address,address)": TypedContractEvent<
+      RatingSubmittedEvent.InputTuple,
+      RatingSubmittedEvent.OutputTuple,
+      RatingSubmittedEvent.OutputObject
+    >;
+    RatingSubmitted: TypedContractEvent<
+      RatingSubmittedEvent.InputTuple,
+      RatingSubmittedEvent.OutputTuple,
+      RatingSubmittedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "ServiceTotalsDecrypted(uint256,uint256,string[],uint32[])": TypedContractEvent<
+      ServiceTotalsDecryptedEvent.InputTuple,
+      ServiceTotalsDecryptedEvent.OutputTuple,
+      ServiceTotalsDecryptedEvent.OutputObject
+    >;
+    ServiceTotalsDecrypted: TypedContractEvent<
+      ServiceTotalsDecryptedEvent.InputTuple,
+      ServiceTotalsDecryptedEvent.OutputTuple,
+      ServiceTotalsDecryptedEvent.OutputObject
+    >;
+
+    "TimeDeposited(address,uint256,uint256,bytes32,string)": TypedContractEvent<
+      TimeDepositedEvent.InputTuple,
+      TimeDepositedEvent.OutputTuple,
+      TimeDepositedEvent.OutputObject
+    >;
+    TimeDeposited: TypedContractEvent<
+      TimeDepositedEvent.InputTuple,
+      TimeDepositedEvent.OutputTuple,
+      TimeDepositedEvent.OutputObject
+    >;
+
+    "TimeWithdrawn(address,uint256,uint256,bytes32,string)": TypedContractEvent<
+      TimeWithdrawnEvent.InputTuple,
+      TimeWithdrawnEvent.OutputTuple,
+      TimeWithdrawnEvent.OutputObject
+    >;
+    TimeWithdrawn: TypedContractEvent<
+      TimeWithdrawnEvent.InputTuple,
+      TimeWithdrawnEvent.OutputTuple,
+      TimeWithdrawnEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as timeBankFheSol from "./Time_Bank_FHE.sol";
+export type { timeBankFheSol };
+export type { TimeBankCommunities } from "./TimeBankCommunities";
+export type { TimeBankExtension } from "./TimeBankExtension";
+export type { TimeBankStorage } from "./TimeBankStorage";
@@ -0,0 +1,334 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  TimeBankCommunities,
+  TimeBankCommunitiesInterface,
+} from "../../contracts/TimeBankCommunities";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "AlreadyRegistered",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyName",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCommunity",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotCommunityAdmin",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "communityId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bank",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "registeredBy",
+        type: "address",
+      },
+    ],
+    name: "CommunityRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "communityId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "partnerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "open",
+        type: "bool",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "TransferPartnerSet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "fromBank",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "toBank",
+        type: "address",
+      },
+    ],
+    name: "canTransfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "communities",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "bank",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "registeredBy",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "deployBlock",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "communityCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "communityOfBank",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isTransferPartner",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "bank",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "deployBlock",
+        type: "uint64",
+      },
+    ],
+    name: "registerCommunity",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "communityId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "communityId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "partnerId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "open",
+        type: "bool",
+      },
+    ],
+    name: "setTransferPartner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610969908161001b8239f35b5f80fdfe6080806040526004361015610012575f80fd5b5f3560e01c90816366b2510214610897575080636c85cf67146107e257806375b238fc146107a8578063916fce3c14610389578063ad4c665014610208578063aee84613146101ec578063e590b56a146100b05763ea74bd2f14610074575f80fd5b346100ac5760203660031901126100ac576001600160a01b036100956108cd565b165f526002602052602060405f2054604051908152f35b5f80fd5b346100ac576020806003193601126100ac576004355f526001906001815260405f2060405192835f8354926100e4846108e3565b93848452866001821691825f146101cc575050600114610190575b5061010f9250949294038261091b565b60018060a01b0360028160018601541694015460a091604051958694608086528051948560808801525f5b86811061017a575050509067ffffffffffffffff929160a0965f88878901015286015281166040850152841c166060830152601f80199101168101030190f35b8083018901518a8201830152899750880161013a565b859150845f52815f20905f915b8583106101b457505061010f9350820101866100ff565b8054838a01850152889450879390920191810161019d565b60ff19168582015261010f95151560051b85010192508891506100ff9050565b346100ac575f3660031901126100ac5760205f54604051908152f35b346100ac5760603660031901126100ac57600435602435604435918215158093036100ac575f81815260016020818152604090922001546001600160a01b03908116908115908115610374575b50801561036b575b610359578160449160405192838092632474521560e21b82527fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177560048301523360248301525afa90811561034e575f91610318575b5015610306577fe23e55f8eb3e58698118761977cfac508b1bc7b1be79e3a4230f4f29b522646690825f526003815260405f20845f52815260405f2060ff1981541660ff87161790556040519485523394a4005b60405163610a818f60e01b8152600490fd5b90508181813d8311610347575b61032f818361091b565b810103126100ac575180151581036100ac57856102b2565b503d610325565b6040513d5f823e3d90fd5b604051630f95018760e01b8152600490fd5b5083831461025d565b9050845f52600160405f200154161586610255565b346100ac5760603660031901126100ac576103a26108cd565b60243567ffffffffffffffff918282116100ac57366023830112156100ac57828260040135116100ac573660248360040135840101116100ac576044359183831683036100ac57806004013515610796576001600160a01b0382165f9081526002602052604090205461078457604051638da5cb5b60e01b81526020816004816001600160a01b0387165afa90811561034e575f91610765575b50336001600160a01b039091160361030657604051635100564360e11b81526020816004816001600160a01b0387165afa90811561034e575f91610736575b50306001600160a01b0390911603610359575f54925f19841461072257600184015f556040519060808201908282108783111761070e578187926040526104d06020601f19601f88600401350116018261091b565b60048501358082526024860160a08601375f60a0866004013586010152835260018060a01b0385166020840152336040840152166060820152600184015f52600160205260405f20815195865190811161070e5761052e82546108e3565b96601f88116106cd575b602097508790601f83116001146106665760029392915f918361065b575b50508160011b915f199060031b1c19161781555b6001810160018060a01b0388850151166bffffffffffffffffffffffff60a01b825416179055019060018060a01b03604082015116825491606067ffffffffffffffff60a01b91015160a01b169163ffffffff60e01b161717905560018060a01b0382165f52600284526001830160405f20556040519084825280600401358583015280600401356024820160408401375f60049091013582810160409081019290925233936001600160a01b03169260018601927ff3c4761cf062762a392e6423189e4916fa17cbdb040d23954e97b3c091f9878992601f01601f191682018290030190a4600160405191018152f35b015190508980610556565b90835f52885f20915f5b601f19851681106106b6575091839160019360029695601f1981161061069e575b505050811b01815561056a565b01515f1960f88460031b161c19169055898080610691565b91928a600181928685015181550194019201610670565b825f5260205f20601f830160051c810160208410610707575b601f8a0160051c820181106106fc575050610538565b5f81556001016106e6565b50806106e6565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b610758915060203d60201161075e575b610750818361091b565b81019061093d565b8561047b565b503d610746565b61077e915060203d60201161075e57610750818361091b565b8561043c565b604051630ea075bf60e21b8152600490fd5b604051632ef1310560e01b8152600490fd5b346100ac575f3660031901126100ac5760206040517fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217758152f35b346100ac5760403660031901126100ac576107fb6108cd565b6001600160a01b0360243581811692908390036100ac57165f526020906002825260405f2054905f5260405f205490801515918261088d575b8261086d575b8261084c575b50506040519015158152f35b9091505f526003825260405f20905f52815260ff60405f2054168280610840565b9150805f526003835260405f20825f52835260ff60405f2054169161083a565b8015159250610834565b346100ac5760403660031901126100ac576020906004355f526003825260405f206024355f52825260ff60405f20541615158152f35b600435906001600160a01b03821682036100ac57565b90600182811c92168015610911575b60208310146108fd57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916108f2565b90601f8019910116810190811067ffffffffffffffff82111761070e57604052565b908160209103126100ac57516001600160a01b03811681036100ac579056fea164736f6c6343000818000a";
+
+type TimeBankCommunitiesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TimeBankCommunitiesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TimeBankCommunities__factory extends ContractFactory {
+  constructor(...args: TimeBankCommunitiesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      TimeBankCommunities & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): TimeBankCommunities__factory {
+    return super.connect(runner) as TimeBankCommunities__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TimeBankCommunitiesInterface {
+    return new Interface(_abi) as TimeBankCommunitiesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TimeBankCommunities {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as TimeBankCommunities;
+  }
+}
@@ -0,0 +1,2704 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  TimeBankExtension,
+  TimeBankExtensionInterface,
+} from "../../contracts/TimeBankExtension";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "AlreadyProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRated",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ConflictOfInterest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DirectCallNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyDisplayName",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidApplicationState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAvailability",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCreditPolicy",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDecryption",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDisputeState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidExchangeState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidListingState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPledgeState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSchedule",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShare",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ListingExpired",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAssignedCoordinator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotDisputeParticipant",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotEnoughRatings",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotExchangeParty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotListingAuthor",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPledgeParty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRateable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatchError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferNotAllowed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "registry",
+        type: "address",
+      },
+    ],
+    name: "CommunityRegistrySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "fromBank",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "CommunityTransferReceived",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "toBank",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "CommunityTransferSent",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "CreditLimitCleared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "limit",
+        type: "uint32",
+      },
+    ],
+    name: "CreditLimitSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum TimeBankStorage.CreditPolicy",
+        name: "policy",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "expiryDays",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "decayBasisPoints",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "decayPeriodDays",
+        type: "uint32",
+      },
+    ],
+    name: "CreditPolicySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "periods",
+        type: "uint256",
+      },
+    ],
+    name: "CreditsDecayed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lastActivity",
+        type: "uint256",
+      },
+    ],
+    name: "CreditsExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalDeposited",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalWithdrawn",
+        type: "uint32",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "limit",
+        type: "uint32",
+      },
+    ],
+    name: "DefaultCreditLimitSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "assignedBy",
+        type: "address",
+      },
+    ],
+    name: "DisputeAssigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "note",
+        type: "string",
+      },
+    ],
+    name: "DisputeEvidenceAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "openedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "DisputeOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum TimeBankStorage.DisputeResolution",
+        name: "resolution",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "providerShareBasisPoints",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "refundedHours",
+        type: "bytes32",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "transferredHours",
+        type: "bytes32",
+      },
+    ],
+    name: "ExchangeAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ExchangeCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "ExchangeProposed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ExchangeRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+    ],
+    name: "ExchangeVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+    ],
+    name: "ListingClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "ListingCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ListingMatched",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum TimeBankStorage.ListingKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "availableFrom",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "availableUntil",
+        type: "uint64",
+      },
+    ],
+    name: "ListingPosted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "ListingReopened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "MembershipApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "MembershipRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "skills",
+        type: "string",
+      },
+    ],
+    name: "MembershipRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pendingOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "scheduledFor",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "lockedHours",
+        type: "bytes32",
+      },
+    ],
+    name: "PledgeCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "refundedBy",
+        type: "address",
+      },
+    ],
+    name: "PledgeRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+    ],
+    name: "PledgeReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ratingCount",
+        type: "uint32",
+      },
+    ],
+    name: "RatingRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ratingSum",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ratingCount",
+        type: "uint32",
+      },
+    ],
+    name: "RatingRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "RatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "serviceTypes",
+        type: "string[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "totals",
+        type: "uint32[]",
+      },
+    ],
+    name: "ServiceTotalsDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "depositor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "TimeDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "withdrawer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "TimeWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "COORDINATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BASIS_POINTS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SERVICE_TYPES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MEMBER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATINGS_FOR_REVEAL",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OTHER_SERVICE_TYPE",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "note",
+        type: "string",
+      },
+    ],
+    name: "addDisputeEvidence",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "adjustDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "applications",
+    outputs: [
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "skills",
+        type: "string",
+      },
+      {
+        internalType: "enum TimeBankStorage.ApplicationStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "rejectionReason",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+    ],
+    name: "assignDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceSettledAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelPledge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "communityRegistry",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+    ],
+    name: "confirmPledge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "creditLimitOf",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "creditPolicy",
+    outputs: [
+      {
+        internalType: "enum TimeBankStorage.CreditPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "creditPolicyUpdatedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decayBasisPoints",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decayPeriodDays",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultCreditLimit",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "disputes",
+    outputs: [
+      {
+        internalType: "enum TimeBankStorage.DisputeStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "openedBy",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+      {
+        internalType: "enum TimeBankStorage.DisputeResolution",
+        name: "resolution",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "exchangeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "exchangeOfRecord",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "exchangeVerifier",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "exchanges",
+    outputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "enum TimeBankStorage.ExchangeStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "expiryDays",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasCustomCreditLimit",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchClosed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isRecordRated",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "listingCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "listingOfExchange",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "listings",
+    outputs: [
+      {
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        internalType: "enum TimeBankStorage.ListingKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "availableFrom",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "availableUntil",
+        type: "uint64",
+      },
+      {
+        internalType: "enum TimeBankStorage.ListingStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "openDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pledgeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "scheduledFor",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    name: "pledgeHours",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pledges",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "lockedHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "scheduledFor",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "enum TimeBankStorage.PledgeStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "rateRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "ratingCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "ratingRevealCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ratingRevealContexts",
+    outputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "ratingCount",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "receiveCommunityTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recordCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestRatingReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "revealedRatingCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "revealedRatingSum",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "registry",
+        type: "address",
+      },
+    ],
+    name: "setCommunityRegistry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16",
+        name: "providerShareBasisPoints",
+        type: "uint16",
+      },
+    ],
+    name: "splitDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "toBank",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "transferToCommunity",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "upholdDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "voidDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0806040523461008c573060805261442c908161009182396080518181816103740152818161071601528181610834015281816109dc01528181610f4b015281816112a80152818161153d015281816117c201528181611b39015281816120ef015281816123f6015281816125c701528181612a0601528181612bd301528181612ec10152612fb70152f35b5f80fdfe6080806040526004361015610012575f80fd5b5f905f3560e01c9081630a763da11461306757508063168b8e9a14612f975780631f0a9e0714612f7157806321fe98a514612ea55780632404165e14612e675780632839fc2914612de15780632bf39ced14612da3578063309f655514612d7d57806336f691c414612bb7578063370fc41714612b685780634121823e14612b30578063423c8ad1146129e65780634a9a75aa146129b55780634f7173c81461297757806350e0be2e146125aa578063564a565d1461253f57806359f695d2146123d45780635a94a0791461239b5780635c975abb1461237857806368972e501461235a5780636a8b0040146123305780636b366cb5146122f55780636e1d616e146122ba57806375b238fc146122925780637c3bf42d146121f157806389509c2d146120cf5780638da5cb5b146120a8578063900407bc1461208a57806391d148541461200357806392bf4d3314611fdf57806394e113ea146107ec578063a10f469e14611fa4578063a200ac8614611f7b578063a436547614611f42578063a9b07c2614611f24578063ac12408114611e7f578063acf0fdea14611ade578063ad95ea4314611ab4578063b65e894114611a6d578063b8221bc414611a4f578063ba3c7262146117a5578063bb0e4ea214611789578063bf63778814611755578063c147eddc14611726578063c6d6c18314611708578063ccb75402146116d5578063d13c0c9b146114ea578063d228460814611278578063d2e3dd7014611239578063da763ea41461121d578063de74e57b14611117578063e0e965e714610f23578063e30c397814610efa578063e8947ab014610955578063eab1de2914610937578063ed104a0414610912578063f3ed33321461080e578063f4ea93d8146107f1578063f904c2e4146107ec578063f9eb780a146106fa578063faaddb94146106d0578063fb623421146103045763fc149a4f146102d3575f80fd5b346103015760203660031901126103015760ff60406020926004358152600884522054166040519015158152f35b80fd5b50346103015760a03660031901126103015761031e6130e4565b6103266130fa565b6001600160401b0391906064358381116106cc57610348903690600401613081565b92909360843590811161061357610363903690600401613081565b909290916001600160a01b039190307f00000000000000000000000000000000000000000000000000000000000000008416146106ba576103a2613c50565b6103aa6135c7565b6103b333613718565b8281169230841480156106a9575b6106975760075489526020976008895260ff60408b205416610685576103f66103fe918b996103ef3361377e565b3691613316565b604435613617565b92338852600a895260408820546104158186613cb9565b908a61041f613dee565b6064865f805160206143a08339815191525416988d6040519a8b948593637702dcff60e01b8552896004860152602485015260448401525af195861561067a578a9661063a575b5097866005936104c560408d9e959d6104a8869f8e9f61049d8e6104a39261048e308361424a565b610498338361424a565b613d3d565b33613dc1565b614353565b9182916104b5308461424a565b338152602b89522055339061424a565b6007548d52601184528c60406104de8a82842054613982565b916104e9308461424a565b60075481526011875220557f9045a071e200db0eaa56980c640184597ff747b6adb24402902bd1973febe3a8886105216009546133f8565b8060095561053f8960075495169e8f9760405194859433988661349d565b0390a4338a52524260408920555f805160206143c08339815191525416803b1561063657604051630f8e573b60e21b8152600481018490526001600160a01b0392909216602483015287908290604490829084905af190811561062b578791610617575b5050813b15610613578580946105e76040519788968795869463d13c0c9b60e01b86523360048701526024860152604485015260806064850152608484019161339a565b03925af18015610608576105f85750f35b61060190613148565b6103015780f35b6040513d84823e3d90fd5b8580fd5b61062090613148565b61061357855f6105a3565b6040513d89823e3d90fd5b8780fd5b8098999a508b80939c9297503d8311610673575b6106588183613191565b8101031261066f57955195988a9897969486610466565b5f80fd5b503d61064e565b6040513d8c823e3d90fd5b60405163366a630760e21b8152600490fd5b604051638cd22d1960e01b8152600490fd5b506106b48230613b2a565b156103c1565b604051633921c70360e01b8152600490fd5b8480fd5b5034610301578060031936011261030157602060ff600b5416604051906106f6816132e7565b8152f35b503461030157610709366132b8565b91906001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba576107446135c7565b61074d83613c2d565b90838652601560205260408620918183541633141592836107db575b50826107c9575b50506107b7576107b17fa713f428390cd8867db7277aff78f1b703604a814c000d5e8c7609bb33011e1c91604051918291602083523396602084019161339a565b0390a380f35b604051630308577b60e11b8152600490fd5b60019192500154163314155f80610770565b60010154821633141592505f610769565b6132fb565b503461030157806003193601126103015760206040516127108152f35b5034610301576020366003190112610301576108286130e4565b6001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba57335f9081527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc560205260409020545f805160206144008339815191529060ff168015610906575b156108e8575016806bffffffffffffffffffffffff60a01b602c541617602c557f3f9ba1ccac4f9108cbe01337fca9145892df0c4c5657d454325f44ad27115f388280a280f35b604490604051906301d4003760e61b82526004820152336024820152fd5b50825f541633146108a1565b5034610301578060031936011261030157602061ffff600b5460281c16604051908152f35b50346103015780600319360112610301576020600c54604051908152f35b50346103015760c03660031901126103015761096f6130e4565b6044356001600160401b038111610ef65761098e903690600401613081565b92906064356001600160401b038111610ef6576109af903690600401613081565b9190608435916001600160401b038316830361066f5760a435966001600160401b038816880361066f57307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316146106ba57610a11613c50565b610a196135c7565b610a2233613718565b6001600160a01b038716158015610ee4575b610ed257426001600160401b03851611801590610eb6575b610ea457610a6991610a61916103ef3361377e565b602435613617565b338552600a6020526040852054602a60205260408620545f602063ffffffff610a91336133ba565b16604460018060a01b035f805160206143a08339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610e99575f91610e67575b506020610af183610aeb8482613cb9565b93613d3d565b6064610afb613dee565b5f805160206143a083398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182908c906001600160a01b03165af1908115610e28578891610e33575b50610b59610b5f9184613982565b84613cb9565b916020610b6a613dee565b606460018060a01b035f805160206143a08339815191525416968b6040519889948593637702dcff60e01b85528a6004860152602485015260448401525af1938415610e28578894610dec575b50916104a3610c01610c0793610bfb610c2696610bd4308a61424a565b610bde338a61424a565b610bf561049d610bee838c613e93565b8093613d3d565b88613d3d565b90613982565b33614226565b610c11308261424a565b338752602b602052806040882055339061424a565b610c30868261424a565b610c3b6025546133f8565b95866025556040519160e08301938385106001600160401b03861117610dd857896001600160401b03610da1838960209e8e858f8f9c610d3a849f927feb2ac84368c91a5383939dd2136b975a1191ec326bd857b8154c59231d603b399f8f8f91879f610cc9906040926004998452338952602089019460018060a01b031685528389019586523691613316565b606087019081529a88166080870190815299881660a08701908152600160c088018181529a8652602660205291909420955186546001600160a01b03199081166001600160a01b039283161788559251918701805490931691161790555160028401559651959695600383016134c0565b019351166fffffffffffffffff00000000000000008454935160401b169151610d62816132f1565b610d6b816132f1565b60ff60801b9060801b169270ffffffffffffffffffffffffffffffffff191617171790556040519a60808c5260808c019161339a565b9716888c015216604087015260608601526001600160a01b031693339381900390a433815260058352604042912055604051908152f35b634e487b7160e01b5f52604160045260245ffd5b91929093506020823d602011610e20575b81610e0a60209383613191565b8101031261066f579051929091906104a3610bb7565b3d9150610dfd565b6040513d8a823e3d90fd5b90506020813d602011610e5f575b81610e4e60209383613191565b8101031261066f5751610b59610b4b565b3d9150610e41565b90506020813d602011610e91575b81610e8260209383613191565b8101031261066f57515f610ada565b3d9150610e75565b6040513d5f823e3d90fd5b604051631b742d9d60e31b8152600490fd5b506001600160401b0384166001600160401b0389161115610a4c565b604051633b136dc160e11b8152600490fd5b506001600160a01b0387163314610a34565b8280fd5b50346103015780600319360112610301576001546040516001600160a01b039091168152602090f35b503461030157604036600319011261030157600435610f406130fa565b6001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba57610f796135c7565b610f8233613406565b1580611107575b6110c957610f9683613c2d565b908083169233841415806110b9575b61108e57610fb281613406565b15908161107d575b5061103e578385526015602052604085209080825416841491821561102e575b505061101c5760010180546001600160a01b0319168217905533917f4379d695fb397ad387c2b77f3b54ee7136fc4f30764b1e302c8d21cde6f5363f8480a480f35b604051638d803ad960e01b8152600490fd5b6001015416831490505f80610fda565b6040516301d4003760e61b81527f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc600482015260248101849052604490fd5b611087915061344d565b155f610fba565b6040516301d4003760e61b81525f805160206144008339815191526004820152336024820152604490fd5b506110c33361344d565b15610fa5565b6040516301d4003760e61b81527f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc6004820152336024820152604490fd5b506111113361344d565b15610f89565b5034610301576020366003190112610301576004358152601a602052604081209081549160ff8360a01c1661114e600183016131b2565b9161115b600282016131b2565b94611168600383016131b2565b956004830154946001600160401b0392600560ff8860801c1695015495604051986101209260018060a01b03168a5260028210156112095750926111c3899a936111d1936111df9660208d01528060408d01528b0190613275565b9089820360608b0152613275565b908782036080890152613275565b9381811660a087015260401c1660c08501526111fa8161329a565b60e08401526101008301520390f35b634e487b7160e01b81526021600452602490fd5b5034610301578060031936011261030157602060405160088152f35b50346103015760203660031901126103015760209060ff906040906001600160a01b036112646130e4565b168152602984522054166040519015158152f35b5034610301576040366003190112610301576004356024359061ffff8216809203610ef6576001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba576112d66135c7565b6112df826135e5565b612710928381116114d857828552602093601785528461130b8361130660408a20546142b1565b613bac565b9182156114c8575b6064855f805160206143a08339815191525416935f6040519586948593635a53accb60e01b855260048501526024840152600160f81b60448401525af1908115610e99575f91611499575b5061141d92611452611371600193614304565b865f526018885260405f20926015895260405f2091611392828454166138c4565b61144a8261142a8c898701946113aa848754166138c4565b8d5f5260178252600a6113cb6113c560405f20548094613e93565b83613d3d565b92858a54165f52526113e260405f20548093613e93565b9c8d926113ef308561424a565b6113fc868b54168561424a565b611409868954168561424a565b61141784878c541692613d3d565b90613dc1565b6104988285885416613932565b94611435308761424a565b8b5f5260178d528560405f205554168461424a565b54169061424a565b805460ff1916600217815501805460ff60a01b1916600360a01b17905560408051600381529485019190915283015233915f805160206143e083398151915290606090a380f35b90508481813d83116114c1575b6114b08183613191565b8101031261066f575161141d61135e565b503d6114a6565b91506114d2613e40565b91611313565b60405163040357dd60e21b8152600490fd5b5034610301576080366003190112610301576115046130e4565b61150c6130fa565b906044356064356001600160401b0381116106cc5761152f903690600401613081565b90926001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba5761156b6135c7565b6115753033613b2a565b15610697578186165f8181527fffc59653b721e824589ac88bc65eee28eeaa6ba28646467f2b90c021e548765260205260409020549096907f829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d46369060ff1680156116ce575b156116b057506007548852600860205260ff604089205416610685577f1c3935ddd28d58b42138c4f5c017210b8b124b8410f17612a5470a1157fc648c93611641866116aa93611629308361424a565b611633818361424a565b61163c8161377e565b613932565b600754895260106020526116598660408b2054613982565b611663308261424a565b6007548a52601060205260408a20556116868661168136848b613316565b613a35565b6116916009546133f8565b968760095560075496604051958695169833988661349d565b0390a480f35b60449088604051916301d4003760e61b835260048301526024820152fd5b505f6115d9565b503461030157602036600319011261030157602090600435815260168252604060018060a01b0391205416604051908152f35b50346103015780600319360112610301576020602554604051908152f35b50346103015760203660031901126103015760ff60406020926004358152601f84522054166040519015158152f35b5034610301578060031936011261030157611785611771613379565b604051918291602083526020830190613275565b0390f35b5034610301578060031936011261030157602060405160018152f35b5034610301576117b4366130ae565b92916001600160a01b0391307f00000000000000000000000000000000000000000000000000000000000000008416146106ba576117f06135c7565b838652602091601e835260408720548015611a3d578752601583526040872095846001880154163303611a2b57858852601f845260ff604089205416611a19576118459261183f913691613316565b90613617565b8015611a0b575b5f805160206143a0833981519152918383541660405192630d8c635960e21b845260048401526001602484015281836064818b600160f81b958660448401525af1928315610e285788936119dc575b508483156119c5575b6064908394955416945f60405196879485936304559f7160e01b855260048501526005602485015260448401525af1918215610e99575f92611994575b50611911602192858852601f835260408820600160ff198254161790558487541688528280526040882054613982565b61191b308261424a565b83865416875281805260408720558285541686525260408420805463ffffffff80821681811461198057600101169063ffffffff191617905533925416907f14a989959addafebf3b996ba0c19032b64dc891cc8c9f8cc996c034b7111dbfb8480a480f35b634e487b7160e01b88526011600452602488fd5b91508082813d83116119be575b6119ab8183613191565b8101031261066f579051906119116118e1565b503d6119a1565b8293506064906119d3613dee565b945090506118a4565b9092508181813d8311611a04575b6119f48183613191565b8101031261066f5751915f61189b565b503d6119ea565b50611a14613dee565b61184c565b604051630894b2e960e31b8152600490fd5b604051634ee8bca560e01b8152600490fd5b604051630a16416960e31b8152600490fd5b50346103015780600319360112610301576020600454604051908152f35b50346103015760203660031901126103015760406060916004358152601d6020522080549060ff600260018301549201541690604051928352602083015215156040820152f35b50346103015760203660031901126103015760406020916004358152601b83522054604051908152f35b503461030157600319606036820112611e7b576004356001600160401b036024358181116106cc57611b1490369060040161335b565b906044359081116106cc57611b2d90369060040161335b565b6001600160a01b0393307f00000000000000000000000000000000000000000000000000000000000000008616146106ba57838652602092602484526040872092835487811615611e695760c01c60ff16611e57578588527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808652604089205415611e4557868952855260408820926040518085888297549384815201908c52888c20928c5b8a828210611e2f57505050611beb92500385613191565b82519384870194858811611e1b57604001809511611e075790869160405180865197858801988087840190611c20918c613254565b82019086820152038481018252604001611c3a9082613191565b8b8b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541692604051968795869485936378542ead60e01b8552600485016060905260648501611c8991613f17565b82858203016024860152611c9c91613275565b90838203016044840152611caf91613275565b03925af1908115610e28578891611dda575b5015611dc857604051857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8980a284825103611db95750808491518101031261061357519363ffffffff808616809603611db5577f587be745b3e6e99abe4b74713957883e3560018c40f02cb2fe96cbffea3ae02493836040945484600160c01b60ff60c01b1983161791828455168a52602383528380878c2054169160a01c1611611d7e575b549184519788528260a01c16908701521693a380f35b6022825284892063ffffffff199089828254161790558154908582168b526023845284878c209260a01c1690825416179055611d68565b8680fd5b6325c4024f60e11b8152600490fd5b60405163cf6c44e960e01b8152600490fd5b611dfa9150853d8711611e00575b611df28183613191565b810190613b12565b5f611cc1565b503d611de8565b634e487b7160e01b8a52601160045260248afd5b634e487b7160e01b8b52601160045260248bfd5b855484526001958601958a955093019201611bd4565b60405163d66ca67560e01b8152600490fd5b604051632b5119b160e01b8152600490fd5b6040516325c4024f60e11b8152600490fd5b5080fd5b503461030157602036600319011261030157604090600435815260266020522060018060a01b0380825416906001830154169160028101546004611ec5600384016131b2565b92015491611f006001600160401b039160ff8560801c169360405197889788526020880152604087015260e0606087015260e0860190613275565b92818116608086015260401c1660a0840152611f1b816132f1565b60c08301520390f35b50346103015780600319360112610301576020601954604051908152f35b5034610301576020366003190112610301576020906040906001600160a01b03611f6a6130e4565b168152600583522054604051908152f35b5034610301578060031936011261030157602c546040516001600160a01b039091168152602090f35b503461030157806003193601126103015760206040517f829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d46368152f35b5034610301578060031936011261030157602063ffffffff60275416604051908152f35b50346103015760403660031901126103015760206004356120226130fa565b5f8281526002845260408082206001600160a01b0393841680845290865291205460ff1692831561205b575b5050506040519015158152f35b5f80516020614400833981519152149250908261207d575b505082808061204e565b5f54161490508280612073565b50346103015780600319360112610301576020600954604051908152f35b5034610301578060031936011261030157546040516001600160a01b039091168152602090f35b5034610301576020366003190112610301576001600160a01b03600435307f00000000000000000000000000000000000000000000000000000000000000008316146106ba5761211d6135c7565b61212681613743565b9180600184015416331480156121ce575b80156121b5575b156121a35761214f818454166138c4565b61216181845416600285015490613932565b60048301805460ff60801b1916600360801b1790559154339216907f71fb7e03c3a816f24a456b8c577c37a39e1beda6e8933b834d02d3aeaa652b108480a480f35b604051637108d5c360e01b8152600490fd5b506001600160401b03600484015460401c16421161213e565b50808354163314801561213757506001600160401b036004840154164210612137565b503461030157602036600319011261030157612268906040906001600160a01b0361221a6130e4565b168152601c6020522061178561222f826131b2565b9161223c600182016131b2565b612276612253600360ff60028601541694016131b2565b91604051968796608088526080880190613275565b908682036020880152613275565b91612280816132f1565b60408501528382036060850152613275565b503461030157806003193601126103015760206040515f805160206144008339815191528152f35b503461030157806003193601126103015760206040517f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f58152f35b503461030157806003193601126103015760206040517f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc8152f35b50346103015760203660031901126103015760406020916004358152601e83522054604051908152f35b50346103015780600319360112610301576020601454604051908152f35b5034610301578060031936011261030157602060ff600354166040519015158152f35b5034610301576020366003190112610301576020906040906001600160a01b036123c36130e4565b168152600683522054604051908152f35b503461030157602080600319360112611e7b576001600160a01b0390600435307f00000000000000000000000000000000000000000000000000000000000000008416146106ba576124246135c7565b61242d81613743565b918383541633036121a357600793845486526008825260ff604087205416610685577f755084f25854c316eafc4cb3df6808b98075a1b398e39576fcfaff44bc81159f9160409160018601906124858183541661377e565b6125038183541661249c60028a0191825490613932565b89548b52601085526124b3868c2054825490613982565b6124bd308261424a565b8a548c5260108652868c205589548b52601185526124e0868c2054825490613982565b6124ea308261424a565b8a548c5260118652868c20555461168160038a016131b2565b60048701805460ff60801b1916600160811b1790556009548190612526906133f8565b928360095554169654169654918351928352820152a480f35b50346103015760203660031901126103015760406080916004358152601860205220805460ff8116916001808060a01b039101548160ff8260a01c169360405195612589816132e7565b865260081c1660208501521660408301526125a38161329a565b6060820152f35b503461066f575f36600319011261066f576001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba576125f56135c7565b335f5260206006815261260f60405f20546004549061370b565b421061296557335f526021815263ffffffff8060405f205416906023835260058160405f205416018181116129515716811061293f576040519361265285613176565b600190600186528386019084368337335f5284805260405f205487511561292b5782527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00805493825f805160206143c0833981519152541698893b1561066f57604051637d6e912360e11b81526004810189905260249a81806126d78e820186613f17565b03815a5f948591f18015610e9957612918575b50837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561291457604051633263b83b60e01b8152600481018890526060818d0152908a9082908183816127456064820189613f17565b6356787ef560e11b604483015203925af1801561067a57908a916128fc575b508690527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180895260408a20546128ea57868a528852604089209051906001600160401b03958683116128d757600160401b83116128d75781548383558084106128b0575b50908a52888a208a5b83811061289f5750505050506127e881546133f8565b905560405191606083019081118382101761288c579660069697604052338352858301918583526040840191898352858a5287526040892093511683549263ffffffff60a01b905160a01b169160ff60c01b9051151560c01b169266ffffffffffffff60c81b1617171790556040519182527f971d36640a9ef360d3452ca068fdaec9c342eab8cbae1410dd6c39555724803b833393a33383525242604082205580f35b87634e487b7160e01b5f5260416004525ffd5b825182820155918a019184016127d2565b84848c8e8681522092830192015b8281106128cc5750506127c9565b5f81550185906128be565b634e487b7160e01b8b5260416004528b8bfd5b604051633f06d22b60e01b8152600490fd5b61290590613148565b61291057885f612764565b8880fd5b8980fd5b612923919950613148565b5f975f6126ea565b634e487b7160e01b5f52603260045260245ffd5b604051631227865760e01b8152600490fd5b634e487b7160e01b5f52601160045260245ffd5b60405163aa9a98df60e01b8152600490fd5b3461066f57602036600319011261066f576001600160a01b036129986130e4565b165f526022602052602063ffffffff60405f205416604051908152f35b3461066f57602036600319011261066f5760206129d86129d36130e4565b6133ba565b63ffffffff60405191168152f35b3461066f5760208060031936011261066f576004356001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba57600161141d91612a3a6135c7565b612a43846135e5565b835f5260178552612ae760405f20546018875260405f20926015885260405f2091612a70828454166138c4565b61144a82612ac78b89870194612a88848754166138c4565b8c5f5260178252600a612aa36113c560405f20548094613e93565b92858a54165f5252612aba60405f20548093613e93565b9b8c926113ef308561424a565b94612ad2308761424a565b8a5f5260178c528560405f205554168461424a565b805460ff1916600217815501805460ff60a01b1916600160a01b17905560408051600181526127109481019490945283015233915f805160206143e083398151915290606090a3005b3461066f57602036600319011261066f576001600160a01b03612b516130e4565b165f52600d602052602060405f2054604051908152f35b3461066f57602036600319011261066f576004355f526024602052606060405f205460ff6040519160018060a01b038116835263ffffffff8160a01c16602084015260c01c1615156040820152f35b3461066f57612bc5366132b8565b91906001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba57612c016135c7565b825f526020936015855260405f20600260ff600483015416612c228161329a565b03612d6b5783808254163314159182612d59575b5050611a2b57835f526018855260ff60405f205416612c54816132e7565b612d475760405160808101938185106001600160401b03861117610dd8577f9b58afa035c5fa58f85c5a54b65bd3562d5aa7679e973bc1404fe25e8babab21946040526001825260ff87830191338352600160408501945f865260608101945f86528a5f5260188c5260405f20915190612ccd826132e7565b612cd6826132e7565b8254906101008560a81b03905160081b16916affffffffffffffffffffff60a81b96879116911617178155019351169083549251612d138161329a565b612d1c8161329a565b60ff60a01b9060a01b16921617179055612d42604051928392878452339784019161339a565b0390a3005b6040516374e9bddf60e11b8152600490fd5b60019192500154163314158387612c36565b604051630f931b6b60e31b8152600490fd5b3461066f575f36600319011261066f57602063ffffffff600b5460081c16604051908152f35b3461066f57602036600319011261066f576001600160a01b03612dc46130e4565b165f526023602052602063ffffffff60405f205416604051908152f35b3461066f57602036600319011261066f576004355f52601560205260405f2060018060a01b03808254169060018301541691612e5460028201549160ff6004612e2c600384016131b2565b920154169260405195869586526020860152604085015260a0606085015260a0840190613275565b90612e5e8161329a565b60808301520390f35b3461066f57602036600319011261066f576001600160a01b03612e886130e4565b165f526021602052602063ffffffff60405f205416604051908152f35b3461066f57612eb3366130ae565b6001600160a01b03939291307f00000000000000000000000000000000000000000000000000000000000000008616146106ba5761141d9261183f612f0692600194612efd6135c7565b6103ef886135e5565b93835f52612f2e6020956018875260405f20926015885260405f2091612a70828454166138c4565b600260ff1982541617815501600160a11b60ff60a01b198254161790555f604051936002855284015260408301525f805160206143e083398151915260603393a3005b3461066f575f36600319011261066f57602063ffffffff600b5460381c16604051908152f35b3461066f5760208060031936011261066f576004356001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba57600161141d91612feb6135c7565b612ff4846135e5565b613020612fff613dee565b855f526018875260405f20926015885260405f2091612a70828454166138c4565b805460ff1916600217815501805460ff60a01b1916600160a21b17905560408051600481525f9481019490945283015233915f805160206143e083398151915290606090a3005b3461066f575f36600319011261066f576020906007548152f35b9181601f8401121561066f578235916001600160401b03831161066f576020838186019501011161066f57565b606060031982011261066f576004359160243591604435906001600160401b03821161066f576130e091600401613081565b9091565b600435906001600160a01b038216820361066f57565b602435906001600160a01b038216820361066f57565b90600182811c9216801561313e575b602083101461312a57565b634e487b7160e01b5f52602260045260245ffd5b91607f169161311f565b6001600160401b038111610dd857604052565b60a081019081106001600160401b03821117610dd857604052565b604081019081106001600160401b03821117610dd857604052565b90601f801991011681019081106001600160401b03821117610dd857604052565b9060405191825f82546131c481613110565b908184526020946001916001811690815f1461323257506001146131f4575b5050506131f292500383613191565b565b5f90815285812095935091905b81831061321a5750506131f293508201015f80806131e3565b85548884018501529485019487945091830191613201565b925050506131f294925060ff191682840152151560051b8201015f80806131e3565b5f5b8381106132655750505f910152565b8181015183820152602001613256565b9060209161328e81518092818552858086019101613254565b601f01601f1916010190565b600511156132a457565b634e487b7160e01b5f52602160045260245ffd5b90604060031983011261066f5760043591602435906001600160401b03821161066f576130e091600401613081565b600311156132a457565b600411156132a457565b3461066f575f36600319011261066f57602060405160058152f35b9291926001600160401b038211610dd8576040519161333f601f8201601f191660200184613191565b82948184528183011161066f578281602093845f960137010152565b9080601f8301121561066f5781602061337693359101613316565b90565b6040519061338682613176565b600582526427ba3432b960d91b6020830152565b908060209392818452848401375f828201840152601f01601f1916010190565b6001600160a01b03165f9081526029602052604090205460ff16156133ec57602860205263ffffffff60405f20541690565b63ffffffff6027541690565b5f1981146129515760010190565b6001600160a01b03165f9081527fbc6350e876def78ede4f4adb4f384e8e4d279ac44761815b1f1e9a982ed1b3be602052604090205460ff1680156134485790565b505f90565b6001600160a01b039081165f8181527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc5602052604090205460ff1691821561349457505090565b5f541614919050565b90926080926133769694835260208301526040820152816060820152019161339a565b91909182516001600160401b038111610dd8576134dd8254613110565b601f8111613582575b50602080601f83116001146135215750819293945f92613516575b50508160011b915f199060031b1c1916179055565b015190505f80613501565b90601f19831695845f5260205f20925f905b88821061356a57505083600195969710613552575b505050811b019055565b01515f1960f88460031b161c191690555f8080613548565b80600185968294968601518155019501930190613533565b825f5260205f20601f830160051c810191602084106135bd575b601f0160051c01905b8181106135b257506134e6565b5f81556001016135a5565b909150819061359c565b60ff600354166135d357565b604051633b3b4caf60e21b8152600490fd5b6001600160a01b03906001906135fa90613c2d565b015416330361360557565b6040516342cee62760e11b8152600490fd5b60206136679260018060a01b0392835f805160206143a08339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613275565b6004606483015203925af1918215610e99575f926136d7575b505f805160206143c08339815191525416803b1561066f57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610e99576136ce575090565b61337690613148565b9091506020813d602011613703575b816136f360209383613191565b8101031261066f5751905f613680565b3d91506136e6565b9190820180921161295157565b6001600160a01b03165f9081526005602052604090205460045461373b9161370b565b421061296557565b5f52602660205260405f2090600160ff600484015460801c16613765816132f1565b0361376c57565b60405163716d132760e01b8152600490fd5b60018060a01b03811690815f526020600d8152604091825f2054801580156138b5575b6138a757600d929161380b91600c54808210613833575b50600b54600c5487519163ffffffff9060ff81166137d58561315b565b6137de816132e7565b8452818160081c168885015261ffff8160281c168a85015260381c16606083015260808201524292613f4a565b600160ff600b541661381c816132e7565b0361382d575042935b5f52525f2055565b93613825565b8651613895926138428261315b565b600e5460ff8116613852816132e7565b835263ffffffff90818160081c168985015261ffff8160281c168b85015260381c166060830152600f54908160808401528181105f1461389f5750905b84613f4a565b50600c545f6137b8565b90509061388f565b5050600d90525f2042905550565b50600a8352835f2054156137a1565b60018060a01b03811690815f526020600d8152604091825f205480158015613923575b6138a757600d929161391a91600c548082106138335750600b54600c5487519163ffffffff9060ff81166137d58561315b565b935f52525f2055565b50600a8352835f2054156138e7565b6114176131f292610bfb60018060a01b038416805f52602a60205260405f20549061397061396a6139638487613e93565b8094613d3d565b87614226565b5f52600a60205260405f205492613d3d565b908115613a25575b8015613a13575b602090606460018060a01b035f805160206143a08339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b90506020813d602011613a0b575b816139ff60209383613191565b8101031261066f575190565b3d91506139f2565b506020613a1e613dee565b9050613991565b9050613a2f613dee565b9061398a565b9060075491825f5260209260128452604092835f20928051868201209360138752855f20855f528752855f2054918215613a96575b5050613a769250613982565b92613a81308561424a565b6007545f5260138152825f20915f52525f2055565b8154946007861015613add575b5082613a6a57600160401b851015610dd8576001850180835585101561292b57613a7694613ad6925f52885f20016134c0565b5f80613a6a565b9550509050613aea613379565b868151910120935f5260138652845f20845f528652845f205490613b0c613379565b5f613aa3565b9081602091031261066f5751801515810361066f5790565b602c546001600160a01b0390811680151593929084613b4b575b5050505090565b602093945090604491836040519687958694636c85cf6760e01b86521660048501521660248301525afa908115610e99575f91613b8d575b505f808080613b44565b613ba6915060203d602011611e0057611df28183613191565b5f613b83565b6001600160401b03916020918015613c1b575b5f805160206143a083398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610e99575f916139e4575090565b506064613c26613e40565b9050613bbf565b5f52601860205260405f2090600160ff835416613c49816132e7565b03612d4757565b335f9081527fffc59653b721e824589ac88bc65eee28eeaa6ba28646467f2b90c021e548765260205260409020547f829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d46369060ff168015613cb2575b156108e85750565b505f613caa565b908115613d2d575b8015613d1b575b602090606460018060a01b035f805160206143a08339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b506020613d26613dee565b9050613cc8565b9050613d37613dee565b90613cc1565b908115613db1575b8015613d9f575b602090606460018060a01b035f805160206143a08339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b506020613daa613dee565b9050613d4c565b9050613dbb613dee565b90613d45565b6001600160a01b0381165f908152600a602052604090208290556131f291613de9308261424a565b61424a565b5f805160206143a083398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610e99575f916139e4575090565b5f805160206143a083398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610e99575f916139e4575090565b908115613f07575b8015613ef5575b602090606460018060a01b035f805160206143a08339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b506020613f00613dee565b9050613ea2565b9050613f11613dee565b90613e9b565b9081518082526020808093019301915f5b828110613f36575050505090565b835185529381019392810192600101613f28565b91928151613f57816132e7565b613f60816132e7565b15801561421c575b61421557815191613f78836132e7565b613f81836132e7565b60018093146141925763ffffffff6060820151166201518091828202938285048414831517156129515787810390811161295157841561417e57849004958615958615613fe2575b505050840202928304141715612951576133769161370b565b80620f4240935f925b614111575b50505061401c5f60018060a01b0393848416948583526020938492600a845261130660408620546142b1565b9081156140fd575b6064905f805160206143a08339815191525416916040519485938492635a53accb60e01b84526004840152620f42406024840152600160f81b60448401525af1908115610e99575f916140b0575b507f4e83af82c5a648a31defb3f858ff57dd122c5ea32a02125a3bbbe9a0988789c7926114176140a192614304565b604051888152a25f8080613fc9565b90508181813d83116140f6575b6140c78183613191565b8101031261066f57517f4e83af82c5a648a31defb3f858ff57dd122c5ea32a02125a3bbbe9a0988789c7614072565b503d6140bd565b90506064614109613e40565b919050614024565b9091938985108061416c575b1561416657604082015161ffff916127109183168203838111612951576001600160401b03938491169116029182169182036129515761415e9104946133f8565b919081613feb565b93613ff0565b506001600160401b038116151561411d565b634e487b7160e01b5f52601260045260245ffd5b63ffffffff919493925060200151166201518090818102918183041490151715612951576141c0908361370b565b831061420f5760207f8ce2a1dde142992e5aa366c9e887bf243bb2aa949347eb228b6d977cc13030d8916141fb6141f5613dee565b82613dc1565b6040519384526001600160a01b031692a290565b50905090565b9250505090565b5080841015613f68565b6001600160a01b0381165f908152602a602052604090208290556131f291613de930825b5f805160206143c0833981519152546001600160a01b031691823b1561066f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610e99576142a85750565b6131f290613148565b5f805160206143a0833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610e99575f916139e4575090565b60205f91604460018060a01b035f805160206143a083398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af1908115610e99575f916139e4575090565b5f805160206143a083398151915254604051630f51ccfb60e41b81526004810192909252602090829060249082905f906001600160a01b03165af1908115610e99575f916139e457509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970065383f22c3841c720465846fc44cb82aa83b23e9466f6d6959e43903f77cb340a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c6343000818000a";
+
+type TimeBankExtensionConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TimeBankExtensionConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TimeBankExtension__factory extends ContractFactory {
+  constructor(...args: TimeBankExtensionConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      TimeBankExtension & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): TimeBankExtension__factory {
+    return super.connect(runner) as TimeBankExtension__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TimeBankExtensionInterface {
+    return new Interface(_abi) as TimeBankExtensionInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TimeBankExtension {
+    return new Contract(address, _abi, runner) as unknown as TimeBankExtension;
+  }
+}
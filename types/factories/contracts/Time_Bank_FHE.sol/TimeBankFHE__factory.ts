@@ -0,0 +1,3442 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  TimeBankFHE,
+  TimeBankFHEInterface,
+} from "../../../contracts/Time_Bank_FHE.sol/TimeBankFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRated",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ConflictOfInterest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyDisplayName",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidApplicationState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAvailability",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCreditPolicy",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDecryption",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDisputeState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidExchangeState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidListingState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPledgeState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSchedule",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShare",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ListingExpired",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAssignedCoordinator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotDisputeParticipant",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotEnoughRatings",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotExchangeParty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotListingAuthor",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPledgeParty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRateable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatchError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferNotAllowed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "registry",
+        type: "address",
+      },
+    ],
+    name: "CommunityRegistrySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "fromBank",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "CommunityTransferReceived",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "toBank",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "CommunityTransferSent",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "CreditLimitCleared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "limit",
+        type: "uint32",
+      },
+    ],
+    name: "CreditLimitSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum TimeBankStorage.CreditPolicy",
+        name: "policy",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "expiryDays",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "decayBasisPoints",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "decayPeriodDays",
+        type: "uint32",
+      },
+    ],
+    name: "CreditPolicySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "periods",
+        type: "uint256",
+      },
+    ],
+    name: "CreditsDecayed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lastActivity",
+        type: "uint256",
+      },
+    ],
+    name: "CreditsExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalDeposited",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalWithdrawn",
+        type: "uint32",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "limit",
+        type: "uint32",
+      },
+    ],
+    name: "DefaultCreditLimitSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "assignedBy",
+        type: "address",
+      },
+    ],
+    name: "DisputeAssigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "note",
+        type: "string",
+      },
+    ],
+    name: "DisputeEvidenceAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "openedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "DisputeOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum TimeBankStorage.DisputeResolution",
+        name: "resolution",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "providerShareBasisPoints",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "refundedHours",
+        type: "bytes32",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "transferredHours",
+        type: "bytes32",
+      },
+    ],
+    name: "ExchangeAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ExchangeCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "ExchangeProposed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ExchangeRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+    ],
+    name: "ExchangeVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+    ],
+    name: "ListingClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "ListingCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ListingMatched",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum TimeBankStorage.ListingKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "availableFrom",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "availableUntil",
+        type: "uint64",
+      },
+    ],
+    name: "ListingPosted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "ListingReopened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "MembershipApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "MembershipRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "skills",
+        type: "string",
+      },
+    ],
+    name: "MembershipRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pendingOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "scheduledFor",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "lockedHours",
+        type: "bytes32",
+      },
+    ],
+    name: "PledgeCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "refundedBy",
+        type: "address",
+      },
+    ],
+    name: "PledgeRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pledgeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+    ],
+    name: "PledgeReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ratingCount",
+        type: "uint32",
+      },
+    ],
+    name: "RatingRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ratingSum",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ratingCount",
+        type: "uint32",
+      },
+    ],
+    name: "RatingRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "RatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "serviceTypes",
+        type: "string[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "totals",
+        type: "uint32[]",
+      },
+    ],
+    name: "ServiceTotalsDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "depositor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "TimeDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "withdrawer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "TimeWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "COORDINATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BASIS_POINTS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SERVICE_TYPES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MEMBER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATINGS_FOR_REVEAL",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OTHER_SERVICE_TYPE",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "acceptExchange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "addDisputeEvidence",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "adjustDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "applications",
+    outputs: [
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "skills",
+        type: "string",
+      },
+      {
+        internalType: "enum TimeBankStorage.ApplicationStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "rejectionReason",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "skills",
+        type: "string",
+      },
+    ],
+    name: "applyForMembership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+    ],
+    name: "approveApplication",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "assignDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceSettledAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelExchange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelOwnershipTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cancelPledge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "clearCreditLimit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeCurrentBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+    ],
+    name: "closeListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "communityRegistry",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "confirmPledge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "creditLimitOf",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "creditPolicy",
+    outputs: [
+      {
+        internalType: "enum TimeBankStorage.CreditPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "creditPolicyUpdatedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decayBasisPoints",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decayPeriodDays",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultCreditLimit",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "hoursAmount",
+        type: "uint32",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "depositTime",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "depositTime",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "disputes",
+    outputs: [
+      {
+        internalType: "enum TimeBankStorage.DisputeStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "openedBy",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+      {
+        internalType: "enum TimeBankStorage.DisputeResolution",
+        name: "resolution",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "exchangeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "exchangeOfRecord",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "exchangeVerifier",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "exchanges",
+    outputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "enum TimeBankStorage.ExchangeStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "expiryDays",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "extension",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getBalance",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchServiceTypes",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getInsufficientCredit",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getOverdraft",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasCustomCreditLimit",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchClosed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isRecordRated",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "listingCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "listingOfExchange",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "listings",
+    outputs: [
+      {
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        internalType: "enum TimeBankStorage.ListingKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "availableFrom",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "availableUntil",
+        type: "uint64",
+      },
+      {
+        internalType: "enum TimeBankStorage.ListingStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "matchOffer",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "matchRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes[]",
+        name: "data",
+        type: "bytes[]",
+      },
+    ],
+    name: "multicall",
+    outputs: [
+      {
+        internalType: "bytes[]",
+        name: "results",
+        type: "bytes[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "openDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openNewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pledgeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    name: "pledgeHours",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pledges",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "lockedHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "scheduledFor",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "enum TimeBankStorage.PledgeStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum TimeBankStorage.ListingKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "availableFrom",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "availableUntil",
+        type: "uint64",
+      },
+    ],
+    name: "postListing",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "proposeExchange",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "rateRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "ratingCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "ratingRevealCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ratingRevealContexts",
+    outputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "ratingCount",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "receiveCommunityTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recordCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "rejectApplication",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "rejectExchange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchSummary",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestRatingReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "revealedRatingCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "revealedRatingSum",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "setCommunityRegistry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "limit",
+        type: "uint32",
+      },
+    ],
+    name: "setCreditLimit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum TimeBankStorage.CreditPolicy",
+        name: "policy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "newExpiryDays",
+        type: "uint32",
+      },
+      {
+        internalType: "uint16",
+        name: "newDecayBasisPoints",
+        type: "uint16",
+      },
+      {
+        internalType: "uint32",
+        name: "newDecayPeriodDays",
+        type: "uint32",
+      },
+    ],
+    name: "setCreditPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "limit",
+        type: "uint32",
+      },
+    ],
+    name: "setDefaultCreditLimit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "settleBalance",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    name: "splitDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "transferToCommunity",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "upholdDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "exchangeId",
+        type: "uint256",
+      },
+    ],
+    name: "verifyExchange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "voidDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "hoursAmount",
+        type: "uint32",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "withdrawTime",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "serviceType",
+        type: "string",
+      },
+    ],
+    name: "withdrawTime",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060a08152346200028d576200001562000291565b5f81525f60606020928284820152828582015201526200003462000291565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80825273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6983830181905273a02cda4ca3a71d7c46997716f4283aa851c28812858401819052731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60609094018490527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690941790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701805484169092179091557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054821690921790915582516144bd8082018281106001600160401b0382111762000279578291620060de833903905ff080156200026f5760018060a01b031660805233905f5416175f557f829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d463690815f5260028152825f20335f52815260ff835f2054161562000222575b8260016007555160017fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2603c600455615e2c9081620002b282396080518181816110e201526142810152f35b815f5260028152825f2090335f5252815f20600160ff19825416179055339033907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a45f80620001d3565b83513d5f823e3d90fd5b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b60405190608082016001600160401b03811183821017620002795760405256fe60806040526004361015610011575f80fd5b5f3560e01c80630813f987146106a65780630a763da1146106a1578063124bd04b1461069c578063168b8e9a146105ca5780631f0a9e071461069757806321fe98a51461055c57806323452b9c146106925780632404165e1461068d5780632839fc29146106885780632a3916ab146106835780632b15907c1461067e5780632bf39ced146106795780632d5537b0146106745780632f2ff15d1461066f5780632fb7cb121461066a578063309f65551461066557806335cc81c11461066057806336f691c4146104c1578063370fc4171461065b5780633773aced146106565780633f4ba83a146106515780634121823e1461064c578063412dacb214610647578063423c8ad1146105ca57806346e2577a146106425780634a9a75aa1461063d5780634f7173c81461063857806350e0be2e1461063357806353674be01461062e578063564a565d1461062957806359f695d2146105ca5780635a94a079146106245780635c975abb1461061f5780635d3d08a81461061a5780635ec08d991461061557806368972e501461061057806369a40a3e1461060b5780636a8b0040146106065780636b074a07146106015780636b366cb5146105fc5780636e1d616e146105f75780636e9140d3146105f257806375b238fc146105ed57806379ba5097146105e85780637b5b1157146105e35780637c3bf42d146105de578063808e1c2b146105d95780638456cb59146105d457806385bf0178146105cf57806389509c2d146105ca5780638a355a57146105c55780638bb9c5bf146105c05780638c370557146105bb5780638ca305a0146105b65780638da5cb5b146105b1578063900407bc146105ac57806391d14854146105a757806392bf4d33146105a257806394e113ea146104cb5780639995ed4b1461059d578063a10f469e14610598578063a200ac8614610593578063a43654761461058e578063a94fffa714610589578063a9b07c2614610584578063ac1240811461057f578063ac9650d81461057a578063acf0fdea14610575578063ad95ea4314610570578063b26094591461056b578063b65e894114610566578063b8221bc414610561578063ba3c72621461055c578063bb0e4ea214610557578063be4f6c3914610552578063bf6377881461054d578063c147eddc14610548578063c6d6c18314610543578063ca6f0a551461053e578063ccb7540214610539578063d13c0c9b14610534578063d22846081461052f578063d2e3dd701461052a578063d547741f14610525578063d58dde0514610520578063d6a05e871461051b578063d874164f14610516578063da1f12ab14610511578063da763ea41461050c578063de74e57b14610507578063e0e965e714610502578063e30c3978146104fd578063e3ae4d0a146104f8578063e5a255cb146104f3578063e8947ab0146104ee578063eab1de29146104e9578063ed104a04146104e4578063f2fde38b146104df578063f3ed3332146104da578063f4ea93d8146104d5578063f8b2cb4f146104d0578063f904c2e4146104cb578063f98f61d3146104c6578063f9eb780a146104c1578063faaddb94146104bc578063fb623421146104b75763fc149a4f146104b2575f80fd5b613324565b6132c7565b61329e565b6112c7565b613266565b612385565b61322e565b613212565b6131f9565b61315f565b61313b565b61311e565b6130b7565b613029565b612fba565b612f92565b612f73565b612ed4565b612e1e565b612e02565b612deb565b612d71565b612bbd565b612b8f565b612b52565b612b30565b612aee565b612abc565b612a97565b612a2f565b612a00565b6129d1565b6127fa565b6127df565b610b49565b6127c2565b61277c565b61275e565b612734565b6126e9565b612684565b6125a5565b61252a565b61248d565b612455565b61242d565b612406565b6123a0565b612362565b6122d9565b6122bc565b612295565b6121c5565b6120a3565b612086565b611fbb565b610aaa565b611f83565b611f2a565b611cd7565b611c1c565b611bbe565b611b51565b611b2a565b611a99565b611a33565b6119f9565b6119cc565b6119a2565b61185d565b611840565b6117e6565b6116ff565b6116dd565b6116a5565b61163b565b611608565b6115f3565b6115b5565b611584565b61155b565b6114c3565b61148b565b61143d565b6113b0565b6112fe565b611271565b61124b565b611207565b611111565b6110cd565b61108f565b610fb1565b610e23565b610d8e565b610c01565b610b60565b610ac0565b61085c565b610706565b6106b9565b5f9103126106b557565b5f80fd5b346106b5575f3660031901126106b5576106d1613eee565b6106dc600754613367565b806007557fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2005b346106b5575f3660031901126106b5576020600754604051908152f35b634e487b7160e01b5f52604160045260245ffd5b6001600160401b03811161074a57604052565b610723565b90601f801991011681019081106001600160401b0382111761074a57604052565b60405190608082018281106001600160401b0382111761074a57604052565b60405190606082018281106001600160401b0382111761074a57604052565b6040519060a082018281106001600160401b0382111761074a57604052565b6040519061012082018281106001600160401b0382111761074a57604052565b6001600160401b03811161074a57601f01601f191660200190565b929192610814826107ed565b91610822604051938461074f565b8294818452818301116106b5578281602093845f960137010152565b9080601f830112156106b55781602061085993359101610808565b90565b346106b55760603660031901126106b557600480356001600160401b036024358181116106b557610890903690850161083e565b906044359081116106b5576108a8903690850161083e565b926108c860026108c0855f52601d60205260405f2090565b015460ff1690565b610a9b576108de835f52601d60205260405f2090565b54936108e98561405e565b916108f38361415c565b91600192600161090b885f52601d60205260405f2090565b015403610a8b5761091d908587614193565b8351610929845161337a565b03610a7c575083610956869261095b61094d602088979851880101602088016133bb565b939097516133e0565b613413565b945f825b610a0f575b5050507f77dafc4af9fb6bcf2fe25ee3540a3b7de62c5b261f4cfd07821252b53b11402b907fd132022c86df57e262a969be12e14a34e8f70614424da9d45d66e3ad2bd92ccc956109d060026109c2865f52601d60205260405f2090565b01805460ff19166001179055565b6040805163ffffffff928316815292909116602083015290a36109fb845f52601260205260405f2090565b610a0a6040519283928361349d565b0390a3005b919386979591939651831015610a70575050908282610a61610a4c610a43610a378597613445565b60010160051b86015190565b63ffffffff1690565b610a56838b613489565b9063ffffffff169052565b0190879391899597969361095f565b93819597969350610964565b6040516325c4024f60e11b8152fd5b506040516301c081db60e11b8152fd5b604051632b5119b160e01b8152fd5b346106b557602036600319011215614277575f80fd5b346106b5575f3660031901126106b557602063ffffffff600b5460381c16604051908152f35b9181601f840112156106b5578235916001600160401b0383116106b557602083818601950101116106b557565b60606003198201126106b5576004359160243591604435906001600160401b0382116106b557610b4591600401610ae6565b9091565b346106b557610b5736610b13565b50505050614277565b346106b5575f3660031901126106b557610b786142b3565b6001546001600160a01b03808216908115610bc3575f54167f0ef3ae3c61450215beca833f02d7858a638ab836d06ae02febbe77a656cab62a5f80a36001600160a01b031916600155005b604051630614e5c760e21b8152600490fd5b600435906001600160a01b03821682036106b557565b602435906001600160a01b03821682036106b557565b346106b55760203660031901126106b5576001600160a01b03610c22610bd5565b165f526021602052602063ffffffff60405f205416604051908152f35b90600182811c92168015610c6d575b6020831014610c5957565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610c4e565b80545f9392610c8582610c3f565b918282526020936001916001811690815f14610ce95750600114610cab575b5050505050565b90939495505f92919252835f2092845f945b838610610cd557505050500101905f80808080610ca4565b805485870183015294019385908201610cbd565b60ff19168685015250505090151560051b010191505f80808080610ca4565b90610d23610d1c9260405193848092610c77565b038361074f565b565b5f5b838110610d365750505f910152565b8181015183820152602001610d27565b90602091610d5f81518092818552858086019101610d25565b601f01601f1916010190565b634e487b7160e01b5f52602160045260245ffd5b60051115610d8957565b610d6b565b346106b55760203660031901126106b5576004355f52601560205260405f2060018060a01b03808254169060018301541691610e1060028201549160ff600460405192610de984610de28160038501610c77565b038561074f565b0154169260405195869586526020860152604085015260a0606085015260a0840190610d46565b90610e1a81610d7f565b60808301520390f35b346106b55760203660031901126106b557600435610e3f6142d8565b610e51815f52601560205260405f2090565b6002610e61600483015460ff1690565b610e6a81610d7f565b14801590610f80575b610f6e576001610e95610e8e845f52601860205260405f2090565b5460ff1690565b610e9e81611631565b14610f5c578054610ebf906001600160a01b03165b6001600160a01b031690565b3314908115610f3d575b50610f2b57610f0333610ee4835f52601660205260405f2090565b80546001600160a01b0319166001600160a01b03909216919091179055565b33907f0b95fd4e102c8c70885352b4db897f2c497a145c0164a373dbdce59877d6f0095f80a3005b604051638d803ad960e01b8152600490fd5b60010154610f5491506001600160a01b0316610eb3565b33145f610ec9565b6040516374e9bddf60e11b8152600490fd5b604051630f931b6b60e31b8152600490fd5b505f8281526016602052604090206001600160a01b0390610fa9905b546001600160a01b031690565b161515610e73565b346106b55760803660031901126106b557600435610fcd610beb565b906064356001600160401b0381116106b557610fed903690600401610ae6565b9092610ff7613f6e565b610fff6143b0565b611008336143ce565b61101183614436565b80549092906001600160a01b0316330361107d5760016110699361105c61104b61104361107999611062963691610808565b6044356144ad565b91610d1c6040518095819301610c77565b83614654565b809361475c565b6040519081529081906020820190565b0390f35b60405163044c3c7760e21b8152600490fd5b346106b55760203660031901126106b5576001600160a01b036110b0610bd5565b165f526023602052602063ffffffff60405f205416604051908152f35b346106b5575f3660031901126106b5576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346106b55760403660031901126106b55760043561112d610beb565b90611137816147c6565b5f8181526002602090815260408083206001600160a01b038616845290915290205460ff161561116357005b5f8181526002602090815260408083206001600160a01b03861684529091529020805460ff1916600117905533916001600160a01b0316907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4005b63ffffffff8116036106b557565b9060406003198301126106b5576004356111e8816111c1565b91602435906001600160401b0382116106b557610b4591600401610ae6565b346106b55761124961124463ffffffff611220366111cf565b939161122d939193613f6e565b6112356143b0565b61123e336143ce565b166153c4565b6148bf565b005b346106b5575f3660031901126106b557602063ffffffff600b5460081c16604051908152f35b346106b55760803660031901126106b55760043560038110156106b5576024359061129b826111c1565b60443561ffff811681036106b55761124992606435926112ba846111c1565b6112c2613eee565b613600565b346106b55760403660031901126106b5576024356001600160401b0381116106b5576112f7903690600401610ae6565b5050614277565b346106b55760203660031901126106b5576004355f526024602052606060405f205460ff6040519160018060a01b038116835263ffffffff8160a01c16602084015260c01c1615156040820152f35b6020808201906020835283518092526040830192602060408460051b8301019501935f915b8483106113825750505050505090565b90919293949584806113a0600193603f198682030187528a51610d46565b9801930193019194939290611372565b346106b5576020806003193601126106b5576004355f52601260205260409060405f208054906113df826133fc565b926113ed604051948561074f565b82845260208401915f5260205f205f925b8484106114135760405180611079888261134d565b6001838192895161142f816114288189610c77565b038261074f565b8152019201930192906113fe565b346106b5575f3660031901126106b557611455613eee565b60ff19600354166003557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b346106b55760203660031901126106b5576001600160a01b036114ac610bd5565b165f52600d602052602060405f2054604051908152f35b346106b55760403660031901126106b5576114dc610bd5565b7f2836abde9e5761107623fe955ae59741d58907bf7470edb9e2cf4b3c150474cb60206024359261150c846111c1565b611514613eee565b6001600160a01b03165f818152602883526040808220805463ffffffff191663ffffffff90971696871790556029845290819020805460ff191660011790555193845292a2005b346106b55760203660031901126106b557611249611577610bd5565b61157f613eee565b6147f8565b346106b55760203660031901126106b55760206115a76115a2610bd5565b613814565b63ffffffff60405191168152f35b346106b55760203660031901126106b5576001600160a01b036115d6610bd5565b165f526022602052602063ffffffff60405f205416604051908152f35b346106b5575f36600319011215614277575f80fd5b346106b55760203660031901126106b557611249611624610bd5565b61162c6143b0565b6149de565b60031115610d8957565b346106b55760203660031901126106b5576004355f526018602052608060405f20805460ff8116916001808060a01b039101548160ff8260a01c16936040519561168481611631565b865260081c16602085015216604083015261169e81610d7f565b6060820152f35b346106b55760203660031901126106b5576001600160a01b036116c6610bd5565b165f526006602052602060405f2054604051908152f35b346106b5575f3660031901126106b557602060ff600354166040519015158152f35b346106b55760203660031901126106b55760043561171b6143b0565b61172d815f52601560205260405f2090565b9060048201916001611740845460ff1690565b61174981610d7f565b03610f6e578054611762906001600160a01b0316610eb3565b33036117d45761177c61124993600460ff19825416179055565b805461179d906001906001600160a01b03169201546001600160a01b031690565b6001600160a01b039081169116827fc9e4ad7e3f8f30d9dcbdaad223be345a553f12b62c832506c9524c65c3338fbe5f80a4614c03565b604051634ee8bca560e01b8152600490fd5b346106b5575f3660031901126106b5576117fe613eee565b6007545f52600860205260405f20600160ff198254161790556007547f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2005b346106b5575f3660031901126106b5576020601454604051908152f35b346106b5576040806003193601126106b5576001600160401b03600480358281116106b55761188f9036908301610ae6565b90926024359081116106b5576118a89036908401610ae6565b9490926118b36143b0565b6118bc33613d0e565b61199457335f908152601c602052604090206001906118dd906002906108c0565b6118e681611c12565b1461198657821561197857507f0e94a2f15a9f09db418e230fa1d7bc8a40b7438efc89d9c4dbdf4aaad58105b8939461197391611967611924610770565b61192f36878b610808565b815261193c368589610808565b602082015260018382015261194f61297e565b6060820152335f908152601c60205260409020613970565b519384933397856139e4565b0390a2005b9051633fb21f6560e11b8152fd5b90516326bcd47360e21b8152fd5b90516309b339b960e11b8152fd5b346106b55760203660031901126106b5576004355f52601e602052602060405f2054604051908152f35b346106b55760203660031901126106b55760206119ef6119ea610bd5565b613d0e565b6040519015158152f35b346106b5575f3660031901126106b55760206040517f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc8152f35b346106b5575f3660031901126106b55760206040517f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f58152f35b608435906001600160401b03821682036106b557565b60a435906001600160401b03821682036106b557565b346106b55760c03660031901126106b55760043560028110156106b5576001600160401b036024358181116106b557611ad6903690600401610ae6565b92906044358381116106b557611af0903690600401610ae6565b946064359485116106b55761107995611b10611069963690600401610ae6565b939092611b1b611a6d565b95611b24611a83565b97613a0b565b346106b5575f3660031901126106b55760206040515f80516020615de08339815191528152f35b346106b5575f3660031901126106b5576001546001600160a01b038082169133839003610bc3575f54906bffffffffffffffffffffffff60a01b9084828416175f5516600155167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b346106b55760203660031901126106b5577f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a736040600435611bfd613eee565b600454908060045582519182526020820152a1005b60041115610d8957565b346106b55760203660031901126106b5576001600160a01b03611c3d610bd5565b165f52601c602052611caf6040611079815f20916003815193611c6b85611c648184610c77565b038661074f565b611cbd8351611c81816114288160018701610c77565b611c9c60ff60028501541693610de287518097819301610c77565b8451978897608089526080890190610d46565b908782036020890152610d46565b92611cc782611c12565b8501528382036060850152610d46565b346106b55760203660031901126106b557600435611cf3613f6e565b611cfb6143b0565b611d0d815f52601560205260405f2090565b90600482016001611d1f825460ff1690565b611d2881610d7f565b03610f6e576001830180549091906001600160a01b03166001600160a01b039481861633036117d457600795611d6a610e8e88545f52600860205260405f2090565b611f185761124996611f10611ee8611eda7fb46976dd82d1b67c4c583e4c90960acc68971a5961384124dccb9279fef8f6ff95611da78b98614b15565b8054611dbb906001600160a01b0316614b15565b8954611ea490611dd9906001600160a01b0316600284015490614cc2565b8254909a90611df1906001600160a01b03168c6158e2565b8a611e048b5f52601760205260405f2090565b558254611e1b908c906001600160a01b0316614e27565b611e40611e3b8c611e358a545f52601060205260405f2090565b54614e83565b614f20565b611e5388545f52601060205260405f2090565b55611e6e611e3b8c611e358a545f52601160205260405f2090565b611e8188545f52601160205260405f2090565b55611e978b611e9260038601610d08565b614f2a565b805460ff19166002179055565b611eb7611eb2600954613367565b600955565b87611ecc6009545f52601e60205260405f2090565b55546001600160a01b031690565b97546001600160a01b031690565b9154956009548460405195869516991697846040919493926060820195825260208201520152565b0390a4614c68565b60405163366a630760e21b8152600490fd5b346106b5575f3660031901126106b557611f42613eee565b611f4a6143b0565b600160ff1960035416176003557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b346106b55760203660031901126106b5576001600160a01b03611fa4610bd5565b165f52602b602052602060405f2054604051908152f35b346106b55760203660031901126106b557611fd4610bd5565b611fdc613eee565b6001600160a01b0381165f9081527fffc59653b721e824589ac88bc65eee28eeaa6ba28646467f2b90c021e548765260205260409020545f80516020615e008339815191529060ff1661202b57005b5f8181526002602090815260408083206001600160a01b03861684529091529020805460ff1916905533916001600160a01b0316907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4005b346106b55760203660031901126106b55761124933600435615045565b346106b5576120b136610b13565b9091926120bc613f6e565b6120c46143b0565b6120cd336143ce565b6120df815f52601a60205260405f2090565b6004810154600160ff8260801c166120f681610d7f565b148015906121aa575b6121985760401c6001600160401b0316801515908161218e575b5061217c576121696121749361214860209761214260018060a01b039889875416943691610808565b906144ad565b604051916121648361215d8160018901610c77565b038461074f565b614654565b93849154169161475c565b604051908152f35b604051631cc67e8160e11b8152600490fd5b905042115f612119565b604051637f603d0d60e01b8152600490fd5b50600160ff835460a01c166121be81612e39565b14156120ff565b346106b55760203660031901126106b5576004356121e16143b0565b6121f3815f52601560205260405f2090565b9060048201916001612206845460ff1690565b61220f81610d7f565b03610f6e5760018101805490919061222f906001600160a01b0316610eb3565b33036117d45761225061225e91610f9c61124996600360ff19825416179055565b91546001600160a01b031690565b6001600160a01b039081169116827f609bf22dab286b1c024e329bb92744357684127943a3e3f28cee7f5c2b23b08f5f80a4614c03565b346106b5575f3660031901126106b5575f546040516001600160a01b039091168152602090f35b346106b5575f3660031901126106b5576020600954604051908152f35b346106b55760403660031901126106b55760206004356122f7610beb565b5f8281526002845260408082206001600160a01b038416835260205290205460ff1691821561232d575b50506040519015158152f35b5f80516020615de08339815191521491508161234c575b505f80612321565b905060018060a01b03805f54169116145f612344565b346106b5575f3660031901126106b557602063ffffffff60275416604051908152f35b346106b5575f3660031901126106b557602060405160058152f35b346106b55760203660031901126106b5577f9b7486007a048610a3e9c6bad6c16bf040bd7d310fd72d84581a2a4d263fb417602063ffffffff6004356123e5816111c1565b6123ed613eee565b168063ffffffff196027541617602755604051908152a1005b346106b5575f3660031901126106b55760206040515f80516020615e008339815191528152f35b346106b5575f3660031901126106b557602c546040516001600160a01b039091168152602090f35b346106b55760203660031901126106b5576001600160a01b03612476610bd5565b165f526005602052602060405f2054604051908152f35b346106b55760803660031901126106b5576124a6610bd5565b6001600160401b03906044358281116106b5576124c7903690600401610ae6565b91906064359384116106b5576125246110699361251c6125146124f1611079983690600401610ae6565b9590936124fc613f6e565b6125046143b0565b61250d336143ce565b3691610808565b6024356144ad565b923691610808565b91614654565b346106b5575f3660031901126106b5576020601954604051908152f35b6001600160a01b03918216815291166020820152604081019190915260e0606082018190529395949360c093919261258191840190610d46565b956001600160401b0380921660808401521660a08201526125a183611c12565b0152565b346106b55760203660031901126106b5576004355f52602660205260405f2060018060a01b03906110798282541692600183015416916002810154936004604051926125f884610de28160038501610c77565b0154906001600160401b039260405196879660ff8560801c1695808660401c1695169388612547565b6020808201906020835283518092526040830192602060408460051b8301019501935f915b8483106126565750505050505090565b9091929394958480612674600193603f198682030187528a51610d46565b9801930193019194939290612646565b346106b55760203660031901126106b5576001600160401b036004358181116106b557366023820112156106b55780600401359182116106b5573660248360051b830101116106b5576110799160246126dd9201613e2c565b60405191829182612621565b346106b55760603660031901126106b5576001600160401b036024358181116106b55761271a903690600401610ae6565b50506044359081116106b5576112f7903690600401610ae6565b346106b55760203660031901126106b5576004355f52601b602052602060405f2054604051908152f35b346106b55761124961277763ffffffff611220366111cf565b6150cd565b346106b55760203660031901126106b5576004355f52601d602052606060405f2080549060ff600260018301549201541690604051928352602083015215156040820152f35b346106b5575f3660031901126106b5576020600454604051908152f35b346106b5575f3660031901126106b557602060405160018152f35b346106b55760403660031901126106b557612813610bd5565b6001600160401b03906024358281116106b557612834903690600401610ae6565b61283c6142d8565b6003612847846151a3565b60028101805460ff1916831790550193811161074a576128718161286b8654610c3f565b86613852565b5f93601f82116001146128ef5790610a0a916128c682807faec2747f7589a9646a24f4470c6cef420db6d8763cea0b1dee9c3338b1c9d6b09697985f916128e4575b508160011b915f199060031b1c19161790565b90555b60405133956001600160a01b03169490928392909183613edd565b90508701355f6128b3565b601f198216612901825f5260205f2090565b905f5b8181106129665750907faec2747f7589a9646a24f4470c6cef420db6d8763cea0b1dee9c3338b1c9d6b094959684610a0a9594931061294d575b5050600182811b0190556128c9565b8601355f19600385901b60f8161c191690555f8061293e565b85880135835560209788019760019093019201612904565b60405190602082018281106001600160401b0382111761074a576040525f8252565b60405190604082018281106001600160401b0382111761074a57604052600582526427ba3432b960d91b6020830152565b346106b5575f3660031901126106b5576110796129ec6129a0565b604051918291602083526020830190610d46565b346106b55760203660031901126106b5576004355f52601f602052602060ff60405f2054166040519015158152f35b346106b5575f3660031901126106b5576020602554604051908152f35b9060606003198301126106b557600435916001600160401b03916024358381116106b55782612a7d91600401610ae6565b939093926044359182116106b557610b4591600401610ae6565b346106b557611249611244612142612aae36612a4c565b9593929094916124fc613f6e565b346106b55760203660031901126106b5576004355f526016602052602060018060a01b0360405f205416604051908152f35b346106b55760803660031901126106b557612b07610bd5565b50612b10610beb565b506064356001600160401b0381116106b5576112f7903690600401610ae6565b346106b55760403660031901126106b55760243561ffff811614614277575f80fd5b346106b55760203660031901126106b5576001600160a01b03612b73610bd5565b165f526029602052602060ff60405f2054166040519015158152f35b346106b55760403660031901126106b557611249600435612bae610beb565b90612bb8816147c6565b615045565b346106b55760203660031901126106b557600435612bd9614359565b612be16143b0565b612bea3361440b565b612c06612c02610e8e835f52600860205260405f2090565b1590565b612d3957612c28612c02612c22835f52601060205260405f2090565b54151590565b612d16575b612c45612c02612c22835f52601160205260405f2090565b612cf3575b612c538161405e565b90612cba612c69612c638461415c565b93615996565b92612c7261078f565b9083825260208201525f6040820152612c93845f52601d60205260405f2090565b6002604091835181556020840151600182015501910151151560ff80198354169116179055565b33917f389e206af32a0f894aae2a19ffb367b9bf8f7e785470c496e3648822c9949dad5f80a4335f908152600660205260409020429055005b612cfe611e3b615372565b612d10825f52601160205260405f2090565b55612c4a565b612d21611e3b615372565b612d33825f52601060205260405f2090565b55612c2d565b60405162461bcd60e51b815260206004820152601060248201526f10985d18da081b9bdd0818db1bdcd95960821b6044820152606490fd5b346106b55760203660031901126106b557612d8a610bd5565b612d92613eee565b6001600160a01b03165f818152602860209081526040808320805463ffffffff1916905560299091528120805460ff191690557fd2ea480c503f51b07f847cd3b185b8decdf6137fe1a02eff5806b7b0d69fa4609080a2005b346106b557611249612777612142612aae36612a4c565b346106b5575f3660031901126106b55760206040516127118152f35b346106b5575f3660031901126106b557602060405160088152f35b60021115610d8957565b906002821015610d895752565b9593612e8f612eab94612e9d93612e816101009b9e9d9c99966101209260018060a01b03168c5260208c0190612e43565b8060408b0152890190610d46565b908782036060890152610d46565b908582036080870152610d46565b966001600160401b0380921660a08501521660c0830152612ecb81610d7f565b60e08201520152565b346106b55760203660031901126106b5576004355f52601a6020526040805f206110798154835193612f0d85611c648160018801610c77565b805191612f218361215d8160028901610c77565b815190612f3582610d1c8160038a01610c77565b60048601549160056001600160401b0397015494845198888a998660ff8160801c16981c1695169360ff8160a01c169060018060a01b03168a612e50565b346106b55760403660031901126106b557612f8c610beb565b50614277565b346106b5575f3660031901126106b5576001546040516001600160a01b039091168152602090f35b346106b55760203660031901126106b557611249612fd6610bd5565b612fde6142d8565b6002612fe9826151a3565b01805460ff19166002179055336001600160a01b0382167fec47fc24be2c1478fca1d28571f96295179d1780ce583dfae188ed5c79e15a925f80a36147f8565b346106b55760203660031901126106b5576004355f818152601a60205260409020805461305e906001600160a01b0316610eb3565b330361107d57600401805460019060801c60ff1661307b81610d7f565b0361219857805460ff60801b1916600160821b1790557fe99def7a5a3c84553486ad726f7c64fbeea0bdbcbe46d5ee07958a8bf5d8e2dd5f80a2005b346106b55760c03660031901126106b5576130d0610bd5565b506001600160401b036044358181116106b5576130f1903690600401610ae6565b50506064359081116106b55761310b903690600401610ae6565b5050613115611a6d565b50612f8c611a83565b346106b5575f3660031901126106b5576020600c54604051908152f35b346106b5575f3660031901126106b557602061ffff600b5460281c16604051908152f35b346106b55760203660031901126106b557613178610bd5565b6131806142b3565b6001600160a01b0390811690811580156131ed575b6131db57816bffffffffffffffffffffffff60a01b60015416176001555f54167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227005f80a3005b6040516349e27cff60e01b8152600490fd5b50805f54168214613195565b346106b55760203660031901126106b557612f8c610bd5565b346106b5575f3660031901126106b55760206040516127108152f35b346106b55760203660031901126106b5576001600160a01b0361324f610bd5565b165f52600a602052602060405f2054604051908152f35b346106b55760203660031901126106b5576001600160a01b03613287610bd5565b165f52602a602052602060405f2054604051908152f35b346106b5575f3660031901126106b557602060ff600b5416604051906132c381611631565b8152f35b346106b55760a03660031901126106b5576132e0610bd5565b506132e9610beb565b506001600160401b036064358181116106b55761330a903690600401610ae6565b50506084359081116106b5576112f7903690600401610ae6565b346106b55760203660031901126106b5576004355f526008602052602060ff60405f2054166040519015158152f35b634e487b7160e01b5f52601160045260245ffd5b5f1981146133755760010190565b613353565b908160051b918083046020149015171561337557565b90620151809182810292818404149015171561337557565b8181029291811591840414171561337557565b91908260409103126106b557602082516133d4816111c1565b920151610859816111c1565b60011981019190821161337557565b9190820391821161337557565b6001600160401b03811161074a5760051b60200190565b9061341d826133fc565b61342a604051918261074f565b828152809261343b601f19916133fc565b0190602036910137565b906002820180921161337557565b9190820180921161337557565b634e487b7160e01b5f52603260045260245ffd5b8051600110156134845760400190565b613460565b80518210156134845760209160051b010190565b9060408201916040815281548093526060810160608460051b830101925f52602093845f20915f905b82821061350e5750505050828183039101528180845192838152019301915f5b8281106134f4575050505090565b835163ffffffff16855293810193928101926001016134e6565b909192959485600161352a8193605f198982030186528a610c77565b97980194939190910191016134c6565b61354382611631565b52565b61354f81611631565b60ff8019600b5416911617600b55565b608090805161356d81611631565b61357681611631565b600e5464ffffffff00602084015160081b1666ffff0000000000604085015160281b169160ff63ffffffff60381b606087015160381b169416906affffffffffffffffffffff191617171717600e550151600f55565b929361ffff60609392969560808601976135e581611631565b865263ffffffff809416602087015216604085015216910152565b909161360b82611631565b600182036138075763ffffffff831615155b61362683611631565b600283036137e75761ffff821680151590816137da575b50806137cb575b905b159081156137c2575b506137b057600b549360ff85169161366683611631565b61366f84611631565b8284148061379b575b80613788575b80613773575b61376b5761370c613766937f89056df8e92fe54d68acadd357890d895b61894675ad1db165b830607cf474dc9761370263ffffffff600c54926136cf6136c86107ae565b958661353a565b63ffffffff600882901c8316166020860152602881901c61ffff16604086015260381c16606084019063ffffffff169052565b608082015261355f565b61371584613546565b600b805463ffffffff60381b603885901b166affffffffffffffffffff001990911664ffffffff00600889901b161766ffff0000000000602885901b161717905542600c55604051948594856135cc565b0390a1565b505050505050565b5063ffffffff808760381c1690831614613684565b5061ffff808760281c169082161461367e565b5063ffffffff808760081c1690861614613678565b604051633aa2f10d60e01b8152600490fd5b9050155f61364f565b5063ffffffff85161515613644565b612710915011155f61363d565b61ffff821615806137f9575b90613646565b5063ffffffff8516156137f3565b63ffffffff83161561361d565b6001600160a01b03165f9081526029602052604090205460ff161561384657602860205263ffffffff60405f20541690565b63ffffffff6027541690565b601f821161385f57505050565b5f5260205f20906020601f840160051c83019310613897575b601f0160051c01905b81811061388c575050565b5f8155600101613881565b9091508190613878565b91909182516001600160401b03811161074a576138c8816138c28454610c3f565b84613852565b602080601f8311600114613909575081906138fa9394955f926138fe575b50508160011b915f199060031b1c19161790565b9055565b015190505f806138e6565b90601f1983169561391d855f5260205f2090565b925f905b88821061395857505083600195969710613940575b505050811b019055565b01515f1960f88460031b161c191690555f8080613936565b80600185968294968601518155019501930190613921565b60036060610d23936139838151856138a1565b6139946020820151600186016138a1565b6002840160408201516139a681611c12565b6139af81611c12565b60ff80198354169116179055015191016138a1565b908060209392818452848401375f828201840152601f01601f1916010190565b92906139fd9061085995936040865260408601916139c4565b9260208185039101526139c4565b969790929594919397613a1c6143b0565b6001600160401b038083168015159182613b29575b5050613b17577f2448d6fc2785db4f1a4637b6d25cdfe379dd298c08fdcfe9eb7e393726090c0295613b1193613a68601954613367565b9a8b99613a748b601955565b613b038c613a90613a836107cd565b3381529160208301613b49565b613a9b368c8c610808565b6040820152613aab368585610808565b6060820152613abb368787610808565b60808201526001600160401b03871660a08201526001600160401b03881660c0820152600160e08201525f610100820152613afe8d5f52601a60205260405f2090565b613b9d565b604051988998339d8a613caa565b0390a390565b60405163193b96fd60e31b8152600490fd5b8316811180159250613b3e575b505f80613a31565b90504210155f613b36565b6002821015610d895752565b906002811015610d8957815460ff60a01b191660a09190911b60ff60a01b16179055565b90613b8381610d7f565b815460ff60801b191660809190911b60ff60801b16179055565b815181546001600160a01b0319166001600160a01b039091161781559060059061010090613bd86020820151613bd281612e39565b85613b55565b613be96040820151600186016138a1565b613bfa6060820151600286016138a1565b613c0b6080820151600386016138a1565b613ca360048501613c46613c2960a08501516001600160401b031690565b825467ffffffffffffffff19166001600160401b03909116178255565b613c8f613c5d60c08501516001600160401b031690565b82546fffffffffffffffff0000000000000000191660409190911b6fffffffffffffffff000000000000000016178255565b60e083015190613c9e82610d7f565b613b79565b0151910155565b9795939094613cdb613ce99360a09995613cca8c9d9e9d613cf79a612e43565b60c060208d015260c08c01916139c4565b9189830360408b01526139c4565b9186830360608801526139c4565b946001600160401b03809216608085015216910152565b6001600160a01b03165f9081527fffc59653b721e824589ac88bc65eee28eeaa6ba28646467f2b90c021e5487652602052604090205460ff168015613d505790565b505f90565b6001600160a01b0381165f9081527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc5602052604090205460ff16908115613d9a575090565b5f546001600160a01b03918216911614919050565b91908110156134845760051b81013590601e19813603018212156106b55701908135916001600160401b0383116106b55760200182360381136106b5579190565b908092918237015f815290565b3d15613e27573d90613e0e826107ed565b91613e1c604051938461074f565b82523d5f602084013e565b606090565b919091613e38836133fc565b906040613e48604051938461074f565b848352601f19613e57866133fc565b015f5b818110613ecc57505082945f5b818110613e75575050505050565b5f80613e82838588613daf565b90613e91875180938193613df0565b0390305af4613e9e613dfd565b9015613ec45790600191613eb28288613489565b52613ebd8187613489565b5001613e67565b602081519101fd5b806060602080938801015201613e5a565b9160206108599381815201916139c4565b335f9081527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc560205260409020545f80516020615de08339815191529060ff168015613f5b575b15613f3d5750565b604490604051906301d4003760e61b82526004820152336024820152fd5b505f546001600160a01b03163314613f35565b613f7733613d0e565b15613f7e57565b6040516301d4003760e61b81525f80516020615e008339815191526004820152336024820152604490fd5b8054821015613484575f5260205f2001905f90565b9060405191825f8254613fd081610c3f565b908184526020946001916001811690815f1461403c5750600114613ffe575b505050610d239250038361074f565b5f90815285812095935091905b818310614024575050610d2393508201015f8080613fef565b8554888401850152948501948794509183019161400b565b92505050610d2394925060ff191682840152151560051b8201015f8080613fef565b90815f526020601260205260405f2080549182600201806002116133755761408590613413565b94614098815f52601060205260405f2090565b548651156134845760208701526140b7815f52601160205260405f2090565b546140c187613474565b525f5b8481106140d2575050505050565b60019061410f6140ea845f52601360205260405f2090565b6140fd6140f78489613fa9565b50613fbe565b8681519101205f5260205260405f2090565b5461412261411c83613445565b8a613489565b52016140c4565b9081518082526020808093019301915f5b828110614148575050505090565b83518552938101939281019260010161413a565b60405161418d816141796020820194604086526060830190614129565b30604083015203601f19810183528261074f565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561426557845f5260205260405f206040519182602083549182815201925f5260205f20915f905b82821061424e5750505050918161420d6142129593612c0295038261074f565b61525b565b61423c577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906141ed565b60405163d66ca67560e01b8152600490fd5b365f80375f8036817f00000000000000000000000000000000000000000000000000000000000000005af43d5f803e156142af573d5ff35b3d5ffd5b5f546001600160a01b031633036142c657565b6040516330cd747160e01b8152600490fd5b335f9081527fbc6350e876def78ede4f4adb4f384e8e4d279ac44761815b1f1e9a982ed1b3be602052604090207f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc9060ff905b54168015614352575b1580614342575b613f3d5750565b5061434c33613d55565b1561433b565b505f614334565b335f9081527f214c18a85e8bcacd1ae69c36b92ae09880ca973fab1b84dd618b9be27f7e1282602052604090207f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f59060ff9061432b565b60ff600354166143bc57565b604051633b3b4caf60e21b8152600490fd5b6001600160a01b03165f9081526005602052604090205460045481019081106133755742106143f957565b60405163aa9a98df60e01b8152600490fd5b6001600160a01b03165f9081526006602052604090205460045481019081106133755742106143f957565b614448905f52601a60205260405f2090565b906004820154600160ff8260801c1661446081610d7f565b14801590614494575b6121985760401c6001600160401b0316801515908161448a575b5061217c57565b905042115f614483565b5060ff835460a01c166144a681612e39565b1515614469565b5f80516020615dc0833981519152546144f99260209290916144d990610eb3906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b8452339060048501615341565b03925af1908115614592575f91614597575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005461454290610eb3906001600160a01b031681565b803b156106b557604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156145925761457f575090565b8061458c61085992610737565b806106ab565b615250565b6145b9915060203d6020116145bf575b6145b1818361074f565b810190615332565b5f61450b565b503d6145a7565b815181546001600160a01b039182166001600160a01b03199182161783556020840151600184018054919093169116179055608090600490604084015160028201556146196060850151600383016138a1565b0191015161462681610d7f565b61462f81610d7f565b60ff80198354169116179055565b604090610859939281528160208201520190610d46565b92916001600160a01b038416919082158015614753575b6147415761467882614f20565b5061468333836158e2565b61468d85836158e2565b7f7c9f710a09558c638597c2a6df9663277ae68382a8bd1576008f0ac9168e09fe6147286146bc601454613367565b926146c684601455565b61471a84986146ea6146d66107ae565b338152916001600160a01b03166020830152565b8660408201528260608201526147036080820160019052565b614715865f52601560205260405f2090565b6145c6565b60405191829133968361463d565b0390a4335f908152600560205260409020429055565b55565b604051631e4ec46b60e01b8152600490fd5b5033831461466b565b805f52601a60205281600560405f2060048101600160811b60ff60801b198254161790550155815f52601b6020528060405f20556040519260018060a01b031683527fd9717efbc49514594b0ff1af5273bbde5092f711b1066403ff4aef051bb9d16a60203394a4565b5f80516020615de08339815191529081036147ef57505f546001600160a01b031633036142c657565b613f3533613d55565b6001600160a01b0381165f9081527fffc59653b721e824589ac88bc65eee28eeaa6ba28646467f2b90c021e548765260205260409020545f80516020615e008339815191529060ff161561484a575050565b5f8181526002602090815260408083206001600160a01b03861684529091529020805460ff1916600117905533916001600160a01b0316907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4565b6040906108599492815281602082015201916139c4565b60ff6148d56007545f52600860205260405f2090565b5416611f1857614900906148f06148ea615372565b82614e83565b506148fa33614b15565b33614cc2565b61491881611e356007545f52601160205260405f2090565b61492230826158e2565b6149366007545f52601160205260405f2090565b557f968a370d75ae96eb0814939d794fe64517bede54d68dc7016503af5445f6e6d5614963600954613367565b9384600955600754936147286040519283923396846148a8565b6040519060a082018281106001600160401b0382111761074a5760405281600e5460ff81166149ab81611631565b825263ffffffff90818160081c16602084015261ffff8160281c16604084015260381c1660608201526080600f54910152565b6001600160a01b0381165f908152600d602052604090205480158015614aeb575b614acf57600c54808210614a97575b50614a7c61473e91600b549063ffffffff614a6f600c5491614a2e6107ae565b94614a3c60ff82168761353a565b63ffffffff600882901c8316166020870152602881901c61ffff16604087015260381c16606085019063ffffffff169052565b60808301524291856154c5565b6001600160a01b039092165f908152600d6020526040902090565b614abb91614aa361497d565b6080810151909181811015614ac75750905b846154c5565b50600c54614a7c614a0e565b905090614ab5565b506001600160a01b03165f908152600d60205260409020429055565b506001600160a01b0382165f908152600a60205260409020614b1090612c0290612c22565b6149ff565b6001600160a01b0381165f908152600d602052604090205480158015614bd9575b614acf57600c54808210614bc1575b50600b54600c54614b6e9290614b6163ffffffff614a2e6107ae565b60808301524291846154c5565b6001614b7c600b5460ff1690565b614b8581611631565b03614ba657506001600160a01b03165f908152600d60205260409020429055565b6001600160a01b039091165f908152600d6020526040902055565b614bcd91614aa361497d565b50600c54614b6e614b45565b506001600160a01b0382165f908152600a60205260409020614bfe90612c0290612c22565b614b36565b805f52601b60205260405f20548015614c64575f818152601a6020526040812060048101805460ff60801b1916600160801b1790556005018190557ff0f55934478a32db65785ef8dc0d7536a36c3c545ff5be68b859feb2c771223a9080a3565b5050565b805f52601b60205260405f20548015614c64575f818152601a60205260408120600401805460ff60801b1916600360801b1790557f3bd3cf57fcdbbbe9401429f1da4935849809c1144bd975f00bfdc87995ab72119080a3565b9190600160a01b60019003928381165f52600a60205260405f205493602a60205260405f205480614cf284613814565b63ffffffff16614d01906153c4565b614d0b8183615705565b91614d1591615789565b614d1d615372565b90614d2792615bf7565b614d319087614e83565b614d3b9085615705565b93614d44615372565b614d4e9186615bf7565b95614d5930886158e2565b614d6384886158e2565b614d6d818861580d565b9081614d7891615789565b614d829085615891565b614d8c9087615789565b614d9591614e83565b614d9f90836158be565b5f80516020615dc083398151915254169160405180938192630f51ccfb60e41b835260048301525a925f602492602095f1801561459257610d23925f91614e08575b50614deb81614f20565b6001600160a01b0383165f908152602b60205260409020556158e2565b614e21915060203d6020116145bf576145b1818361074f565b5f614de1565b614e7d610d2392614e7760018060a01b038416805f52602a60205260405f205490614e65614e5f614e58848761580d565b8094615789565b876158be565b5f52600a60205260405f205492615789565b90614e83565b90615891565b908115614f10575b8015614efe575b602090606460018060a01b035f80516020615dc08339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115614592575f91614ee5575090565b610859915060203d6020116145bf576145b1818361074f565b506020614f09615372565b9050614e92565b9050614f1a615372565b90614e8b565b61085930826158e2565b9060075490815f52601260205260405f20928051602082012093614f56845f52601360205260405f2090565b855f5260205260405f2054938415614f9e575b505050611e3b614f7c9161473e93614e83565b91614f916007545f52601360205260405f2090565b905f5260205260405f2090565b8154906007821015615003575b5084614f6957600160401b81101561074a57614fcc91600182018155613fa9565b929092614ff05761473e93614fe7611e3b93614f7c956138a1565b93819350614f69565b634e487b7160e01b5f525f60045260245ffd5b95509150925061502a6150146129a0565b60208151910120945f52601360205260405f2090565b845f5260205260405f20549261503e6129a0565b915f614fab565b5f8181526002602090815260408083206001600160a01b038616845290915290205460ff16615072575050565b5f8181526002602090815260408083206001600160a01b03861684529091529020805460ff1916905533916001600160a01b0316907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b91909160ff6150e66007545f52600860205260405f2090565b5416611f18576150f581615466565b6150fe81614f20565b5061510933826158e2565b61511233614b15565b61511c8133614e27565b615137611e3b82611e356007545f52601060205260405f2090565b61514b6007545f52601060205260405f2090565b5561515b81611e92368587610808565b615169611eb2600954613367565b7f62d8c6ab39beac209ebe90f651584e7e61fe2a02f1b5b8fd358364354c44f0cc60075492600954946147286040519283923396846148a8565b60018060a01b03165f52601c60205260405f2090600160ff6002840154166151ca81611c12565b036151d157565b6040516326bcd47360e21b8152600490fd5b60209291906151f9849282815194859201610d25565b019081520190565b908160209103126106b5575180151581036106b55790565b91615242906152346108599593606086526060860190614129565b908482036020860152610d46565b916040818403910152610d46565b6040513d5f823e3d90fd5b91908051916020938385019384861161337557604001809411613375576152f6936152a086946152926040519384928884016151e3565b03601f19810183528261074f565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f906152d890610eb3906001600160a01b031681565b92604051968795869485936378542ead60e01b855260048501615219565b03925af1918215614592575f9261530c57505090565b6108599250803d1061532b575b615323818361074f565b810190615201565b503d615319565b908160209103126106b5575190565b939261536d90600493606093875260018060a01b03166020870152608060408701526080860190610d46565b930152565b5f80516020615dc083398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115614592575f91614ee5575090565b60205f91604460018060a01b035f80516020615dc08339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115614592575f91614ee5575090565b5f80516020615dc083398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115614592575f91614ee5575090565b61547290614e77615372565b50565b811561547f570490565b634e487b7160e01b5f52601260045260245ffd5b9061ffff8092166127100391821161337557565b9190916001600160401b038080941691160291821691820361337557565b9392909384516154d481611631565b6154dd81611631565b1580156156fb575b6156f5578451916154f583611631565b6154fe83611631565b6001809314615674579061553a84939261553561552d615528610a4360608c015163ffffffff1690565b613390565b9586926133ef565b615475565b9182615559575b505061085993945090615553916133a8565b90613453565b80620f4240975f925b6155fb575b50505090816155b96155b36155ae6155a9610859999a6155a461559e6155539a9960018060a01b03165f52600a60205260405f2090565b54615d1d565b615afc565b615b7d565b615d70565b82615891565b6040518281526001600160a01b0391909116907f4e83af82c5a648a31defb3f858ff57dd122c5ea32a02125a3bbbe9a0988789c790602090a290918594615541565b90919784891080615662575b1561565c5761564e61563d6156549261563761563061562b604088015161ffff1690565b615493565b61ffff1690565b906154a7565b6001600160401b0361271091160490565b98613367565b919081615562565b97615567565b506001600160401b0381161515615607565b9394615699919250615528610a43602061569393015163ffffffff1690565b83613453565b83106156ef576156e97f8ce2a1dde142992e5aa366c9e887bf243bb2aa949347eb228b6d977cc13030d8916156cf6155b3615372565b6040519384526001600160a01b0316929081906020820190565b0390a290565b50905090565b50925050565b50818310156154e5565b908115615779575b8015615767575b602090606460018060a01b035f80516020615dc08339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115614592575f91614ee5575090565b506020615772615372565b9050615714565b9050615783615372565b9061570d565b9081156157fd575b80156157eb575b602090606460018060a01b035f80516020615dc08339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115614592575f91614ee5575090565b5060206157f6615372565b9050615798565b9050615807615372565b90615791565b908115615881575b801561586f575b602090606460018060a01b035f80516020615dc08339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af1908115614592575f91614ee5575090565b50602061587a615372565b905061581c565b905061588b615372565b90615815565b6001600160a01b0381165f908152600a60205260409020829055610d23916158b930826158e2565b6158e2565b6001600160a01b0381165f908152602a60205260409020829055610d23916158b930825b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156106b557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015614592576159535750565b610d2390610737565b906020610859928181520190614129565b9291615986918452606060208501526060840190614129565b91604063124bd04b60e01b910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005490939291906159f490610eb3906001600160a01b031681565b803b156106b5575f6040518092637d6e912360e11b8252818381615a1b896004830161595c565b03925af1801561459257615ae9575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254615a6190610eb3906001600160a01b031681565b90813b156106b5575f6040518093633263b83b60e01b8252818381615a8a898c6004840161596d565b03925af1801561459257610d2393615ab293615aac92615ad6575b5086615c49565b54613367565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b8061458c615ae392610737565b5f615aa5565b8061458c615af692610737565b5f615a2a565b6001600160401b03916020918015615b6b575b5f80516020615dc083398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115614592575f91614ee5575090565b506064615b76615413565b9050615b0f565b8015615be3575b5f80516020615dc083398151915254604051635a53accb60e01b81526004810192909252620f42406024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614592575f91614ee5575090565b505f6020615bef615413565b915050615b84565b9060646020925f60018060a01b035f80516020615dc083398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115614592575f91614ee5575090565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f2054615d0b575f5260205260405f20908251926001600160401b03841161074a57600160401b841161074a578254848455808510615ce5575b506020615cc29101925f5260205f2090565b905f5b848110615cd3575050505050565b83518382015592810192600101615cc5565b835f528460205f2091820191015b818110615d005750615cb0565b5f8155600101615cf3565b604051633f06d22b60e01b8152600490fd5b5f80516020615dc0833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115614592575f91614ee5575090565b60205f91604460018060a01b035f80516020615dc083398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af1908115614592575f91614ee557509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d4636a164736f6c6343000818000a60a0806040523461008c573060805261442c908161009182396080518181816103740152818161071601528181610834015281816109dc01528181610f4b015281816112a80152818161153d015281816117c201528181611b39015281816120ef015281816123f6015281816125c701528181612a0601528181612bd301528181612ec10152612fb70152f35b5f80fdfe6080806040526004361015610012575f80fd5b5f905f3560e01c9081630a763da11461306757508063168b8e9a14612f975780631f0a9e0714612f7157806321fe98a514612ea55780632404165e14612e675780632839fc2914612de15780632bf39ced14612da3578063309f655514612d7d57806336f691c414612bb7578063370fc41714612b685780634121823e14612b30578063423c8ad1146129e65780634a9a75aa146129b55780634f7173c81461297757806350e0be2e146125aa578063564a565d1461253f57806359f695d2146123d45780635a94a0791461239b5780635c975abb1461237857806368972e501461235a5780636a8b0040146123305780636b366cb5146122f55780636e1d616e146122ba57806375b238fc146122925780637c3bf42d146121f157806389509c2d146120cf5780638da5cb5b146120a8578063900407bc1461208a57806391d148541461200357806392bf4d3314611fdf57806394e113ea146107ec578063a10f469e14611fa4578063a200ac8614611f7b578063a436547614611f42578063a9b07c2614611f24578063ac12408114611e7f578063acf0fdea14611ade578063ad95ea4314611ab4578063b65e894114611a6d578063b8221bc414611a4f578063ba3c7262146117a5578063bb0e4ea214611789578063bf63778814611755578063c147eddc14611726578063c6d6c18314611708578063ccb75402146116d5578063d13c0c9b146114ea578063d228460814611278578063d2e3dd7014611239578063da763ea41461121d578063de74e57b14611117578063e0e965e714610f23578063e30c397814610efa578063e8947ab014610955578063eab1de2914610937578063ed104a0414610912578063f3ed33321461080e578063f4ea93d8146107f1578063f904c2e4146107ec578063f9eb780a146106fa578063faaddb94146106d0578063fb623421146103045763fc149a4f146102d3575f80fd5b346103015760203660031901126103015760ff60406020926004358152600884522054166040519015158152f35b80fd5b50346103015760a03660031901126103015761031e6130e4565b6103266130fa565b6001600160401b0391906064358381116106cc57610348903690600401613081565b92909360843590811161061357610363903690600401613081565b909290916001600160a01b039190307f00000000000000000000000000000000000000000000000000000000000000008416146106ba576103a2613c50565b6103aa6135c7565b6103b333613718565b8281169230841480156106a9575b6106975760075489526020976008895260ff60408b205416610685576103f66103fe918b996103ef3361377e565b3691613316565b604435613617565b92338852600a895260408820546104158186613cb9565b908a61041f613dee565b6064865f805160206143a08339815191525416988d6040519a8b948593637702dcff60e01b8552896004860152602485015260448401525af195861561067a578a9661063a575b5097866005936104c560408d9e959d6104a8869f8e9f61049d8e6104a39261048e308361424a565b610498338361424a565b613d3d565b33613dc1565b614353565b9182916104b5308461424a565b338152602b89522055339061424a565b6007548d52601184528c60406104de8a82842054613982565b916104e9308461424a565b60075481526011875220557f9045a071e200db0eaa56980c640184597ff747b6adb24402902bd1973febe3a8886105216009546133f8565b8060095561053f8960075495169e8f9760405194859433988661349d565b0390a4338a52524260408920555f805160206143c08339815191525416803b1561063657604051630f8e573b60e21b8152600481018490526001600160a01b0392909216602483015287908290604490829084905af190811561062b578791610617575b5050813b15610613578580946105e76040519788968795869463d13c0c9b60e01b86523360048701526024860152604485015260806064850152608484019161339a565b03925af18015610608576105f85750f35b61060190613148565b6103015780f35b6040513d84823e3d90fd5b8580fd5b61062090613148565b61061357855f6105a3565b6040513d89823e3d90fd5b8780fd5b8098999a508b80939c9297503d8311610673575b6106588183613191565b8101031261066f57955195988a9897969486610466565b5f80fd5b503d61064e565b6040513d8c823e3d90fd5b60405163366a630760e21b8152600490fd5b604051638cd22d1960e01b8152600490fd5b506106b48230613b2a565b156103c1565b604051633921c70360e01b8152600490fd5b8480fd5b5034610301578060031936011261030157602060ff600b5416604051906106f6816132e7565b8152f35b503461030157610709366132b8565b91906001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba576107446135c7565b61074d83613c2d565b90838652601560205260408620918183541633141592836107db575b50826107c9575b50506107b7576107b17fa713f428390cd8867db7277aff78f1b703604a814c000d5e8c7609bb33011e1c91604051918291602083523396602084019161339a565b0390a380f35b604051630308577b60e11b8152600490fd5b60019192500154163314155f80610770565b60010154821633141592505f610769565b6132fb565b503461030157806003193601126103015760206040516127108152f35b5034610301576020366003190112610301576108286130e4565b6001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba57335f9081527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc560205260409020545f805160206144008339815191529060ff168015610906575b156108e8575016806bffffffffffffffffffffffff60a01b602c541617602c557f3f9ba1ccac4f9108cbe01337fca9145892df0c4c5657d454325f44ad27115f388280a280f35b604490604051906301d4003760e61b82526004820152336024820152fd5b50825f541633146108a1565b5034610301578060031936011261030157602061ffff600b5460281c16604051908152f35b50346103015780600319360112610301576020600c54604051908152f35b50346103015760c03660031901126103015761096f6130e4565b6044356001600160401b038111610ef65761098e903690600401613081565b92906064356001600160401b038111610ef6576109af903690600401613081565b9190608435916001600160401b038316830361066f5760a435966001600160401b038816880361066f57307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316146106ba57610a11613c50565b610a196135c7565b610a2233613718565b6001600160a01b038716158015610ee4575b610ed257426001600160401b03851611801590610eb6575b610ea457610a6991610a61916103ef3361377e565b602435613617565b338552600a6020526040852054602a60205260408620545f602063ffffffff610a91336133ba565b16604460018060a01b035f805160206143a08339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610e99575f91610e67575b506020610af183610aeb8482613cb9565b93613d3d565b6064610afb613dee565b5f805160206143a083398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182908c906001600160a01b03165af1908115610e28578891610e33575b50610b59610b5f9184613982565b84613cb9565b916020610b6a613dee565b606460018060a01b035f805160206143a08339815191525416968b6040519889948593637702dcff60e01b85528a6004860152602485015260448401525af1938415610e28578894610dec575b50916104a3610c01610c0793610bfb610c2696610bd4308a61424a565b610bde338a61424a565b610bf561049d610bee838c613e93565b8093613d3d565b88613d3d565b90613982565b33614226565b610c11308261424a565b338752602b602052806040882055339061424a565b610c30868261424a565b610c3b6025546133f8565b95866025556040519160e08301938385106001600160401b03861117610dd857896001600160401b03610da1838960209e8e858f8f9c610d3a849f927feb2ac84368c91a5383939dd2136b975a1191ec326bd857b8154c59231d603b399f8f8f91879f610cc9906040926004998452338952602089019460018060a01b031685528389019586523691613316565b606087019081529a88166080870190815299881660a08701908152600160c088018181529a8652602660205291909420955186546001600160a01b03199081166001600160a01b039283161788559251918701805490931691161790555160028401559651959695600383016134c0565b019351166fffffffffffffffff00000000000000008454935160401b169151610d62816132f1565b610d6b816132f1565b60ff60801b9060801b169270ffffffffffffffffffffffffffffffffff191617171790556040519a60808c5260808c019161339a565b9716888c015216604087015260608601526001600160a01b031693339381900390a433815260058352604042912055604051908152f35b634e487b7160e01b5f52604160045260245ffd5b91929093506020823d602011610e20575b81610e0a60209383613191565b8101031261066f579051929091906104a3610bb7565b3d9150610dfd565b6040513d8a823e3d90fd5b90506020813d602011610e5f575b81610e4e60209383613191565b8101031261066f5751610b59610b4b565b3d9150610e41565b90506020813d602011610e91575b81610e8260209383613191565b8101031261066f57515f610ada565b3d9150610e75565b6040513d5f823e3d90fd5b604051631b742d9d60e31b8152600490fd5b506001600160401b0384166001600160401b0389161115610a4c565b604051633b136dc160e11b8152600490fd5b506001600160a01b0387163314610a34565b8280fd5b50346103015780600319360112610301576001546040516001600160a01b039091168152602090f35b503461030157604036600319011261030157600435610f406130fa565b6001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba57610f796135c7565b610f8233613406565b1580611107575b6110c957610f9683613c2d565b908083169233841415806110b9575b61108e57610fb281613406565b15908161107d575b5061103e578385526015602052604085209080825416841491821561102e575b505061101c5760010180546001600160a01b0319168217905533917f4379d695fb397ad387c2b77f3b54ee7136fc4f30764b1e302c8d21cde6f5363f8480a480f35b604051638d803ad960e01b8152600490fd5b6001015416831490505f80610fda565b6040516301d4003760e61b81527f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc600482015260248101849052604490fd5b611087915061344d565b155f610fba565b6040516301d4003760e61b81525f805160206144008339815191526004820152336024820152604490fd5b506110c33361344d565b15610fa5565b6040516301d4003760e61b81527f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc6004820152336024820152604490fd5b506111113361344d565b15610f89565b5034610301576020366003190112610301576004358152601a602052604081209081549160ff8360a01c1661114e600183016131b2565b9161115b600282016131b2565b94611168600383016131b2565b956004830154946001600160401b0392600560ff8860801c1695015495604051986101209260018060a01b03168a5260028210156112095750926111c3899a936111d1936111df9660208d01528060408d01528b0190613275565b9089820360608b0152613275565b908782036080890152613275565b9381811660a087015260401c1660c08501526111fa8161329a565b60e08401526101008301520390f35b634e487b7160e01b81526021600452602490fd5b5034610301578060031936011261030157602060405160088152f35b50346103015760203660031901126103015760209060ff906040906001600160a01b036112646130e4565b168152602984522054166040519015158152f35b5034610301576040366003190112610301576004356024359061ffff8216809203610ef6576001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba576112d66135c7565b6112df826135e5565b612710928381116114d857828552602093601785528461130b8361130660408a20546142b1565b613bac565b9182156114c8575b6064855f805160206143a08339815191525416935f6040519586948593635a53accb60e01b855260048501526024840152600160f81b60448401525af1908115610e99575f91611499575b5061141d92611452611371600193614304565b865f526018885260405f20926015895260405f2091611392828454166138c4565b61144a8261142a8c898701946113aa848754166138c4565b8d5f5260178252600a6113cb6113c560405f20548094613e93565b83613d3d565b92858a54165f52526113e260405f20548093613e93565b9c8d926113ef308561424a565b6113fc868b54168561424a565b611409868954168561424a565b61141784878c541692613d3d565b90613dc1565b6104988285885416613932565b94611435308761424a565b8b5f5260178d528560405f205554168461424a565b54169061424a565b805460ff1916600217815501805460ff60a01b1916600360a01b17905560408051600381529485019190915283015233915f805160206143e083398151915290606090a380f35b90508481813d83116114c1575b6114b08183613191565b8101031261066f575161141d61135e565b503d6114a6565b91506114d2613e40565b91611313565b60405163040357dd60e21b8152600490fd5b5034610301576080366003190112610301576115046130e4565b61150c6130fa565b906044356064356001600160401b0381116106cc5761152f903690600401613081565b90926001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba5761156b6135c7565b6115753033613b2a565b15610697578186165f8181527fffc59653b721e824589ac88bc65eee28eeaa6ba28646467f2b90c021e548765260205260409020549096907f829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d46369060ff1680156116ce575b156116b057506007548852600860205260ff604089205416610685577f1c3935ddd28d58b42138c4f5c017210b8b124b8410f17612a5470a1157fc648c93611641866116aa93611629308361424a565b611633818361424a565b61163c8161377e565b613932565b600754895260106020526116598660408b2054613982565b611663308261424a565b6007548a52601060205260408a20556116868661168136848b613316565b613a35565b6116916009546133f8565b968760095560075496604051958695169833988661349d565b0390a480f35b60449088604051916301d4003760e61b835260048301526024820152fd5b505f6115d9565b503461030157602036600319011261030157602090600435815260168252604060018060a01b0391205416604051908152f35b50346103015780600319360112610301576020602554604051908152f35b50346103015760203660031901126103015760ff60406020926004358152601f84522054166040519015158152f35b5034610301578060031936011261030157611785611771613379565b604051918291602083526020830190613275565b0390f35b5034610301578060031936011261030157602060405160018152f35b5034610301576117b4366130ae565b92916001600160a01b0391307f00000000000000000000000000000000000000000000000000000000000000008416146106ba576117f06135c7565b838652602091601e835260408720548015611a3d578752601583526040872095846001880154163303611a2b57858852601f845260ff604089205416611a19576118459261183f913691613316565b90613617565b8015611a0b575b5f805160206143a0833981519152918383541660405192630d8c635960e21b845260048401526001602484015281836064818b600160f81b958660448401525af1928315610e285788936119dc575b508483156119c5575b6064908394955416945f60405196879485936304559f7160e01b855260048501526005602485015260448401525af1918215610e99575f92611994575b50611911602192858852601f835260408820600160ff198254161790558487541688528280526040882054613982565b61191b308261424a565b83865416875281805260408720558285541686525260408420805463ffffffff80821681811461198057600101169063ffffffff191617905533925416907f14a989959addafebf3b996ba0c19032b64dc891cc8c9f8cc996c034b7111dbfb8480a480f35b634e487b7160e01b88526011600452602488fd5b91508082813d83116119be575b6119ab8183613191565b8101031261066f579051906119116118e1565b503d6119a1565b8293506064906119d3613dee565b945090506118a4565b9092508181813d8311611a04575b6119f48183613191565b8101031261066f5751915f61189b565b503d6119ea565b50611a14613dee565b61184c565b604051630894b2e960e31b8152600490fd5b604051634ee8bca560e01b8152600490fd5b604051630a16416960e31b8152600490fd5b50346103015780600319360112610301576020600454604051908152f35b50346103015760203660031901126103015760406060916004358152601d6020522080549060ff600260018301549201541690604051928352602083015215156040820152f35b50346103015760203660031901126103015760406020916004358152601b83522054604051908152f35b503461030157600319606036820112611e7b576004356001600160401b036024358181116106cc57611b1490369060040161335b565b906044359081116106cc57611b2d90369060040161335b565b6001600160a01b0393307f00000000000000000000000000000000000000000000000000000000000000008616146106ba57838652602092602484526040872092835487811615611e695760c01c60ff16611e57578588527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808652604089205415611e4557868952855260408820926040518085888297549384815201908c52888c20928c5b8a828210611e2f57505050611beb92500385613191565b82519384870194858811611e1b57604001809511611e075790869160405180865197858801988087840190611c20918c613254565b82019086820152038481018252604001611c3a9082613191565b8b8b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541692604051968795869485936378542ead60e01b8552600485016060905260648501611c8991613f17565b82858203016024860152611c9c91613275565b90838203016044840152611caf91613275565b03925af1908115610e28578891611dda575b5015611dc857604051857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8980a284825103611db95750808491518101031261061357519363ffffffff808616809603611db5577f587be745b3e6e99abe4b74713957883e3560018c40f02cb2fe96cbffea3ae02493836040945484600160c01b60ff60c01b1983161791828455168a52602383528380878c2054169160a01c1611611d7e575b549184519788528260a01c16908701521693a380f35b6022825284892063ffffffff199089828254161790558154908582168b526023845284878c209260a01c1690825416179055611d68565b8680fd5b6325c4024f60e11b8152600490fd5b60405163cf6c44e960e01b8152600490fd5b611dfa9150853d8711611e00575b611df28183613191565b810190613b12565b5f611cc1565b503d611de8565b634e487b7160e01b8a52601160045260248afd5b634e487b7160e01b8b52601160045260248bfd5b855484526001958601958a955093019201611bd4565b60405163d66ca67560e01b8152600490fd5b604051632b5119b160e01b8152600490fd5b6040516325c4024f60e11b8152600490fd5b5080fd5b503461030157602036600319011261030157604090600435815260266020522060018060a01b0380825416906001830154169160028101546004611ec5600384016131b2565b92015491611f006001600160401b039160ff8560801c169360405197889788526020880152604087015260e0606087015260e0860190613275565b92818116608086015260401c1660a0840152611f1b816132f1565b60c08301520390f35b50346103015780600319360112610301576020601954604051908152f35b5034610301576020366003190112610301576020906040906001600160a01b03611f6a6130e4565b168152600583522054604051908152f35b5034610301578060031936011261030157602c546040516001600160a01b039091168152602090f35b503461030157806003193601126103015760206040517f829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d46368152f35b5034610301578060031936011261030157602063ffffffff60275416604051908152f35b50346103015760403660031901126103015760206004356120226130fa565b5f8281526002845260408082206001600160a01b0393841680845290865291205460ff1692831561205b575b5050506040519015158152f35b5f80516020614400833981519152149250908261207d575b505082808061204e565b5f54161490508280612073565b50346103015780600319360112610301576020600954604051908152f35b5034610301578060031936011261030157546040516001600160a01b039091168152602090f35b5034610301576020366003190112610301576001600160a01b03600435307f00000000000000000000000000000000000000000000000000000000000000008316146106ba5761211d6135c7565b61212681613743565b9180600184015416331480156121ce575b80156121b5575b156121a35761214f818454166138c4565b61216181845416600285015490613932565b60048301805460ff60801b1916600360801b1790559154339216907f71fb7e03c3a816f24a456b8c577c37a39e1beda6e8933b834d02d3aeaa652b108480a480f35b604051637108d5c360e01b8152600490fd5b506001600160401b03600484015460401c16421161213e565b50808354163314801561213757506001600160401b036004840154164210612137565b503461030157602036600319011261030157612268906040906001600160a01b0361221a6130e4565b168152601c6020522061178561222f826131b2565b9161223c600182016131b2565b612276612253600360ff60028601541694016131b2565b91604051968796608088526080880190613275565b908682036020880152613275565b91612280816132f1565b60408501528382036060850152613275565b503461030157806003193601126103015760206040515f805160206144008339815191528152f35b503461030157806003193601126103015760206040517f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f58152f35b503461030157806003193601126103015760206040517f2e8b98eef02e8df3bd27d1270ded3bea3d14db99c5234c7b14001a7fff957bcc8152f35b50346103015760203660031901126103015760406020916004358152601e83522054604051908152f35b50346103015780600319360112610301576020601454604051908152f35b5034610301578060031936011261030157602060ff600354166040519015158152f35b5034610301576020366003190112610301576020906040906001600160a01b036123c36130e4565b168152600683522054604051908152f35b503461030157602080600319360112611e7b576001600160a01b0390600435307f00000000000000000000000000000000000000000000000000000000000000008416146106ba576124246135c7565b61242d81613743565b918383541633036121a357600793845486526008825260ff604087205416610685577f755084f25854c316eafc4cb3df6808b98075a1b398e39576fcfaff44bc81159f9160409160018601906124858183541661377e565b6125038183541661249c60028a0191825490613932565b89548b52601085526124b3868c2054825490613982565b6124bd308261424a565b8a548c5260108652868c205589548b52601185526124e0868c2054825490613982565b6124ea308261424a565b8a548c5260118652868c20555461168160038a016131b2565b60048701805460ff60801b1916600160811b1790556009548190612526906133f8565b928360095554169654169654918351928352820152a480f35b50346103015760203660031901126103015760406080916004358152601860205220805460ff8116916001808060a01b039101548160ff8260a01c169360405195612589816132e7565b865260081c1660208501521660408301526125a38161329a565b6060820152f35b503461066f575f36600319011261066f576001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba576125f56135c7565b335f5260206006815261260f60405f20546004549061370b565b421061296557335f526021815263ffffffff8060405f205416906023835260058160405f205416018181116129515716811061293f576040519361265285613176565b600190600186528386019084368337335f5284805260405f205487511561292b5782527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00805493825f805160206143c0833981519152541698893b1561066f57604051637d6e912360e11b81526004810189905260249a81806126d78e820186613f17565b03815a5f948591f18015610e9957612918575b50837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561291457604051633263b83b60e01b8152600481018890526060818d0152908a9082908183816127456064820189613f17565b6356787ef560e11b604483015203925af1801561067a57908a916128fc575b508690527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180895260408a20546128ea57868a528852604089209051906001600160401b03958683116128d757600160401b83116128d75781548383558084106128b0575b50908a52888a208a5b83811061289f5750505050506127e881546133f8565b905560405191606083019081118382101761288c579660069697604052338352858301918583526040840191898352858a5287526040892093511683549263ffffffff60a01b905160a01b169160ff60c01b9051151560c01b169266ffffffffffffff60c81b1617171790556040519182527f971d36640a9ef360d3452ca068fdaec9c342eab8cbae1410dd6c39555724803b833393a33383525242604082205580f35b87634e487b7160e01b5f5260416004525ffd5b825182820155918a019184016127d2565b84848c8e8681522092830192015b8281106128cc5750506127c9565b5f81550185906128be565b634e487b7160e01b8b5260416004528b8bfd5b604051633f06d22b60e01b8152600490fd5b61290590613148565b61291057885f612764565b8880fd5b8980fd5b612923919950613148565b5f975f6126ea565b634e487b7160e01b5f52603260045260245ffd5b604051631227865760e01b8152600490fd5b634e487b7160e01b5f52601160045260245ffd5b60405163aa9a98df60e01b8152600490fd5b3461066f57602036600319011261066f576001600160a01b036129986130e4565b165f526022602052602063ffffffff60405f205416604051908152f35b3461066f57602036600319011261066f5760206129d86129d36130e4565b6133ba565b63ffffffff60405191168152f35b3461066f5760208060031936011261066f576004356001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba57600161141d91612a3a6135c7565b612a43846135e5565b835f5260178552612ae760405f20546018875260405f20926015885260405f2091612a70828454166138c4565b61144a82612ac78b89870194612a88848754166138c4565b8c5f5260178252600a612aa36113c560405f20548094613e93565b92858a54165f5252612aba60405f20548093613e93565b9b8c926113ef308561424a565b94612ad2308761424a565b8a5f5260178c528560405f205554168461424a565b805460ff1916600217815501805460ff60a01b1916600160a01b17905560408051600181526127109481019490945283015233915f805160206143e083398151915290606090a3005b3461066f57602036600319011261066f576001600160a01b03612b516130e4565b165f52600d602052602060405f2054604051908152f35b3461066f57602036600319011261066f576004355f526024602052606060405f205460ff6040519160018060a01b038116835263ffffffff8160a01c16602084015260c01c1615156040820152f35b3461066f57612bc5366132b8565b91906001600160a01b0390307f00000000000000000000000000000000000000000000000000000000000000008316146106ba57612c016135c7565b825f526020936015855260405f20600260ff600483015416612c228161329a565b03612d6b5783808254163314159182612d59575b5050611a2b57835f526018855260ff60405f205416612c54816132e7565b612d475760405160808101938185106001600160401b03861117610dd8577f9b58afa035c5fa58f85c5a54b65bd3562d5aa7679e973bc1404fe25e8babab21946040526001825260ff87830191338352600160408501945f865260608101945f86528a5f5260188c5260405f20915190612ccd826132e7565b612cd6826132e7565b8254906101008560a81b03905160081b16916affffffffffffffffffffff60a81b96879116911617178155019351169083549251612d138161329a565b612d1c8161329a565b60ff60a01b9060a01b16921617179055612d42604051928392878452339784019161339a565b0390a3005b6040516374e9bddf60e11b8152600490fd5b60019192500154163314158387612c36565b604051630f931b6b60e31b8152600490fd5b3461066f575f36600319011261066f57602063ffffffff600b5460081c16604051908152f35b3461066f57602036600319011261066f576001600160a01b03612dc46130e4565b165f526023602052602063ffffffff60405f205416604051908152f35b3461066f57602036600319011261066f576004355f52601560205260405f2060018060a01b03808254169060018301541691612e5460028201549160ff6004612e2c600384016131b2565b920154169260405195869586526020860152604085015260a0606085015260a0840190613275565b90612e5e8161329a565b60808301520390f35b3461066f57602036600319011261066f576001600160a01b03612e886130e4565b165f526021602052602063ffffffff60405f205416604051908152f35b3461066f57612eb3366130ae565b6001600160a01b03939291307f00000000000000000000000000000000000000000000000000000000000000008616146106ba5761141d9261183f612f0692600194612efd6135c7565b6103ef886135e5565b93835f52612f2e6020956018875260405f20926015885260405f2091612a70828454166138c4565b600260ff1982541617815501600160a11b60ff60a01b198254161790555f604051936002855284015260408301525f805160206143e083398151915260603393a3005b3461066f575f36600319011261066f57602063ffffffff600b5460381c16604051908152f35b3461066f5760208060031936011261066f576004356001600160a01b03307f00000000000000000000000000000000000000000000000000000000000000008216146106ba57600161141d91612feb6135c7565b612ff4846135e5565b613020612fff613dee565b855f526018875260405f20926015885260405f2091612a70828454166138c4565b805460ff1916600217815501805460ff60a01b1916600160a21b17905560408051600481525f9481019490945283015233915f805160206143e083398151915290606090a3005b3461066f575f36600319011261066f576020906007548152f35b9181601f8401121561066f578235916001600160401b03831161066f576020838186019501011161066f57565b606060031982011261066f576004359160243591604435906001600160401b03821161066f576130e091600401613081565b9091565b600435906001600160a01b038216820361066f57565b602435906001600160a01b038216820361066f57565b90600182811c9216801561313e575b602083101461312a57565b634e487b7160e01b5f52602260045260245ffd5b91607f169161311f565b6001600160401b038111610dd857604052565b60a081019081106001600160401b03821117610dd857604052565b604081019081106001600160401b03821117610dd857604052565b90601f801991011681019081106001600160401b03821117610dd857604052565b9060405191825f82546131c481613110565b908184526020946001916001811690815f1461323257506001146131f4575b5050506131f292500383613191565b565b5f90815285812095935091905b81831061321a5750506131f293508201015f80806131e3565b85548884018501529485019487945091830191613201565b925050506131f294925060ff191682840152151560051b8201015f80806131e3565b5f5b8381106132655750505f910152565b8181015183820152602001613256565b9060209161328e81518092818552858086019101613254565b601f01601f1916010190565b600511156132a457565b634e487b7160e01b5f52602160045260245ffd5b90604060031983011261066f5760043591602435906001600160401b03821161066f576130e091600401613081565b600311156132a457565b600411156132a457565b3461066f575f36600319011261066f57602060405160058152f35b9291926001600160401b038211610dd8576040519161333f601f8201601f191660200184613191565b82948184528183011161066f578281602093845f960137010152565b9080601f8301121561066f5781602061337693359101613316565b90565b6040519061338682613176565b600582526427ba3432b960d91b6020830152565b908060209392818452848401375f828201840152601f01601f1916010190565b6001600160a01b03165f9081526029602052604090205460ff16156133ec57602860205263ffffffff60405f20541690565b63ffffffff6027541690565b5f1981146129515760010190565b6001600160a01b03165f9081527fbc6350e876def78ede4f4adb4f384e8e4d279ac44761815b1f1e9a982ed1b3be602052604090205460ff1680156134485790565b505f90565b6001600160a01b039081165f8181527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc5602052604090205460ff1691821561349457505090565b5f541614919050565b90926080926133769694835260208301526040820152816060820152019161339a565b91909182516001600160401b038111610dd8576134dd8254613110565b601f8111613582575b50602080601f83116001146135215750819293945f92613516575b50508160011b915f199060031b1c1916179055565b015190505f80613501565b90601f19831695845f5260205f20925f905b88821061356a57505083600195969710613552575b505050811b019055565b01515f1960f88460031b161c191690555f8080613548565b80600185968294968601518155019501930190613533565b825f5260205f20601f830160051c810191602084106135bd575b601f0160051c01905b8181106135b257506134e6565b5f81556001016135a5565b909150819061359c565b60ff600354166135d357565b604051633b3b4caf60e21b8152600490fd5b6001600160a01b03906001906135fa90613c2d565b015416330361360557565b6040516342cee62760e11b8152600490fd5b60206136679260018060a01b0392835f805160206143a08339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613275565b6004606483015203925af1918215610e99575f926136d7575b505f805160206143c08339815191525416803b1561066f57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610e99576136ce575090565b61337690613148565b9091506020813d602011613703575b816136f360209383613191565b8101031261066f5751905f613680565b3d91506136e6565b9190820180921161295157565b6001600160a01b03165f9081526005602052604090205460045461373b9161370b565b421061296557565b5f52602660205260405f2090600160ff600484015460801c16613765816132f1565b0361376c57565b60405163716d132760e01b8152600490fd5b60018060a01b03811690815f526020600d8152604091825f2054801580156138b5575b6138a757600d929161380b91600c54808210613833575b50600b54600c5487519163ffffffff9060ff81166137d58561315b565b6137de816132e7565b8452818160081c168885015261ffff8160281c168a85015260381c16606083015260808201524292613f4a565b600160ff600b541661381c816132e7565b0361382d575042935b5f52525f2055565b93613825565b8651613895926138428261315b565b600e5460ff8116613852816132e7565b835263ffffffff90818160081c168985015261ffff8160281c168b85015260381c166060830152600f54908160808401528181105f1461389f5750905b84613f4a565b50600c545f6137b8565b90509061388f565b5050600d90525f2042905550565b50600a8352835f2054156137a1565b60018060a01b03811690815f526020600d8152604091825f205480158015613923575b6138a757600d929161391a91600c548082106138335750600b54600c5487519163ffffffff9060ff81166137d58561315b565b935f52525f2055565b50600a8352835f2054156138e7565b6114176131f292610bfb60018060a01b038416805f52602a60205260405f20549061397061396a6139638487613e93565b8094613d3d565b87614226565b5f52600a60205260405f205492613d3d565b908115613a25575b8015613a13575b602090606460018060a01b035f805160206143a08339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b90506020813d602011613a0b575b816139ff60209383613191565b8101031261066f575190565b3d91506139f2565b506020613a1e613dee565b9050613991565b9050613a2f613dee565b9061398a565b9060075491825f5260209260128452604092835f20928051868201209360138752855f20855f528752855f2054918215613a96575b5050613a769250613982565b92613a81308561424a565b6007545f5260138152825f20915f52525f2055565b8154946007861015613add575b5082613a6a57600160401b851015610dd8576001850180835585101561292b57613a7694613ad6925f52885f20016134c0565b5f80613a6a565b9550509050613aea613379565b868151910120935f5260138652845f20845f528652845f205490613b0c613379565b5f613aa3565b9081602091031261066f5751801515810361066f5790565b602c546001600160a01b0390811680151593929084613b4b575b5050505090565b602093945090604491836040519687958694636c85cf6760e01b86521660048501521660248301525afa908115610e99575f91613b8d575b505f808080613b44565b613ba6915060203d602011611e0057611df28183613191565b5f613b83565b6001600160401b03916020918015613c1b575b5f805160206143a083398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610e99575f916139e4575090565b506064613c26613e40565b9050613bbf565b5f52601860205260405f2090600160ff835416613c49816132e7565b03612d4757565b335f9081527fffc59653b721e824589ac88bc65eee28eeaa6ba28646467f2b90c021e548765260205260409020547f829b824e2329e205435d941c9f13baf578548505283d29261236d8e6596d46369060ff168015613cb2575b156108e85750565b505f613caa565b908115613d2d575b8015613d1b575b602090606460018060a01b035f805160206143a08339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b506020613d26613dee565b9050613cc8565b9050613d37613dee565b90613cc1565b908115613db1575b8015613d9f575b602090606460018060a01b035f805160206143a08339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b506020613daa613dee565b9050613d4c565b9050613dbb613dee565b90613d45565b6001600160a01b0381165f908152600a602052604090208290556131f291613de9308261424a565b61424a565b5f805160206143a083398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610e99575f916139e4575090565b5f805160206143a083398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610e99575f916139e4575090565b908115613f07575b8015613ef5575b602090606460018060a01b035f805160206143a08339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af1908115610e99575f916139e4575090565b506020613f00613dee565b9050613ea2565b9050613f11613dee565b90613e9b565b9081518082526020808093019301915f5b828110613f36575050505090565b835185529381019392810192600101613f28565b91928151613f57816132e7565b613f60816132e7565b15801561421c575b61421557815191613f78836132e7565b613f81836132e7565b60018093146141925763ffffffff6060820151166201518091828202938285048414831517156129515787810390811161295157841561417e57849004958615958615613fe2575b505050840202928304141715612951576133769161370b565b80620f4240935f925b614111575b50505061401c5f60018060a01b0393848416948583526020938492600a845261130660408620546142b1565b9081156140fd575b6064905f805160206143a08339815191525416916040519485938492635a53accb60e01b84526004840152620f42406024840152600160f81b60448401525af1908115610e99575f916140b0575b507f4e83af82c5a648a31defb3f858ff57dd122c5ea32a02125a3bbbe9a0988789c7926114176140a192614304565b604051888152a25f8080613fc9565b90508181813d83116140f6575b6140c78183613191565b8101031261066f57517f4e83af82c5a648a31defb3f858ff57dd122c5ea32a02125a3bbbe9a0988789c7614072565b503d6140bd565b90506064614109613e40565b919050614024565b9091938985108061416c575b1561416657604082015161ffff916127109183168203838111612951576001600160401b03938491169116029182169182036129515761415e9104946133f8565b919081613feb565b93613ff0565b506001600160401b038116151561411d565b634e487b7160e01b5f52601260045260245ffd5b63ffffffff919493925060200151166201518090818102918183041490151715612951576141c0908361370b565b831061420f5760207f8ce2a1dde142992e5aa366c9e887bf243bb2aa949347eb228b6d977cc13030d8916141fb6141f5613dee565b82613dc1565b6040519384526001600160a01b031692a290565b50905090565b9250505090565b5080841015613f68565b6001600160a01b0381165f908152602a602052604090208290556131f291613de930825b5f805160206143c0833981519152546001600160a01b031691823b1561066f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610e99576142a85750565b6131f290613148565b5f805160206143a0833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610e99575f916139e4575090565b60205f91604460018060a01b035f805160206143a083398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af1908115610e99575f916139e4575090565b5f805160206143a083398151915254604051630f51ccfb60e41b81526004810192909252602090829060249082905f906001600160a01b03165af1908115610e99575f916139e457509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970065383f22c3841c720465846fc44cb82aa83b23e9466f6d6959e43903f77cb340a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c6343000818000a";
+
+type TimeBankFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TimeBankFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TimeBankFHE__factory extends ContractFactory {
+  constructor(...args: TimeBankFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      TimeBankFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): TimeBankFHE__factory {
+    return super.connect(runner) as TimeBankFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TimeBankFHEInterface {
+    return new Interface(_abi) as TimeBankFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): TimeBankFHE {
+    return new Contract(address, _abi, runner) as unknown as TimeBankFHE;
+  }
+}
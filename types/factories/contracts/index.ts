@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as timeBankFheSol from "./Time_Bank_FHE.sol";
+export { TimeBankCommunities__factory } from "./TimeBankCommunities__factory";
+export { TimeBankExtension__factory } from "./TimeBankExtension__factory";
+export { TimeBankStorage__factory } from "./TimeBankStorage__factory";
@@ -22,5 +22,11 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { TimeBankFHE } from "./contracts/Time_Bank_FHE.sol/TimeBankFHE";
+export { TimeBankFHE__factory } from "./factories/contracts/Time_Bank_FHE.sol/TimeBankFHE__factory";
+export type { TimeBankCommunities } from "./contracts/TimeBankCommunities";
+export { TimeBankCommunities__factory } from "./factories/contracts/TimeBankCommunities__factory";
+export type { TimeBankExtension } from "./contracts/TimeBankExtension";
+export { TimeBankExtension__factory } from "./factories/contracts/TimeBankExtension__factory";
+export type { TimeBankStorage } from "./contracts/TimeBankStorage";
+export { TimeBankStorage__factory } from "./factories/contracts/TimeBankStorage__factory";